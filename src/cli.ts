@@ -1,17 +1,32 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { Command, InvalidArgumentError, Option } from 'commander';
+import { readFileSync } from 'fs';
+import { join } from 'path';
 import { RpcClient } from './rpc/RpcClient';
+import { TransactionCache } from './rpc/TransactionCache';
+import { CLUSTER_ENDPOINTS, CLUSTER_NAMES } from './rpc/clusters';
+import { ClusterName, CommitmentLevel } from './rpc/types';
+import { decodeWireTransaction } from './rpc/wireTransaction';
+import { loadSavedTransaction } from './rpc/savedTransaction';
 import { TransactionParser } from './parser/TransactionParser';
 import { TokenProgramDecoder } from './parser/TokenProgramDecoder';
 import { SystemProgramDecoder } from './parser/SystemProgramDecoder';
 import { MetaplexDecoder } from './parser/decoders/MetaplexDecoder';
+import { ComputeBudgetDecoder } from './parser/decoders/ComputeBudgetDecoder';
+import { AssociatedTokenDecoder } from './parser/decoders/AssociatedTokenDecoder';
+import { JupiterDecoder } from './parser/decoders/JupiterDecoder';
+import { IdlDecoder } from './parser/decoders/IdlDecoder';
+import { InstructionDecoder } from './parser/InstructionDecoder';
 import { HumanReadableFormatter } from './formatter/HumanReadableFormatter';
-import { JsonFormatter } from './formatter/JsonFormatter';
+import { JsonFormatter, jsonReplacer } from './formatter/JsonFormatter';
+import { NdjsonFormatter } from './formatter/NdjsonFormatter';
 import { TransactionController } from './controller/TransactionController';
+import { BatchController, BatchSummary } from './controller/BatchController';
 import { isValidSignature } from './utils/addressFormatter';
 import {
   getRecentTransactions,
+  findSignatureCluster,
   filterInterestingTransactions,
   getRandomTransaction,
   INTERESTING_ADDRESSES,
@@ -20,20 +35,484 @@ import {
   scoreTransactions,
   filterByScore,
   filterByTags,
+  createCustomRule,
+  CustomRuleConfig,
+  DEFAULT_RULES,
   ScoredTransaction,
 } from './utils/interestingRules';
-import { Connection } from '@solana/web3.js';
 import { displayLogo } from './utils/logo';
 import { TxLensError, ErrorCode } from './utils/errors';
+import { RateLimiter } from './utils/rateLimiter';
+import { AddressBook } from './utils/addressBook';
+import { TokenRegistry } from './tokens/TokenRegistry';
+import { TokenMetadataCache } from './tokens/TokenMetadataCache';
 import { createErrorFormatter } from './utils/errorFormatter';
+import {
+  loadConfig,
+  resolveProfile,
+  getConfigValue,
+  setConfigValue,
+  parseLabelFile,
+  updateLabels,
+  globalConfigPath,
+  PROJECT_CONFIG_FILE,
+  CacheSettings,
+  ColorMode,
+} from './config';
 import chalk from 'chalk';
 
-const DEFAULT_RPC_ENDPOINT = 'https://api.mainnet-beta.solana.com';
+const DEFAULT_RATE_LIMIT = 10;
 
 interface CLIOptions {
-  rpc?: string;
+  profile?: string;
+  rpc?: string[];
+  cluster?: ClusterName;
+  commitment?: CommitmentLevel;
   json?: boolean;
   debug?: boolean;
+  idl?: string[];
+  idlDir?: string;
+  logs?: boolean;
+  raw?: string | boolean;
+  input?: string;
+  cache?: boolean;
+  rateLimit?: number;
+  tokenMetadata?: boolean;
+  /** Settings below come only from the config profile */
+  color?: ColorMode;
+  idlDirs?: string[];
+  labels?: Record<string, string>;
+  rules?: CustomRuleConfig[];
+  cacheSettings?: CacheSettings;
+  tokenLists?: string[];
+}
+
+interface BatchCLIOptions extends CLIOptions {
+  file?: string;
+  concurrency: number;
+}
+
+interface FindCLIOptions extends CLIOptions {
+  address?: string;
+  program?: string;
+  limit: string;
+  minScore: string;
+  tag?: string[];
+  successful: boolean;
+  failed: boolean;
+  random: boolean;
+  decodeTop: boolean;
+}
+
+/** Color setting of the active profile, read by handleError */
+let colorMode: ColorMode = 'auto';
+
+/**
+ * Collect repeatable option values into an array
+ */
+function collect(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Fill in options the user did not give on the command line from the active
+ * config profile. Flags always win; --cluster on the command line also
+ * overrides the profile's RPC endpoints.
+ * @throws TxLensError if a config file is invalid or the profile does not exist
+ */
+function applyProfile<T extends CLIOptions>(options: T, command: Command): T {
+  const { config } = loadConfig();
+  const { profile } = resolveProfile(config, options.profile);
+  const fromCli = (key: string) => command.getOptionValueSource(key) === 'cli';
+
+  colorMode = profile.color || 'auto';
+  if (colorMode === 'never') {
+    chalk.level = 0;
+  } else if (colorMode === 'always' && chalk.level === 0) {
+    chalk.level = 1;
+  }
+
+  return {
+    ...options,
+    rpc: fromCli('rpc') || fromCli('cluster') ? options.rpc : profile.rpc ?? options.rpc,
+    cluster: fromCli('cluster') ? options.cluster : profile.cluster ?? options.cluster,
+    commitment: fromCli('commitment') ? options.commitment : profile.commitment ?? options.commitment,
+    json: fromCli('json') || !profile.output ? options.json : profile.output === 'json',
+    cache: fromCli('cache') ? options.cache : profile.cache?.enabled ?? options.cache,
+    tokenMetadata: fromCli('tokenMetadata')
+      ? options.tokenMetadata
+      : profile.tokens?.resolveMetadata ?? options.tokenMetadata,
+    color: colorMode,
+    idlDirs: profile.idlDirs,
+    labels: profile.labels,
+    rules: profile.rules,
+    cacheSettings: profile.cache,
+    tokenLists: profile.tokens?.lists,
+  };
+}
+
+/**
+ * Whether human-readable output should be colored
+ */
+function useColors(): boolean {
+  return colorMode === 'always' || (colorMode === 'auto' && (process.stdout.isTTY || false));
+}
+
+/**
+ * Select the output formatter: JSON with --json, otherwise human-readable
+ */
+function createFormatter(options: CLIOptions): JsonFormatter | HumanReadableFormatter {
+  const addressBook = new AddressBook(options.labels);
+  return options.json
+    ? new JsonFormatter(addressBook)
+    : new HumanReadableFormatter(useColors(), { showLogs: options.logs, addressBook });
+}
+
+/**
+ * Config file and profile that `config set` and `label` changes are written to
+ */
+function configTarget(options: { profile?: string; local?: boolean }): { file: string; profileName: string } {
+  return {
+    file: options.local ? join(process.cwd(), PROJECT_CONFIG_FILE) : globalConfigPath(),
+    profileName: options.profile
+      || process.env.TXLENS_PROFILE
+      || loadConfig().config.defaultProfile
+      || 'default',
+  };
+}
+
+/**
+ * Build an IdlDecoder from --idl <program>=<file>, --idl-dir and the profile's IDL directories
+ * @returns The decoder, or undefined when no IDLs were supplied
+ */
+function createIdlDecoder(options: CLIOptions): IdlDecoder | undefined {
+  const directories = [...(options.idlDirs || []), ...(options.idlDir ? [options.idlDir] : [])];
+  if (!options.idl?.length && directories.length === 0) {
+    return undefined;
+  }
+
+  const decoder = new IdlDecoder();
+
+  for (const directory of directories) {
+    for (const error of decoder.loadDirectory(directory)) {
+      const file = error.details?.path ?? error.details?.source;
+      console.error(chalk.yellow(`Warning: skipped IDL file ${file}: ${error.message}`));
+    }
+  }
+
+  for (const entry of options.idl || []) {
+    // Accept either <program>=<file> or a bare <file> with an embedded address
+    const separator = entry.indexOf('=');
+    if (separator > 0) {
+      decoder.loadFile(entry.slice(separator + 1), entry.slice(0, separator));
+    } else {
+      decoder.loadFile(entry);
+    }
+  }
+
+  return decoder;
+}
+
+/**
+ * Create the instruction decoder chain. User-supplied IDLs take priority,
+ * then MetaplexDecoder for NFT/Metaplex txs and JupiterDecoder for swaps.
+ */
+function createDecoders(options: CLIOptions = {}): InstructionDecoder[] {
+  const idlDecoder = createIdlDecoder(options);
+
+  return [
+    ...(idlDecoder ? [idlDecoder] : []),
+    new MetaplexDecoder(),
+    new JupiterDecoder(),
+    new ComputeBudgetDecoder(),
+    new TokenProgramDecoder(),
+    new AssociatedTokenDecoder(),
+    new SystemProgramDecoder(),
+  ];
+}
+
+/**
+ * RPC endpoints from repeated --rpc options, in order of preference,
+ * or else the public endpoint of the --cluster (default: mainnet)
+ */
+function rpcEndpoints(options: CLIOptions): string[] {
+  return options.rpc?.length ? options.rpc : [CLUSTER_ENDPOINTS[options.cluster || 'mainnet']];
+}
+
+function profileOption(): Option {
+  return new Option('--profile <name>', 'Config profile to take defaults from (default: $TXLENS_PROFILE or the configured default)');
+}
+
+function clusterOption(): Option {
+  return new Option('--cluster <name>', 'Cluster to query when no --rpc is given (default: mainnet)')
+    .choices(CLUSTER_NAMES);
+}
+
+function commitmentOption(): Option {
+  return new Option('--commitment <level>', 'Commitment level to query at')
+    .choices(['processed', 'confirmed', 'finalized'])
+    .default('confirmed');
+}
+
+function jsonOption(): Option {
+  return new Option('--json', 'Output in JSON format').default(false);
+}
+
+function debugOption(): Option {
+  return new Option('--debug', 'Enable debug mode with detailed error information').default(false);
+}
+
+/**
+ * Add the profile and RPC endpoint options of commands that query the chain
+ */
+function addRpcOptions(command: Command): void {
+  command
+    .addOption(profileOption())
+    .option('--rpc <url>', 'RPC endpoint URL; repeat to add failover endpoints (default: mainnet)', collect)
+    .addOption(clusterOption())
+    .addOption(commitmentOption());
+}
+
+/**
+ * Add --json and --debug
+ */
+function addOutputOptions(command: Command): void {
+  command
+    .addOption(jsonOption())
+    .addOption(debugOption());
+}
+
+/**
+ * Add the IDL, cache and token metadata options of commands that decode transactions
+ */
+function addDecodeOptions(command: Command): void {
+  command
+    .option('--idl <program=file>', 'Anchor IDL to decode a program with (repeatable)', collect)
+    .option('--idl-dir <dir>', 'Directory of Anchor IDL JSON files')
+    .option('--no-cache', 'Always fetch from the RPC, bypassing the local transaction cache')
+    .option('--token-metadata', 'Look up tokens missing from the token lists in their on-chain metadata');
+}
+
+/**
+ * Warn when --cluster names a different cluster than the --rpc endpoint serves
+ */
+async function warnOnClusterMismatch(rpcClient: RpcClient, options: CLIOptions): Promise<void> {
+  if (!options.cluster || !options.rpc?.length) {
+    return;
+  }
+
+  const detected = await rpcClient.getCluster();
+  if (detected && detected !== options.cluster) {
+    console.error(chalk.yellow(
+      `Warning: --cluster ${options.cluster} was given, but the RPC endpoint serves ${detected}`
+    ));
+  }
+}
+
+/**
+ * When a signature is not found, look for it on the other public clusters
+ * and record where it was found so the error can point there
+ */
+async function addClusterHint(
+  error: unknown,
+  signature: string | undefined,
+  rpcClient?: RpcClient
+): Promise<void> {
+  if (!signature || !rpcClient || !TxLensError.isTxLensError(error) || error.code !== ErrorCode.TRANSACTION_NOT_FOUND) {
+    return;
+  }
+
+  const queried = await rpcClient.getCluster();
+  const found = await findSignatureCluster(signature, queried);
+  if (found && error.details) {
+    error.details.queriedCluster = queried;
+    error.details.foundOnCluster = found;
+  }
+}
+
+/**
+ * Create an RPC client over the configured endpoints. All of the command's
+ * requests share one rate limiter, and transactions are served from the
+ * on-disk cache unless --no-cache was given.
+ */
+function createRpcClient(options: CLIOptions): RpcClient {
+  return new RpcClient(rpcEndpoints(options), {
+    cache: options.cache === false ? undefined : createTransactionCache(options),
+    rateLimiter: new RateLimiter(options.rateLimit ?? DEFAULT_RATE_LIMIT),
+    commitment: options.commitment,
+  });
+}
+
+/**
+ * Open the transaction cache at the profile's location and size cap
+ */
+function createTransactionCache(options: CLIOptions): TransactionCache {
+  const maxSizeMb = options.cacheSettings?.maxSizeMb;
+  return new TransactionCache({
+    directory: options.cacheSettings?.directory,
+    maxBytes: maxSizeMb === undefined ? undefined : Math.floor(maxSizeMb * 1024 * 1024),
+  });
+}
+
+/**
+ * Token registry over the bundled and configured token lists. Unknown mints
+ * are looked up on-chain only with --token-metadata, and the results cached
+ * unless --no-cache was given.
+ */
+function createTokenRegistry(options: CLIOptions, rpcClient: RpcClient | undefined): TokenRegistry {
+  return new TokenRegistry({
+    lists: options.tokenLists,
+    rpcClient: options.tokenMetadata ? rpcClient : undefined,
+    cache: options.cache === false ? undefined : new TokenMetadataCache(options.cacheSettings?.directory),
+  });
+}
+
+/**
+ * Format a byte count for display
+ */
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Parse a non-negative integer option value
+ */
+function parseCount(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new InvalidArgumentError('Must be a non-negative integer.');
+  }
+  return parsed;
+}
+
+/**
+ * Read all of stdin as text
+ * @param missingMessage - Error message when nothing is piped in
+ * @throws TxLensError if stdin is an interactive terminal rather than a pipe
+ */
+async function readStdin(
+  missingMessage: string = 'No transaction data provided. Pass it as an argument or pipe it on stdin'
+): Promise<string> {
+  if (process.stdin.isTTY) {
+    throw new TxLensError(
+      missingMessage,
+      ErrorCode.MISSING_REQUIRED_ARGUMENT,
+      {}
+    );
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf-8').trim();
+}
+
+/**
+ * Decode a serialized transaction without fetching it from the chain.
+ * Lookup-table accounts are resolved, and token metadata looked up, only
+ * when an RPC endpoint or cluster was given on the command line or in the
+ * profile; otherwise nothing goes online.
+ */
+async function decodeRawTransaction(options: CLIOptions, useRpc: boolean): Promise<string> {
+  const encoded = typeof options.raw === 'string' && options.raw !== '-'
+    ? options.raw
+    : await readStdin();
+
+  const rpcClient = useRpc ? createRpcClient({ ...options, cache: false }) : undefined;
+
+  const rawTransaction = await decodeWireTransaction(
+    encoded,
+    rpcClient ? (lookups) => rpcClient.resolveLookupTables(lookups) : undefined
+  );
+
+  const parser = new TransactionParser(createDecoders(options));
+  const formatter = createFormatter(options);
+
+  const controller = new TransactionController(rpcClient, parser, formatter, createTokenRegistry(options, rpcClient));
+  return controller.processRawTransaction(rawTransaction);
+}
+
+/**
+ * Decode a getTransaction result saved to a file, or piped on stdin when the path is "-"
+ */
+async function decodeSavedTransaction(options: CLIOptions): Promise<string> {
+  const path = options.input as string;
+  let contents: string;
+  if (path === '-') {
+    contents = await readStdin();
+  } else {
+    try {
+      contents = readFileSync(path, 'utf-8');
+    } catch (error) {
+      throw new TxLensError(
+        `Cannot read transaction file: ${path}`,
+        ErrorCode.INVALID_TRANSACTION_FILE,
+        { path, originalError: error instanceof Error ? error.message : String(error) }
+      );
+    }
+  }
+
+  const rawTransaction = loadSavedTransaction(contents, path === '-' ? 'stdin' : path);
+
+  const parser = new TransactionParser(createDecoders(options));
+  const formatter = createFormatter(options);
+
+  const rpcClient = createRpcClient({ ...options, cache: false });
+  const controller = new TransactionController(rpcClient, parser, formatter, createTokenRegistry(options, rpcClient));
+  return controller.processRawTransaction(rawTransaction);
+}
+
+/**
+ * Collect batch signatures from arguments, a file, or stdin.
+ * Blank lines and lines starting with # are ignored.
+ */
+async function readBatchSignatures(args: string[], file?: string): Promise<string[]> {
+  let text = '';
+  if (file === '-' || (!file && args.length === 0)) {
+    text = await readStdin('No signatures provided. Pass them as arguments, with --file, or on stdin');
+  } else if (file) {
+    try {
+      text = readFileSync(file, 'utf-8');
+    } catch (error) {
+      throw new TxLensError(
+        `Cannot read signature file: ${file}`,
+        ErrorCode.MISSING_REQUIRED_ARGUMENT,
+        { path: file, originalError: error instanceof Error ? error.message : String(error) }
+      );
+    }
+  }
+
+  const fromText = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith('#'));
+
+  return [...args, ...fromText];
+}
+
+/**
+ * Print the end-of-batch summary to stderr, keeping stdout pure NDJSON
+ */
+function printBatchSummary(summary: BatchSummary): void {
+  const seconds = (summary.durationMs / 1000).toFixed(1);
+  const line = `Decoded ${summary.succeeded}/${summary.total} transactions in ${seconds}s`;
+
+  if (summary.failed === 0) {
+    console.error(chalk.green(line));
+    return;
+  }
+
+  console.error(chalk.yellow(`${line} (${summary.failed} failed)`));
+  for (const [code, count] of Object.entries(summary.errors)) {
+    console.error(chalk.dim(`  ${code}: ${count}`));
+  }
 }
 
 /**
@@ -51,22 +530,55 @@ async function main() {
   program
     .name('txlens')
     .description('Decode and explain Solana blockchain transactions')
-    .version('1.0.0');
+    .version('1.0.0')
+    // The default command shares option names with the subcommands; without
+    // this, the top level would consume e.g. `decode <sig> --profile dev`
+    .enablePositionalOptions();
 
   // Main decode command
-  program
+  const decode = program
     .command('decode')
-    .description('Decode a specific transaction by signature')
-    .argument('<signature>', 'Transaction signature to decode')
-    .option('--rpc <url>', 'Custom RPC endpoint URL', DEFAULT_RPC_ENDPOINT)
-    .option('--json', 'Output in JSON format', false)
-    .option('--debug', 'Enable debug mode with detailed error information', false)
-    .action(async (signature: string, options: CLIOptions) => {
+    .description('Decode a transaction by signature, from a saved RPC response (--input), or serialized (--raw)')
+    .argument('[signature]', 'Transaction signature to decode');
+  addRpcOptions(decode);
+  addOutputOptions(decode);
+  addDecodeOptions(decode);
+  decode
+    .option('--logs', 'Show the program log invocation trace', false)
+    .option('--raw [data]', 'Decode a serialized transaction (base64 or base58); reads stdin if no data is given')
+    .option('--input <file>', 'Decode a saved getTransaction JSON response; use - for stdin')
+    .action(async (signature: string | undefined, options: CLIOptions, command: Command) => {
       // Set debug environment variable if flag is provided
       if (options.debug) {
         process.env.TXLENS_DEBUG = '1';
       }
+      let rpcClient: RpcClient | undefined;
       try {
+        options = applyProfile(options, command);
+
+        // Offline decode of a serialized transaction
+        if (options.raw !== undefined) {
+          // --rpc and --cluster have no defaults, so they are set only when
+          // given on the command line or by the profile
+          const useRpc = Boolean(options.rpc?.length || options.cluster);
+          console.log(await decodeRawTransaction(options, useRpc));
+          process.exit(0);
+        }
+
+        // Decode a saved RPC response
+        if (options.input !== undefined) {
+          console.log(await decodeSavedTransaction(options));
+          process.exit(0);
+        }
+
+        if (!signature) {
+          throw new TxLensError(
+            'Transaction signature is required (or use --input or --raw)',
+            ErrorCode.MISSING_REQUIRED_ARGUMENT,
+            {}
+          );
+        }
+
         // Validate signature format
         if (!isValidSignature(signature)) {
           throw new TxLensError(
@@ -76,73 +588,300 @@ async function main() {
           );
         }
 
-        // Validate RPC URL format
-        const rpcEndpoint = options.rpc || DEFAULT_RPC_ENDPOINT;
-        try {
-          new URL(rpcEndpoint);
-        } catch {
-          throw new TxLensError(
-            'Invalid RPC URL format',
-            ErrorCode.INVALID_RPC_URL,
-            { url: rpcEndpoint }
-          );
-        }
-
-        // Initialize components (RpcClient will validate URL)
-        const rpcClient = new RpcClient(rpcEndpoint);
+        // Initialize components (RpcClient will validate URLs)
+        rpcClient = createRpcClient(options);
 
         // Validate RPC connection
         await rpcClient.validateConnection();
+        await warnOnClusterMismatch(rpcClient, options);
 
-        // Create parser with decoders (MetaplexDecoder has higher priority for NFT/Metaplex txs)
-        const decoders = [
-          new MetaplexDecoder(),
-          new TokenProgramDecoder(),
-          new SystemProgramDecoder(),
-        ];
-        const parser = new TransactionParser(decoders);
+        // Create parser with decoders
+        const parser = new TransactionParser(createDecoders(options));
 
         // Select formatter based on output format
-        const formatter = options.json
-          ? new JsonFormatter()
-          : new HumanReadableFormatter();
+        const formatter = createFormatter(options);
 
         // Create controller and process transaction
-        const controller = new TransactionController(rpcClient, parser, formatter);
+        const controller = new TransactionController(rpcClient, parser, formatter, createTokenRegistry(options, rpcClient));
         const output = await controller.processTransaction(signature);
 
         // Output result
         console.log(output);
         process.exit(0);
       } catch (error) {
+        await addClusterHint(error, signature, rpcClient);
         handleError(error, signature);
       }
     });
 
+  // Batch decode command - many signatures, NDJSON output
+  const decodeBatch = program
+    .command('decode-batch')
+    .description('Decode many transactions and stream them as NDJSON, one per line')
+    .argument('[signatures...]', 'Transaction signatures to decode');
+  addRpcOptions(decodeBatch);
+  addDecodeOptions(decodeBatch);
+  decodeBatch
+    .option('--file <path>', 'Read signatures from a file, one per line; use - for stdin')
+    .option('--concurrency <n>', 'Number of transactions fetched in parallel', parseCount, 4)
+    .option('--rate-limit <n>', 'Maximum RPC requests per second (0 for no limit)', parseCount, DEFAULT_RATE_LIMIT)
+    .addOption(debugOption())
+    .action(async (args: string[], options: BatchCLIOptions, command: Command) => {
+      // Set debug environment variable if flag is provided
+      if (options.debug) {
+        process.env.TXLENS_DEBUG = '1';
+      }
+      try {
+        options = applyProfile(options, command);
+        const signatures = await readBatchSignatures(args, options.file);
+        if (signatures.length === 0) {
+          throw new TxLensError(
+            'No signatures provided',
+            ErrorCode.MISSING_REQUIRED_ARGUMENT,
+            {}
+          );
+        }
+
+        const rpcClient = createRpcClient(options);
+        await rpcClient.validateConnection();
+
+        const parser = new TransactionParser(createDecoders(options));
+        const formatter = new NdjsonFormatter(new AddressBook(options.labels));
+        const controller = new BatchController(rpcClient, parser, {
+          concurrency: options.concurrency,
+          tokenRegistry: createTokenRegistry(options, rpcClient),
+        });
+
+        const summary = await controller.run(signatures, (result) => {
+          const line = 'error' in result
+            ? formatter.formatError(result.signature, result.error)
+            : formatter.format(result.transaction);
+          process.stdout.write(line + '\n');
+        });
+
+        printBatchSummary(summary);
+        process.exit(summary.failed > 0 ? 1 : 0);
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  // Cache command - inspect or empty the local transaction cache
+  const cacheCommand = program
+    .command('cache')
+    .description('Manage the local transaction cache');
+
+  cacheCommand
+    .command('stats')
+    .description('Show cache location, size and entry counts')
+    .addOption(profileOption())
+    .action((options: CLIOptions, command: Command) => {
+      try {
+        const stats = createTransactionCache(applyProfile(options, command)).stats();
+        console.log(`${chalk.bold('Directory:')} ${stats.directory}`);
+        console.log(`${chalk.bold('Entries:')}   ${stats.entries} (${stats.finalized} finalized, ${stats.confirmed} confirmed)`);
+        console.log(`${chalk.bold('Size:')}      ${formatBytes(stats.sizeBytes)} of ${formatBytes(stats.maxBytes)}`);
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  cacheCommand
+    .command('clear')
+    .description('Remove all cached transactions')
+    .addOption(profileOption())
+    .action((options: CLIOptions, command: Command) => {
+      try {
+        const removed = createTransactionCache(applyProfile(options, command)).clear();
+        console.log(`Removed ${removed} cached transaction${removed === 1 ? '' : 's'}`);
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  // Config command - inspect and change settings in the config files
+  const configCommand = program
+    .command('config')
+    .description(`Show or change settings in ${globalConfigPath()} or ${PROJECT_CONFIG_FILE}`);
+
+  configCommand
+    .command('list')
+    .description('Show the config files read and the merged profiles')
+    .action(() => {
+      try {
+        const { config, files } = loadConfig();
+        const active = resolveProfile(config);
+        console.log(`${chalk.bold('Files:')}          ${files.length > 0 ? files.join(', ') : '(none)'}`);
+        console.log(`${chalk.bold('Active profile:')} ${active.name}`);
+        console.log(JSON.stringify(config, null, 2));
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  configCommand
+    .command('get')
+    .description('Print one setting of the active profile')
+    .argument('<key>', 'Setting name, e.g. rpc, cluster, cache.maxSizeMb or labels.<address>')
+    .addOption(profileOption())
+    .action((key: string, options: CLIOptions) => {
+      try {
+        const { config } = loadConfig();
+        const { name, profile } = resolveProfile(config, options.profile);
+        const value = key === 'defaultProfile' ? config.defaultProfile : getConfigValue(profile, key);
+
+        if (value === undefined) {
+          console.error(`${key} is not set in profile ${name}`);
+          process.exit(1);
+        }
+        console.log(typeof value === 'string' ? value : JSON.stringify(value, null, 2));
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  configCommand
+    .command('set')
+    .description('Change one setting of a profile; a value of null removes it')
+    .argument('<key>', 'Setting name, e.g. rpc, cluster, cache.maxSizeMb or labels.<address>')
+    .argument('<value>', 'JSON value or plain string; lists also accept comma-separated values')
+    .addOption(profileOption())
+    .option('--local', `Write to ${PROJECT_CONFIG_FILE} in the current directory instead of the user config`, false)
+    .action((key: string, value: string, options: CLIOptions & { local: boolean }) => {
+      try {
+        const { file, profileName } = configTarget(options);
+        setConfigValue(file, profileName, key, value);
+        console.log(key === 'defaultProfile'
+          ? `Set ${key} in ${file}`
+          : `Set ${key} in profile ${profileName} (${file})`);
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  // Label command - maintain the address book of the active profile
+  const labelCommand = program
+    .command('label')
+    .description('Name addresses (treasury, hot wallets, program accounts) in all output');
+
+  labelCommand
+    .command('add')
+    .description('Label an address, replacing any existing label')
+    .argument('<address>', 'Account or program address')
+    .argument('<name>', 'Name to show in place of the address')
+    .addOption(profileOption())
+    .option('--local', `Write to ${PROJECT_CONFIG_FILE} in the current directory instead of the user config`, false)
+    .action((address: string, name: string, options: CLIOptions & { local: boolean }) => {
+      try {
+        const { file, profileName } = configTarget(options);
+        updateLabels(file, profileName, { [address]: name });
+        console.log(`Labelled ${address} as @${name} in profile ${profileName} (${file})`);
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  labelCommand
+    .command('remove')
+    .description('Remove the label of an address')
+    .argument('<address>', 'Labelled address')
+    .addOption(profileOption())
+    .option('--local', `Write to ${PROJECT_CONFIG_FILE} in the current directory instead of the user config`, false)
+    .action((address: string, options: CLIOptions & { local: boolean }) => {
+      try {
+        const { file, profileName } = configTarget(options);
+        updateLabels(file, profileName, { [address]: null });
+        console.log(`Removed the label of ${address} from profile ${profileName} (${file})`);
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  labelCommand
+    .command('import')
+    .description('Import labels from a JSON or CSV (address,name) file')
+    .argument('<file>', 'Label file; use - for stdin')
+    .addOption(profileOption())
+    .option('--local', `Write to ${PROJECT_CONFIG_FILE} in the current directory instead of the user config`, false)
+    .action(async (path: string, options: CLIOptions & { local: boolean }) => {
+      try {
+        let contents: string;
+        try {
+          contents = path === '-'
+            ? await readStdin('No labels provided. Pass a file or pipe one on stdin')
+            : readFileSync(path, 'utf-8');
+        } catch (error) {
+          if (TxLensError.isTxLensError(error)) {
+            throw error;
+          }
+          throw new TxLensError(
+            `Cannot read label file: ${path}`,
+            ErrorCode.INVALID_CONFIG,
+            { file: path, originalError: error instanceof Error ? error.message : String(error) }
+          );
+        }
+
+        const labels = parseLabelFile(contents, path === '-' ? 'stdin' : path);
+        const { file, profileName } = configTarget(options);
+        updateLabels(file, profileName, labels);
+
+        const count = Object.keys(labels).length;
+        console.log(`Imported ${count} label${count === 1 ? '' : 's'} into profile ${profileName} (${file})`);
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  labelCommand
+    .command('list')
+    .description('Show the labels of the active profile')
+    .addOption(profileOption())
+    .addOption(jsonOption())
+    .action((options: CLIOptions) => {
+      try {
+        const { config } = loadConfig();
+        const { labels = {} } = resolveProfile(config, options.profile).profile;
+
+        if (options.json) {
+          console.log(JSON.stringify(labels, null, 2));
+        } else if (Object.keys(labels).length === 0) {
+          console.log('No labels defined. Add one with: txlens label add <address> <name>');
+        } else {
+          for (const [address, name] of Object.entries(labels)) {
+            console.log(`${address}  ${chalk.cyan(`@${name}`)}`);
+          }
+        }
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
   // Find command - discover interesting transactions
-  program
+  const find = program
     .command('find')
-    .description('Find interesting transactions from known programs/addresses')
-    .option('--rpc <url>', 'Custom RPC endpoint URL', DEFAULT_RPC_ENDPOINT)
+    .description('Find interesting transactions from known programs/addresses');
+  addRpcOptions(find);
+  addOutputOptions(find);
+  addDecodeOptions(find);
+  find
     .option('--address <address>', 'Specific address to query')
     .option('--program <name>', 'Known program name (jupiter, orca, raydium, solend, token)')
     .option('--limit <number>', 'Number of transactions to fetch', '20')
     .option('--min-score <number>', 'Minimum interest score (default: 5)', '5')
     .option('--tag <tags...>', 'Filter by specific tags (whale_move, new_token, nft_mint, defi, etc)')
+    .option('--rate-limit <n>', 'Maximum RPC requests per second (0 for no limit)', parseCount, DEFAULT_RATE_LIMIT)
     .option('--successful', 'Only show successful transactions', false)
     .option('--failed', 'Only show failed transactions', false)
     .option('--random', 'Pick a random transaction and decode it', false)
     .option('--decode-top', 'Decode the most interesting transaction', false)
-    .option('--json', 'Output in JSON format', false)
-    .option('--debug', 'Enable debug mode with detailed error information', false)
-    .action(async (options: any) => {
+    .action(async (options: FindCLIOptions, command: Command) => {
       // Set debug environment variable if flag is provided
       if (options.debug) {
         process.env.TXLENS_DEBUG = '1';
       }
       try {
-        const rpcEndpoint = options.rpc || DEFAULT_RPC_ENDPOINT;
-        const connection = new Connection(rpcEndpoint, 'confirmed');
+        options = applyProfile(options, command);
+        const rpcClient = createRpcClient(options);
 
         // Determine which address to query
         let targetAddress: string;
@@ -172,7 +911,7 @@ async function main() {
         console.log(`Fetching ${limit} recent transactions for ${targetAddress}...\n`);
 
         // Fetch transactions
-        const transactions = await getRecentTransactions(connection, targetAddress, limit);
+        const transactions = await getRecentTransactions(rpcClient, targetAddress, limit);
 
         if (transactions.length === 0) {
           console.log('No transactions found.');
@@ -193,13 +932,7 @@ async function main() {
         console.log(`Analyzing ${filtered.length} transactions...\n`);
 
         // Parse and score all transactions
-        const rpcClient = new RpcClient(rpcEndpoint);
-        const decoders = [
-          new MetaplexDecoder(),
-          new TokenProgramDecoder(),
-          new SystemProgramDecoder(),
-        ];
-        const parser = new TransactionParser(decoders);
+        const parser = new TransactionParser(createDecoders(options));
 
         const parsedTransactions = [];
         for (const txInfo of filtered) {
@@ -213,8 +946,9 @@ async function main() {
           }
         }
 
-        // Score transactions
-        let scored = scoreTransactions(parsedTransactions);
+        // Score transactions, adding the profile's custom rules to the built-in ones
+        const rules = [...DEFAULT_RULES, ...(options.rules || []).map(createCustomRule)];
+        let scored = scoreTransactions(parsedTransactions, rules);
 
         // Apply filters
         const minScore = parseInt(options.minScore, 10);
@@ -237,10 +971,8 @@ async function main() {
           console.log(chalk.dim(`Tags: ${top.tags.join(', ')}`));
           console.log(chalk.dim(`Reasons: ${top.reasons.join(', ')}\n`));
 
-          const formatter = options.json
-            ? new JsonFormatter()
-            : new HumanReadableFormatter();
-          const controller = new TransactionController(rpcClient, parser, formatter);
+          const formatter = createFormatter(options);
+          const controller = new TransactionController(rpcClient, parser, formatter, createTokenRegistry(options, rpcClient));
 
           const output = await controller.processTransaction(top.transaction.signature);
           console.log(output);
@@ -256,10 +988,8 @@ async function main() {
           console.log(chalk.dim(`Tags: ${randomTx.tags.join(', ')}`));
           console.log(chalk.dim(`Reasons: ${randomTx.reasons.join(', ')}\n`));
 
-          const formatter = options.json
-            ? new JsonFormatter()
-            : new HumanReadableFormatter();
-          const controller = new TransactionController(rpcClient, parser, formatter);
+          const formatter = createFormatter(options);
+          const controller = new TransactionController(rpcClient, parser, formatter, createTokenRegistry(options, rpcClient));
 
           const output = await controller.processTransaction(randomTx.transaction.signature);
           console.log(output);
@@ -268,7 +998,7 @@ async function main() {
 
         // List scored transactions
         if (options.json) {
-          console.log(JSON.stringify(scored, null, 2));
+          console.log(JSON.stringify(scored, jsonReplacer, 2));
         } else {
           console.log(chalk.bold(`Found ${scored.length} interesting transaction(s):\n`));
 
@@ -306,12 +1036,13 @@ async function main() {
     });
 
   // Default command for backward compatibility
+  program.argument('[signature]', 'Transaction signature to decode');
+  addRpcOptions(program);
+  addOutputOptions(program);
+  addDecodeOptions(program);
   program
-    .argument('[signature]', 'Transaction signature to decode')
-    .option('--rpc <url>', 'Custom RPC endpoint URL', DEFAULT_RPC_ENDPOINT)
-    .option('--json', 'Output in JSON format', false)
-    .option('--debug', 'Enable debug mode with detailed error information', false)
-    .action(async (signature: string | undefined, options: CLIOptions) => {
+    .option('--logs', 'Show the program log invocation trace', false)
+    .action(async (signature: string | undefined, options: CLIOptions, command: Command) => {
       // Set debug environment variable if flag is provided
       if (options.debug) {
         process.env.TXLENS_DEBUG = '1';
@@ -321,7 +1052,10 @@ async function main() {
         return;
       }
 
+      let rpcClient: RpcClient | undefined;
       try {
+        options = applyProfile(options, command);
+
         // Validate signature format
         if (!isValidSignature(signature)) {
           throw new TxLensError(
@@ -331,45 +1065,28 @@ async function main() {
           );
         }
 
-        // Validate RPC URL format
-        const rpcEndpoint = options.rpc || DEFAULT_RPC_ENDPOINT;
-        try {
-          new URL(rpcEndpoint);
-        } catch {
-          throw new TxLensError(
-            'Invalid RPC URL format',
-            ErrorCode.INVALID_RPC_URL,
-            { url: rpcEndpoint }
-          );
-        }
-
-        // Initialize components (RpcClient will validate URL)
-        const rpcClient = new RpcClient(rpcEndpoint);
+        // Initialize components (RpcClient will validate URLs)
+        rpcClient = createRpcClient(options);
 
         // Validate RPC connection
         await rpcClient.validateConnection();
+        await warnOnClusterMismatch(rpcClient, options);
 
-        // Create parser with decoders (MetaplexDecoder has higher priority for NFT/Metaplex txs)
-        const decoders = [
-          new MetaplexDecoder(),
-          new TokenProgramDecoder(),
-          new SystemProgramDecoder(),
-        ];
-        const parser = new TransactionParser(decoders);
+        // Create parser with decoders
+        const parser = new TransactionParser(createDecoders(options));
 
         // Select formatter based on output format
-        const formatter = options.json
-          ? new JsonFormatter()
-          : new HumanReadableFormatter();
+        const formatter = createFormatter(options);
 
         // Create controller and process transaction
-        const controller = new TransactionController(rpcClient, parser, formatter);
+        const controller = new TransactionController(rpcClient, parser, formatter, createTokenRegistry(options, rpcClient));
         const output = await controller.processTransaction(signature);
 
         // Output result
         console.log(output);
         process.exit(0);
       } catch (error) {
+        await addClusterHint(error, signature, rpcClient);
         handleError(error, signature);
       }
     });
@@ -384,7 +1101,7 @@ function handleError(error: unknown, signature?: string): never {
   // Create error formatter with debug mode support
   const formatter = createErrorFormatter({
     debug: process.env.DEBUG === 'true' || process.env.TXLENS_DEBUG === '1',
-    useColors: process.stdout.isTTY,
+    useColors: useColors(),
   });
 
   // Format and display the error
@@ -395,6 +1112,14 @@ function handleError(error: unknown, signature?: string): never {
   if (signature && TxLensError.isTxLensError(error)) {
     if (error.code === ErrorCode.TRANSACTION_NOT_FOUND) {
       console.error(chalk.dim(`\nTransaction: ${signature}`));
+
+      if (error.details?.foundOnCluster) {
+        const queried = error.details.queriedCluster || 'the queried cluster';
+        console.error(chalk.yellow(
+          `\nThis signature exists on ${error.details.foundOnCluster}, not ${queried}. ` +
+          `Try: txlens decode ${signature} --cluster ${error.details.foundOnCluster}`
+        ));
+      }
     }
   }
 
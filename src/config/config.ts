@@ -0,0 +1,509 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join, resolve } from 'path';
+import { ClusterName, CommitmentLevel } from '../rpc/types';
+import { CLUSTER_NAMES } from '../rpc/clusters';
+import { CustomRuleConfig } from '../utils/interestingRules';
+import { TxLensError, ErrorCode } from '../utils/errors';
+
+export type OutputFormat = 'human' | 'json';
+export type ColorMode = 'auto' | 'always' | 'never';
+
+/**
+ * Transaction cache settings
+ */
+export interface CacheSettings {
+  enabled?: boolean;
+  directory?: string;
+  maxSizeMb?: number;
+}
+
+/**
+ * Token registry settings
+ */
+export interface TokenSettings {
+  /** Token list files (Solana token-list format), trusted like the bundled list */
+  lists?: string[];
+  /** Look up mints missing from the lists in their on-chain metadata */
+  resolveMetadata?: boolean;
+}
+
+/**
+ * Named set of defaults. Every field is optional; command-line flags win over it.
+ */
+export interface Profile {
+  /** RPC endpoints in order of preference */
+  rpc?: string[];
+  cluster?: ClusterName;
+  commitment?: CommitmentLevel;
+  output?: OutputFormat;
+  color?: ColorMode;
+  /** Directories of Anchor IDL JSON files */
+  idlDirs?: string[];
+  /** Address to user-defined name */
+  labels?: Record<string, string>;
+  /** Extra scoring rules for find */
+  rules?: CustomRuleConfig[];
+  cache?: CacheSettings;
+  tokens?: TokenSettings;
+}
+
+/**
+ * Contents of a config file
+ */
+export interface TxLensConfig {
+  /** Profile used when --profile is not given (default: "default") */
+  defaultProfile?: string;
+  profiles: Record<string, Profile>;
+}
+
+/**
+ * Merged configuration and the files it was read from
+ */
+export interface LoadedConfig {
+  config: TxLensConfig;
+  /** Files read, lowest precedence first */
+  files: string[];
+}
+
+export const PROJECT_CONFIG_FILE = '.txlensrc';
+
+const PROFILE_KEYS = ['rpc', 'cluster', 'commitment', 'output', 'color', 'idlDirs', 'labels', 'rules', 'cache', 'tokens'];
+const CACHE_KEYS = ['enabled', 'directory', 'maxSizeMb'];
+const TOKEN_KEYS = ['lists', 'resolveMetadata'];
+const ADDRESS_PATTERN = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+/**
+ * Per-user config file, following the XDG base directory convention
+ */
+export function globalConfigPath(): string {
+  return join(process.env.XDG_CONFIG_HOME || join(homedir(), '.config'), 'txlens', 'config.json');
+}
+
+/**
+ * Find the nearest .txlensrc in the directory or any of its parents
+ * @returns The path, or null if there is none
+ */
+export function findProjectConfig(directory: string = process.cwd()): string | null {
+  let current = resolve(directory);
+  for (;;) {
+    const candidate = join(current, PROJECT_CONFIG_FILE);
+    if (existsSync(candidate)) {
+      return candidate;
+    }
+    const parent = dirname(current);
+    if (parent === current) {
+      return null;
+    }
+    current = parent;
+  }
+}
+
+/**
+ * Load the per-user config, overlaid with the project config.
+ * Project profiles override per-user profiles field by field; labels and
+ * cache and token settings are merged key by key.
+ * @throws TxLensError if a config file is unreadable or invalid
+ */
+export function loadConfig(directory?: string): LoadedConfig {
+  const files = [globalConfigPath(), findProjectConfig(directory)].filter(
+    (file): file is string => file !== null && existsSync(file)
+  );
+
+  const config: TxLensConfig = { profiles: {} };
+  for (const file of files) {
+    const layer = readConfigFile(file);
+    if (layer.defaultProfile) {
+      config.defaultProfile = layer.defaultProfile;
+    }
+    for (const [name, profile] of Object.entries(layer.profiles)) {
+      config.profiles[name] = mergeProfiles(config.profiles[name] || {}, profile);
+    }
+  }
+
+  return { config, files };
+}
+
+/**
+ * Pick the active profile: --profile, then $TXLENS_PROFILE, then the
+ * configured default. A named profile must exist; the default may not.
+ * @throws TxLensError if an explicitly requested profile is not defined
+ */
+export function resolveProfile(config: TxLensConfig, name?: string): { name: string; profile: Profile } {
+  const requested = name || process.env.TXLENS_PROFILE;
+  const profileName = requested || config.defaultProfile || 'default';
+  const profile = config.profiles[profileName];
+
+  if (!profile && (requested || config.defaultProfile)) {
+    throw new TxLensError(
+      `Profile not found: ${profileName}`,
+      ErrorCode.INVALID_CONFIG,
+      { profile: profileName, available: Object.keys(config.profiles) }
+    );
+  }
+
+  return { name: profileName, profile: profile || {} };
+}
+
+/**
+ * Read and validate one config file. Relative paths in it are resolved
+ * against the file's directory.
+ * @throws TxLensError if the file is unreadable or invalid
+ */
+export function readConfigFile(file: string): TxLensConfig {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(file, 'utf-8'));
+  } catch (error) {
+    throw new TxLensError(
+      `Cannot read config file: ${file}`,
+      ErrorCode.INVALID_CONFIG,
+      { file, originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+
+  const config = validateConfig(raw, file);
+  for (const profile of Object.values(config.profiles)) {
+    if (profile.idlDirs) {
+      profile.idlDirs = profile.idlDirs.map((dir) => resolvePath(dir, dirname(file)));
+    }
+    if (profile.cache?.directory) {
+      profile.cache.directory = resolvePath(profile.cache.directory, dirname(file));
+    }
+    if (profile.tokens?.lists) {
+      profile.tokens.lists = profile.tokens.lists.map((list) => resolvePath(list, dirname(file)));
+    }
+  }
+  return config;
+}
+
+/**
+ * Check a parsed config document against the expected shape
+ * @throws TxLensError naming the offending key
+ */
+export function validateConfig(raw: unknown, file: string): TxLensConfig {
+  const fail = (key: string, message: string, value?: unknown): never => {
+    throw new TxLensError(
+      `Invalid config value for "${key}": ${message}`,
+      ErrorCode.INVALID_CONFIG,
+      { file, key, value }
+    );
+  };
+
+  if (!isObject(raw)) {
+    return fail('(root)', 'expected an object');
+  }
+
+  for (const key of Object.keys(raw)) {
+    if (key !== 'defaultProfile' && key !== 'profiles') {
+      fail(key, 'unknown setting');
+    }
+  }
+  if (raw.defaultProfile !== undefined && typeof raw.defaultProfile !== 'string') {
+    fail('defaultProfile', 'expected a profile name', raw.defaultProfile);
+  }
+
+  const profiles = raw.profiles ?? {};
+  if (!isObject(profiles)) {
+    return fail('profiles', 'expected an object of named profiles');
+  }
+
+  for (const [name, profile] of Object.entries(profiles)) {
+    validateProfile(profile, `profiles.${name}`, fail);
+  }
+
+  return {
+    defaultProfile: raw.defaultProfile as string | undefined,
+    profiles: profiles as Record<string, Profile>,
+  };
+}
+
+function validateProfile(
+  profile: unknown,
+  path: string,
+  fail: (key: string, message: string, value?: unknown) => never
+): void {
+  if (!isObject(profile)) {
+    return fail(path, 'expected an object');
+  }
+
+  for (const [key, value] of Object.entries(profile)) {
+    const at = `${path}.${key}`;
+    switch (key) {
+      case 'rpc':
+        if (!isStringArray(value) || value.length === 0) {
+          fail(at, 'expected a non-empty array of URLs', value);
+        }
+        for (const url of value as string[]) {
+          if (!/^https?:\/\//.test(url) || !isValidUrl(url)) {
+            fail(at, `not an HTTP(S) URL: ${url}`, value);
+          }
+        }
+        break;
+
+      case 'cluster':
+        if (!CLUSTER_NAMES.includes(value as ClusterName)) {
+          fail(at, `expected one of ${CLUSTER_NAMES.join(', ')}`, value);
+        }
+        break;
+
+      case 'commitment':
+        if (!['processed', 'confirmed', 'finalized'].includes(value as string)) {
+          fail(at, 'expected processed, confirmed or finalized', value);
+        }
+        break;
+
+      case 'output':
+        if (value !== 'human' && value !== 'json') {
+          fail(at, 'expected human or json', value);
+        }
+        break;
+
+      case 'color':
+        if (!['auto', 'always', 'never'].includes(value as string)) {
+          fail(at, 'expected auto, always or never', value);
+        }
+        break;
+
+      case 'idlDirs':
+        if (!isStringArray(value)) {
+          fail(at, 'expected an array of directories', value);
+        }
+        break;
+
+      case 'labels':
+        if (!isObject(value) || !Object.values(value).every((label) => typeof label === 'string' && label)) {
+          fail(at, 'expected an object mapping addresses to names', value);
+        }
+        for (const address of Object.keys(value as Record<string, string>)) {
+          if (!ADDRESS_PATTERN.test(address)) {
+            fail(`${at}.${address}`, 'not a base58 address');
+          }
+        }
+        break;
+
+      case 'rules':
+        if (!Array.isArray(value)) {
+          fail(at, 'expected an array of rules', value);
+        }
+        (value as unknown[]).forEach((rule, i) => validateRule(rule, `${at}[${i}]`, fail));
+        break;
+
+      case 'cache':
+        if (!isObject(value)) {
+          fail(at, 'expected an object', value);
+        }
+        for (const [cacheKey, setting] of Object.entries(value as Record<string, unknown>)) {
+          const cacheAt = `${at}.${cacheKey}`;
+          if (!CACHE_KEYS.includes(cacheKey)) {
+            fail(cacheAt, 'unknown setting');
+          }
+          if (cacheKey === 'enabled' && typeof setting !== 'boolean') {
+            fail(cacheAt, 'expected true or false', setting);
+          }
+          if (cacheKey === 'directory' && typeof setting !== 'string') {
+            fail(cacheAt, 'expected a directory', setting);
+          }
+          if (cacheKey === 'maxSizeMb' && (typeof setting !== 'number' || !(setting > 0))) {
+            fail(cacheAt, 'expected a positive number', setting);
+          }
+        }
+        break;
+
+      case 'tokens':
+        if (!isObject(value)) {
+          fail(at, 'expected an object', value);
+        }
+        for (const [tokenKey, setting] of Object.entries(value as Record<string, unknown>)) {
+          const tokenAt = `${at}.${tokenKey}`;
+          if (!TOKEN_KEYS.includes(tokenKey)) {
+            fail(tokenAt, 'unknown setting');
+          }
+          if (tokenKey === 'lists' && !isStringArray(setting)) {
+            fail(tokenAt, 'expected an array of token list files', setting);
+          }
+          if (tokenKey === 'resolveMetadata' && typeof setting !== 'boolean') {
+            fail(tokenAt, 'expected true or false', setting);
+          }
+        }
+        break;
+
+      default:
+        fail(at, `unknown setting (expected one of ${PROFILE_KEYS.join(', ')})`);
+    }
+  }
+}
+
+function validateRule(
+  rule: unknown,
+  path: string,
+  fail: (key: string, message: string, value?: unknown) => never
+): void {
+  if (!isObject(rule)) {
+    return fail(path, 'expected an object');
+  }
+  if (typeof rule.tag !== 'string' || !rule.tag) {
+    fail(`${path}.tag`, 'expected a tag name', rule.tag);
+  }
+  if (typeof rule.score !== 'number') {
+    fail(`${path}.score`, 'expected a number', rule.score);
+  }
+  for (const key of ['programs', 'accounts', 'instructionTypes', 'events']) {
+    if (rule[key] !== undefined && !isStringArray(rule[key])) {
+      fail(`${path}.${key}`, 'expected an array of strings', rule[key]);
+    }
+  }
+  if (rule.minSolMoved !== undefined && typeof rule.minSolMoved !== 'number') {
+    fail(`${path}.minSolMoved`, 'expected a number', rule.minSolMoved);
+  }
+  if (rule.status !== undefined && rule.status !== 'success' && rule.status !== 'failed') {
+    fail(`${path}.status`, 'expected success or failed', rule.status);
+  }
+  if (rule.reason !== undefined && typeof rule.reason !== 'string') {
+    fail(`${path}.reason`, 'expected a string', rule.reason);
+  }
+}
+
+/**
+ * Read a profile setting by dotted key (e.g. "cache.maxSizeMb", "labels.<address>")
+ */
+export function getConfigValue(profile: Profile, key: string): unknown {
+  let value: unknown = profile;
+  for (const part of splitKey(key)) {
+    if (!isObject(value)) {
+      return undefined;
+    }
+    value = value[part];
+  }
+  return value;
+}
+
+/**
+ * Change a setting in a config file and write it back.
+ * The value is parsed as JSON when possible, else taken as a string; list
+ * settings also accept a comma-separated string. A null value removes the key.
+ * "defaultProfile" is set at the top level; every other key within the profile.
+ * @throws TxLensError if the result does not validate
+ */
+export function setConfigValue(file: string, profileName: string, key: string, rawValue: string): void {
+  const value = parseConfigValue(key, rawValue);
+
+  updateConfigFile(file, (config) => {
+    if (key === 'defaultProfile') {
+      if (value === null) {
+        delete config.defaultProfile;
+      } else {
+        config.defaultProfile = value as string;
+      }
+      return;
+    }
+
+    const parts = splitKey(key);
+    let target: Record<string, any> = (config.profiles[profileName] = config.profiles[profileName] || {});
+    for (const part of parts.slice(0, -1)) {
+      target = target[part] = isObject(target[part]) ? target[part] : {};
+    }
+
+    const last = parts[parts.length - 1];
+    if (value === null) {
+      delete target[last];
+    } else {
+      target[last] = value;
+    }
+  });
+}
+
+/**
+ * Read a config file (or start an empty one), apply a change and write it
+ * back. Nothing is written unless the changed config validates.
+ * @throws TxLensError if the file is unreadable or the result is invalid
+ */
+export function updateConfigFile(file: string, update: (config: TxLensConfig) => void): void {
+  const config: TxLensConfig = existsSync(file) ? readRawConfig(file) : { profiles: {} };
+  config.profiles = config.profiles || {};
+
+  update(config);
+  validateConfig(config, file);
+
+  mkdirSync(dirname(file), { recursive: true });
+  writeFileSync(file, JSON.stringify(config, null, 2) + '\n');
+}
+
+/**
+ * Parse a value given on the command line for a setting
+ */
+function parseConfigValue(key: string, rawValue: string): unknown {
+  // Label names are always text, even if they look like numbers
+  if (key.startsWith('labels.') && rawValue !== 'null') {
+    return rawValue;
+  }
+  try {
+    return JSON.parse(rawValue);
+  } catch {
+    if (key === 'rpc' || key === 'idlDirs' || key === 'tokens.lists') {
+      return rawValue.split(',').map((item) => item.trim()).filter(Boolean);
+    }
+    return rawValue;
+  }
+}
+
+/**
+ * Read a config file without resolving relative paths, for rewriting
+ */
+function readRawConfig(file: string): TxLensConfig {
+  try {
+    const raw = JSON.parse(readFileSync(file, 'utf-8'));
+    return validateConfig(raw, file);
+  } catch (error) {
+    if (TxLensError.isTxLensError(error)) {
+      throw error;
+    }
+    throw new TxLensError(
+      `Cannot read config file: ${file}`,
+      ErrorCode.INVALID_CONFIG,
+      { file, originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
+
+function mergeProfiles(base: Profile, overlay: Profile): Profile {
+  return {
+    ...base,
+    ...overlay,
+    ...(base.labels || overlay.labels ? { labels: { ...base.labels, ...overlay.labels } } : {}),
+    ...(base.cache || overlay.cache ? { cache: { ...base.cache, ...overlay.cache } } : {}),
+    ...(base.tokens || overlay.tokens ? { tokens: { ...base.tokens, ...overlay.tokens } } : {}),
+  };
+}
+
+/**
+ * Split a dotted key; label keys are addresses and never contain dots,
+ * so "labels.<address>" is always two parts
+ */
+function splitKey(key: string): string[] {
+  return key.split('.').filter(Boolean);
+}
+
+function resolvePath(path: string, base: string): string {
+  if (path === '~' || path.startsWith('~/')) {
+    return join(homedir(), path.slice(1));
+  }
+  return resolve(base, path);
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+function isValidUrl(url: string): boolean {
+  try {
+    new URL(url);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,14 @@
+export {
+  loadConfig,
+  resolveProfile,
+  readConfigFile,
+  validateConfig,
+  getConfigValue,
+  setConfigValue,
+  updateConfigFile,
+  globalConfigPath,
+  findProjectConfig,
+  PROJECT_CONFIG_FILE,
+} from './config';
+export { parseLabelFile, updateLabels } from './labels';
+export type { TxLensConfig, Profile, CacheSettings, TokenSettings, LoadedConfig, OutputFormat, ColorMode } from './config';
@@ -0,0 +1,117 @@
+import { TxLensError, ErrorCode } from '../utils/errors';
+import { updateConfigFile } from './config';
+
+const ADDRESS_PATTERN = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+/**
+ * Parse an address book export into address-to-name labels.
+ *
+ * JSON may be an object mapping addresses to names, or an array of
+ * { address, name } (or { address, label }) records. CSV has one
+ * address,name pair per line; a header row, blank lines and lines starting
+ * with # are skipped, and names may be quoted.
+ * @param source - File name for error messages
+ * @throws TxLensError if an entry has no valid address or name
+ */
+export function parseLabelFile(contents: string, source: string): Record<string, string> {
+  const trimmed = contents.trim();
+  const entries = trimmed.startsWith('{') || trimmed.startsWith('[')
+    ? parseJsonLabels(trimmed, source)
+    : parseCsvLabels(trimmed);
+
+  const labels: Record<string, string> = {};
+  entries.forEach(({ address, name, line }) => {
+    if (!ADDRESS_PATTERN.test(address) || !name) {
+      throw new TxLensError(
+        `Invalid label entry in ${source}${line ? ` at line ${line}` : ''}`,
+        ErrorCode.INVALID_CONFIG,
+        { file: source, line, address, name }
+      );
+    }
+    labels[address] = name;
+  });
+  return labels;
+}
+
+/**
+ * Add, rename or (with a null name) remove labels in a profile of a config file
+ * @throws TxLensError if the file is unreadable or an address is invalid
+ */
+export function updateLabels(file: string, profileName: string, labels: Record<string, string | null>): void {
+  updateConfigFile(file, (config) => {
+    const profile = (config.profiles[profileName] = config.profiles[profileName] || {});
+    const updated = { ...profile.labels };
+
+    for (const [address, name] of Object.entries(labels)) {
+      if (name === null) {
+        delete updated[address];
+      } else {
+        updated[address] = name;
+      }
+    }
+
+    if (Object.keys(updated).length > 0) {
+      profile.labels = updated;
+    } else {
+      delete profile.labels;
+    }
+  });
+}
+
+interface LabelEntry {
+  address: string;
+  name: string;
+  line?: number;
+}
+
+function parseJsonLabels(contents: string, source: string): LabelEntry[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(contents);
+  } catch (error) {
+    throw new TxLensError(
+      `Cannot parse label file: ${source}`,
+      ErrorCode.INVALID_CONFIG,
+      { file: source, originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+
+  if (Array.isArray(parsed)) {
+    return parsed.map((record) => ({
+      address: String(record?.address ?? ''),
+      name: String(record?.name ?? record?.label ?? '').trim(),
+    }));
+  }
+
+  return Object.entries(parsed as Record<string, unknown>).map(([address, name]) => ({
+    address,
+    name: typeof name === 'string' ? name.trim() : '',
+  }));
+}
+
+function parseCsvLabels(contents: string): LabelEntry[] {
+  const entries: LabelEntry[] = [];
+
+  contents.split(/\r?\n/).forEach((text, i) => {
+    const line = text.trim();
+    if (!line || line.startsWith('#')) {
+      return;
+    }
+
+    const separator = line.indexOf(',');
+    const address = (separator < 0 ? line : line.slice(0, separator)).trim();
+    let name = separator < 0 ? '' : line.slice(separator + 1).trim();
+    if (name.length >= 2 && name.startsWith('"') && name.endsWith('"')) {
+      name = name.slice(1, -1).replace(/""/g, '"');
+    }
+
+    // Header row, e.g. "address,name"
+    if (i === 0 && /^address$/i.test(address)) {
+      return;
+    }
+
+    entries.push({ address, name, line: i + 1 });
+  });
+
+  return entries;
+}
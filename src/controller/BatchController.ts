@@ -0,0 +1,113 @@
+import { RpcClient } from '../rpc/RpcClient';
+import { TransactionParser } from '../parser/TransactionParser';
+import { ParsedTransaction } from '../parser/types';
+import { TokenRegistry } from '../tokens/TokenRegistry';
+import { isValidSignature } from '../utils/addressFormatter';
+import { TxLensError, ErrorCode } from '../utils/errors';
+
+/**
+ * Outcome of decoding one signature in a batch
+ */
+export type BatchResult =
+  | { signature: string; transaction: ParsedTransaction }
+  | { signature: string; error: { code: ErrorCode; message: string } };
+
+/**
+ * Totals for a completed batch
+ */
+export interface BatchSummary {
+  total: number;
+  succeeded: number;
+  failed: number;
+  /** Failure count per error code */
+  errors: Partial<Record<ErrorCode, number>>;
+  durationMs: number;
+}
+
+export interface BatchOptions {
+  /** Maximum number of transactions fetched at once */
+  concurrency: number;
+  /** Names the tokens transferred in each transaction */
+  tokenRegistry?: TokenRegistry;
+}
+
+/**
+ * Decodes many signatures with bounded concurrency; the request rate is
+ * capped by the RpcClient's limiter.
+ * A failure for one signature is reported as a result and never stops the batch.
+ */
+export class BatchController {
+  constructor(
+    private rpcClient: RpcClient,
+    private parser: TransactionParser,
+    private options: BatchOptions
+  ) {}
+
+  /**
+   * Decode all signatures, reporting each result as soon as it is ready.
+   * Results arrive in completion order, not input order.
+   * @param signatures - Signatures to decode
+   * @param onResult - Called once per signature
+   * @returns Success and failure totals
+   */
+  async run(signatures: string[], onResult: (result: BatchResult) => void): Promise<BatchSummary> {
+    const startedAt = Date.now();
+    const summary: BatchSummary = { total: signatures.length, succeeded: 0, failed: 0, errors: {}, durationMs: 0 };
+    let next = 0;
+
+    const worker = async (): Promise<void> => {
+      while (next < signatures.length) {
+        const signature = signatures[next++];
+        const result = await this.processSignature(signature);
+
+        if ('error' in result) {
+          summary.failed++;
+          summary.errors[result.error.code] = (summary.errors[result.error.code] || 0) + 1;
+        } else {
+          summary.succeeded++;
+        }
+        onResult(result);
+      }
+    };
+
+    const workerCount = Math.max(1, Math.min(this.options.concurrency, signatures.length));
+    await Promise.all(Array.from({ length: workerCount }, worker));
+
+    summary.durationMs = Date.now() - startedAt;
+    return summary;
+  }
+
+  /**
+   * Fetch and parse one signature, capturing any error as a result
+   */
+  private async processSignature(signature: string): Promise<BatchResult> {
+    try {
+      if (!isValidSignature(signature)) {
+        throw new TxLensError(
+          'Invalid transaction signature format',
+          ErrorCode.INVALID_SIGNATURE,
+          { signature }
+        );
+      }
+
+      const rawTransaction = await this.rpcClient.getTransaction(signature);
+      const transaction = this.parser.parse(rawTransaction);
+
+      return {
+        signature,
+        transaction: this.options.tokenRegistry ? await this.options.tokenRegistry.annotate(transaction) : transaction,
+      };
+    } catch (error) {
+      if (TxLensError.isTxLensError(error)) {
+        return { signature, error: { code: error.code, message: error.message } };
+      }
+      return {
+        signature,
+        error: {
+          code: ErrorCode.UNKNOWN_ERROR,
+          message: error instanceof Error ? error.message : String(error),
+        },
+      };
+    }
+  }
+}
@@ -1,16 +1,23 @@
 import { RpcClient } from '../rpc/RpcClient';
 import { TransactionParser } from '../parser/TransactionParser';
 import { OutputFormatter } from '../formatter/OutputFormatter';
+import { RawTransaction } from '../rpc/types';
+import { TokenRegistry } from '../tokens/TokenRegistry';
 import { TxLensError, ErrorCode } from '../utils/errors';
 
 /**
  * Orchestrates the transaction processing pipeline
  */
 export class TransactionController {
+  /**
+   * @param rpcClient - Client to fetch transactions with; undefined for
+   * controllers that only process transactions already at hand
+   */
   constructor(
-    private rpcClient: RpcClient,
+    private rpcClient: RpcClient | undefined,
     private parser: TransactionParser,
-    private formatter: OutputFormatter
+    private formatter: OutputFormatter,
+    private tokenRegistry?: TokenRegistry
   ) {}
 
   /**
@@ -21,16 +28,18 @@ export class TransactionController {
    */
   async processTransaction(signature: string): Promise<string> {
     try {
+      if (!this.rpcClient) {
+        throw new TxLensError(
+          'No RPC client to fetch the transaction with',
+          ErrorCode.INVALID_RPC_URL,
+          { signature }
+        );
+      }
+
       // Fetch transaction from RPC
       const rawTransaction = await this.rpcClient.getTransaction(signature);
 
-      // Parse transaction
-      const parsedTransaction = this.parser.parse(rawTransaction);
-
-      // Format output
-      const output = this.formatter.format(parsedTransaction);
-
-      return output;
+      return await this.processRawTransaction(rawTransaction);
     } catch (error) {
       // Re-throw TxLensError as-is (already has proper context)
       if (TxLensError.isTxLensError(error)) {
@@ -48,4 +57,23 @@ export class TransactionController {
       );
     }
   }
+
+  /**
+   * Process transaction data that is already available (e.g. decoded offline)
+   * @param rawTransaction - Transaction in RPC shape; meta may be null
+   * @returns Formatted transaction output
+   * @throws TxLensError with appropriate error code and context
+   */
+  async processRawTransaction(rawTransaction: RawTransaction): Promise<string> {
+    // Parse transaction
+    let parsedTransaction = this.parser.parse(rawTransaction);
+
+    // Name the tokens transferred
+    if (this.tokenRegistry) {
+      parsedTransaction = await this.tokenRegistry.annotate(parsedTransaction);
+    }
+
+    // Format output
+    return this.formatter.format(parsedTransaction);
+  }
 }
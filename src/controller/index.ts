@@ -1 +1,3 @@
 export { TransactionController } from './TransactionController';
+export { BatchController } from './BatchController';
+export type { BatchResult, BatchSummary, BatchOptions } from './BatchController';
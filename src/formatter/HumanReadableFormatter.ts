@@ -1,18 +1,45 @@
-import { ParsedTransaction } from '../parser/types';
+import {
+  ParsedTransaction,
+  ProgramInteraction,
+  LogInvocation,
+  TokenTransfer,
+  AccountDerivation,
+  AssetChange,
+  SwapVenue,
+} from '../parser/types';
+import { selfComputeUnits } from '../parser/logParser';
+import { NATIVE_SOL_MINT } from '../parser/fundFlows';
+import { getProgramName } from '../utils/knownPrograms';
+import { AddressBook } from '../utils/addressBook';
 import { OutputFormatter } from './OutputFormatter';
-import { shortenAddress } from '../utils/addressFormatter';
-import { lamportsToSol } from '../utils/amountFormatter';
+import { shortenAddress, parseUnresolvedLookupAddress } from '../utils/addressFormatter';
+import { lamportsToSol, formatTokenAmount } from '../utils/amountFormatter';
 import { TxLensError, ErrorCode } from '../utils/errors';
 import chalk from 'chalk';
 
+/**
+ * Optional sections of the human-readable output
+ */
+export interface HumanReadableFormatterOptions {
+  /** Include the program log invocation trace */
+  showLogs?: boolean;
+  /** User-defined address labels, shown with an @ prefix in place of addresses */
+  addressBook?: AddressBook;
+}
+
 /**
  * Formats parsed transaction data in human-readable text format
  */
 export class HumanReadableFormatter implements OutputFormatter {
   private useColors: boolean;
+  private options: HumanReadableFormatterOptions;
 
-  constructor(useColors: boolean = process.stdout.isTTY || false) {
+  constructor(
+    useColors: boolean = process.stdout.isTTY || false,
+    options: HumanReadableFormatterOptions = {}
+  ) {
     this.useColors = useColors;
+    this.options = options;
   }
 
   format(transaction: ParsedTransaction): string {
@@ -22,6 +49,26 @@ export class HumanReadableFormatter implements OutputFormatter {
       // Transaction header
       sections.push(this.formatHeader(transaction));
 
+      // One line per swap
+      if (transaction.swaps.length > 0) {
+        sections.push(this.formatSwaps(transaction));
+      }
+
+      // Net effect per owner
+      if (transaction.netChanges.length > 0) {
+        sections.push(this.formatNetChanges(transaction));
+      }
+
+      // Failure explanation
+      if (transaction.failure) {
+        sections.push(this.formatFailure(transaction));
+      }
+
+      // Balance changes are only known once the transaction has executed
+      if (transaction.status === 'unknown') {
+        sections.push(this.formatBalancesUnavailable());
+      }
+
       // Account changes
       if (transaction.accountChanges.length > 0) {
         sections.push(this.formatAccountChanges(transaction));
@@ -37,6 +84,16 @@ export class HumanReadableFormatter implements OutputFormatter {
         sections.push(this.formatProgramInteractions(transaction));
       }
 
+      // Accounts and their roles
+      if (transaction.accounts.length > 0) {
+        sections.push(this.formatAccounts(transaction));
+      }
+
+      // Program logs
+      if (this.options.showLogs) {
+        sections.push(this.formatLogTrace(transaction));
+      }
+
       // Compute and fees
       sections.push(this.formatComputeAndFees(transaction));
 
@@ -58,13 +115,17 @@ export class HumanReadableFormatter implements OutputFormatter {
 
     lines.push(this.colorize('=== Transaction Details ===', 'bold'));
     lines.push('');
-    lines.push(`Signature: ${transaction.signature}`);
+    lines.push(`Signature: ${transaction.signature || 'Not signed'}`);
 
-    const statusColor = transaction.status === 'success' ? 'green' : 'red';
-    const statusText = transaction.status === 'success' ? '✓ Success' : '✗ Failed';
-    lines.push(`Status: ${this.colorize(statusText, statusColor)}`);
+    if (transaction.status === 'unknown') {
+      lines.push(`Status: ${this.colorize('Not executed (decoded offline)', 'yellow')}`);
+    } else {
+      const statusColor = transaction.status === 'success' ? 'green' : 'red';
+      const statusText = transaction.status === 'success' ? '✓ Success' : '✗ Failed';
+      lines.push(`Status: ${this.colorize(statusText, statusColor)}`);
+    }
 
-    lines.push(`Block: ${transaction.slot}`);
+    lines.push(`Block: ${transaction.slot ?? 'Unknown'}`);
 
     if (transaction.blockTime) {
       lines.push(`Time: ${transaction.blockTime.toISOString()}`);
@@ -72,6 +133,127 @@ export class HumanReadableFormatter implements OutputFormatter {
       lines.push(`Time: Unknown`);
     }
 
+    if (transaction.cluster) {
+      lines.push(`Cluster: ${transaction.cluster}`);
+    }
+    if (transaction.commitment) {
+      const commitmentColor = transaction.commitment === 'finalized' ? 'green' : 'yellow';
+      lines.push(`Commitment: ${this.colorize(transaction.commitment, commitmentColor)}`);
+    }
+
+    // List every signature for multi-signer or partially signed transactions
+    const { signatures } = transaction;
+    if (signatures.length > 1 || signatures.some((s) => !s.signature)) {
+      lines.push('Signatures:');
+      for (const { signer, signature } of signatures) {
+        const value = signature ?? this.colorize('not signed', 'yellow');
+        lines.push(`  ${this.formatAddress(signer)}: ${value}`);
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  private formatFailure(transaction: ParsedTransaction): string {
+    const failure = transaction.failure!;
+    const lines: string[] = [];
+
+    lines.push(this.colorize('Failure:', 'bold'));
+    lines.push('');
+
+    if (failure.instructionIndex !== undefined) {
+      lines.push(`  Instruction: #${failure.instructionIndex + 1}`);
+    }
+    if (failure.programId) {
+      lines.push(`  Program: ${this.formatAddress(failure.programId, failure.programName)}`);
+    }
+
+    let error = failure.errorName;
+    if (failure.customCode !== undefined) {
+      error += ` (custom program error ${failure.customCode} / 0x${failure.customCode.toString(16)})`;
+    }
+    lines.push(`  Error: ${this.colorize(error, 'red')}`);
+    lines.push(`  Meaning: ${failure.message}`);
+
+    if (failure.likelyCause) {
+      lines.push(`  Likely Cause: ${this.colorize(failure.likelyCause, 'yellow')}`);
+    }
+
+    return lines.join('\n');
+  }
+
+  private formatBalancesUnavailable(): string {
+    const lines: string[] = [];
+
+    lines.push(this.colorize('Balance Changes:', 'bold'));
+    lines.push('');
+    lines.push(this.colorize('  Unavailable: the transaction has no execution metadata', 'dim'));
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Summarize each swap, e.g. "Swapped 1.5 SOL → 212.3 USDC via Jupiter (Orca, Raydium)"
+   */
+  private formatSwaps(transaction: ParsedTransaction): string {
+    const token = (mint: string, symbol?: string) =>
+      symbol || (mint === NATIVE_SOL_MINT ? 'SOL' : shortenAddress(mint));
+    const venue = (v: SwapVenue) => this.formatAddress(v.programId, v.name);
+
+    return transaction.swaps.map((swap) => {
+      const isFeePayer = transaction.accounts.some((account) => account.isFeePayer && account.address === swap.trader);
+      const input = `${formatTokenAmount(swap.inputAmount, swap.inputDecimals)} ${token(swap.inputMint, swap.inputSymbol)}`;
+      const output = `${formatTokenAmount(swap.outputAmount, swap.outputDecimals)} ${token(swap.outputMint, swap.outputSymbol)}`;
+
+      let line = `${isFeePayer ? 'Swapped' : `${this.formatAddress(swap.trader)} swapped`} ${this.colorize(input, 'red')} → ${this.colorize(output, 'green')}`;
+      if (swap.aggregator) {
+        line += ` via ${venue(swap.aggregator)}`;
+        if (swap.venues.length > 0) {
+          line += ` (${swap.venues.map(venue).join(', ')})`;
+        }
+      } else if (swap.venues.length > 0) {
+        line += ` via ${swap.venues.map(venue).join(', ')}`;
+      }
+      return line;
+    }).join('\n');
+  }
+
+  /**
+   * Per-owner balance sheet: economic change per asset, then rent and fees
+   */
+  private formatNetChanges(transaction: ParsedTransaction): string {
+    const lines: string[] = [];
+
+    lines.push(this.colorize('Net Effect:', 'bold'));
+
+    const assetName = (asset: AssetChange) =>
+      asset.symbol || (asset.mint === NATIVE_SOL_MINT ? 'SOL' : shortenAddress(asset.mint));
+    const width = Math.max(
+      'Rent'.length,
+      ...transaction.netChanges.flatMap((change) => change.assets.map((asset) => assetName(asset).length))
+    );
+    const row = (label: string, amount: bigint, decimals: number, unit: string = '') => {
+      const sign = amount >= 0n ? '+' : '-';
+      const value = formatTokenAmount(amount >= 0n ? amount : -amount, decimals);
+      return `    ${label.padEnd(width)}  ${this.colorize(sign + value + unit, amount >= 0n ? 'green' : 'red')}`;
+    };
+
+    for (const change of transaction.netChanges) {
+      const isFeePayer = transaction.accounts.some((account) => account.isFeePayer && account.address === change.owner);
+      lines.push('');
+      lines.push(`  ${this.formatAddress(change.owner)}${isFeePayer ? this.colorize(' (fee payer)', 'dim') : ''}`);
+
+      for (const asset of change.assets) {
+        lines.push(row(assetName(asset), asset.amount, asset.decimals));
+      }
+      if (change.rent !== 0n) {
+        lines.push(row('Rent', change.rent, 9, ' SOL'));
+      }
+      if (change.fee !== 0n) {
+        lines.push(row('Fee', change.fee, 9, ' SOL'));
+      }
+    }
+
     return lines.join('\n');
   }
 
@@ -82,10 +264,11 @@ export class HumanReadableFormatter implements OutputFormatter {
     lines.push('');
 
     for (const change of transaction.accountChanges) {
-      const address = shortenAddress(change.address);
-      const solAmount = lamportsToSol(Math.abs(change.balanceChange));
-      const sign = change.balanceChange >= 0 ? '+' : '-';
-      const color = change.balanceChange >= 0 ? 'green' : 'red';
+      const address = this.formatAddress(change.address);
+      const isCredit = change.balanceChange >= 0n;
+      const solAmount = lamportsToSol(isCredit ? change.balanceChange : -change.balanceChange);
+      const sign = isCredit ? '+' : '-';
+      const color = isCredit ? 'green' : 'red';
 
       let line = `  ${address}: ${this.colorize(sign + solAmount + ' SOL', color)}`;
 
@@ -107,17 +290,80 @@ export class HumanReadableFormatter implements OutputFormatter {
 
     for (let i = 0; i < transaction.tokenTransfers.length; i++) {
       const transfer = transaction.tokenTransfers[i];
-      const amount = transfer.amount / Math.pow(10, transfer.decimals);
+      const amount = formatTokenAmount(transfer.amount, transfer.decimals);
+
+      lines.push(`  ${i + 1}. ${this.formatToken(transfer)}`);
+      if (transfer.symbol && transfer.mint !== NATIVE_SOL_MINT) {
+        lines.push(this.colorize(`     Mint: ${transfer.mint}`, 'dim'));
+      }
+      if (transfer.impersonates) {
+        lines.push(this.colorize(
+          `     Warning: same symbol as verified token ${shortenAddress(transfer.impersonates)}; possible lookalike`,
+          'red'
+        ));
+      }
+      if (transfer.logoURI) {
+        lines.push(this.colorize(`     Logo: ${transfer.logoURI}`, 'dim'));
+      }
+      lines.push(`     Amount: ${this.colorize(amount, 'cyan')}`);
 
-      lines.push(`  ${i + 1}. ${transfer.symbol || shortenAddress(transfer.mint)}`);
-      lines.push(`     Amount: ${this.colorize(amount.toString(), 'cyan')}`);
-      lines.push(`     From: ${shortenAddress(transfer.from)}`);
-      lines.push(`     To: ${shortenAddress(transfer.to)}`);
+      if (transfer.fee !== undefined && transfer.fee > 0n) {
+        const received = formatTokenAmount(transfer.amount - transfer.fee, transfer.decimals);
+        lines.push(`     Fee Withheld: ${formatTokenAmount(transfer.fee, transfer.decimals)}`);
+        lines.push(`     Received: ${received}`);
+      }
+      lines.push(`     From: ${this.formatTransferParty(transaction, transfer.from, transfer.fromOwner)}`);
+      lines.push(`     To: ${this.formatTransferParty(transaction, transfer.to, transfer.toOwner)}`);
+
+      if (transfer.instructionIndex !== undefined) {
+        const via = transfer.innerIndex !== undefined
+          ? `#${transfer.instructionIndex + 1} (inner #${transfer.innerIndex + 1})`
+          : `#${transfer.instructionIndex + 1}`;
+        lines.push(this.colorize(`     Instruction: ${via}`, 'dim'));
+      } else {
+        lines.push(this.colorize('     Inferred from balance changes', 'dim'));
+      }
     }
 
     return lines.join('\n');
   }
 
+  /**
+   * Source or destination of a transfer: the wallet owning the token account
+   * when known, noting the token account unless it is the wallet's ATA
+   */
+  private formatTransferParty(transaction: ParsedTransaction, address: string, owner?: string): string {
+    if (!owner || this.options.addressBook?.get(address)) {
+      return this.formatAddress(address);
+    }
+
+    const derivation = transaction.accounts.find((account) => account.address === address)?.derivation;
+    if (derivation?.kind === 'associated-token-account' && derivation.owner === owner) {
+      return this.formatAddress(owner);
+    }
+    return `${this.formatAddress(owner)}${this.colorize(` via token account ${shortenAddress(address)}`, 'dim')}`;
+  }
+
+  /**
+   * Token symbol and name, marking whether they come from a trusted token list
+   */
+  private formatToken(transfer: TokenTransfer): string {
+    if (!transfer.symbol) {
+      return shortenAddress(transfer.mint);
+    }
+
+    let token = transfer.symbol;
+    if (transfer.name && transfer.name !== transfer.symbol) {
+      token += ` (${transfer.name})`;
+    }
+    if (transfer.verified === true) {
+      token += this.colorize(' ✓ verified', 'green');
+    } else if (transfer.verified === false) {
+      token += this.colorize(' unverified', 'yellow');
+    }
+    return token;
+  }
+
   private formatProgramInteractions(transaction: ParsedTransaction): string {
     const lines: string[] = [];
 
@@ -125,47 +371,246 @@ export class HumanReadableFormatter implements OutputFormatter {
     lines.push('');
 
     for (let i = 0; i < transaction.programInteractions.length; i++) {
-      const interaction = transaction.programInteractions[i];
-      const programName = interaction.programName || shortenAddress(interaction.programId);
+      this.formatInteraction(transaction.programInteractions[i], `${i + 1}`, '  ', lines);
+    }
+
+    return lines.join('\n');
+  }
 
-      lines.push(`  ${i + 1}. ${this.colorize(programName, 'yellow')}`);
-      lines.push(`     Instruction: ${interaction.instructionType}`);
+  /**
+   * Render an interaction and its CPIs, indenting each level of the call tree
+   */
+  private formatInteraction(
+    interaction: ProgramInteraction,
+    label: string,
+    indent: string,
+    lines: string[]
+  ): void {
+    const userLabel = this.options.addressBook?.get(interaction.programId);
+    const programName = userLabel
+      ? this.formatLabel(userLabel)
+      : this.colorize(interaction.programName || shortenAddress(interaction.programId), 'yellow');
+    const detailIndent = indent + ' '.repeat(label.length + 2);
+
+    lines.push(`${indent}${label}. ${programName}`);
+    lines.push(`${detailIndent}Instruction: ${interaction.instructionType}`);
+
+    // Add details if available
+    const detailKeys = Object.keys(interaction.details);
+    if (detailKeys.length > 0) {
+      for (const key of detailKeys) {
+        const displayValue = this.formatDetailValue(interaction.details[key]);
+
+        lines.push(`${detailIndent}${key}: ${displayValue}`);
+      }
+    }
 
-      // Add details if available
-      const detailKeys = Object.keys(interaction.details);
-      if (detailKeys.length > 0) {
-        for (const key of detailKeys) {
-          const value = interaction.details[key];
-          let displayValue = value;
+    for (const event of interaction.events) {
+      lines.push(`${detailIndent}${this.colorize('Event:', 'cyan')} ${event.name} ${this.formatDetailValue(event.data)}`);
+    }
 
-          // Format addresses
-          if (typeof value === 'string' && value.length > 32) {
-            displayValue = shortenAddress(value);
-          }
+    for (let i = 0; i < interaction.children.length; i++) {
+      this.formatInteraction(
+        interaction.children[i],
+        `${label}.${i + 1}`,
+        detailIndent,
+        lines
+      );
+    }
+  }
 
-          lines.push(`     ${key}: ${displayValue}`);
-        }
+  /**
+   * Render an instruction detail value on one line, labelling or shortening addresses
+   */
+  private formatDetailValue(value: any): string {
+    if (value === null || value === undefined) {
+      return 'None';
+    }
+
+    // Format addresses (names and URIs are shown in full)
+    if (typeof value === 'string') {
+      const isAddress = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(value) || parseUnresolvedLookupAddress(value);
+      return isAddress ? this.formatAddress(value) : value;
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item) => this.formatDetailValue(item)).join(', ');
+    }
+
+    if (typeof value === 'object') {
+      const fields = Object.entries(value).map(
+        ([field, fieldValue]) => `${field}: ${this.formatDetailValue(fieldValue)}`
+      );
+      return `{ ${fields.join(', ')} }`;
+    }
+
+    return String(value);
+  }
+
+  private formatAccounts(transaction: ParsedTransaction): string {
+    const lines: string[] = [];
+
+    lines.push(this.colorize('Accounts:', 'bold'));
+    lines.push('');
+
+    transaction.accounts.forEach((account, i) => {
+      const unresolved = parseUnresolvedLookupAddress(account.address);
+      const userLabel = this.options.addressBook?.get(account.address);
+      const name = unresolved
+        ? `unresolved index ${unresolved.index}`
+        : userLabel
+          ? `${this.formatLabel(userLabel)} (${shortenAddress(account.address)})`
+          : account.derivation
+            ? `${this.formatDerivation(account.derivation)} (${shortenAddress(account.address)})`
+            : getProgramName(account.address) || shortenAddress(account.address);
+      const roles: string[] = [];
+      if (account.isFeePayer) {
+        roles.push('fee payer');
+      } else if (account.signer) {
+        roles.push('signer');
       }
+      roles.push(account.writable ? 'writable' : 'readonly');
+
+      let line = `  ${i + 1}. ${name} ${this.colorize(`[${roles.join(', ')}]`, account.writable ? 'yellow' : 'dim')}`;
+      if (account.lookupTable) {
+        line += this.colorize(` via lookup table ${shortenAddress(account.lookupTable)}`, 'dim');
+      }
+
+      lines.push(line);
+    });
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Describe a derived account, e.g. "USDC ATA of <wallet>"
+   */
+  private formatDerivation(derivation: AccountDerivation): string {
+    const token = derivation.symbol || shortenAddress(derivation.mint);
+    switch (derivation.kind) {
+      case 'associated-token-account':
+        return `${token} ATA of ${this.formatAddress(derivation.owner!)}`;
+      case 'metadata':
+        return `${token} Metadata`;
+      case 'master-edition':
+        return `${token} Master Edition`;
+    }
+  }
+
+  private formatLogTrace(transaction: ParsedTransaction): string {
+    const lines: string[] = [];
+    const { invocations, truncated } = transaction.logTrace;
+
+    lines.push(this.colorize('Program Logs:', 'bold'));
+    lines.push('');
+
+    if (invocations.length === 0) {
+      lines.push(this.colorize('  No log messages', 'dim'));
+    }
+
+    for (let i = 0; i < invocations.length; i++) {
+      this.formatInvocation(invocations[i], `${i + 1}`, '  ', lines);
+    }
+
+    if (truncated) {
+      lines.push(this.colorize('  Log truncated by the runtime; later invocations are missing', 'yellow'));
     }
 
     return lines.join('\n');
   }
 
+  /**
+   * Render an invocation from the log trace with its compute usage, logs and CPIs
+   */
+  private formatInvocation(
+    invocation: LogInvocation,
+    label: string,
+    indent: string,
+    lines: string[]
+  ): void {
+    const userLabel = this.options.addressBook?.get(invocation.programId);
+    const programName = userLabel
+      ? this.formatLabel(userLabel)
+      : this.colorize(getProgramName(invocation.programId) || shortenAddress(invocation.programId), 'yellow');
+    const detailIndent = indent + ' '.repeat(label.length + 2);
+
+    let summary = `${indent}${label}. ${programName}`;
+    if (invocation.computeUnits) {
+      const own = selfComputeUnits(invocation) ?? invocation.computeUnits.consumed;
+      summary += ` - ${invocation.computeUnits.consumed.toLocaleString()} CU`;
+      if (invocation.children.length > 0) {
+        summary += ` (${own.toLocaleString()} own)`;
+      }
+    }
+    if (invocation.status === 'failed') {
+      summary += ` ${this.colorize(`failed: ${invocation.error}`, 'red')}`;
+    } else if (invocation.status === 'incomplete') {
+      summary += ` ${this.colorize('(incomplete)', 'dim')}`;
+    }
+    lines.push(summary);
+
+    for (const log of invocation.logs) {
+      lines.push(this.colorize(`${detailIndent}${log}`, 'dim'));
+    }
+    if (invocation.data.length > 0) {
+      lines.push(this.colorize(`${detailIndent}Data: ${invocation.data.length} payload(s)`, 'dim'));
+    }
+    if (invocation.returnData) {
+      lines.push(this.colorize(`${detailIndent}Return: ${invocation.returnData}`, 'dim'));
+    }
+
+    for (let i = 0; i < invocation.children.length; i++) {
+      this.formatInvocation(invocation.children[i], `${label}.${i + 1}`, detailIndent, lines);
+    }
+  }
+
   private formatComputeAndFees(transaction: ParsedTransaction): string {
     const lines: string[] = [];
 
     lines.push(this.colorize('Compute & Fees:', 'bold'));
     lines.push('');
 
-    const computePercent = ((transaction.computeUnits.used / transaction.computeUnits.limit) * 100).toFixed(1);
-    lines.push(`  Compute Units: ${transaction.computeUnits.used.toLocaleString()} / ${transaction.computeUnits.limit.toLocaleString()} (${computePercent}%)`);
+    if (transaction.status === 'unknown') {
+      lines.push(`  Compute Unit Limit: ${transaction.computeUnits.limit.toLocaleString()}`);
+    } else {
+      const { used, limit } = transaction.computeUnits;
+      // A transaction may request a limit of 0, which leaves no share to show
+      const computePercent = limit > 0 ? ` (${((used / limit) * 100).toFixed(1)}%)` : '';
+      lines.push(`  Compute Units: ${used.toLocaleString()} / ${limit.toLocaleString()}${computePercent}`);
+    }
+
+    if (transaction.computeUnits.price > 0n) {
+      lines.push(`  Compute Unit Price: ${transaction.computeUnits.price.toLocaleString()} micro-lamports`);
+    }
 
-    const fee = lamportsToSol(transaction.fee);
-    lines.push(`  Fee: ${fee} SOL`);
+    const { total, base, priority } = transaction.fee;
+    const feeLabel = transaction.status === 'unknown' ? 'Estimated Fee' : 'Fee';
+    lines.push(`  ${feeLabel}: ${lamportsToSol(total)} SOL`);
+    lines.push(`    Base: ${lamportsToSol(base)} SOL`);
+    lines.push(`    Priority: ${lamportsToSol(priority)} SOL`);
 
     return lines.join('\n');
   }
 
+  /**
+   * Display name for an address: its user-defined label, else the given
+   * well-known name, else the shortened address
+   */
+  private formatAddress(address: string, knownName?: string): string {
+    const userLabel = this.options.addressBook?.get(address);
+    if (userLabel) {
+      return this.formatLabel(userLabel);
+    }
+    return knownName || shortenAddress(address);
+  }
+
+  /**
+   * Mark a label as user-defined, so it is not mistaken for a verified name
+   */
+  private formatLabel(userLabel: string): string {
+    return this.colorize(`@${userLabel}`, 'cyan');
+  }
+
   private colorize(text: string, style: string): string {
     if (!this.useColors) {
       return text;
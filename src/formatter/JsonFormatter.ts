@@ -1,20 +1,84 @@
-import { ParsedTransaction } from '../parser/types';
+import { ParsedTransaction, ProgramInteraction } from '../parser/types';
 import { OutputFormatter } from './OutputFormatter';
+import { AddressBook } from '../utils/addressBook';
 import { TxLensError, ErrorCode } from '../utils/errors';
 
+/**
+ * JSON.stringify replacer that emits bigint amounts as decimal strings,
+ * keeping full u64 precision for consumers
+ */
+export function jsonReplacer(_key: string, value: unknown): unknown {
+  return typeof value === 'bigint' ? value.toString() : value;
+}
+
+/**
+ * Serialize a parsed transaction as JSON
+ * @param indent - Indentation passed to JSON.stringify; omit for a single line
+ * @param addressBook - User-defined labels, added as label fields next to the addresses they name
+ */
+export function serializeTransaction(
+  transaction: ParsedTransaction,
+  indent?: number,
+  addressBook?: AddressBook
+): string {
+  // Convert Date to ISO string for JSON serialization
+  const serializable = {
+    ...(addressBook?.size ? labelTransaction(transaction, addressBook) : transaction),
+    blockTime: transaction.blockTime ? transaction.blockTime.toISOString() : null,
+  };
+
+  return JSON.stringify(serializable, jsonReplacer, indent);
+}
+
+/**
+ * Copy of the transaction with label fields for every labelled address.
+ * Fields are left out (undefined) for addresses without a label.
+ */
+function labelTransaction(transaction: ParsedTransaction, addressBook: AddressBook) {
+  const labelInteraction = (interaction: ProgramInteraction): object => ({
+    ...interaction,
+    programLabel: addressBook.get(interaction.programId),
+    children: interaction.children.map(labelInteraction),
+  });
+
+  return {
+    ...transaction,
+    accounts: transaction.accounts.map((account) => ({
+      ...account,
+      label: addressBook.get(account.address),
+    })),
+    accountChanges: transaction.accountChanges.map((change) => ({
+      ...change,
+      label: addressBook.get(change.address),
+    })),
+    tokenTransfers: transaction.tokenTransfers.map((transfer) => ({
+      ...transfer,
+      fromLabel: addressBook.get(transfer.from),
+      toLabel: addressBook.get(transfer.to),
+      fromOwnerLabel: transfer.fromOwner && addressBook.get(transfer.fromOwner),
+      toOwnerLabel: transfer.toOwner && addressBook.get(transfer.toOwner),
+    })),
+    netChanges: transaction.netChanges.map((change) => ({
+      ...change,
+      label: addressBook.get(change.owner),
+    })),
+    swaps: transaction.swaps.map((swap) => ({
+      ...swap,
+      traderLabel: addressBook.get(swap.trader),
+    })),
+    programInteractions: transaction.programInteractions.map(labelInteraction),
+  };
+}
+
 /**
  * Formats parsed transaction data as JSON
  */
 export class JsonFormatter implements OutputFormatter {
+  constructor(private addressBook?: AddressBook) {}
+
   format(transaction: ParsedTransaction): string {
     try {
-      // Convert Date to ISO string for JSON serialization
-      const serializable = {
-        ...transaction,
-        blockTime: transaction.blockTime ? transaction.blockTime.toISOString() : null,
-      };
-
-      return JSON.stringify(serializable, null, 2);
+      return serializeTransaction(transaction, 2, this.addressBook);
     } catch (error) {
       throw new TxLensError(
         'Failed to serialize transaction to JSON',
@@ -0,0 +1,34 @@
+import { ParsedTransaction } from '../parser/types';
+import { OutputFormatter } from './OutputFormatter';
+import { serializeTransaction } from './JsonFormatter';
+import { AddressBook } from '../utils/addressBook';
+import { TxLensError, ErrorCode } from '../utils/errors';
+
+/**
+ * Formats parsed transactions as newline-delimited JSON: one compact object per line
+ */
+export class NdjsonFormatter implements OutputFormatter {
+  constructor(private addressBook?: AddressBook) {}
+
+  format(transaction: ParsedTransaction): string {
+    try {
+      return serializeTransaction(transaction, undefined, this.addressBook);
+    } catch (error) {
+      throw new TxLensError(
+        'Failed to serialize transaction to JSON',
+        ErrorCode.JSON_SERIALIZATION_FAILED,
+        {
+          signature: transaction.signature,
+          originalError: error instanceof Error ? error.message : String(error)
+        }
+      );
+    }
+  }
+
+  /**
+   * Format a per-item failure as a {signature, error: {code, message}} record
+   */
+  formatError(signature: string, error: { code: ErrorCode; message: string }): string {
+    return JSON.stringify({ signature, error: { code: error.code, message: error.message } });
+  }
+}
@@ -1,3 +1,4 @@
 export type { OutputFormatter } from './OutputFormatter';
 export { HumanReadableFormatter } from './HumanReadableFormatter';
-export { JsonFormatter } from './JsonFormatter';
+export { JsonFormatter, jsonReplacer, serializeTransaction } from './JsonFormatter';
+export { NdjsonFormatter } from './NdjsonFormatter';
@@ -8,6 +8,22 @@ export interface DecodedInstruction {
   params: Record<string, any>;
 }
 
+/**
+ * Decoded program event
+ */
+export interface DecodedEvent {
+  name: string;
+  data: Record<string, any>;
+}
+
+/**
+ * Program-defined error resolved from a custom error code
+ */
+export interface DecodedProgramError {
+  name: string;
+  message?: string;
+}
+
 /**
  * Interface for instruction decoders
  */
@@ -24,4 +40,18 @@ export interface InstructionDecoder {
     instruction: RawInstruction,
     accountKeys: string[] | Array<{ pubkey: string; signer: boolean; writable: boolean }>
   ): DecodedInstruction;
+
+  /**
+   * Decode an event emitted by the program (discriminator followed by data).
+   * Optional: only decoders that know the program's event layouts implement it.
+   * Returns null if the event is not recognized.
+   */
+  decodeEvent?(programId: string, data: Uint8Array): DecodedEvent | null;
+
+  /**
+   * Resolve a custom program error code to its name.
+   * Optional: only decoders that know the program's error table implement it.
+   * Returns null if the code is not recognized.
+   */
+  decodeError?(programId: string, code: number): DecodedProgramError | null;
 }
@@ -1,5 +1,6 @@
 import { RawInstruction } from '../rpc/types';
 import { InstructionDecoder, DecodedInstruction } from './InstructionDecoder';
+import { readU32, readU64 } from './decoders/borsh';
 import bs58 from 'bs58';
 
 const SYSTEM_PROGRAM_ID = '11111111111111111111111111111111';
@@ -18,7 +19,7 @@ export class SystemProgramDecoder implements InstructionDecoder {
   ): DecodedInstruction {
     try {
       const data = bs58.decode(instruction.data);
-      const instructionType = this.readU32(data, 0);
+      const instructionType = readU32(data, 0);
 
       const getAccount = (index: number): string => {
         const accountIndex = instruction.accounts[index];
@@ -34,8 +35,8 @@ export class SystemProgramDecoder implements InstructionDecoder {
             params: {
               from: getAccount(0),
               to: getAccount(1),
-              lamports: this.readU64(data, 4),
-              space: this.readU64(data, 12),
+              lamports: readU64(data, 4),
+              space: readU64(data, 12),
               owner: this.readPubkey(data, 20),
             },
           };
@@ -46,7 +47,7 @@ export class SystemProgramDecoder implements InstructionDecoder {
             params: {
               from: getAccount(0),
               to: getAccount(1),
-              lamports: this.readU64(data, 4),
+              lamports: readU64(data, 4),
             },
           };
 
@@ -55,7 +56,7 @@ export class SystemProgramDecoder implements InstructionDecoder {
             type: 'Allocate',
             params: {
               account: getAccount(0),
-              space: this.readU64(data, 4),
+              space: readU64(data, 4),
             },
           };
 
@@ -93,7 +94,7 @@ export class SystemProgramDecoder implements InstructionDecoder {
               nonce: getAccount(0),
               to: getAccount(1),
               authority: getAccount(4),
-              lamports: this.readU64(data, 4),
+              lamports: readU64(data, 4),
             },
           };
 
@@ -129,29 +130,6 @@ export class SystemProgramDecoder implements InstructionDecoder {
     }
   }
 
-  /**
-   * Read a 32-bit unsigned integer from buffer (little-endian)
-   */
-  private readU32(buffer: Uint8Array, offset: number): number {
-    return (
-      buffer[offset] +
-      buffer[offset + 1] * 256 +
-      buffer[offset + 2] * 65536 +
-      buffer[offset + 3] * 16777216
-    );
-  }
-
-  /**
-   * Read a 64-bit unsigned integer from buffer (little-endian)
-   */
-  private readU64(buffer: Uint8Array, offset: number): number {
-    let value = 0;
-    for (let i = 0; i < 8; i++) {
-      value += buffer[offset + i] * Math.pow(2, 8 * i);
-    }
-    return value;
-  }
-
   /**
    * Read a public key (32 bytes) from buffer and convert to base58
    */
@@ -1,14 +1,41 @@
 import { RawInstruction } from '../rpc/types';
 import { InstructionDecoder, DecodedInstruction } from './InstructionDecoder';
+import { Token2022ExtensionDecoder } from './decoders/Token2022ExtensionDecoder';
+import { readU64 } from './decoders/borsh';
 import bs58 from 'bs58';
 
 const TOKEN_PROGRAM_ID = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
 const TOKEN_2022_PROGRAM_ID = 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb';
 
+/**
+ * SetAuthority authority types (Token-2022 extends the original four)
+ */
+const AUTHORITY_TYPES: Record<number, string> = {
+  0: 'MintTokens',
+  1: 'FreezeAccount',
+  2: 'AccountOwner',
+  3: 'CloseAccount',
+  4: 'TransferFeeConfig',
+  5: 'WithheldWithdraw',
+  6: 'CloseMint',
+  7: 'InterestRate',
+  8: 'PermanentDelegate',
+  9: 'ConfidentialTransferMint',
+  10: 'TransferHookProgramId',
+  11: 'ConfidentialTransferFeeConfig',
+  12: 'MetadataPointer',
+  13: 'GroupPointer',
+  14: 'GroupMemberPointer',
+  15: 'ScaledUiAmount',
+  16: 'Pause',
+};
+
 /**
  * Decoder for SPL Token Program instructions
  */
 export class TokenProgramDecoder implements InstructionDecoder {
+  private extensionDecoder = new Token2022ExtensionDecoder();
+
   canDecode(programId: string): boolean {
     return programId === TOKEN_PROGRAM_ID || programId === TOKEN_2022_PROGRAM_ID;
   }
@@ -28,79 +55,253 @@ export class TokenProgramDecoder implements InstructionDecoder {
           : (accountKeys[accountIndex] as any).pubkey;
       };
 
+      // Token-2022 extension instructions have their own layouts
+      const programId = typeof accountKeys[instruction.programIdIndex] === 'string'
+        ? (accountKeys[instruction.programIdIndex] as string)
+        : (accountKeys[instruction.programIdIndex] as any).pubkey;
+      if (programId === TOKEN_2022_PROGRAM_ID && this.extensionDecoder.isExtensionInstruction(data)) {
+        return this.extensionDecoder.decode(instruction, accountKeys);
+      }
+
+      // Authorities may be multisig accounts, followed by the signing members
+      const withSigners = (params: Record<string, any>, firstSigner: number) => {
+        if (instruction.accounts.length > firstSigner) {
+          params.signers = instruction.accounts
+            .slice(firstSigner)
+            .map((_, i) => getAccount(firstSigner + i));
+        }
+        return params;
+      };
+
       switch (instructionType) {
+        case 0: // InitializeMint
+        case 20: // InitializeMint2
+          return {
+            type: instructionType === 0 ? 'InitializeMint' : 'InitializeMint2',
+            params: {
+              mint: getAccount(0),
+              decimals: data[1],
+              mintAuthority: this.readPubkey(data, 2),
+              freezeAuthority: this.readOptionalPubkey(data, 34),
+            },
+          };
+
+        case 1: // InitializeAccount
+          return {
+            type: 'InitializeAccount',
+            params: {
+              account: getAccount(0),
+              mint: getAccount(1),
+              owner: getAccount(2),
+            },
+          };
+
+        case 2: // InitializeMultisig
+          return {
+            type: 'InitializeMultisig',
+            params: {
+              multisig: getAccount(0),
+              requiredSigners: data[1],
+              signers: instruction.accounts.slice(2).map((_, i) => getAccount(2 + i)),
+            },
+          };
+
         case 3: // Transfer
           return {
             type: 'Transfer',
-            params: {
+            params: withSigners({
               source: getAccount(0),
               destination: getAccount(1),
               authority: getAccount(2),
-              amount: this.readU64(data, 1),
-            },
+              amount: readU64(data, 1),
+            }, 3),
           };
 
-        case 12: // TransferChecked
+        case 4: // Approve
           return {
-            type: 'TransferChecked',
-            params: {
+            type: 'Approve',
+            params: withSigners({
               source: getAccount(0),
-              mint: getAccount(1),
-              destination: getAccount(2),
-              authority: getAccount(3),
-              amount: this.readU64(data, 1),
-              decimals: data[9],
-            },
+              delegate: getAccount(1),
+              owner: getAccount(2),
+              amount: readU64(data, 1),
+            }, 3),
+          };
+
+        case 5: // Revoke
+          return {
+            type: 'Revoke',
+            params: withSigners({
+              source: getAccount(0),
+              owner: getAccount(1),
+            }, 2),
+          };
+
+        case 6: // SetAuthority
+          return {
+            type: 'SetAuthority',
+            params: withSigners({
+              account: getAccount(0),
+              currentAuthority: getAccount(1),
+              authorityType: AUTHORITY_TYPES[data[1]] ?? `Unknown (${data[1]})`,
+              newAuthority: this.readOptionalPubkey(data, 2),
+            }, 2),
           };
 
         case 7: // MintTo
           return {
             type: 'MintTo',
-            params: {
+            params: withSigners({
               mint: getAccount(0),
               account: getAccount(1),
               authority: getAccount(2),
-              amount: this.readU64(data, 1),
-            },
+              amount: readU64(data, 1),
+            }, 3),
           };
 
         case 8: // Burn
           return {
             type: 'Burn',
-            params: {
+            params: withSigners({
               account: getAccount(0),
               mint: getAccount(1),
               authority: getAccount(2),
-              amount: this.readU64(data, 1),
-            },
+              amount: readU64(data, 1),
+            }, 3),
           };
 
         case 9: // CloseAccount
           return {
             type: 'CloseAccount',
-            params: {
+            params: withSigners({
               account: getAccount(0),
               destination: getAccount(1),
               authority: getAccount(2),
-            },
+            }, 3),
           };
 
-        case 1: // InitializeAccount
+        case 10: // FreezeAccount
+        case 11: // ThawAccount
           return {
-            type: 'InitializeAccount',
+            type: instructionType === 10 ? 'FreezeAccount' : 'ThawAccount',
+            params: withSigners({
+              account: getAccount(0),
+              mint: getAccount(1),
+              authority: getAccount(2),
+            }, 3),
+          };
+
+        case 12: // TransferChecked
+          return {
+            type: 'TransferChecked',
+            params: withSigners({
+              source: getAccount(0),
+              mint: getAccount(1),
+              destination: getAccount(2),
+              authority: getAccount(3),
+              amount: readU64(data, 1),
+              decimals: data[9],
+            }, 4),
+          };
+
+        case 13: // ApproveChecked
+          return {
+            type: 'ApproveChecked',
+            params: withSigners({
+              source: getAccount(0),
+              mint: getAccount(1),
+              delegate: getAccount(2),
+              owner: getAccount(3),
+              amount: readU64(data, 1),
+              decimals: data[9],
+            }, 4),
+          };
+
+        case 14: // MintToChecked
+          return {
+            type: 'MintToChecked',
+            params: withSigners({
+              mint: getAccount(0),
+              account: getAccount(1),
+              authority: getAccount(2),
+              amount: readU64(data, 1),
+              decimals: data[9],
+            }, 3),
+          };
+
+        case 15: // BurnChecked
+          return {
+            type: 'BurnChecked',
+            params: withSigners({
+              account: getAccount(0),
+              mint: getAccount(1),
+              authority: getAccount(2),
+              amount: readU64(data, 1),
+              decimals: data[9],
+            }, 3),
+          };
+
+        case 16: // InitializeAccount2
+        case 18: // InitializeAccount3
+          return {
+            type: instructionType === 16 ? 'InitializeAccount2' : 'InitializeAccount3',
             params: {
               account: getAccount(0),
               mint: getAccount(1),
-              owner: getAccount(2),
+              owner: this.readPubkey(data, 1),
             },
           };
 
-        case 0: // InitializeMint
+        case 17: // SyncNative
+          return {
+            type: 'SyncNative',
+            params: {
+              account: getAccount(0),
+            },
+          };
+
+        case 19: // InitializeMultisig2
           return {
-            type: 'InitializeMint',
+            type: 'InitializeMultisig2',
+            params: {
+              multisig: getAccount(0),
+              requiredSigners: data[1],
+              signers: instruction.accounts.slice(1).map((_, i) => getAccount(1 + i)),
+            },
+          };
+
+        case 21: // GetAccountDataSize
+          return {
+            type: 'GetAccountDataSize',
             params: {
               mint: getAccount(0),
-              decimals: data[1],
+              extensionTypes: this.readU16List(data, 1),
+            },
+          };
+
+        case 22: // InitializeImmutableOwner
+          return {
+            type: 'InitializeImmutableOwner',
+            params: {
+              account: getAccount(0),
+            },
+          };
+
+        case 23: // AmountToUiAmount
+          return {
+            type: 'AmountToUiAmount',
+            params: {
+              mint: getAccount(0),
+              amount: readU64(data, 1),
+            },
+          };
+
+        case 24: // UiAmountToAmount
+          return {
+            type: 'UiAmountToAmount',
+            params: {
+              mint: getAccount(0),
+              uiAmount: Buffer.from(data.slice(1)).toString('utf8'),
             },
           };
 
@@ -119,13 +320,34 @@ export class TokenProgramDecoder implements InstructionDecoder {
   }
 
   /**
-   * Read a 64-bit unsigned integer from buffer (little-endian)
+   * Read a list of 16-bit unsigned integers (little-endian) until the end of the buffer
+   */
+  private readU16List(buffer: Uint8Array, offset: number): number[] {
+    const values: number[] = [];
+    for (let i = offset; i + 1 < buffer.length; i += 2) {
+      values.push(buffer[i] + buffer[i + 1] * 256);
+    }
+    return values;
+  }
+
+  /**
+   * Read a public key (32 bytes) from buffer and convert to base58
+   */
+  private readPubkey(buffer: Uint8Array, offset: number): string {
+    if (offset + 32 > buffer.length) {
+      throw new RangeError(`Cannot read pubkey at offset ${offset}`);
+    }
+    return bs58.encode(buffer.slice(offset, offset + 32));
+  }
+
+  /**
+   * Read a COption<Pubkey> as packed in token instructions (1-byte tag + 32 bytes)
+   * @returns The public key, or null when the option is None
    */
-  private readU64(buffer: Uint8Array, offset: number): number {
-    let value = 0;
-    for (let i = 0; i < 8; i++) {
-      value += buffer[offset + i] * Math.pow(2, 8 * i);
+  private readOptionalPubkey(buffer: Uint8Array, offset: number): string | null {
+    if (offset >= buffer.length || buffer[offset] === 0) {
+      return null;
     }
-    return value;
+    return this.readPubkey(buffer, offset + 1);
   }
 }
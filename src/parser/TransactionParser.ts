@@ -1,19 +1,54 @@
-import { RawTransaction, RawInstruction } from '../rpc/types';
+import {
+  RawTransaction,
+  RawInstruction,
+  RawInnerInstruction,
+  InnerInstructions,
+  TokenBalance,
+} from '../rpc/types';
 import {
   ParsedTransaction,
   AccountChange,
   TokenTransfer,
   ProgramInteraction,
+  TransactionFailure,
+  TransactionAccount,
+  LogTrace,
 } from './types';
 import { getProgramName } from '../utils/knownPrograms';
-import { InstructionDecoder } from './InstructionDecoder';
+import {
+  InstructionDecoder,
+  DecodedInstruction,
+  DecodedEvent,
+  DecodedProgramError,
+} from './InstructionDecoder';
+import { reconstructTransfers } from './fundFlows';
+import { attachLogEvents, isEventCpi, toProgramEvent } from './events';
+import { parseLogs } from './logParser';
+import { explainFailure } from './failures';
+import { resolveAccounts } from './accounts';
+import { deriveAccounts, tokenAccountOwners } from './addressDerivation';
+import { computeNetChanges } from './netChanges';
+import { detectSwaps } from './swaps';
 import { TxLensError, ErrorCode } from '../utils/errors';
+import bs58 from 'bs58';
+import {
+  ComputeBudgetDecoder,
+  COMPUTE_BUDGET_PROGRAM_ID,
+  DEFAULT_INSTRUCTION_COMPUTE_UNIT_LIMIT,
+  MAX_COMPUTE_UNIT_LIMIT,
+} from './decoders/ComputeBudgetDecoder';
+
+/**
+ * Lamports charged per transaction signature
+ */
+const LAMPORTS_PER_SIGNATURE = 5000;
 
 /**
  * Parses raw transaction data into structured, human-readable format
  */
 export class TransactionParser {
   private decoders: InstructionDecoder[] = [];
+  private computeBudgetDecoder = new ComputeBudgetDecoder();
 
   constructor(decoders: InstructionDecoder[] = []) {
     this.decoders = decoders;
@@ -26,19 +61,10 @@ export class TransactionParser {
     try {
       const { slot, blockTime, transaction, meta } = rawTransaction;
 
-      // Validate required data
-      if (!meta) {
-        throw new TxLensError(
-          'Transaction metadata is required for parsing',
-          ErrorCode.INCOMPLETE_TRANSACTION_DATA,
-          { signature: transaction.signatures[0] }
-        );
-      }
-
-      // Extract basic transaction info
+      // Extract basic transaction info; without meta (offline decode) the outcome is unknown
       const signature = transaction.signatures[0];
-      const status = meta.err ? 'failed' : 'success';
-      
+      const status = !meta ? 'unknown' : meta.err ? 'failed' : 'success';
+
       // Parse block time with error handling
       let blockTimeDate: Date | null = null;
       if (blockTime) {
@@ -57,42 +83,107 @@ export class TransactionParser {
         }
       }
 
+      // Resolve signer, writable and lookup-table roles
+      const accounts = resolveAccounts(transaction.message);
+
       // Parse account changes
       const accountChanges = this.parseAccountChanges(
-        transaction.message.accountKeys,
-        meta.preBalances || [],
-        meta.postBalances || []
-      );
-
-      // Parse token transfers
-      const tokenTransfers = this.parseTokenTransfers(
-        transaction.message.accountKeys,
-        meta.preTokenBalances || [],
-        meta.postTokenBalances || []
+        accounts,
+        meta?.preBalances || [],
+        meta?.postBalances || []
       );
 
       // Parse program interactions
       const programInteractions = this.parseProgramInteractions(
         transaction.message.accountKeys,
-        transaction.message.instructions
+        transaction.message.instructions,
+        meta?.innerInstructions || []
       );
 
-      // Extract compute units
-      const computeUnits = {
-        used: meta.computeUnitsConsumed || 0,
-        limit: 200000, // Default limit, can be overridden by ComputeBudget instruction
-      };
+      // Rebuild the invocation trace from the program logs
+      const logTrace = parseLogs(meta?.logMessages || []);
+
+      // Attach events emitted through "Program data:" logs
+      attachLogEvents(
+        programInteractions,
+        logTrace,
+        (programId, data) => this.decodeEvent(programId, data)
+      );
+
+      // Reconstruct transfers from decoded instructions and token balances.
+      // Unexecuted transactions have neither, so no transfers are reported.
+      const tokenTransfers = meta
+        ? this.parseTokenTransfers(
+            transaction.message.accountKeys,
+            programInteractions,
+            meta.preTokenBalances || [],
+            meta.postTokenBalances || [],
+            status === 'success'
+          )
+        : [];
+
+      // Recognize associated token accounts and metadata accounts offline,
+      // then attribute token transfers to the wallets owning the token accounts
+      const addresses = accounts.map((account) => account.address);
+      const tokenBalances = [...(meta?.preTokenBalances || []), ...(meta?.postTokenBalances || [])];
+      const derivations = deriveAccounts(
+        addresses,
+        programInteractions,
+        meta?.preTokenBalances || [],
+        meta?.postTokenBalances || []
+      );
+      const owners = tokenAccountOwners(addresses, tokenBalances, derivations);
+
+      // Net effect per owner; unexecuted transactions have no balances to compare
+      const netChanges = meta
+        ? computeNetChanges(
+            accounts,
+            meta.preBalances,
+            meta.postBalances,
+            meta.preTokenBalances || [],
+            meta.postTokenBalances || [],
+            owners,
+            programInteractions,
+            meta.fee || 0
+          )
+        : [];
+
+      // Swaps are read off the signers' net changes; a failed transaction swapped nothing
+      const swaps = status === 'success' ? detectSwaps(accounts, netChanges, programInteractions) : [];
+
+      // Extract compute units and fees from the requested compute budget
+      const { computeUnits, fee } = this.parseComputeAndFees(
+        transaction.message.accountKeys,
+        transaction.message.instructions,
+        transaction.signatures.length,
+        meta ? meta.fee || 0 : null,
+        meta?.computeUnitsConsumed || 0
+      );
 
       return {
         signature,
+        signatures: transaction.signatures.map((sig, i) => ({
+          signer: accounts[i]?.address ?? '',
+          signature: sig || null,
+        })),
         status,
         slot,
         blockTime: blockTimeDate,
+        cluster: rawTransaction.cluster ?? null,
+        commitment: rawTransaction.commitment ?? null,
+        accounts: accounts.map((account) => {
+          const derivation = derivations.get(account.address);
+          return derivation ? { ...account, derivation } : account;
+        }),
         accountChanges,
-        tokenTransfers,
+        tokenTransfers: tokenTransfers.map((transfer) => this.withOwners(transfer, owners)),
+        netChanges,
+        swaps,
         programInteractions,
         computeUnits,
-        fee: meta.fee || 0,
+        fee,
+        logTrace,
+        failure: this.parseFailure(meta?.err, transaction.message, logTrace),
       };
     } catch (error) {
       // Re-throw TxLensError as-is
@@ -112,42 +203,26 @@ export class TransactionParser {
   }
 
   /**
-   * Parse program interactions from instructions
+   * Parse program interactions from instructions, nesting inner instructions
+   * (CPIs) under the instruction that invoked them
    */
   private parseProgramInteractions(
     accountKeys: string[] | Array<{ pubkey: string; signer: boolean; writable: boolean }>,
-    instructions: RawInstruction[]
+    instructions: RawInstruction[],
+    innerInstructions: InnerInstructions[]
   ): ProgramInteraction[] {
     const interactions: ProgramInteraction[] = [];
 
-    for (const instruction of instructions) {
+    for (let i = 0; i < instructions.length; i++) {
       try {
-        const programId = typeof accountKeys[instruction.programIdIndex] === 'string'
-          ? (accountKeys[instruction.programIdIndex] as string)
-          : (accountKeys[instruction.programIdIndex] as any).pubkey;
-
-        const programName = getProgramName(programId);
-
-        // Try to decode instruction using registered decoders
-        let decoded = null;
-        for (const decoder of this.decoders) {
-          try {
-            if (decoder.canDecode(programId)) {
-              decoded = decoder.decode(instruction, accountKeys);
-              break;
-            }
-          } catch (error) {
-            // If decoding fails, continue with next decoder or use generic format
-            console.warn(`Failed to decode instruction for program ${programId}:`, error);
-          }
+        const root = this.decodeInteraction(accountKeys, instructions[i], i, 1);
+        const inner = innerInstructions.find((group) => group.index === i);
+
+        if (inner) {
+          this.attachInnerInstructions(root, accountKeys, inner.instructions);
         }
 
-        interactions.push({
-          programId,
-          programName,
-          instructionType: decoded?.type || 'Unknown',
-          details: decoded?.params || {},
-        });
+        interactions.push(root);
       } catch (error) {
         // Log warning but continue processing other instructions
         console.warn('Failed to parse program interaction:', error);
@@ -157,11 +232,228 @@ export class TransactionParser {
     return interactions;
   }
 
+  /**
+   * Build the CPI tree for one top-level instruction.
+   * Inner instructions arrive flattened in execution order; the stack height
+   * of each one tells us which earlier instruction invoked it.
+   */
+  private attachInnerInstructions(
+    root: ProgramInteraction,
+    accountKeys: string[] | Array<{ pubkey: string; signer: boolean; writable: boolean }>,
+    innerInstructions: RawInnerInstruction[]
+  ): void {
+    const stack: ProgramInteraction[] = [root];
+
+    for (let j = 0; j < innerInstructions.length; j++) {
+      const instruction = innerInstructions[j];
+
+      try {
+        // Older transactions carry no stack height; treat every CPI as a direct child
+        const stackHeight = instruction.stackHeight ?? 2;
+
+        while (stack.length > 1 && stack[stack.length - 1].stackHeight >= stackHeight) {
+          stack.pop();
+        }
+
+        const interaction = this.decodeInteraction(
+          accountKeys,
+          instruction,
+          root.instructionIndex,
+          stackHeight,
+          j
+        );
+
+        const parent = stack[stack.length - 1];
+
+        // emit_cpi! events are self-invocations; the event belongs to the invoker
+        const event = parent.programId === interaction.programId
+          ? this.decodeEventCpi(interaction.programId, instruction)
+          : null;
+        if (event) {
+          interaction.instructionType = 'EmitEvent';
+          interaction.details = { event: event.name };
+          parent.events.push(toProgramEvent(parent.programId, event, 'cpi'));
+        }
+
+        parent.children.push(interaction);
+        stack.push(interaction);
+      } catch (error) {
+        console.warn(`Failed to parse inner instruction ${root.instructionIndex}.${j}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Decode a single instruction using the registered decoders
+   */
+  private decodeInteraction(
+    accountKeys: string[] | Array<{ pubkey: string; signer: boolean; writable: boolean }>,
+    instruction: RawInstruction,
+    instructionIndex: number,
+    stackHeight: number,
+    innerIndex?: number
+  ): ProgramInteraction {
+    const programId = typeof accountKeys[instruction.programIdIndex] === 'string'
+      ? (accountKeys[instruction.programIdIndex] as string)
+      : (accountKeys[instruction.programIdIndex] as any).pubkey;
+
+    const programName = getProgramName(programId);
+
+    // Instructions the RPC already parsed (jsonParsed responses) carry no raw data to decode
+    const decoders = instruction.parsed ? [] : this.decoders;
+    let decoded: DecodedInstruction | null = instruction.parsed
+      ? {
+          type: instruction.parsed.type.charAt(0).toUpperCase() + instruction.parsed.type.slice(1),
+          params: instruction.parsed.info,
+        }
+      : null;
+
+    // Try to decode instruction using registered decoders
+    for (const decoder of decoders) {
+      try {
+        if (decoder.canDecode(programId)) {
+          decoded = decoder.decode(instruction, accountKeys);
+          break;
+        }
+      } catch (error) {
+        // If decoding fails, continue with next decoder or use generic format
+        console.warn(`Failed to decode instruction for program ${programId}:`, error);
+      }
+    }
+
+    return {
+      programId,
+      programName,
+      instructionType: decoded?.type || 'Unknown',
+      details: decoded?.params || {},
+      instructionIndex,
+      innerIndex,
+      stackHeight,
+      children: [],
+      events: [],
+    };
+  }
+
+  /**
+   * Explain why the transaction failed, if it did
+   */
+  private parseFailure(
+    error: any,
+    message: RawTransaction['transaction']['message'],
+    logTrace: LogTrace
+  ): TransactionFailure | null {
+    if (!error) {
+      return null;
+    }
+
+    const programIds = message.instructions.map((instruction) => {
+      const key = message.accountKeys[instruction.programIdIndex];
+      return typeof key === 'string' ? key : key?.pubkey;
+    });
+
+    return explainFailure(
+      error,
+      programIds,
+      logTrace,
+      (programId, code) => this.decodeError(programId, code)
+    );
+  }
+
+  /**
+   * Resolve a custom error code using the first registered decoder that knows the program's errors
+   */
+  private decodeError(programId: string, code: number): DecodedProgramError | null {
+    for (const decoder of this.decoders) {
+      if (!decoder.decodeError || !decoder.canDecode(programId)) {
+        continue;
+      }
+      const resolved = decoder.decodeError(programId, code);
+      if (resolved) {
+        return resolved;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Decode an event using the first registered decoder that knows the program's events
+   */
+  private decodeEvent(programId: string, data: Uint8Array): DecodedEvent | null {
+    for (const decoder of this.decoders) {
+      if (!decoder.decodeEvent || !decoder.canDecode(programId)) {
+        continue;
+      }
+      try {
+        const event = decoder.decodeEvent(programId, data);
+        if (event) {
+          return event;
+        }
+      } catch (error) {
+        console.warn(`Failed to decode event for program ${programId}:`, error);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Decode the event carried by an emit_cpi! instruction, if it is one
+   */
+  private decodeEventCpi(programId: string, instruction: RawInstruction): DecodedEvent | null {
+    try {
+      const data = bs58.decode(instruction.data);
+      return isEventCpi(data) ? this.decodeEvent(programId, data.subarray(8)) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Derive the compute unit limit and fee breakdown from ComputeBudget instructions
+   */
+  private parseComputeAndFees(
+    accountKeys: string[] | Array<{ pubkey: string; signer: boolean; writable: boolean }>,
+    instructions: RawInstruction[],
+    signatureCount: number,
+    totalFee: number | null,
+    unitsConsumed: number
+  ): Pick<ParsedTransaction, 'computeUnits' | 'fee'> {
+    const budget = this.computeBudgetDecoder.extractBudget(instructions, accountKeys);
+
+    // Without SetComputeUnitLimit, every non-ComputeBudget instruction gets the default allowance
+    const defaultLimit = instructions.filter((instruction) => {
+      const programId = typeof accountKeys[instruction.programIdIndex] === 'string'
+        ? (accountKeys[instruction.programIdIndex] as string)
+        : (accountKeys[instruction.programIdIndex] as any).pubkey;
+      return programId !== COMPUTE_BUDGET_PROGRAM_ID;
+    }).length * DEFAULT_INSTRUCTION_COMPUTE_UNIT_LIMIT;
+
+    const limit = Math.min(budget.unitLimit ?? defaultLimit, MAX_COMPUTE_UNIT_LIMIT);
+    const price = budget.unitPrice ?? 0n;
+
+    // Price is in micro-lamports per compute unit; the runtime rounds up to whole lamports
+    const priority = Number((price * BigInt(limit) + 999_999n) / 1_000_000n);
+    const base = signatureCount * LAMPORTS_PER_SIGNATURE;
+
+    return {
+      computeUnits: {
+        used: unitsConsumed,
+        limit,
+        price,
+      },
+      fee: {
+        // Without metadata, the fee is what the transaction would be charged
+        total: totalFee ?? base + priority,
+        base,
+        priority,
+      },
+    };
+  }
+
   /**
    * Calculate account balance changes
    */
   private parseAccountChanges(
-    accountKeys: string[] | Array<{ pubkey: string; signer: boolean; writable: boolean }>,
+    accounts: TransactionAccount[],
     preBalances: number[],
     postBalances: number[]
   ): AccountChange[] {
@@ -178,21 +470,17 @@ export class TransactionParser {
 
     for (let i = 0; i < preBalances.length; i++) {
       try {
-        const balanceChange = postBalances[i] - preBalances[i];
+        const balanceChange = BigInt(postBalances[i]) - BigInt(preBalances[i]);
 
         // Skip accounts with no balance change
-        if (balanceChange === 0) {
+        if (balanceChange === 0n) {
           continue;
         }
 
-        const address = typeof accountKeys[i] === 'string'
-          ? (accountKeys[i] as string)
-          : (accountKeys[i] as any).pubkey;
-
         changes.push({
-          address,
+          address: accounts[i].address,
           balanceChange,
-          isFeePayer: i === 0 && balanceChange < 0, // First signer with negative balance
+          isFeePayer: accounts[i].isFeePayer,
         });
       } catch (error) {
         // Log warning but continue processing other accounts
@@ -204,57 +492,41 @@ export class TransactionParser {
   }
 
   /**
-   * Parse token transfers from pre/post token balances
+   * Attach the wallets owning a token transfer's source and destination accounts
+   */
+  private withOwners(transfer: TokenTransfer, owners: Map<string, string>): TokenTransfer {
+    const fromOwner = owners.get(transfer.from);
+    const toOwner = owners.get(transfer.to);
+    if (!fromOwner && !toOwner) {
+      return transfer;
+    }
+    return {
+      ...transfer,
+      ...(fromOwner ? { fromOwner } : {}),
+      ...(toOwner ? { toOwner } : {}),
+    };
+  }
+
+  /**
+   * Parse token and SOL transfers as complete from/to edges
    */
   private parseTokenTransfers(
     accountKeys: string[] | Array<{ pubkey: string; signer: boolean; writable: boolean }>,
-    preTokenBalances: any[],
-    postTokenBalances: any[]
+    programInteractions: ProgramInteraction[],
+    preTokenBalances: TokenBalance[],
+    postTokenBalances: TokenBalance[],
+    succeeded: boolean
   ): TokenTransfer[] {
-    const transfers: TokenTransfer[] = [];
-    const balanceMap = new Map<string, { pre: any; post: any }>();
-
-    // Build a map of account -> {pre, post} balances
-    for (const preBalance of preTokenBalances) {
-      const key = `${preBalance.accountIndex}-${preBalance.mint}`;
-      balanceMap.set(key, { pre: preBalance, post: null });
-    }
-
-    for (const postBalance of postTokenBalances) {
-      const key = `${postBalance.accountIndex}-${postBalance.mint}`;
-      const existing = balanceMap.get(key);
-      if (existing) {
-        existing.post = postBalance;
-      } else {
-        balanceMap.set(key, { pre: null, post: postBalance });
-      }
-    }
-
-    // Calculate transfers
-    for (const [key, { pre, post }] of balanceMap) {
-      const preAmount = pre ? parseFloat(pre.uiTokenAmount.amount) : 0;
-      const postAmount = post ? parseFloat(post.uiTokenAmount.amount) : 0;
-      const change = postAmount - preAmount;
-
-      if (change === 0) {
-        continue;
-      }
-
-      const balance = post || pre;
-      const accountIndex = balance.accountIndex;
-      const address = typeof accountKeys[accountIndex] === 'string'
-        ? (accountKeys[accountIndex] as string)
-        : (accountKeys[accountIndex] as any).pubkey;
-
-      transfers.push({
-        mint: balance.mint,
-        amount: Math.abs(change),
-        decimals: balance.uiTokenAmount.decimals,
-        from: change < 0 ? address : 'unknown',
-        to: change > 0 ? address : 'unknown',
-      });
-    }
-
-    return transfers;
+    const addresses = accountKeys.map((key) =>
+      typeof key === 'string' ? key : key.pubkey
+    );
+
+    return reconstructTransfers(
+      addresses,
+      programInteractions,
+      preTokenBalances,
+      postTokenBalances,
+      succeeded
+    );
   }
 }
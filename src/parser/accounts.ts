@@ -0,0 +1,86 @@
+import { RawTransaction } from '../rpc/types';
+import { TransactionAccount } from './types';
+
+/**
+ * Resolve the role of every account in the message.
+ *
+ * Static keys come first, followed by the writable and then the read-only
+ * addresses loaded from lookup tables, each group in table order. Signer and
+ * writable flags come from the account keys when the RPC provided them, or
+ * are derived from the message header otherwise.
+ */
+export function resolveAccounts(
+  message: RawTransaction['transaction']['message']
+): TransactionAccount[] {
+  const writableTables = lookupTableOrder(message, 'writableIndexes');
+  const readonlyTables = lookupTableOrder(message, 'readonlyIndexes');
+  const loadedWritable = writableTables.length;
+  const staticCount = message.accountKeys.length - loadedWritable - readonlyTables.length;
+
+  return message.accountKeys.map((key, index) => {
+    const address = typeof key === 'string' ? key : key.pubkey;
+
+    let source: TransactionAccount['source'] = 'static';
+    let lookupTable: string | undefined;
+    if (index >= staticCount + loadedWritable) {
+      source = 'lookup-readonly';
+      lookupTable = readonlyTables[index - staticCount - loadedWritable];
+    } else if (index >= staticCount) {
+      source = 'lookup-writable';
+      lookupTable = writableTables[index - staticCount];
+    }
+
+    const signer = typeof key === 'string' ? isHeaderSigner(message, index) : key.signer;
+    const writable = typeof key === 'string'
+      ? isHeaderWritable(message, index, staticCount, source)
+      : key.writable;
+
+    return {
+      address,
+      signer,
+      writable,
+      source,
+      ...(lookupTable ? { lookupTable } : {}),
+      // The fee payer is always the first account, and it must sign
+      isFeePayer: index === 0 && signer,
+    };
+  });
+}
+
+/**
+ * Lookup table address for each loaded address of one kind, in load order
+ */
+function lookupTableOrder(
+  message: RawTransaction['transaction']['message'],
+  kind: 'writableIndexes' | 'readonlyIndexes'
+): string[] {
+  return (message.addressTableLookups || []).flatMap((lookup) =>
+    lookup[kind].map(() => lookup.accountKey)
+  );
+}
+
+function isHeaderSigner(message: RawTransaction['transaction']['message'], index: number): boolean {
+  // Without a header, only the fee payer is known to sign
+  return message.header ? index < message.header.numRequiredSignatures : index === 0;
+}
+
+function isHeaderWritable(
+  message: RawTransaction['transaction']['message'],
+  index: number,
+  staticCount: number,
+  source: TransactionAccount['source']
+): boolean {
+  if (source !== 'static') {
+    return source === 'lookup-writable';
+  }
+
+  const { header } = message;
+  if (!header) {
+    return index === 0;
+  }
+
+  if (index < header.numRequiredSignatures) {
+    return index < header.numRequiredSignatures - header.numReadonlySignedAccounts;
+  }
+  return index < staticCount - header.numReadonlyUnsignedAccounts;
+}
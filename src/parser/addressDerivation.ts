@@ -0,0 +1,167 @@
+import { PublicKey } from '@solana/web3.js';
+import { TokenBalance } from '../rpc/types';
+import { AccountDerivation, ProgramInteraction } from './types';
+import { flattenInteractions } from './interactionTree';
+import { ASSOCIATED_TOKEN_PROGRAM_ID } from './decoders/AssociatedTokenDecoder';
+import { METAPLEX_PROGRAM_IDS } from './decoders/MetaplexDecoder';
+import { TOKEN_2022_PROGRAM_ID } from './decoders/Token2022ExtensionDecoder';
+
+const TOKEN_PROGRAM_ID = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+
+/**
+ * Wallet, mint and token program an associated token account may belong to
+ */
+interface AtaCandidate {
+  owner: string;
+  mint: string;
+  tokenProgram: string;
+}
+
+/**
+ * Address of the associated token account of a wallet for a mint
+ * @returns null if the owner or mint is not a valid address
+ */
+export function associatedTokenAddress(
+  owner: string,
+  mint: string,
+  tokenProgram: string = TOKEN_PROGRAM_ID
+): string | null {
+  try {
+    const [address] = PublicKey.findProgramAddressSync(
+      [new PublicKey(owner).toBuffer(), new PublicKey(tokenProgram).toBuffer(), new PublicKey(mint).toBuffer()],
+      new PublicKey(ASSOCIATED_TOKEN_PROGRAM_ID)
+    );
+    return address.toBase58();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Address of the Metaplex Token Metadata account of a mint
+ */
+export function metaplexMetadataAddress(mint: string): string {
+  return metaplexAddress(mint);
+}
+
+/**
+ * Address of the Metaplex master edition account of a mint
+ */
+export function masterEditionAddress(mint: string): string {
+  return metaplexAddress(mint, 'edition');
+}
+
+function metaplexAddress(mint: string, suffix?: string): string {
+  const programId = new PublicKey(METAPLEX_PROGRAM_IDS.TOKEN_METADATA);
+  const seeds = [Buffer.from('metadata'), programId.toBuffer(), new PublicKey(mint).toBuffer()];
+  if (suffix) {
+    seeds.push(Buffer.from(suffix));
+  }
+  const [address] = PublicKey.findProgramAddressSync(seeds, programId);
+  return address.toBase58();
+}
+
+/**
+ * Recognize associated token accounts and Metaplex metadata and master
+ * edition accounts by re-deriving their addresses offline.
+ *
+ * Candidate owners and mints come from the token balances and from decoded
+ * Token and Associated Token instructions; an account is only annotated when
+ * the derived address matches it exactly.
+ * @returns Derivation per matching account address
+ */
+export function deriveAccounts(
+  addresses: string[],
+  interactions: ProgramInteraction[],
+  preTokenBalances: TokenBalance[],
+  postTokenBalances: TokenBalance[]
+): Map<string, AccountDerivation> {
+  const present = new Set(addresses);
+  const derivations = new Map<string, AccountDerivation>();
+
+  const candidates = new Map<string, AtaCandidate>();
+  const addCandidate = (owner: unknown, mint: unknown, tokenProgram: string) => {
+    if (typeof owner === 'string' && typeof mint === 'string') {
+      candidates.set(`${owner}:${mint}:${tokenProgram}`, { owner, mint, tokenProgram });
+    }
+  };
+  const mints = new Set<string>();
+
+  for (const balance of [...preTokenBalances, ...postTokenBalances]) {
+    mints.add(balance.mint);
+    // Older responses do not say which token program holds the account
+    const programs = balance.programId ? [balance.programId] : [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID];
+    programs.forEach((program) => addCandidate(balance.owner, balance.mint, program));
+  }
+
+  for (const interaction of flattenInteractions(interactions)) {
+    const { details } = interaction;
+    for (const [key, value] of Object.entries(details)) {
+      if (/mint$/i.test(key) && typeof value === 'string' && present.has(value)) {
+        mints.add(value);
+      }
+    }
+
+    if (interaction.programId === ASSOCIATED_TOKEN_PROGRAM_ID) {
+      const tokenProgram = details.tokenProgram ?? TOKEN_PROGRAM_ID;
+      addCandidate(details.wallet, details.mint, tokenProgram);
+      // RecoverNested moves tokens out of an ATA owned by the wallet's own ATA
+      addCandidate(details.wallet, details.ownerMint, tokenProgram);
+      addCandidate(details.wallet, details.nestedMint, tokenProgram);
+      addCandidate(details.nestedOwner, details.nestedMint, tokenProgram);
+    } else if (interaction.programId === TOKEN_PROGRAM_ID || interaction.programId === TOKEN_2022_PROGRAM_ID) {
+      // InitializeAccount and friends name both the mint and the owner
+      addCandidate(details.owner, details.mint, interaction.programId);
+    }
+  }
+
+  for (const candidate of candidates.values()) {
+    const address = associatedTokenAddress(candidate.owner, candidate.mint, candidate.tokenProgram);
+    if (address && present.has(address)) {
+      derivations.set(address, { kind: 'associated-token-account', ...candidate });
+    }
+  }
+
+  for (const mint of mints) {
+    try {
+      const metadata = metaplexMetadataAddress(mint);
+      if (present.has(metadata)) {
+        derivations.set(metadata, { kind: 'metadata', mint });
+      }
+      const edition = masterEditionAddress(mint);
+      if (present.has(edition)) {
+        derivations.set(edition, { kind: 'master-edition', mint });
+      }
+    } catch {
+      // Not a valid address; nothing can be derived from it
+    }
+  }
+
+  return derivations;
+}
+
+/**
+ * Wallet owning each token account, from the token balances or, failing
+ * that, the associated token account derivations
+ */
+export function tokenAccountOwners(
+  addresses: string[],
+  tokenBalances: TokenBalance[],
+  derivations: Map<string, AccountDerivation>
+): Map<string, string> {
+  const owners = new Map<string, string>();
+
+  for (const [address, derivation] of derivations) {
+    if (derivation.owner) {
+      owners.set(address, derivation.owner);
+    }
+  }
+  for (const balance of tokenBalances) {
+    const address = addresses[balance.accountIndex];
+    if (address && balance.owner) {
+      owners.set(address, balance.owner);
+    }
+  }
+
+  return owners;
+}
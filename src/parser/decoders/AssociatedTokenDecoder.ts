@@ -0,0 +1,85 @@
+import { RawInstruction } from '../../rpc/types';
+import { InstructionDecoder, DecodedInstruction, DecodedProgramError } from '../InstructionDecoder';
+import bs58 from 'bs58';
+
+export const ASSOCIATED_TOKEN_PROGRAM_ID = 'ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL';
+
+/**
+ * Account names per instruction, matching the RPC's jsonParsed output so
+ * both decoding paths produce the same details
+ */
+const CREATE_ACCOUNTS = ['source', 'account', 'wallet', 'mint', 'systemProgram', 'tokenProgram'];
+const RECOVER_NESTED_ACCOUNTS = [
+  'nestedSource',
+  'nestedMint',
+  'destination',
+  'nestedOwner',
+  'ownerMint',
+  'wallet',
+  'tokenProgram',
+];
+
+/**
+ * Associated Token Account Program errors, indexed by custom error code
+ */
+const ASSOCIATED_TOKEN_ERRORS: DecodedProgramError[] = [
+  { name: 'InvalidOwner', message: 'Associated token account owner does not match address derivation' },
+];
+
+/**
+ * Decoder for Associated Token Account Program instructions
+ */
+export class AssociatedTokenDecoder implements InstructionDecoder {
+  canDecode(programId: string): boolean {
+    return programId === ASSOCIATED_TOKEN_PROGRAM_ID;
+  }
+
+  decode(
+    instruction: RawInstruction,
+    accountKeys: string[] | Array<{ pubkey: string; signer: boolean; writable: boolean }>
+  ): DecodedInstruction {
+    try {
+      const data = bs58.decode(instruction.data);
+      // The original Create instruction carries no data at all
+      const instructionType = data.length === 0 ? 0 : data[0];
+
+      const namedAccounts = (names: string[]): Record<string, string> => {
+        const params: Record<string, string> = {};
+        names.forEach((name, i) => {
+          const accountIndex = instruction.accounts[i];
+          const key = accountKeys[accountIndex];
+          if (key !== undefined) {
+            params[name] = typeof key === 'string' ? key : key.pubkey;
+          }
+        });
+        return params;
+      };
+
+      switch (instructionType) {
+        case 0:
+          return { type: 'Create', params: namedAccounts(CREATE_ACCOUNTS) };
+
+        case 1:
+          return { type: 'CreateIdempotent', params: namedAccounts(CREATE_ACCOUNTS) };
+
+        case 2:
+          return { type: 'RecoverNested', params: namedAccounts(RECOVER_NESTED_ACCOUNTS) };
+
+        default:
+          return {
+            type: 'Unknown Associated Token Instruction',
+            params: { instructionType },
+          };
+      }
+    } catch (error) {
+      return {
+        type: 'Unknown Associated Token Instruction',
+        params: { error: 'Failed to decode' },
+      };
+    }
+  }
+
+  decodeError(_programId: string, code: number): DecodedProgramError | null {
+    return ASSOCIATED_TOKEN_ERRORS[code] ?? null;
+  }
+}
@@ -0,0 +1,142 @@
+import { RawInstruction } from '../../rpc/types';
+import { InstructionDecoder, DecodedInstruction } from '../InstructionDecoder';
+import { readU32, readU64 } from './borsh';
+import bs58 from 'bs58';
+
+export const COMPUTE_BUDGET_PROGRAM_ID = 'ComputeBudget111111111111111111111111111111';
+
+/**
+ * Compute unit limit granted to each instruction when no SetComputeUnitLimit is present
+ */
+export const DEFAULT_INSTRUCTION_COMPUTE_UNIT_LIMIT = 200_000;
+
+/**
+ * Maximum compute unit limit a transaction can request
+ */
+export const MAX_COMPUTE_UNIT_LIMIT = 1_400_000;
+
+/**
+ * Compute budget requested by a transaction's ComputeBudget instructions
+ */
+export interface ComputeBudget {
+  /** Requested compute unit limit, if SetComputeUnitLimit was used */
+  unitLimit?: number;
+  /** Compute unit price in micro-lamports, if SetComputeUnitPrice was used */
+  unitPrice?: bigint;
+  /** Requested heap frame size in bytes */
+  heapFrameBytes?: number;
+  /** Requested loaded accounts data size limit in bytes */
+  loadedAccountsDataSizeLimit?: number;
+}
+
+/**
+ * Decoder for Compute Budget Program instructions
+ */
+export class ComputeBudgetDecoder implements InstructionDecoder {
+  canDecode(programId: string): boolean {
+    return programId === COMPUTE_BUDGET_PROGRAM_ID;
+  }
+
+  decode(
+    instruction: RawInstruction,
+    _accountKeys: string[] | Array<{ pubkey: string; signer: boolean; writable: boolean }>
+  ): DecodedInstruction {
+    try {
+      const data = bs58.decode(instruction.data);
+      const instructionType = data[0];
+
+      switch (instructionType) {
+        case 0: // RequestUnits (deprecated)
+          return {
+            type: 'RequestUnits',
+            params: {
+              units: readU32(data, 1),
+              additionalFee: readU32(data, 5),
+            },
+          };
+
+        case 1: // RequestHeapFrame
+          return {
+            type: 'RequestHeapFrame',
+            params: {
+              bytes: readU32(data, 1),
+            },
+          };
+
+        case 2: // SetComputeUnitLimit
+          return {
+            type: 'SetComputeUnitLimit',
+            params: {
+              units: readU32(data, 1),
+            },
+          };
+
+        case 3: // SetComputeUnitPrice
+          return {
+            type: 'SetComputeUnitPrice',
+            params: {
+              microLamports: readU64(data, 1),
+            },
+          };
+
+        case 4: // SetLoadedAccountsDataSizeLimit
+          return {
+            type: 'SetLoadedAccountsDataSizeLimit',
+            params: {
+              bytes: readU32(data, 1),
+            },
+          };
+
+        default:
+          return {
+            type: 'Unknown Compute Budget Instruction',
+            params: { instructionType },
+          };
+      }
+    } catch (error) {
+      return {
+        type: 'Unknown Compute Budget Instruction',
+        params: { error: 'Failed to decode' },
+      };
+    }
+  }
+
+  /**
+   * Collect the compute budget requested by a transaction's top-level instructions
+   */
+  extractBudget(
+    instructions: RawInstruction[],
+    accountKeys: string[] | Array<{ pubkey: string; signer: boolean; writable: boolean }>
+  ): ComputeBudget {
+    const budget: ComputeBudget = {};
+
+    for (const instruction of instructions) {
+      const programId = typeof accountKeys[instruction.programIdIndex] === 'string'
+        ? (accountKeys[instruction.programIdIndex] as string)
+        : (accountKeys[instruction.programIdIndex] as any).pubkey;
+
+      if (!this.canDecode(programId)) {
+        continue;
+      }
+
+      const decoded = this.decode(instruction, accountKeys);
+      switch (decoded.type) {
+        case 'RequestUnits':
+        case 'SetComputeUnitLimit':
+          budget.unitLimit = decoded.params.units;
+          break;
+        case 'SetComputeUnitPrice':
+          budget.unitPrice = decoded.params.microLamports;
+          break;
+        case 'RequestHeapFrame':
+          budget.heapFrameBytes = decoded.params.bytes;
+          break;
+        case 'SetLoadedAccountsDataSizeLimit':
+          budget.loadedAccountsDataSizeLimit = decoded.params.bytes;
+          break;
+      }
+    }
+
+    return budget;
+  }
+}
@@ -0,0 +1,243 @@
+import { readFileSync, readdirSync, existsSync } from 'fs';
+import { join, basename, extname } from 'path';
+import { RawInstruction } from '../../rpc/types';
+import {
+  InstructionDecoder,
+  DecodedInstruction,
+  DecodedEvent,
+  DecodedProgramError,
+} from '../InstructionDecoder';
+import { TxLensError, ErrorCode } from '../../utils/errors';
+import { BorshReader } from './borsh';
+import { ANCHOR_ERRORS } from '../programErrors';
+import { NormalizedIdl, normalizeIdl, decodeIdlFields } from './idl';
+import bs58 from 'bs58';
+
+/**
+ * Generic decoder for Anchor programs, driven by their IDL files
+ *
+ * Instructions are matched by their 8-byte discriminator, arguments are
+ * Borsh-decoded from the IDL types and accounts are named from the IDL.
+ */
+export class IdlDecoder implements InstructionDecoder {
+  private idls = new Map<string, NormalizedIdl>();
+
+  /**
+   * Register an IDL document
+   * @param idl - Parsed IDL JSON (legacy or 0.30+ format)
+   * @param programId - Program ID to bind to; defaults to the address in the IDL
+   * @throws TxLensError if the IDL is invalid or names no program ID
+   */
+  addIdl(idl: unknown, programId?: string, source?: string): void {
+    let normalized: NormalizedIdl;
+    try {
+      normalized = normalizeIdl(idl);
+    } catch (error) {
+      throw new TxLensError(
+        'Invalid Anchor IDL',
+        ErrorCode.INVALID_IDL,
+        { source, originalError: error instanceof Error ? error.message : String(error) }
+      );
+    }
+
+    const address = programId || normalized.address;
+    if (!address) {
+      throw new TxLensError(
+        'Anchor IDL does not specify a program address',
+        ErrorCode.INVALID_IDL,
+        { source, hint: 'Use --idl <program>=<file> to bind it to a program ID' }
+      );
+    }
+
+    this.idls.set(address, normalized);
+  }
+
+  /**
+   * Load an IDL JSON file
+   * @param path - Path to the IDL file
+   * @param programId - Program ID to bind to; defaults to the address in the IDL
+   */
+  loadFile(path: string, programId?: string): void {
+    this.addIdl(readIdlFile(path), programId, path);
+  }
+
+  /**
+   * Load every *.json IDL in a directory.
+   * Files named after a program ID (e.g. <programId>.json) are bound to it
+   * when the IDL itself carries no address. A file that cannot be loaded is
+   * skipped and the rest are still loaded.
+   * @returns Errors for the skipped files
+   * @throws TxLensError if the directory does not exist
+   */
+  loadDirectory(directory: string): TxLensError[] {
+    if (!existsSync(directory)) {
+      throw new TxLensError(
+        'IDL directory does not exist',
+        ErrorCode.INVALID_IDL,
+        { directory }
+      );
+    }
+
+    const errors: TxLensError[] = [];
+    for (const file of readdirSync(directory)) {
+      if (extname(file) !== '.json') {
+        continue;
+      }
+      const name = basename(file, '.json');
+      const fallbackId = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(name) ? name : undefined;
+      const path = join(directory, file);
+
+      try {
+        const idl: any = readIdlFile(path);
+        this.addIdl(idl, idl?.address || idl?.metadata?.address || fallbackId, path);
+      } catch (error) {
+        if (!TxLensError.isTxLensError(error)) {
+          throw error;
+        }
+        errors.push(error);
+      }
+    }
+    return errors;
+  }
+
+  /**
+   * Get the IDL registered for a program, if any
+   */
+  getIdl(programId: string): NormalizedIdl | undefined {
+    return this.idls.get(programId);
+  }
+
+  /**
+   * Decode an Anchor event (8-byte event discriminator followed by Borsh data)
+   */
+  decodeEvent(programId: string, data: Uint8Array): DecodedEvent | null {
+    const idl = this.idls.get(programId);
+    if (!idl || data.length < 8) {
+      return null;
+    }
+
+    const discriminator = Buffer.from(data.subarray(0, 8)).toString('hex');
+    const definition = idl.events.find((event) => event.discriminator === discriminator);
+    if (!definition) {
+      return null;
+    }
+
+    return {
+      name: definition.name,
+      data: decodeIdlFields(new BorshReader(data, 8), definition.fields, idl),
+    };
+  }
+
+  /**
+   * Resolve a custom error code from the IDL's error table, falling back to
+   * the Anchor framework errors every IDL program shares
+   */
+  decodeError(programId: string, code: number): DecodedProgramError | null {
+    const idl = this.idls.get(programId);
+    if (!idl) {
+      return null;
+    }
+
+    const error = idl.errors.find((e) => e.code === code);
+    if (error) {
+      return { name: error.name, message: error.msg };
+    }
+    return ANCHOR_ERRORS[code] ?? null;
+  }
+
+  canDecode(programId: string): boolean {
+    return this.idls.has(programId);
+  }
+
+  decode(
+    instruction: RawInstruction,
+    accountKeys: string[] | Array<{ pubkey: string; signer: boolean; writable: boolean }>
+  ): DecodedInstruction {
+    const getAccount = (index: number): string =>
+      typeof accountKeys[index] === 'string'
+        ? (accountKeys[index] as string)
+        : (accountKeys[index] as any).pubkey;
+
+    const programId = getAccount(instruction.programIdIndex);
+    const idl = this.idls.get(programId);
+
+    try {
+      const data = bs58.decode(instruction.data);
+      const discriminator = Buffer.from(data.slice(0, 8)).toString('hex');
+      const definition = idl?.instructions.find((ix) => ix.discriminator === discriminator);
+
+      if (!idl || !definition) {
+        return {
+          type: 'Unknown Anchor Instruction',
+          params: {
+            discriminator,
+            accounts: instruction.accounts.map(getAccount),
+          },
+        };
+      }
+
+      // Name accounts; absent optional accounts are passed as the program ID
+      const params: Record<string, any> = {};
+      definition.accounts.forEach((account, i) => {
+        if (i >= instruction.accounts.length) {
+          return;
+        }
+        const address = getAccount(instruction.accounts[i]);
+        if (!(account.optional && address === programId)) {
+          params[account.name] = address;
+        }
+      });
+
+      if (instruction.accounts.length > definition.accounts.length) {
+        params.remainingAccounts = instruction.accounts
+          .slice(definition.accounts.length)
+          .map(getAccount);
+      }
+
+      try {
+        const args = decodeIdlFields(new BorshReader(data, 8), definition.args, idl);
+        for (const [name, value] of Object.entries(args)) {
+          params[name in params ? `${name}Arg` : name] = value;
+        }
+      } catch (error) {
+        params.error = error instanceof Error ? error.message : 'Failed to decode arguments';
+      }
+
+      return {
+        type: toPascalCase(definition.name),
+        params,
+      };
+    } catch (error) {
+      return {
+        type: 'Unknown Anchor Instruction',
+        params: { error: 'Failed to decode' },
+      };
+    }
+  }
+}
+
+/**
+ * Convert an IDL instruction name (camelCase or snake_case) to PascalCase
+ */
+function toPascalCase(name: string): string {
+  return name
+    .split('_')
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+}
+
+/**
+ * Read and parse an IDL JSON file
+ * @throws TxLensError if the file cannot be read or is not JSON
+ */
+function readIdlFile(path: string): unknown {
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    throw new TxLensError(
+      'Failed to read Anchor IDL file',
+      ErrorCode.INVALID_IDL,
+      { path, originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
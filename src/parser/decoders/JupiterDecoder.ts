@@ -0,0 +1,385 @@
+import { RawInstruction } from '../../rpc/types';
+import { InstructionDecoder, DecodedInstruction, DecodedEvent } from '../InstructionDecoder';
+import { BorshReader } from './borsh';
+import { instructionDiscriminator, eventDiscriminator } from './anchor';
+import bs58 from 'bs58';
+
+export const JUPITER_V6_PROGRAM_ID = 'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4';
+
+/**
+ * How a route instruction's arguments are laid out after the route plan
+ */
+type RouteArgs = 'exactIn' | 'exactOut' | 'ledger';
+
+interface JupiterInstruction {
+  name: string;
+  accounts: string[];
+  /** Route instructions carry a route plan; shared-accounts routes start with a u8 route id */
+  route?: { args: RouteArgs; shared: boolean };
+}
+
+const ROUTE_ACCOUNTS = ['tokenProgram', 'userTransferAuthority', 'userSourceTokenAccount', 'userDestinationTokenAccount', 'destinationTokenAccount', 'destinationMint', 'platformFeeAccount', 'eventAuthority', 'program'];
+const ROUTE_WITH_LEDGER_ACCOUNTS = ['tokenProgram', 'userTransferAuthority', 'userSourceTokenAccount', 'userDestinationTokenAccount', 'destinationTokenAccount', 'destinationMint', 'platformFeeAccount', 'tokenLedger', 'eventAuthority', 'program'];
+const EXACT_OUT_ROUTE_ACCOUNTS = ['tokenProgram', 'userTransferAuthority', 'userSourceTokenAccount', 'userDestinationTokenAccount', 'destinationTokenAccount', 'sourceMint', 'destinationMint', 'platformFeeAccount', 'token2022Program', 'eventAuthority', 'program'];
+const SHARED_ACCOUNTS_ROUTE_ACCOUNTS = ['tokenProgram', 'programAuthority', 'userTransferAuthority', 'sourceTokenAccount', 'programSourceTokenAccount', 'programDestinationTokenAccount', 'destinationTokenAccount', 'sourceMint', 'destinationMint', 'platformFeeAccount', 'token2022Program', 'eventAuthority', 'program'];
+const SHARED_ACCOUNTS_ROUTE_WITH_LEDGER_ACCOUNTS = ['tokenProgram', 'programAuthority', 'userTransferAuthority', 'sourceTokenAccount', 'programSourceTokenAccount', 'programDestinationTokenAccount', 'destinationTokenAccount', 'sourceMint', 'destinationMint', 'platformFeeAccount', 'token2022Program', 'tokenLedger', 'eventAuthority', 'program'];
+
+/**
+ * Jupiter Aggregator v6 instructions, keyed by Anchor discriminator
+ */
+const JUPITER_INSTRUCTIONS: Record<string, JupiterInstruction> = {
+  [instructionDiscriminator('route')]: {
+    name: 'Route',
+    accounts: ROUTE_ACCOUNTS,
+    route: { args: 'exactIn', shared: false },
+  },
+  [instructionDiscriminator('route_with_token_ledger')]: {
+    name: 'RouteWithTokenLedger',
+    accounts: ROUTE_WITH_LEDGER_ACCOUNTS,
+    route: { args: 'ledger', shared: false },
+  },
+  [instructionDiscriminator('exact_out_route')]: {
+    name: 'ExactOutRoute',
+    accounts: EXACT_OUT_ROUTE_ACCOUNTS,
+    route: { args: 'exactOut', shared: false },
+  },
+  [instructionDiscriminator('shared_accounts_route')]: {
+    name: 'SharedAccountsRoute',
+    accounts: SHARED_ACCOUNTS_ROUTE_ACCOUNTS,
+    route: { args: 'exactIn', shared: true },
+  },
+  [instructionDiscriminator('shared_accounts_route_with_token_ledger')]: {
+    name: 'SharedAccountsRouteWithTokenLedger',
+    accounts: SHARED_ACCOUNTS_ROUTE_WITH_LEDGER_ACCOUNTS,
+    route: { args: 'ledger', shared: true },
+  },
+  [instructionDiscriminator('shared_accounts_exact_out_route')]: {
+    name: 'SharedAccountsExactOutRoute',
+    accounts: SHARED_ACCOUNTS_ROUTE_ACCOUNTS,
+    route: { args: 'exactOut', shared: true },
+  },
+  [instructionDiscriminator('set_token_ledger')]: {
+    name: 'SetTokenLedger',
+    accounts: ['tokenLedger', 'tokenAccount'],
+  },
+  [instructionDiscriminator('create_token_ledger')]: {
+    name: 'CreateTokenLedger',
+    accounts: ['tokenLedger', 'payer', 'systemProgram'],
+  },
+  [instructionDiscriminator('create_open_orders')]: {
+    name: 'CreateOpenOrders',
+    accounts: ['openOrders', 'payer', 'dexProgram', 'systemProgram', 'rent', 'market'],
+  },
+  [instructionDiscriminator('create_program_open_orders')]: {
+    name: 'CreateProgramOpenOrders',
+    accounts: ['openOrders', 'payer', 'programAuthority', 'dexProgram', 'systemProgram', 'rent', 'market'],
+  },
+  [instructionDiscriminator('create_token_account')]: {
+    name: 'CreateTokenAccount',
+    accounts: ['tokenAccount', 'user', 'mint', 'tokenProgram', 'systemProgram'],
+  },
+  [instructionDiscriminator('claim')]: {
+    name: 'Claim',
+    accounts: ['wallet', 'programAuthority', 'systemProgram'],
+  },
+  [instructionDiscriminator('claim_token')]: {
+    name: 'ClaimToken',
+    accounts: ['payer', 'wallet', 'programAuthority', 'programTokenAccount', 'destinationTokenAccount', 'mint', 'associatedTokenTokenProgram', 'associatedTokenProgram', 'systemProgram'],
+  },
+};
+
+const SWAP_EVENT = eventDiscriminator('SwapEvent');
+const FEE_EVENT = eventDiscriminator('FeeEvent');
+
+/**
+ * Program and sysvar accounts that add noise to decoded output
+ */
+const OMITTED_ACCOUNTS = new Set([
+  'tokenProgram',
+  'token2022Program',
+  'systemProgram',
+  'associatedTokenProgram',
+  'associatedTokenTokenProgram',
+  'eventAuthority',
+  'program',
+  'rent',
+]);
+
+const SIDES = ['Bid', 'Ask'];
+
+/**
+ * AMM kinds of a route plan step (the Swap enum), in variant order.
+ * Each entry reads the variant's fields, if it has any.
+ */
+const SWAP_KINDS: Array<[string, ((reader: BorshReader) => Record<string, any>)?]> = [
+  ['Saber'],
+  ['SaberAddDecimalsDeposit'],
+  ['SaberAddDecimalsWithdraw'],
+  ['TokenSwap'],
+  ['Sencha'],
+  ['Step'],
+  ['Cropper'],
+  ['Raydium'],
+  ['Crema', (r) => ({ aToB: r.bool() })],
+  ['Lifinity'],
+  ['Mercurial'],
+  ['Cykura'],
+  ['Serum', (r) => ({ side: SIDES[r.u8()] })],
+  ['MarinadeDeposit'],
+  ['MarinadeUnstake'],
+  ['Aldrin', (r) => ({ side: SIDES[r.u8()] })],
+  ['AldrinV2', (r) => ({ side: SIDES[r.u8()] })],
+  ['Whirlpool', (r) => ({ aToB: r.bool() })],
+  ['Invariant', (r) => ({ xToY: r.bool() })],
+  ['Meteora'],
+  ['GooseFX'],
+  ['DeltaFi', (r) => ({ stable: r.bool() })],
+  ['Balansol'],
+  ['MarcoPolo', (r) => ({ xToY: r.bool() })],
+  ['Dradex', (r) => ({ side: SIDES[r.u8()] })],
+  ['LifinityV2'],
+  ['RaydiumClmm'],
+  ['Openbook', (r) => ({ side: SIDES[r.u8()] })],
+  ['Phoenix', (r) => ({ side: SIDES[r.u8()] })],
+  ['Symmetry', (r) => ({ fromTokenId: r.u64(), toTokenId: r.u64() })],
+  ['TokenSwapV2'],
+  ['HeliumTreasuryManagementRedeemV0'],
+  ['StakeDexStakeWrappedSol'],
+  ['StakeDexSwapViaStake', (r) => ({ bridgeStakeSeed: r.u32() })],
+  ['GooseFXV2'],
+  ['Perps'],
+  ['PerpsAddLiquidity'],
+  ['PerpsRemoveLiquidity'],
+  ['MeteoraDlmm'],
+  ['OpenBookV2', (r) => ({ side: SIDES[r.u8()] })],
+  ['RaydiumClmmV2'],
+  ['StakeDexPrefundWithdrawStakeAndDepositStake', (r) => ({ bridgeStakeSeed: r.u32() })],
+  ['Clone', (r) => ({ poolIndex: r.u8(), quantityIsInput: r.bool(), quantityIsCollateral: r.bool() })],
+  ['SanctumS', (r) => ({ srcLstValueCalcAccs: r.u8(), dstLstValueCalcAccs: r.u8(), srcLstIndex: r.u32(), dstLstIndex: r.u32() })],
+  ['SanctumSAddLiquidity', (r) => ({ lstValueCalcAccs: r.u8(), lstIndex: r.u32() })],
+  ['SanctumSRemoveLiquidity', (r) => ({ lstValueCalcAccs: r.u8(), lstIndex: r.u32() })],
+  ['RaydiumCP'],
+  ['WhirlpoolSwapV2', (r) => ({
+    aToB: r.bool(),
+    remainingAccountsSlices: r.option(() => remainingAccountsSlices(r)),
+  })],
+  ['OneIntro'],
+  ['PumpdotfunWrappedBuy'],
+  ['PumpdotfunWrappedSell'],
+  ['PerpsV2'],
+  ['PerpsV2AddLiquidity'],
+  ['PerpsV2RemoveLiquidity'],
+  ['MoonshotWrappedBuy'],
+  ['MoonshotWrappedSell'],
+  ['StabbleStableSwap'],
+  ['StabbleWeightedSwap'],
+  ['Obric', (r) => ({ xToY: r.bool() })],
+  ['FoxBuyFromEstimatedCost'],
+  ['FoxClaimPartial', (r) => ({ isY: r.bool() })],
+  ['SolFi', (r) => ({ isQuoteToBase: r.bool() })],
+  ['SolayerDelegateNoInit'],
+  ['SolayerUndelegateNoInit'],
+  ['TokenMill', (r) => ({ side: SIDES[r.u8()] })],
+  ['DaosFunBuy'],
+  ['DaosFunSell'],
+  ['ZeroFi'],
+  ['StakeDexWithdrawWrappedSol'],
+  ['VirtualsBuy'],
+  ['VirtualsSell'],
+  ['Perena', (r) => ({ inIndex: r.u8(), outIndex: r.u8() })],
+  ['PumpSwapBuy'],
+  ['PumpSwapSell'],
+  ['Gamma'],
+  ['MeteoraDlmmSwapV2', (r) => ({ remainingAccountsSlices: remainingAccountsSlices(r) })],
+  ['Woofi'],
+  ['MeteoraDammV2'],
+  ['MeteoraDynamicBondingCurveSwap'],
+  ['StabbleStableSwapV2'],
+  ['StabbleWeightedSwapV2'],
+  ['RaydiumLaunchlabBuy', (r) => ({ shareFeeRate: r.u64() })],
+  ['RaydiumLaunchlabSell', (r) => ({ shareFeeRate: r.u64() })],
+  ['BoopdotfunWrappedBuy'],
+  ['BoopdotfunWrappedSell'],
+  ['Plasma', (r) => ({ side: SIDES[r.u8()] })],
+  ['GoonFi', (r) => ({ isBid: r.bool(), blacklistBump: r.u8() })],
+  ['HumidiFi', (r) => ({ swapId: r.u64(), isBaseToQuote: r.bool() })],
+  ['MeteoraDynamicBondingCurveSwapWithRemainingAccounts'],
+  ['TesseraV', (r) => ({ side: SIDES[r.u8()] })],
+];
+
+/**
+ * Read a RemainingAccountsInfo: transfer hook and tick array account slices.
+ * Only their count is of interest.
+ */
+function remainingAccountsSlices(reader: BorshReader): number {
+  return reader.vec(() => ({ accountsType: reader.u8(), length: reader.u8() })).length;
+}
+
+/**
+ * Decoder for Jupiter Aggregator v6 instructions and events
+ */
+export class JupiterDecoder implements InstructionDecoder {
+  canDecode(programId: string): boolean {
+    return programId === JUPITER_V6_PROGRAM_ID;
+  }
+
+  decode(
+    instruction: RawInstruction,
+    accountKeys: string[] | Array<{ pubkey: string; signer: boolean; writable: boolean }>
+  ): DecodedInstruction {
+    try {
+      const data = bs58.decode(instruction.data);
+      const discriminator = Buffer.from(data.subarray(0, 8)).toString('hex');
+      const known = JUPITER_INSTRUCTIONS[discriminator];
+
+      if (!known) {
+        return {
+          type: 'Unknown Jupiter Instruction',
+          params: { discriminator },
+        };
+      }
+
+      const params = this.nameAccounts(instruction, accountKeys, known.accounts);
+      if (known.route) {
+        const { args, shared } = known.route;
+        try {
+          Object.assign(params, this.readRouteArgs(new BorshReader(data, 8), args, shared));
+        } catch (error) {
+          params.error = error instanceof Error ? error.message : 'Failed to decode arguments';
+        }
+      }
+
+      return { type: known.name, params };
+    } catch (error) {
+      return {
+        type: 'Unknown Jupiter Instruction',
+        params: {
+          error: error instanceof Error ? error.message : 'Failed to decode',
+        },
+      };
+    }
+  }
+
+  /**
+   * Decode the SwapEvent (one per route plan step) and FeeEvent Jupiter emits via emit_cpi!
+   */
+  decodeEvent(_programId: string, data: Uint8Array): DecodedEvent | null {
+    const discriminator = Buffer.from(data.subarray(0, 8)).toString('hex');
+    const reader = new BorshReader(data, 8);
+
+    if (discriminator === SWAP_EVENT) {
+      return {
+        name: 'SwapEvent',
+        data: {
+          amm: reader.pubkey(),
+          inputMint: reader.pubkey(),
+          inputAmount: reader.u64(),
+          outputMint: reader.pubkey(),
+          outputAmount: reader.u64(),
+        },
+      };
+    }
+    if (discriminator === FEE_EVENT) {
+      return {
+        name: 'FeeEvent',
+        data: {
+          account: reader.pubkey(),
+          mint: reader.pubkey(),
+          amount: reader.u64(),
+        },
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Read a route instruction's arguments: the route plan, then the amounts,
+   * slippage and platform fee. Exact-in routes state the input amount and the
+   * quoted output; exact-out routes the reverse; token ledger routes take the
+   * input amount from the ledger and state only the quoted output.
+   */
+  private readRouteArgs(reader: BorshReader, args: RouteArgs, shared: boolean): Record<string, any> {
+    const params: Record<string, any> = {};
+    if (shared) {
+      params.id = reader.u8();
+    }
+
+    params.routePlan = this.readRoutePlan(reader);
+    if (params.routePlan.some((step: Record<string, any>) => step.swap.startsWith('Unknown'))) {
+      // Fields after an unknown variant cannot be located
+      return params;
+    }
+
+    switch (args) {
+      case 'exactIn':
+        params.inAmount = reader.u64();
+        params.quotedOutAmount = reader.u64();
+        break;
+      case 'exactOut':
+        params.outAmount = reader.u64();
+        params.quotedInAmount = reader.u64();
+        break;
+      case 'ledger':
+        params.quotedOutAmount = reader.u64();
+        break;
+    }
+    params.slippageBps = reader.u16();
+    params.platformFeeBps = reader.u8();
+
+    return params;
+  }
+
+  /**
+   * Read the route plan: each step swaps a percentage of the amount held at
+   * inputIndex on one AMM, leaving the result at outputIndex
+   */
+  private readRoutePlan(reader: BorshReader): Array<Record<string, any>> {
+    const length = reader.u32();
+    const steps: Array<Record<string, any>> = [];
+
+    for (let i = 0; i < length; i++) {
+      const variant = reader.u8();
+      const kind = SWAP_KINDS[variant];
+      if (!kind) {
+        steps.push({ swap: `Unknown (${variant})` });
+        break;
+      }
+
+      const [swap, readFields] = kind;
+      steps.push({
+        swap,
+        ...(readFields ? readFields(reader) : {}),
+        percent: reader.u8(),
+        inputIndex: reader.u8(),
+        outputIndex: reader.u8(),
+      });
+    }
+
+    return steps;
+  }
+
+  /**
+   * Map instruction accounts to their names.
+   * Optional accounts that are absent are passed as the program ID and are skipped.
+   */
+  private nameAccounts(
+    instruction: RawInstruction,
+    accountKeys: string[] | Array<{ pubkey: string; signer: boolean; writable: boolean }>,
+    names: string[]
+  ): Record<string, any> {
+    const params: Record<string, any> = {};
+
+    names.forEach((name, i) => {
+      if (i >= instruction.accounts.length || OMITTED_ACCOUNTS.has(name)) {
+        return;
+      }
+      const key = accountKeys[instruction.accounts[i]];
+      const address = typeof key === 'string' ? key : key?.pubkey;
+      if (address && address !== JUPITER_V6_PROGRAM_ID) {
+        params[name] = address;
+      }
+    });
+
+    return params;
+  }
+}
@@ -1,5 +1,7 @@
 import { RawInstruction } from '../../rpc/types';
 import { InstructionDecoder, DecodedInstruction } from '../InstructionDecoder';
+import { BorshReader } from './borsh';
+import { instructionDiscriminator } from './anchor';
 import bs58 from 'bs58';
 
 /**
@@ -11,6 +13,208 @@ export const METAPLEX_PROGRAM_IDS = {
   AUCTION_HOUSE: 'hausS13jsjafwWwGqZTUQRmWyvyxn9EQpqMwV1PBBmk',
 } as const;
 
+/**
+ * Token Metadata instructions, indexed by their 1-byte Borsh instruction index
+ */
+const TOKEN_METADATA_INSTRUCTIONS = [
+  'CreateMetadataAccount',
+  'UpdateMetadataAccount',
+  'DeprecatedCreateMasterEdition',
+  'DeprecatedMintNewEditionFromMasterEditionViaPrintingToken',
+  'UpdatePrimarySaleHappenedViaToken',
+  'DeprecatedSetReservationList',
+  'DeprecatedCreateReservationList',
+  'SignMetadata',
+  'DeprecatedMintPrintingTokensViaToken',
+  'DeprecatedMintPrintingTokens',
+  'CreateMasterEdition',
+  'MintNewEditionFromMasterEditionViaToken',
+  'ConvertMasterEditionV1ToV2',
+  'MintNewEditionFromMasterEditionViaVaultProxy',
+  'PuffMetadata',
+  'UpdateMetadataAccountV2',
+  'CreateMetadataAccountV2',
+  'CreateMasterEditionV3',
+  'VerifyCollection',
+  'Utilize',
+  'ApproveUseAuthority',
+  'RevokeUseAuthority',
+  'UnverifyCollection',
+  'ApproveCollectionAuthority',
+  'RevokeCollectionAuthority',
+  'SetAndVerifyCollection',
+  'FreezeDelegatedAccount',
+  'ThawDelegatedAccount',
+  'RemoveCreatorVerification',
+  'BurnNft',
+  'VerifySizedCollectionItem',
+  'UnverifySizedCollectionItem',
+  'SetAndVerifySizedCollectionItem',
+  'CreateMetadataAccountV3',
+  'SetCollectionSize',
+  'SetTokenStandard',
+  'BubblegumSetCollectionSize',
+  'BurnEditionNft',
+  'CreateEscrowAccount',
+  'CloseEscrowAccount',
+  'TransferOutOfEscrow',
+  'Burn',
+  'Create',
+  'Mint',
+  'Delegate',
+  'Revoke',
+  'Lock',
+  'Unlock',
+  'Migrate',
+  'Transfer',
+  'Update',
+  'Use',
+  'Verify',
+  'Unverify',
+  'Collect',
+  'Print',
+  'Resize',
+  'CloseAccounts',
+];
+
+/**
+ * Named accounts for the Token Metadata instructions we decode in detail
+ */
+const TOKEN_METADATA_ACCOUNTS: Record<string, string[]> = {
+  SignMetadata: ['metadata', 'creator'],
+  UpdateMetadataAccountV2: ['metadata', 'updateAuthority'],
+  CreateMasterEditionV3: ['edition', 'mint', 'updateAuthority', 'mintAuthority', 'payer', 'metadata', 'tokenProgram', 'systemProgram', 'rent'],
+  VerifyCollection: ['metadata', 'collectionAuthority', 'payer', 'collectionMint', 'collectionMetadata', 'collectionMasterEdition'],
+  UnverifyCollection: ['metadata', 'collectionAuthority', 'collectionMint', 'collectionMetadata', 'collectionMasterEdition'],
+  SetAndVerifyCollection: ['metadata', 'collectionAuthority', 'payer', 'updateAuthority', 'collectionMint', 'collectionMetadata', 'collectionMasterEdition'],
+  BurnNft: ['metadata', 'owner', 'mint', 'tokenAccount', 'masterEdition', 'splTokenProgram', 'collectionMetadata'],
+  VerifySizedCollectionItem: ['metadata', 'collectionAuthority', 'payer', 'collectionMint', 'collectionMetadata', 'collectionMasterEdition'],
+  UnverifySizedCollectionItem: ['metadata', 'collectionAuthority', 'payer', 'collectionMint', 'collectionMetadata', 'collectionMasterEdition'],
+  SetAndVerifySizedCollectionItem: ['metadata', 'collectionAuthority', 'payer', 'updateAuthority', 'collectionMint', 'collectionMetadata', 'collectionMasterEdition'],
+  CreateMetadataAccountV3: ['metadata', 'mint', 'mintAuthority', 'payer', 'updateAuthority', 'systemProgram', 'rent'],
+  Burn: ['authority', 'collectionMetadata', 'metadata', 'edition', 'mint', 'token', 'masterEdition', 'masterEditionMint', 'masterEditionToken', 'editionMarker', 'tokenRecord', 'systemProgram', 'sysvarInstructions', 'splTokenProgram'],
+  Create: ['metadata', 'masterEdition', 'mint', 'authority', 'payer', 'updateAuthority', 'systemProgram', 'sysvarInstructions', 'splTokenProgram'],
+  Mint: ['token', 'tokenOwner', 'metadata', 'masterEdition', 'tokenRecord', 'mint', 'authority', 'delegateRecord', 'payer', 'systemProgram', 'sysvarInstructions', 'splTokenProgram', 'splAtaProgram', 'authorizationRulesProgram', 'authorizationRules'],
+  Transfer: ['token', 'tokenOwner', 'destination', 'destinationOwner', 'mint', 'metadata', 'edition', 'ownerTokenRecord', 'destinationTokenRecord', 'authority', 'payer', 'systemProgram', 'sysvarInstructions', 'splTokenProgram', 'splAtaProgram', 'authorizationRulesProgram', 'authorizationRules'],
+  Verify: ['authority', 'delegateRecord', 'metadata', 'collectionMint', 'collectionMetadata', 'collectionMasterEdition', 'systemProgram', 'sysvarInstructions'],
+  Unverify: ['authority', 'delegateRecord', 'metadata', 'collectionMint', 'collectionMetadata', 'systemProgram', 'sysvarInstructions'],
+};
+
+/**
+ * Anchor instructions of Candy Machine v3 (Candy Machine Core)
+ */
+const CANDY_MACHINE_INSTRUCTIONS: Record<string, { name: string; accounts: string[] }> = {
+  [instructionDiscriminator('initialize')]: {
+    name: 'Initialize',
+    accounts: ['candyMachine', 'authorityPda', 'authority', 'payer', 'collectionMetadata', 'collectionMint', 'collectionMasterEdition', 'collectionUpdateAuthority', 'collectionAuthorityRecord', 'tokenMetadataProgram', 'systemProgram'],
+  },
+  [instructionDiscriminator('initialize_v2')]: {
+    name: 'InitializeV2',
+    accounts: ['candyMachine', 'authorityPda', 'authority', 'payer', 'ruleSet', 'collectionMetadata', 'collectionMint', 'collectionMasterEdition', 'collectionUpdateAuthority', 'collectionDelegateRecord', 'tokenMetadataProgram', 'systemProgram', 'sysvarInstructions', 'authorizationRulesProgram'],
+  },
+  [instructionDiscriminator('add_config_lines')]: {
+    name: 'AddConfigLines',
+    accounts: ['candyMachine', 'authority'],
+  },
+  [instructionDiscriminator('update')]: {
+    name: 'Update',
+    accounts: ['candyMachine', 'authority'],
+  },
+  [instructionDiscriminator('set_authority')]: {
+    name: 'SetAuthority',
+    accounts: ['candyMachine', 'authority'],
+  },
+  [instructionDiscriminator('set_mint_authority')]: {
+    name: 'SetMintAuthority',
+    accounts: ['candyMachine', 'authority', 'mintAuthority'],
+  },
+  [instructionDiscriminator('set_collection')]: {
+    name: 'SetCollection',
+    accounts: ['candyMachine', 'authority', 'authorityPda', 'payer', 'collectionMint', 'collectionMetadata', 'collectionAuthorityRecord', 'newCollectionUpdateAuthority', 'newCollectionMetadata', 'newCollectionMint', 'newCollectionMasterEdition', 'newCollectionAuthorityRecord', 'tokenMetadataProgram', 'systemProgram'],
+  },
+  [instructionDiscriminator('set_collection_v2')]: {
+    name: 'SetCollectionV2',
+    accounts: ['candyMachine', 'authority', 'authorityPda', 'payer', 'collectionUpdateAuthority', 'collectionMint', 'collectionMetadata', 'collectionDelegateRecord', 'newCollectionUpdateAuthority', 'newCollectionMint', 'newCollectionMetadata', 'newCollectionMasterEdition', 'newCollectionDelegateRecord', 'tokenMetadataProgram', 'systemProgram', 'sysvarInstructions'],
+  },
+  [instructionDiscriminator('set_token_standard')]: {
+    name: 'SetTokenStandard',
+    accounts: ['candyMachine', 'authority', 'authorityPda', 'payer', 'ruleSet', 'collectionDelegateRecord', 'collectionMint', 'collectionMetadata', 'collectionAuthorityRecord', 'collectionUpdateAuthority', 'tokenMetadataProgram', 'systemProgram', 'sysvarInstructions', 'authorizationRulesProgram'],
+  },
+  [instructionDiscriminator('mint')]: {
+    name: 'Mint',
+    accounts: ['candyMachine', 'authorityPda', 'mintAuthority', 'payer', 'nftMint', 'nftMintAuthority', 'nftMetadata', 'nftMasterEdition', 'collectionAuthorityRecord', 'collectionMint', 'collectionMetadata', 'collectionMasterEdition', 'collectionUpdateAuthority', 'tokenMetadataProgram', 'tokenProgram', 'systemProgram', 'recentSlothashes'],
+  },
+  [instructionDiscriminator('mint_v2')]: {
+    name: 'MintV2',
+    accounts: ['candyMachine', 'authorityPda', 'mintAuthority', 'payer', 'nftOwner', 'nftMint', 'nftMintAuthority', 'nftMetadata', 'nftMasterEdition', 'token', 'tokenRecord', 'collectionDelegateRecord', 'collectionMint', 'collectionMetadata', 'collectionMasterEdition', 'collectionUpdateAuthority', 'tokenMetadataProgram', 'splTokenProgram', 'splAtaProgram', 'systemProgram', 'sysvarInstructions', 'recentSlothashes', 'authorizationRulesProgram', 'authorizationRules'],
+  },
+  [instructionDiscriminator('withdraw')]: {
+    name: 'Withdraw',
+    accounts: ['candyMachine', 'authority'],
+  },
+};
+
+/**
+ * Anchor instructions of Auction House
+ */
+const AUCTION_HOUSE_INSTRUCTIONS: Record<string, { name: string; accounts: string[] }> = {
+  [instructionDiscriminator('buy')]: {
+    name: 'Buy',
+    accounts: ['wallet', 'paymentAccount', 'transferAuthority', 'treasuryMint', 'tokenAccount', 'metadata', 'escrowPaymentAccount', 'authority', 'auctionHouse', 'auctionHouseFeeAccount', 'buyerTradeState', 'tokenProgram', 'systemProgram', 'rent'],
+  },
+  [instructionDiscriminator('public_buy')]: {
+    name: 'PublicBuy',
+    accounts: ['wallet', 'paymentAccount', 'transferAuthority', 'treasuryMint', 'tokenAccount', 'metadata', 'escrowPaymentAccount', 'authority', 'auctionHouse', 'auctionHouseFeeAccount', 'buyerTradeState', 'tokenProgram', 'systemProgram', 'rent'],
+  },
+  [instructionDiscriminator('sell')]: {
+    name: 'Sell',
+    accounts: ['wallet', 'tokenAccount', 'metadata', 'authority', 'auctionHouse', 'auctionHouseFeeAccount', 'sellerTradeState', 'freeSellerTradeState', 'tokenProgram', 'systemProgram', 'programAsSigner', 'rent'],
+  },
+  [instructionDiscriminator('execute_sale')]: {
+    name: 'ExecuteSale',
+    accounts: ['buyer', 'seller', 'tokenAccount', 'tokenMint', 'metadata', 'treasuryMint', 'escrowPaymentAccount', 'sellerPaymentReceiptAccount', 'buyerReceiptTokenAccount', 'authority', 'auctionHouse', 'auctionHouseFeeAccount', 'auctionHouseTreasury', 'buyerTradeState', 'sellerTradeState', 'freeTradeState', 'tokenProgram', 'systemProgram', 'ataProgram', 'programAsSigner', 'rent'],
+  },
+  [instructionDiscriminator('cancel')]: {
+    name: 'Cancel',
+    accounts: ['wallet', 'tokenAccount', 'tokenMint', 'authority', 'auctionHouse', 'auctionHouseFeeAccount', 'tradeState', 'tokenProgram'],
+  },
+  [instructionDiscriminator('deposit')]: {
+    name: 'Deposit',
+    accounts: ['wallet', 'paymentAccount', 'transferAuthority', 'escrowPaymentAccount', 'treasuryMint', 'authority', 'auctionHouse', 'auctionHouseFeeAccount', 'tokenProgram', 'systemProgram', 'rent'],
+  },
+  [instructionDiscriminator('withdraw')]: {
+    name: 'Withdraw',
+    accounts: ['wallet', 'receiptAccount', 'escrowPaymentAccount', 'treasuryMint', 'authority', 'auctionHouse', 'auctionHouseFeeAccount', 'tokenProgram', 'systemProgram', 'ataProgram', 'rent'],
+  },
+};
+
+/**
+ * Program and sysvar accounts that add noise to decoded output
+ */
+const OMITTED_ACCOUNTS = new Set([
+  'systemProgram',
+  'tokenProgram',
+  'splTokenProgram',
+  'splAtaProgram',
+  'ataProgram',
+  'tokenMetadataProgram',
+  'authorizationRulesProgram',
+  'sysvarInstructions',
+  'recentSlothashes',
+  'rent',
+]);
+
+const TOKEN_STANDARDS = [
+  'NonFungible',
+  'FungibleAsset',
+  'Fungible',
+  'NonFungibleEdition',
+  'ProgrammableNonFungible',
+  'ProgrammableNonFungibleEdition',
+];
+
+const USE_METHODS = ['Burn', 'Multiple', 'Single'];
+
 /**
  * Decoder for Metaplex program instructions
  * Supports Token Metadata, Candy Machine v3, and Auction House programs
@@ -61,29 +265,120 @@ export class MetaplexDecoder implements InstructionDecoder {
 
   /**
    * Decode Token Metadata program instructions
+   * Token Metadata is a native (non-Anchor) program: the first byte is the
+   * Borsh instruction index and the arguments follow directly.
    */
   private decodeTokenMetadata(
     instruction: RawInstruction,
     data: Uint8Array,
     accountKeys: string[] | Array<{ pubkey: string; signer: boolean; writable: boolean }>
   ): DecodedInstruction {
-    // Extract discriminator (first 8 bytes for anchor-style instructions)
-    const discriminator = data.slice(0, 8);
-    const discriminatorHex = Buffer.from(discriminator).toString('hex');
+    const instructionIndex = data[0];
+    const type = TOKEN_METADATA_INSTRUCTIONS[instructionIndex];
 
-    // Common Token Metadata instruction discriminators
-    // These will be implemented in task 2.2
-    const DISCRIMINATORS: Record<string, string> = {
-      // Will be populated with actual discriminators in next task
-    };
+    if (!type) {
+      return {
+        type: 'Unknown Token Metadata Instruction',
+        params: {
+          instructionIndex,
+          accounts: this.extractAccounts(instruction, accountKeys),
+        },
+      };
+    }
 
-    return {
-      type: 'Token Metadata Instruction',
-      params: {
-        discriminator: discriminatorHex,
-        accounts: this.extractAccounts(instruction, accountKeys),
-      },
-    };
+    const accountNames = TOKEN_METADATA_ACCOUNTS[type];
+    if (!accountNames) {
+      return {
+        type,
+        params: {
+          accounts: this.extractAccounts(instruction, accountKeys),
+        },
+      };
+    }
+
+    const params = this.nameAccounts(instruction, accountKeys, accountNames, METAPLEX_PROGRAM_IDS.TOKEN_METADATA);
+    this.decodeArgs(params, () => this.decodeTokenMetadataArgs(type, new BorshReader(data, 1)));
+
+    return { type, params };
+  }
+
+  /**
+   * Decode the Borsh arguments of a Token Metadata instruction
+   */
+  private decodeTokenMetadataArgs(type: string, reader: BorshReader): Record<string, any> {
+    switch (type) {
+      case 'CreateMetadataAccountV3':
+        return {
+          ...this.readDataV2(reader),
+          isMutable: reader.bool(),
+          collectionDetails: reader.option(() => this.readCollectionDetails(reader)),
+        };
+
+      case 'UpdateMetadataAccountV2': {
+        const data = reader.option(() => this.readDataV2(reader));
+        return {
+          ...(data || {}),
+          newUpdateAuthority: reader.option(() => reader.pubkey()),
+          primarySaleHappened: reader.option(() => reader.bool()),
+          isMutable: reader.option(() => reader.bool()),
+        };
+      }
+
+      case 'CreateMasterEditionV3':
+        return {
+          maxSupply: reader.option(() => reader.u64()),
+        };
+
+      case 'Create': {
+        reader.u8(); // CreateArgs::V1
+        const name = this.readString(reader);
+        const symbol = this.readString(reader);
+        const uri = this.readString(reader);
+        const sellerFeeBasisPoints = reader.u16();
+        const creators = reader.option(() => reader.vec(() => this.readCreator(reader)));
+        const primarySaleHappened = reader.bool();
+        const isMutable = reader.bool();
+        const tokenStandard = TOKEN_STANDARDS[reader.u8()];
+        const collection = reader.option(() => this.readCollection(reader));
+        const uses = reader.option(() => this.readUses(reader));
+        const collectionDetails = reader.option(() => this.readCollectionDetails(reader));
+        const ruleSet = reader.option(() => reader.pubkey());
+        const decimals = reader.option(() => reader.u8());
+        const printSupply = reader.option(() => {
+          const kind = reader.u8();
+          return kind === 1 ? reader.u64() : kind === 0 ? 'Zero' : 'Unlimited';
+        });
+        return {
+          name,
+          symbol,
+          uri,
+          sellerFeeBasisPoints,
+          creators,
+          primarySaleHappened,
+          isMutable,
+          tokenStandard,
+          collection,
+          uses,
+          collectionDetails,
+          ruleSet,
+          decimals,
+          printSupply,
+        };
+      }
+
+      case 'Mint':
+      case 'Transfer':
+      case 'Burn':
+        reader.u8(); // <Instruction>Args::V1
+        return { amount: reader.u64() };
+
+      case 'Verify':
+      case 'Unverify':
+        return { verification: reader.u8() === 0 ? 'Creator' : 'Collection' };
+
+      default:
+        return {};
+    }
   }
 
   /**
@@ -96,14 +391,39 @@ export class MetaplexDecoder implements InstructionDecoder {
   ): DecodedInstruction {
     const discriminator = data.slice(0, 8);
     const discriminatorHex = Buffer.from(discriminator).toString('hex');
+    const known = CANDY_MACHINE_INSTRUCTIONS[discriminatorHex];
 
-    return {
-      type: 'Candy Machine Instruction',
-      params: {
-        discriminator: discriminatorHex,
-        accounts: this.extractAccounts(instruction, accountKeys),
-      },
-    };
+    if (!known) {
+      return {
+        type: 'Candy Machine Instruction',
+        params: {
+          discriminator: discriminatorHex,
+          accounts: this.extractAccounts(instruction, accountKeys),
+        },
+      };
+    }
+
+    const params = this.nameAccounts(instruction, accountKeys, known.accounts, METAPLEX_PROGRAM_IDS.CANDY_MACHINE_V3);
+    this.decodeArgs(params, () => {
+      const reader = new BorshReader(data, 8);
+      switch (known.name) {
+        case 'Initialize':
+        case 'InitializeV2':
+        case 'Update':
+          return this.readCandyMachineData(reader);
+        case 'AddConfigLines':
+          return {
+            index: reader.u32(),
+            configLines: reader.vec(() => ({ name: reader.string(), uri: reader.string() })).length,
+          };
+        case 'SetAuthority':
+          return { newAuthority: reader.pubkey() };
+        default:
+          return {};
+      }
+    });
+
+    return { type: known.name, params };
   }
 
   /**
@@ -116,16 +436,147 @@ export class MetaplexDecoder implements InstructionDecoder {
   ): DecodedInstruction {
     const discriminator = data.slice(0, 8);
     const discriminatorHex = Buffer.from(discriminator).toString('hex');
+    const known = AUCTION_HOUSE_INSTRUCTIONS[discriminatorHex];
+
+    if (!known) {
+      return {
+        type: 'Auction House Instruction',
+        params: {
+          discriminator: discriminatorHex,
+          accounts: this.extractAccounts(instruction, accountKeys),
+        },
+      };
+    }
+
+    const params = this.nameAccounts(instruction, accountKeys, known.accounts, METAPLEX_PROGRAM_IDS.AUCTION_HOUSE);
+    this.decodeArgs(params, () => {
+      const reader = new BorshReader(data, 8);
+      switch (known.name) {
+        case 'Buy':
+        case 'PublicBuy':
+          reader.bytes(2); // trade state and escrow payment bumps
+          return { price: reader.u64(), tokenSize: reader.u64() };
+        case 'Sell':
+        case 'ExecuteSale':
+          reader.bytes(3); // PDA bumps
+          return { price: reader.u64(), tokenSize: reader.u64() };
+        case 'Cancel':
+          return { price: reader.u64(), tokenSize: reader.u64() };
+        case 'Deposit':
+        case 'Withdraw':
+          reader.u8(); // escrow payment bump
+          return { amount: reader.u64() };
+        default:
+          return {};
+      }
+    });
+
+    return { type: known.name, params };
+  }
 
+  /**
+   * Merge decoded arguments into params, keeping the named accounts if the arguments are malformed
+   */
+  private decodeArgs(params: Record<string, any>, decode: () => Record<string, any>): void {
+    try {
+      Object.assign(params, decode());
+    } catch (error) {
+      params.error = error instanceof Error ? error.message : 'Failed to decode arguments';
+    }
+  }
+
+  /**
+   * Map instruction accounts to their names.
+   * Optional accounts that are absent are passed as the program ID and are skipped.
+   */
+  private nameAccounts(
+    instruction: RawInstruction,
+    accountKeys: string[] | Array<{ pubkey: string; signer: boolean; writable: boolean }>,
+    names: string[],
+    programId: string
+  ): Record<string, any> {
+    const params: Record<string, any> = {};
+
+    names.forEach((name, i) => {
+      if (i >= instruction.accounts.length || OMITTED_ACCOUNTS.has(name)) {
+        return;
+      }
+      const address = this.getAccount(instruction.accounts[i], accountKeys);
+      if (address !== programId) {
+        params[name] = address;
+      }
+    });
+
+    return params;
+  }
+
+  /**
+   * Read Token Metadata DataV2 (name, symbol, URI, royalties, creators, collection, uses)
+   */
+  private readDataV2(reader: BorshReader): Record<string, any> {
+    return {
+      name: this.readString(reader),
+      symbol: this.readString(reader),
+      uri: this.readString(reader),
+      sellerFeeBasisPoints: reader.u16(),
+      creators: reader.option(() => reader.vec(() => this.readCreator(reader))),
+      collection: reader.option(() => this.readCollection(reader)),
+      uses: reader.option(() => this.readUses(reader)),
+    };
+  }
+
+  /**
+   * Read Candy Machine Core CandyMachineData
+   */
+  private readCandyMachineData(reader: BorshReader): Record<string, any> {
+    return {
+      itemsAvailable: reader.u64(),
+      symbol: this.readString(reader),
+      sellerFeeBasisPoints: reader.u16(),
+      maxSupply: reader.u64(),
+      isMutable: reader.bool(),
+      creators: reader.vec(() => this.readCreator(reader)),
+    };
+  }
+
+  private readCreator(reader: BorshReader): { address: string; verified: boolean; share: number } {
+    return {
+      address: reader.pubkey(),
+      verified: reader.bool(),
+      share: reader.u8(),
+    };
+  }
+
+  private readCollection(reader: BorshReader): { verified: boolean; key: string } {
     return {
-      type: 'Auction House Instruction',
-      params: {
-        discriminator: discriminatorHex,
-        accounts: this.extractAccounts(instruction, accountKeys),
-      },
+      verified: reader.bool(),
+      key: reader.pubkey(),
     };
   }
 
+  private readUses(reader: BorshReader): { useMethod: string; remaining: bigint; total: bigint } {
+    return {
+      useMethod: USE_METHODS[reader.u8()],
+      remaining: reader.u64(),
+      total: reader.u64(),
+    };
+  }
+
+  private readCollectionDetails(reader: BorshReader): { size: bigint } | string {
+    if (reader.u8() === 0) {
+      return { size: reader.u64() };
+    }
+    reader.bytes(8); // V2 padding
+    return 'V2';
+  }
+
+  /**
+   * Read a metadata string, dropping the NUL padding used by on-chain fields
+   */
+  private readString(reader: BorshReader): string {
+    return reader.string().replace(/\0+$/, '');
+  }
+
   /**
    * Extract account addresses from instruction
    */
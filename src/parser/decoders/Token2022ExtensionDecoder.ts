@@ -0,0 +1,616 @@
+import { RawInstruction } from '../../rpc/types';
+import { InstructionDecoder, DecodedInstruction } from '../InstructionDecoder';
+import { readU16, readU64 } from './borsh';
+import bs58 from 'bs58';
+
+export const TOKEN_2022_PROGRAM_ID = 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb';
+
+/**
+ * First Token-2022 instruction index that is not part of the original SPL Token set
+ */
+const FIRST_EXTENSION_INSTRUCTION = 25;
+
+/**
+ * Extension instruction families: the instruction index selects the family and
+ * the second byte selects the sub-instruction
+ */
+const EXTENSION_FAMILIES: Record<number, { name: string; instructions: string[] }> = {
+  26: {
+    name: 'TransferFee',
+    instructions: [
+      'InitializeTransferFeeConfig',
+      'TransferCheckedWithFee',
+      'WithdrawWithheldTokensFromMint',
+      'WithdrawWithheldTokensFromAccounts',
+      'HarvestWithheldTokensToMint',
+      'SetTransferFee',
+    ],
+  },
+  27: {
+    name: 'ConfidentialTransfer',
+    instructions: [
+      'InitializeMint',
+      'UpdateMint',
+      'ConfigureAccount',
+      'ApproveAccount',
+      'EmptyAccount',
+      'Deposit',
+      'Withdraw',
+      'Transfer',
+      'ApplyPendingBalance',
+      'EnableConfidentialCredits',
+      'DisableConfidentialCredits',
+      'EnableNonConfidentialCredits',
+      'DisableNonConfidentialCredits',
+      'TransferWithFee',
+      'ConfigureAccountWithRegistry',
+    ],
+  },
+  28: { name: 'DefaultAccountState', instructions: ['Initialize', 'Update'] },
+  30: { name: 'MemoTransfer', instructions: ['Enable', 'Disable'] },
+  33: { name: 'InterestBearingMint', instructions: ['Initialize', 'UpdateRate'] },
+  34: { name: 'CpiGuard', instructions: ['Enable', 'Disable'] },
+  36: { name: 'TransferHook', instructions: ['Initialize', 'Update'] },
+  37: {
+    name: 'ConfidentialTransferFee',
+    instructions: [
+      'InitializeConfidentialTransferFeeConfig',
+      'WithdrawWithheldTokensFromMint',
+      'WithdrawWithheldTokensFromAccounts',
+      'HarvestWithheldTokensToMint',
+      'EnableHarvestToMint',
+      'DisableHarvestToMint',
+    ],
+  },
+  39: { name: 'MetadataPointer', instructions: ['Initialize', 'Update'] },
+  40: { name: 'GroupPointer', instructions: ['Initialize', 'Update'] },
+  41: { name: 'GroupMemberPointer', instructions: ['Initialize', 'Update'] },
+  42: { name: 'ConfidentialMintBurn', instructions: ['InitializeMint', 'RotateSupplyElGamalPubkey', 'UpdateDecryptableSupply', 'Mint', 'Burn', 'ApplyPendingBurn'] },
+  43: { name: 'ScaledUiAmount', instructions: ['Initialize', 'UpdateMultiplier'] },
+  44: { name: 'Pausable', instructions: ['Initialize', 'Pause', 'Resume'] },
+};
+
+/**
+ * Token Metadata and Token Group interface instructions, identified by
+ * 8-byte discriminators (sha256 of "<namespace>:<name>")
+ */
+const INTERFACE_DISCRIMINATORS: Record<string, string> = {
+  'd2e11ea258b84d8d': 'TokenMetadata.Initialize',
+  'dde9312db5cadcc8': 'TokenMetadata.UpdateField',
+  'ea122038598d25b5': 'TokenMetadata.RemoveKey',
+  'd7e4a6e45464567b': 'TokenMetadata.UpdateAuthority',
+  'faa6b4fa0d0cb846': 'TokenMetadata.Emit',
+  '79716c2736330004': 'TokenGroup.InitializeGroup',
+  '6c25ab8ff81e126e': 'TokenGroup.UpdateGroupMaxSize',
+  'a1695801edddd8cb': 'TokenGroup.UpdateGroupAuthority',
+  '9820deb0dfed7486': 'TokenGroup.InitializeMember',
+};
+
+/**
+ * Token account states used by the DefaultAccountState extension
+ */
+const ACCOUNT_STATES = ['Uninitialized', 'Initialized', 'Frozen'];
+
+/**
+ * Token Metadata fields addressable by UpdateField
+ */
+const METADATA_FIELDS = ['name', 'symbol', 'uri'];
+
+/**
+ * Decoder for Token-2022 extension instructions
+ *
+ * Handles only instructions that Token-2022 adds on top of SPL Token;
+ * TokenProgramDecoder delegates to it for those.
+ */
+export class Token2022ExtensionDecoder implements InstructionDecoder {
+  canDecode(programId: string): boolean {
+    return programId === TOKEN_2022_PROGRAM_ID;
+  }
+
+  /**
+   * Check whether instruction data is an extension (or interface) instruction
+   */
+  isExtensionInstruction(data: Uint8Array): boolean {
+    return this.getInterfaceInstruction(data) !== undefined || data[0] >= FIRST_EXTENSION_INSTRUCTION;
+  }
+
+  decode(
+    instruction: RawInstruction,
+    accountKeys: string[] | Array<{ pubkey: string; signer: boolean; writable: boolean }>
+  ): DecodedInstruction {
+    try {
+      const data = bs58.decode(instruction.data);
+
+      const getAccount = (index: number): string => {
+        const accountIndex = instruction.accounts[index];
+        return typeof accountKeys[accountIndex] === 'string'
+          ? (accountKeys[accountIndex] as string)
+          : (accountKeys[accountIndex] as any).pubkey;
+      };
+
+      const accountsFrom = (start: number): string[] =>
+        instruction.accounts.slice(start).map((_, i) => getAccount(start + i));
+
+      const interfaceInstruction = this.getInterfaceInstruction(data);
+      if (interfaceInstruction) {
+        return this.decodeInterface(interfaceInstruction, data.slice(8), getAccount);
+      }
+
+      const instructionType = data[0];
+
+      switch (instructionType) {
+        case 25: // InitializeMintCloseAuthority
+          return {
+            type: 'InitializeMintCloseAuthority',
+            params: {
+              mint: getAccount(0),
+              closeAuthority: this.readCOptionPubkey(data, 1).value,
+            },
+          };
+
+        case 29: // Reallocate
+          return {
+            type: 'Reallocate',
+            params: {
+              account: getAccount(0),
+              payer: getAccount(1),
+              owner: getAccount(3),
+              extensionTypes: this.readU16List(data, 1),
+            },
+          };
+
+        case 31: // CreateNativeMint
+          return {
+            type: 'CreateNativeMint',
+            params: {
+              payer: getAccount(0),
+              mint: getAccount(1),
+            },
+          };
+
+        case 32: // InitializeNonTransferableMint
+          return {
+            type: 'InitializeNonTransferableMint',
+            params: {
+              mint: getAccount(0),
+            },
+          };
+
+        case 35: // InitializePermanentDelegate
+          return {
+            type: 'InitializePermanentDelegate',
+            params: {
+              mint: getAccount(0),
+              delegate: this.readPubkey(data, 1),
+            },
+          };
+
+        case 38: // WithdrawExcessLamports
+          return {
+            type: 'WithdrawExcessLamports',
+            params: {
+              source: getAccount(0),
+              destination: getAccount(1),
+              authority: getAccount(2),
+            },
+          };
+      }
+
+      const family = EXTENSION_FAMILIES[instructionType];
+      if (!family) {
+        return {
+          type: 'Unknown Token-2022 Instruction',
+          params: { instructionType },
+        };
+      }
+
+      const subType = data[1];
+      const name = family.instructions[subType];
+      if (!name) {
+        return {
+          type: `${family.name}.Unknown`,
+          params: { subType, accounts: accountsFrom(0) },
+        };
+      }
+
+      const type = `${family.name}.${name}`;
+      const params = this.decodeExtension(type, data.slice(2), getAccount, accountsFrom);
+
+      return { type, params };
+    } catch (error) {
+      return {
+        type: 'Unknown Token-2022 Instruction',
+        params: { error: 'Failed to decode' },
+      };
+    }
+  }
+
+  /**
+   * Decode the arguments and named accounts of an extension sub-instruction
+   */
+  private decodeExtension(
+    type: string,
+    args: Uint8Array,
+    getAccount: (index: number) => string,
+    accountsFrom: (start: number) => string[]
+  ): Record<string, any> {
+    switch (type) {
+      case 'TransferFee.InitializeTransferFeeConfig': {
+        const configAuthority = this.readCOptionPubkey(args, 0);
+        const withdrawAuthority = this.readCOptionPubkey(args, configAuthority.next);
+        return {
+          mint: getAccount(0),
+          transferFeeConfigAuthority: configAuthority.value,
+          withdrawWithheldAuthority: withdrawAuthority.value,
+          transferFeeBasisPoints: readU16(args, withdrawAuthority.next),
+          maximumFee: readU64(args, withdrawAuthority.next + 2),
+        };
+      }
+
+      case 'TransferFee.TransferCheckedWithFee':
+        return this.withSigners({
+          source: getAccount(0),
+          mint: getAccount(1),
+          destination: getAccount(2),
+          authority: getAccount(3),
+          amount: readU64(args, 0),
+          decimals: args[8],
+          fee: readU64(args, 9),
+        }, accountsFrom(4));
+
+      case 'TransferFee.WithdrawWithheldTokensFromMint':
+        return this.withSigners({
+          mint: getAccount(0),
+          destination: getAccount(1),
+          authority: getAccount(2),
+        }, accountsFrom(3));
+
+      case 'TransferFee.WithdrawWithheldTokensFromAccounts': {
+        // Trailing accounts are multisig signers followed by the source accounts
+        const numTokenAccounts = args[0];
+        const trailing = accountsFrom(3);
+        const splitAt = trailing.length - numTokenAccounts;
+        return this.withSigners({
+          mint: getAccount(0),
+          destination: getAccount(1),
+          authority: getAccount(2),
+          sources: trailing.slice(splitAt),
+        }, trailing.slice(0, splitAt));
+      }
+
+      case 'TransferFee.HarvestWithheldTokensToMint':
+        return {
+          mint: getAccount(0),
+          sources: accountsFrom(1),
+        };
+
+      case 'TransferFee.SetTransferFee':
+        return this.withSigners({
+          mint: getAccount(0),
+          authority: getAccount(1),
+          transferFeeBasisPoints: readU16(args, 0),
+          maximumFee: readU64(args, 2),
+        }, accountsFrom(2));
+
+      case 'ConfidentialTransfer.Deposit':
+        return this.withSigners({
+          account: getAccount(0),
+          mint: getAccount(1),
+          authority: getAccount(2),
+          amount: readU64(args, 0),
+          decimals: args[8],
+        }, accountsFrom(3));
+
+      case 'ConfidentialTransfer.Withdraw':
+        return {
+          account: getAccount(0),
+          mint: getAccount(1),
+          amount: readU64(args, 0),
+          decimals: args[8],
+          accounts: accountsFrom(2),
+        };
+
+      case 'DefaultAccountState.Initialize':
+        return {
+          mint: getAccount(0),
+          state: ACCOUNT_STATES[args[0]] ?? `Unknown (${args[0]})`,
+        };
+
+      case 'DefaultAccountState.Update':
+        return this.withSigners({
+          mint: getAccount(0),
+          freezeAuthority: getAccount(1),
+          state: ACCOUNT_STATES[args[0]] ?? `Unknown (${args[0]})`,
+        }, accountsFrom(2));
+
+      case 'MemoTransfer.Enable':
+      case 'MemoTransfer.Disable':
+      case 'CpiGuard.Enable':
+      case 'CpiGuard.Disable':
+        return this.withSigners({
+          account: getAccount(0),
+          owner: getAccount(1),
+        }, accountsFrom(2));
+
+      case 'InterestBearingMint.Initialize':
+        return {
+          mint: getAccount(0),
+          rateAuthority: this.readOptionalNonZeroPubkey(args, 0),
+          rateBasisPoints: this.readI16(args, 32),
+        };
+
+      case 'InterestBearingMint.UpdateRate':
+        return this.withSigners({
+          mint: getAccount(0),
+          rateAuthority: getAccount(1),
+          rateBasisPoints: this.readI16(args, 0),
+        }, accountsFrom(2));
+
+      case 'TransferHook.Initialize':
+        return {
+          mint: getAccount(0),
+          authority: this.readOptionalNonZeroPubkey(args, 0),
+          programId: this.readOptionalNonZeroPubkey(args, 32),
+        };
+
+      case 'TransferHook.Update':
+        return this.withSigners({
+          mint: getAccount(0),
+          authority: getAccount(1),
+          programId: this.readOptionalNonZeroPubkey(args, 0),
+        }, accountsFrom(2));
+
+      case 'MetadataPointer.Initialize':
+        return {
+          mint: getAccount(0),
+          authority: this.readOptionalNonZeroPubkey(args, 0),
+          metadataAddress: this.readOptionalNonZeroPubkey(args, 32),
+        };
+
+      case 'MetadataPointer.Update':
+        return this.withSigners({
+          mint: getAccount(0),
+          authority: getAccount(1),
+          metadataAddress: this.readOptionalNonZeroPubkey(args, 0),
+        }, accountsFrom(2));
+
+      case 'GroupPointer.Initialize':
+        return {
+          mint: getAccount(0),
+          authority: this.readOptionalNonZeroPubkey(args, 0),
+          groupAddress: this.readOptionalNonZeroPubkey(args, 32),
+        };
+
+      case 'GroupPointer.Update':
+        return this.withSigners({
+          mint: getAccount(0),
+          authority: getAccount(1),
+          groupAddress: this.readOptionalNonZeroPubkey(args, 0),
+        }, accountsFrom(2));
+
+      case 'GroupMemberPointer.Initialize':
+        return {
+          mint: getAccount(0),
+          authority: this.readOptionalNonZeroPubkey(args, 0),
+          memberAddress: this.readOptionalNonZeroPubkey(args, 32),
+        };
+
+      case 'GroupMemberPointer.Update':
+        return this.withSigners({
+          mint: getAccount(0),
+          authority: getAccount(1),
+          memberAddress: this.readOptionalNonZeroPubkey(args, 0),
+        }, accountsFrom(2));
+
+      default:
+        // Remaining families (mostly confidential transfers) carry zero-knowledge
+        // proof data, so only the accounts are shown
+        return { accounts: accountsFrom(0) };
+    }
+  }
+
+  /**
+   * Decode a Token Metadata or Token Group interface instruction
+   */
+  private decodeInterface(
+    type: string,
+    args: Uint8Array,
+    getAccount: (index: number) => string
+  ): DecodedInstruction {
+    switch (type) {
+      case 'TokenMetadata.Initialize': {
+        const name = this.readString(args, 0);
+        const symbol = this.readString(args, name.next);
+        const uri = this.readString(args, symbol.next);
+        return {
+          type,
+          params: {
+            metadata: getAccount(0),
+            updateAuthority: getAccount(1),
+            mint: getAccount(2),
+            mintAuthority: getAccount(3),
+            name: name.value,
+            symbol: symbol.value,
+            uri: uri.value,
+          },
+        };
+      }
+
+      case 'TokenMetadata.UpdateField': {
+        // Field is a Borsh enum: Name, Symbol, Uri or Key(String)
+        const fieldTag = args[0];
+        const key = fieldTag === 3 ? this.readString(args, 1) : null;
+        const value = this.readString(args, key ? key.next : 1);
+        return {
+          type,
+          params: {
+            metadata: getAccount(0),
+            updateAuthority: getAccount(1),
+            field: key ? key.value : METADATA_FIELDS[fieldTag],
+            value: value.value,
+          },
+        };
+      }
+
+      case 'TokenMetadata.RemoveKey':
+        return {
+          type,
+          params: {
+            metadata: getAccount(0),
+            updateAuthority: getAccount(1),
+            idempotent: args[0] === 1,
+            key: this.readString(args, 1).value,
+          },
+        };
+
+      case 'TokenMetadata.UpdateAuthority':
+        return {
+          type,
+          params: {
+            metadata: getAccount(0),
+            currentAuthority: getAccount(1),
+            newAuthority: this.readOptionalNonZeroPubkey(args, 0),
+          },
+        };
+
+      case 'TokenMetadata.Emit':
+        return {
+          type,
+          params: {
+            metadata: getAccount(0),
+          },
+        };
+
+      case 'TokenGroup.InitializeGroup':
+        return {
+          type,
+          params: {
+            group: getAccount(0),
+            mint: getAccount(1),
+            mintAuthority: getAccount(2),
+            updateAuthority: this.readOptionalNonZeroPubkey(args, 0),
+            maxSize: readU64(args, 32),
+          },
+        };
+
+      case 'TokenGroup.UpdateGroupMaxSize':
+        return {
+          type,
+          params: {
+            group: getAccount(0),
+            updateAuthority: getAccount(1),
+            maxSize: readU64(args, 0),
+          },
+        };
+
+      case 'TokenGroup.UpdateGroupAuthority':
+        return {
+          type,
+          params: {
+            group: getAccount(0),
+            currentAuthority: getAccount(1),
+            newAuthority: this.readOptionalNonZeroPubkey(args, 0),
+          },
+        };
+
+      default: // TokenGroup.InitializeMember
+        return {
+          type,
+          params: {
+            member: getAccount(0),
+            memberMint: getAccount(1),
+            memberMintAuthority: getAccount(2),
+            group: getAccount(3),
+            groupUpdateAuthority: getAccount(4),
+          },
+        };
+    }
+  }
+
+  /**
+   * Look up a Token Metadata / Token Group interface instruction by discriminator
+   */
+  private getInterfaceInstruction(data: Uint8Array): string | undefined {
+    if (data.length < 8) {
+      return undefined;
+    }
+    return INTERFACE_DISCRIMINATORS[Buffer.from(data.slice(0, 8)).toString('hex')];
+  }
+
+  /**
+   * Attach multisig signer accounts when present
+   */
+  private withSigners(params: Record<string, any>, signers: string[]): Record<string, any> {
+    if (signers.length > 0) {
+      params.signers = signers;
+    }
+    return params;
+  }
+
+  /**
+   * Read a 16-bit signed integer from buffer (little-endian)
+   */
+  private readI16(buffer: Uint8Array, offset: number): number {
+    const value = readU16(buffer, offset);
+    return value >= 0x8000 ? value - 0x10000 : value;
+  }
+
+  /**
+   * Read a list of 16-bit unsigned integers (little-endian) until the end of the buffer
+   */
+  private readU16List(buffer: Uint8Array, offset: number): number[] {
+    const values: number[] = [];
+    for (let i = offset; i + 1 < buffer.length; i += 2) {
+      values.push(readU16(buffer, i));
+    }
+    return values;
+  }
+
+  /**
+   * Read a public key (32 bytes) from buffer and convert to base58
+   */
+  private readPubkey(buffer: Uint8Array, offset: number): string {
+    if (offset + 32 > buffer.length) {
+      throw new RangeError(`Cannot read pubkey at offset ${offset}`);
+    }
+    return bs58.encode(buffer.slice(offset, offset + 32));
+  }
+
+  /**
+   * Read a COption<Pubkey> as packed in token instructions
+   * (1-byte tag, followed by 32 bytes only when Some)
+   */
+  private readCOptionPubkey(buffer: Uint8Array, offset: number): { value: string | null; next: number } {
+    if (buffer[offset] !== 1) {
+      return { value: null, next: offset + 1 };
+    }
+    return { value: this.readPubkey(buffer, offset + 1), next: offset + 33 };
+  }
+
+  /**
+   * Read an OptionalNonZeroPubkey (32 bytes, all zeros meaning None)
+   */
+  private readOptionalNonZeroPubkey(buffer: Uint8Array, offset: number): string | null {
+    const bytes = buffer.slice(offset, offset + 32);
+    return bytes.every((b) => b === 0) ? null : this.readPubkey(buffer, offset);
+  }
+
+  /**
+   * Read a Borsh string (u32 length prefix + UTF-8 bytes)
+   */
+  private readString(buffer: Uint8Array, offset: number): { value: string; next: number } {
+    const length =
+      buffer[offset] +
+      buffer[offset + 1] * 256 +
+      buffer[offset + 2] * 65536 +
+      buffer[offset + 3] * 16777216;
+    const start = offset + 4;
+    if (start + length > buffer.length) {
+      throw new RangeError(`Cannot read string of length ${length} at offset ${offset}`);
+    }
+    return {
+      value: Buffer.from(buffer.slice(start, start + length)).toString('utf8'),
+      next: start + length,
+    };
+  }
+}
@@ -0,0 +1,23 @@
+import { createHash } from 'crypto';
+
+/**
+ * Compute an Anchor instruction discriminator: sha256("global:<name>")[0..8]
+ * @param name - Instruction name in snake_case, as written in the program
+ * @returns Discriminator as a hex string
+ */
+export function instructionDiscriminator(name: string): string {
+  return sighash('global', name);
+}
+
+/**
+ * Compute an Anchor event discriminator: sha256("event:<Name>")[0..8]
+ * @param name - Event struct name
+ * @returns Discriminator as a hex string
+ */
+export function eventDiscriminator(name: string): string {
+  return sighash('event', name);
+}
+
+function sighash(namespace: string, name: string): string {
+  return createHash('sha256').update(`${namespace}:${name}`).digest().subarray(0, 8).toString('hex');
+}
@@ -0,0 +1,207 @@
+import bs58 from 'bs58';
+
+/**
+ * Sequential reader for Borsh-serialized instruction data
+ *
+ * Every read advances the cursor and throws a RangeError when the data is
+ * too short, so truncated instructions fail loudly instead of yielding NaN.
+ */
+export class BorshReader {
+  private offset: number;
+
+  constructor(private data: Uint8Array, offset: number = 0) {
+    this.offset = offset;
+  }
+
+  /**
+   * Number of bytes left to read
+   */
+  get remaining(): number {
+    return this.data.length - this.offset;
+  }
+
+  u8(): number {
+    this.ensure(1);
+    return this.data[this.offset++];
+  }
+
+  i8(): number {
+    const value = this.u8();
+    return value >= 0x80 ? value - 0x100 : value;
+  }
+
+  bool(): boolean {
+    return this.u8() !== 0;
+  }
+
+  u16(): number {
+    this.ensure(2);
+    const value = this.data[this.offset] + this.data[this.offset + 1] * 256;
+    this.offset += 2;
+    return value;
+  }
+
+  i16(): number {
+    const value = this.u16();
+    return value >= 0x8000 ? value - 0x10000 : value;
+  }
+
+  u32(): number {
+    this.ensure(4);
+    const value =
+      this.data[this.offset] +
+      this.data[this.offset + 1] * 256 +
+      this.data[this.offset + 2] * 65536 +
+      this.data[this.offset + 3] * 16777216;
+    this.offset += 4;
+    return value;
+  }
+
+  i32(): number {
+    const value = this.u32();
+    return value >= 0x80000000 ? value - 0x100000000 : value;
+  }
+
+  /**
+   * Read a little-endian unsigned integer of the given byte width as a bigint
+   */
+  unsigned(bytes: number): bigint {
+    this.ensure(bytes);
+    let value = 0n;
+    for (let i = bytes - 1; i >= 0; i--) {
+      value = (value << 8n) | BigInt(this.data[this.offset + i]);
+    }
+    this.offset += bytes;
+    return value;
+  }
+
+  /**
+   * Read a little-endian two's complement integer of the given byte width as a bigint
+   */
+  signed(bytes: number): bigint {
+    const value = this.unsigned(bytes);
+    const bits = BigInt(bytes * 8);
+    return value >= 1n << (bits - 1n) ? value - (1n << bits) : value;
+  }
+
+  u64(): bigint {
+    return this.unsigned(8);
+  }
+
+  i64(): bigint {
+    return this.signed(8);
+  }
+
+  u128(): bigint {
+    return this.unsigned(16);
+  }
+
+  i128(): bigint {
+    return this.signed(16);
+  }
+
+  f32(): number {
+    this.ensure(4);
+    const value = Buffer.from(this.data.slice(this.offset, this.offset + 4)).readFloatLE(0);
+    this.offset += 4;
+    return value;
+  }
+
+  f64(): number {
+    this.ensure(8);
+    const value = Buffer.from(this.data.slice(this.offset, this.offset + 8)).readDoubleLE(0);
+    this.offset += 8;
+    return value;
+  }
+
+  /**
+   * Read a 32-byte public key as base58
+   */
+  pubkey(): string {
+    return bs58.encode(this.bytes(32));
+  }
+
+  /**
+   * Read a fixed number of raw bytes
+   */
+  bytes(length: number): Uint8Array {
+    this.ensure(length);
+    const value = this.data.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  /**
+   * Read a u32 length-prefixed UTF-8 string
+   */
+  string(): string {
+    const length = this.u32();
+    return Buffer.from(this.bytes(length)).toString('utf8');
+  }
+
+  /**
+   * Read a u32 length-prefixed byte vector
+   */
+  byteVec(): Uint8Array {
+    return this.bytes(this.u32());
+  }
+
+  /**
+   * Read an Option<T> (1-byte tag); returns null for None
+   */
+  option<T>(read: () => T): T | null {
+    return this.bool() ? read() : null;
+  }
+
+  /**
+   * Read a Vec<T> (u32 length prefix)
+   */
+  vec<T>(read: () => T): T[] {
+    const length = this.u32();
+    const items: T[] = [];
+    for (let i = 0; i < length; i++) {
+      items.push(read());
+    }
+    return items;
+  }
+
+  /**
+   * Read a fixed-size array [T; N]
+   */
+  array<T>(length: number, read: () => T): T[] {
+    const items: T[] = [];
+    for (let i = 0; i < length; i++) {
+      items.push(read());
+    }
+    return items;
+  }
+
+  private ensure(bytes: number): void {
+    if (this.offset + bytes > this.data.length) {
+      throw new RangeError(
+        `Unexpected end of data: needed ${bytes} byte(s) at offset ${this.offset}, ${this.remaining} left`
+      );
+    }
+  }
+}
+
+/**
+ * Read a little-endian u16 at a fixed offset, with BorshReader's bounds check
+ */
+export function readU16(data: Uint8Array, offset: number): number {
+  return new BorshReader(data, offset).u16();
+}
+
+/**
+ * Read a little-endian u32 at a fixed offset, with BorshReader's bounds check
+ */
+export function readU32(data: Uint8Array, offset: number): number {
+  return new BorshReader(data, offset).u32();
+}
+
+/**
+ * Read a little-endian u64 at a fixed offset as a bigint, with BorshReader's bounds check
+ */
+export function readU64(data: Uint8Array, offset: number): bigint {
+  return new BorshReader(data, offset).u64();
+}
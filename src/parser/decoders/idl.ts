@@ -0,0 +1,282 @@
+import { BorshReader } from './borsh';
+import { instructionDiscriminator, eventDiscriminator } from './anchor';
+
+/**
+ * Type reference as written in an Anchor IDL (legacy or 0.30+ format)
+ */
+export type IdlType =
+  | string
+  | { vec: IdlType }
+  | { option: IdlType }
+  | { coption: IdlType }
+  | { array: [IdlType, number] }
+  | { defined: string | { name: string } }
+  | { tuple: IdlType[] };
+
+/**
+ * Named field of a struct, instruction or event
+ */
+export interface IdlField {
+  name: string;
+  type: IdlType;
+}
+
+/**
+ * User-defined type: struct, enum or alias
+ */
+export type IdlTypeDef =
+  | { kind: 'struct'; fields?: Array<IdlField | IdlType> }
+  | { kind: 'enum'; variants: Array<{ name: string; fields?: Array<IdlField | IdlType> }> }
+  | { kind: 'type'; alias: IdlType };
+
+/**
+ * Instruction definition normalized from either IDL format
+ */
+export interface NormalizedIdlInstruction {
+  name: string;
+  discriminator: string;
+  /** Account names in order, nested account groups flattened as "group.account" */
+  accounts: Array<{ name: string; optional: boolean }>;
+  args: IdlField[];
+}
+
+/**
+ * Event definition normalized from either IDL format
+ */
+export interface NormalizedIdlEvent {
+  name: string;
+  discriminator: string;
+  fields: IdlField[];
+}
+
+/**
+ * Custom program error defined in an IDL
+ */
+export interface IdlError {
+  code: number;
+  name: string;
+  msg?: string;
+}
+
+/**
+ * Anchor IDL normalized so that legacy and 0.30+ files look the same
+ */
+export interface NormalizedIdl {
+  name: string;
+  address?: string;
+  instructions: NormalizedIdlInstruction[];
+  events: NormalizedIdlEvent[];
+  errors: IdlError[];
+  types: Map<string, IdlTypeDef>;
+}
+
+/**
+ * Normalize an Anchor IDL JSON document.
+ * 0.30+ IDLs carry explicit discriminators and a top-level address; legacy
+ * IDLs derive discriminators from the camelCase names and keep the address
+ * in metadata.
+ * @throws Error if the document is not a recognizable Anchor IDL
+ */
+export function normalizeIdl(raw: any): NormalizedIdl {
+  if (!raw || typeof raw !== 'object' || !Array.isArray(raw.instructions)) {
+    throw new Error('IDL must be an object with an "instructions" array');
+  }
+
+  const isModern = typeof raw.address === 'string' || raw.metadata?.spec !== undefined;
+  const types = new Map<string, IdlTypeDef>();
+
+  for (const typeDef of raw.types || []) {
+    types.set(typeDef.name, typeDef.type);
+  }
+
+  // Legacy IDLs declare event fields inline; 0.30+ IDLs reference a type with the same name
+  const events: NormalizedIdlEvent[] = (raw.events || []).map((event: any) => ({
+    name: event.name,
+    discriminator: isModern && Array.isArray(event.discriminator)
+      ? Buffer.from(event.discriminator).toString('hex')
+      : eventDiscriminator(event.name),
+    fields: event.fields || structFields(types.get(event.name)),
+  }));
+
+  const instructions: NormalizedIdlInstruction[] = raw.instructions.map((ix: any) => ({
+    name: ix.name,
+    discriminator: Array.isArray(ix.discriminator)
+      ? Buffer.from(ix.discriminator).toString('hex')
+      : instructionDiscriminator(toSnakeCase(ix.name)),
+    accounts: flattenAccounts(ix.accounts || []),
+    args: ix.args || [],
+  }));
+
+  return {
+    name: raw.metadata?.name || raw.name || 'unknown',
+    address: raw.address || raw.metadata?.address,
+    instructions,
+    events,
+    errors: raw.errors || [],
+    types,
+  };
+}
+
+/**
+ * Borsh-decode a value of the given IDL type.
+ * Integers up to 32 bits become numbers, wider ones bigints; byte vectors
+ * become hex strings; enums become the variant name, or { Variant: fields }
+ * when the variant carries data.
+ */
+export function decodeIdlValue(reader: BorshReader, type: IdlType, idl: NormalizedIdl): any {
+  if (typeof type === 'string') {
+    switch (type) {
+      case 'bool':
+        return reader.bool();
+      case 'u8':
+        return reader.u8();
+      case 'i8':
+        return reader.i8();
+      case 'u16':
+        return reader.u16();
+      case 'i16':
+        return reader.i16();
+      case 'u32':
+        return reader.u32();
+      case 'i32':
+        return reader.i32();
+      case 'f32':
+        return reader.f32();
+      case 'f64':
+        return reader.f64();
+      case 'u64':
+        return reader.u64();
+      case 'i64':
+        return reader.i64();
+      case 'u128':
+        return reader.u128();
+      case 'i128':
+        return reader.i128();
+      case 'u256':
+        return reader.unsigned(32);
+      case 'i256':
+        return reader.signed(32);
+      case 'string':
+        return reader.string();
+      case 'bytes':
+        return Buffer.from(reader.byteVec()).toString('hex');
+      case 'publicKey':
+      case 'pubkey':
+        return reader.pubkey();
+      default:
+        throw new Error(`Unsupported IDL type: ${type}`);
+    }
+  }
+
+  if ('vec' in type) {
+    return reader.vec(() => decodeIdlValue(reader, type.vec, idl));
+  }
+  if ('option' in type) {
+    return reader.option(() => decodeIdlValue(reader, type.option, idl));
+  }
+  if ('coption' in type) {
+    // COption uses a 4-byte tag
+    return reader.u32() === 0 ? null : decodeIdlValue(reader, type.coption, idl);
+  }
+  if ('array' in type) {
+    const [itemType, length] = type.array;
+    return reader.array(length, () => decodeIdlValue(reader, itemType, idl));
+  }
+  if ('tuple' in type) {
+    return type.tuple.map((itemType) => decodeIdlValue(reader, itemType, idl));
+  }
+  if ('defined' in type) {
+    const name = typeof type.defined === 'string' ? type.defined : type.defined.name;
+    const typeDef = idl.types.get(name);
+    if (!typeDef) {
+      throw new Error(`IDL type not found: ${name}`);
+    }
+    return decodeTypeDef(reader, typeDef, idl);
+  }
+
+  throw new Error(`Unsupported IDL type: ${JSON.stringify(type)}`);
+}
+
+/**
+ * Decode a list of named fields into an object
+ */
+export function decodeIdlFields(
+  reader: BorshReader,
+  fields: IdlField[],
+  idl: NormalizedIdl
+): Record<string, any> {
+  const values: Record<string, any> = {};
+  for (const field of fields) {
+    values[field.name] = decodeIdlValue(reader, field.type, idl);
+  }
+  return values;
+}
+
+function decodeTypeDef(reader: BorshReader, typeDef: IdlTypeDef, idl: NormalizedIdl): any {
+  switch (typeDef.kind) {
+    case 'struct':
+      return decodeFieldList(reader, typeDef.fields || [], idl);
+
+    case 'enum': {
+      const variant = typeDef.variants[reader.u8()];
+      if (!variant) {
+        throw new Error('Invalid enum variant');
+      }
+      if (!variant.fields || variant.fields.length === 0) {
+        return variant.name;
+      }
+      return { [variant.name]: decodeFieldList(reader, variant.fields, idl) };
+    }
+
+    case 'type':
+      return decodeIdlValue(reader, typeDef.alias, idl);
+  }
+}
+
+/**
+ * Decode named fields into an object, or tuple fields into an array
+ */
+function decodeFieldList(
+  reader: BorshReader,
+  fields: Array<IdlField | IdlType>,
+  idl: NormalizedIdl
+): any {
+  if (fields.every(isNamedField)) {
+    return decodeIdlFields(reader, fields as IdlField[], idl);
+  }
+  return (fields as IdlType[]).map((type) => decodeIdlValue(reader, type, idl));
+}
+
+function isNamedField(field: IdlField | IdlType): field is IdlField {
+  return typeof field === 'object' && 'name' in field && 'type' in field;
+}
+
+function structFields(typeDef: IdlTypeDef | undefined): IdlField[] {
+  if (typeDef?.kind === 'struct' && (typeDef.fields || []).every(isNamedField)) {
+    return (typeDef.fields || []) as IdlField[];
+  }
+  return [];
+}
+
+function flattenAccounts(accounts: any[], prefix: string = ''): Array<{ name: string; optional: boolean }> {
+  const flat: Array<{ name: string; optional: boolean }> = [];
+  for (const account of accounts) {
+    const name = prefix + account.name;
+    if (Array.isArray(account.accounts)) {
+      flat.push(...flattenAccounts(account.accounts, `${name}.`));
+    } else {
+      flat.push({ name, optional: Boolean(account.optional || account.isOptional) });
+    }
+  }
+  return flat;
+}
+
+/**
+ * Convert a camelCase instruction name to snake_case, as Anchor does when hashing
+ */
+function toSnakeCase(name: string): string {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2')
+    .toLowerCase();
+}
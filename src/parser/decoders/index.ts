@@ -1 +1,14 @@
 export { MetaplexDecoder, METAPLEX_PROGRAM_IDS } from './MetaplexDecoder';
+export {
+  ComputeBudgetDecoder,
+  COMPUTE_BUDGET_PROGRAM_ID,
+  DEFAULT_INSTRUCTION_COMPUTE_UNIT_LIMIT,
+  MAX_COMPUTE_UNIT_LIMIT,
+} from './ComputeBudgetDecoder';
+export type { ComputeBudget } from './ComputeBudgetDecoder';
+export { Token2022ExtensionDecoder, TOKEN_2022_PROGRAM_ID } from './Token2022ExtensionDecoder';
+export { IdlDecoder } from './IdlDecoder';
+export { BorshReader } from './borsh';
+export type { NormalizedIdl, IdlType, IdlField, IdlError } from './idl';
+export { AssociatedTokenDecoder, ASSOCIATED_TOKEN_PROGRAM_ID } from './AssociatedTokenDecoder';
+export { JupiterDecoder, JUPITER_V6_PROGRAM_ID } from './JupiterDecoder';
@@ -0,0 +1,75 @@
+import { LogTrace, ProgramEvent, ProgramInteraction } from './types';
+import { DecodedEvent } from './InstructionDecoder';
+import { flattenInteractions } from './interactionTree';
+import { flattenInvocations } from './logParser';
+
+/**
+ * Prefix of emit_cpi! event instructions: sha256("anchor:event")[..8], little-endian
+ */
+export const EVENT_IX_TAG = Buffer.from('e445a52e51cb9a1d', 'hex');
+
+/**
+ * Decodes an event for a program, or returns null if unknown
+ */
+export type EventDecoder = (programId: string, data: Uint8Array) => DecodedEvent | null;
+
+/**
+ * Check whether instruction data is an emit_cpi! event self-invocation
+ */
+export function isEventCpi(data: Uint8Array): boolean {
+  return data.length >= 16 && Buffer.from(data.subarray(0, 8)).equals(EVENT_IX_TAG);
+}
+
+/**
+ * Attach events logged as "Program data: <base64>" to the interaction that
+ * emitted them.
+ *
+ * Every invocation logs an "invoke" line, so invocations in the log trace
+ * line up with interactions in execution order. Interactions without logs
+ * (precompiles such as Ed25519 verification) are skipped; attribution stops
+ * once the trace cannot be matched (e.g. when the log output was truncated).
+ */
+export function attachLogEvents(
+  interactions: ProgramInteraction[],
+  trace: LogTrace,
+  decodeEvent: EventDecoder
+): void {
+  const emitters = flattenInteractions(interactions);
+  let next = 0;
+
+  for (const invocation of flattenInvocations(trace.invocations)) {
+    while (next < emitters.length && emitters[next].programId !== invocation.programId) {
+      next++;
+    }
+    const emitter = emitters[next++];
+    if (!emitter) {
+      return;
+    }
+
+    for (const payload of invocation.data) {
+      // sol_log_data writes each slice as base64, separated by spaces; Anchor emits one
+      const [encoded] = payload.split(' ');
+      const event = decodeEvent(emitter.programId, Buffer.from(encoded, 'base64'));
+
+      if (event) {
+        emitter.events.push(toProgramEvent(emitter.programId, event, 'log'));
+      }
+    }
+  }
+}
+
+/**
+ * Build a ProgramEvent from a decoded event
+ */
+export function toProgramEvent(
+  programId: string,
+  event: DecodedEvent,
+  source: ProgramEvent['source']
+): ProgramEvent {
+  return {
+    programId,
+    name: event.name,
+    data: event.data,
+    source,
+  };
+}
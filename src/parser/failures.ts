@@ -0,0 +1,180 @@
+import { LogInvocation, LogTrace, TransactionFailure } from './types';
+import { DecodedProgramError } from './InstructionDecoder';
+import { getProgramName } from '../utils/knownPrograms';
+import {
+  INSTRUCTION_ERROR_MESSAGES,
+  TRANSACTION_ERROR_MESSAGES,
+  PROGRAM_ERROR_TABLES,
+  ANCHOR_ERRORS,
+  LIKELY_CAUSES,
+} from './programErrors';
+
+/**
+ * Resolves a custom error code for a program, or returns null if unknown
+ */
+export type ErrorDecoder = (programId: string, code: number) => DecodedProgramError | null;
+
+/**
+ * Anchor logs "AnchorError ... Error Code: <name>. Error Number: <n>. Error Message: <msg>."
+ */
+const ANCHOR_ERROR_LOG = /Error Code: (\w+)\. Error Number: (\d+)\. Error Message: (.*?)\.?$/;
+
+const SLIPPAGE_CAUSE = LIKELY_CAUSES.SlippageToleranceExceeded;
+const COMPUTE_CAUSE = LIKELY_CAUSES.ComputationalBudgetExceeded;
+
+/**
+ * Explain a transaction error (meta.err).
+ *
+ * InstructionError carries the index of the failed top-level instruction and
+ * either a built-in error or a custom code. Custom codes only mean something
+ * for the program that raised them, which with CPIs is the innermost failed
+ * invocation in the logs rather than the top-level program.
+ *
+ * @param error - meta.err from the RPC response
+ * @param instructionProgramIds - Program ID of each top-level instruction
+ * @param trace - Invocation trace parsed from the logs
+ * @param decodeError - Resolver for program-defined (e.g. IDL) error codes
+ */
+export function explainFailure(
+  error: any,
+  instructionProgramIds: string[],
+  trace: LogTrace,
+  decodeError: ErrorDecoder
+): TransactionFailure {
+  const [variant, payload] = typeof error === 'string'
+    ? [error, undefined]
+    : Object.entries(error ?? {})[0] ?? ['UnknownError', undefined];
+
+  if (variant !== 'InstructionError' || !Array.isArray(payload)) {
+    return withLikelyCause({
+      rawError: error,
+      instructionIndex: variant === 'DuplicateInstruction' ? Number(payload) : undefined,
+      errorName: variant,
+      message: transactionErrorMessage(variant, payload),
+    });
+  }
+
+  const [instructionIndex, instructionError] = payload as [number, any];
+  const failed = failedInvocation(trace, instructionProgramIds[instructionIndex]);
+  const programId = failed?.programId ?? instructionProgramIds[instructionIndex];
+
+  const failure: TransactionFailure = {
+    rawError: error,
+    instructionIndex,
+    programId,
+    programName: programId ? getProgramName(programId) : undefined,
+    errorName: '',
+    message: '',
+  };
+
+  if (typeof instructionError === 'string') {
+    failure.errorName = instructionError;
+    failure.message = INSTRUCTION_ERROR_MESSAGES[instructionError] ?? humanize(instructionError);
+  } else if (instructionError && typeof instructionError.Custom === 'number') {
+    const code = instructionError.Custom;
+    const resolved = resolveCustomError(programId, code, failed, decodeError);
+    failure.customCode = code;
+    failure.errorName = resolved?.name ?? 'Custom';
+    failure.message = resolved?.message ??
+      `Custom program error ${code} (0x${code.toString(16)})`;
+  } else {
+    const [name, detail] = Object.entries(instructionError ?? {})[0] ?? ['UnknownError', undefined];
+    failure.errorName = name;
+    failure.message = INSTRUCTION_ERROR_MESSAGES[name] ?? humanize(name);
+    if (typeof detail === 'string' && detail) {
+      failure.message += `: ${detail}`;
+    }
+  }
+
+  withLikelyCause(failure);
+
+  // Compute exhaustion surfaces as ProgramFailedToComplete; the log says why
+  if (!failure.likelyCause && failed?.error?.includes('exceeded CUs meter')) {
+    failure.likelyCause = COMPUTE_CAUSE;
+  }
+
+  return failure;
+}
+
+/**
+ * Find the innermost failed invocation under the failed top-level instruction
+ */
+function failedInvocation(trace: LogTrace, programId: string | undefined): LogInvocation | undefined {
+  let current = [...trace.invocations].reverse().find((i) => i.status === 'failed');
+  if (!current || current.programId !== programId) {
+    return undefined;
+  }
+
+  for (;;) {
+    const child: LogInvocation | undefined = [...current.children]
+      .reverse()
+      .find((i) => i.status === 'failed');
+    if (!child) {
+      return current;
+    }
+    current = child;
+  }
+}
+
+/**
+ * Resolve a custom error code: program-defined errors first (including
+ * Anchor framework errors for programs with an IDL), then the built-in
+ * tables, then whatever Anchor logged about it
+ */
+function resolveCustomError(
+  programId: string | undefined,
+  code: number,
+  failed: LogInvocation | undefined,
+  decodeError: ErrorDecoder
+): DecodedProgramError | undefined {
+  if (!programId) {
+    return undefined;
+  }
+
+  const decoded = decodeError(programId, code);
+  if (decoded) {
+    return { name: decoded.name, message: decoded.message ?? humanize(decoded.name) };
+  }
+
+  const table = PROGRAM_ERROR_TABLES[programId];
+  if (table) {
+    return table[code];
+  }
+
+  const logs = failed?.logs ?? [];
+  for (const log of logs) {
+    const match = ANCHOR_ERROR_LOG.exec(log);
+    if (match && Number(match[2]) === code) {
+      return { name: match[1], message: match[3] };
+    }
+  }
+
+  // Framework codes only mean something for programs known to be Anchor
+  if (logs.some((log) => log.includes('AnchorError'))) {
+    return ANCHOR_ERRORS[code];
+  }
+
+  return undefined;
+}
+
+function transactionErrorMessage(variant: string, payload: any): string {
+  let message = TRANSACTION_ERROR_MESSAGES[variant] ?? humanize(variant);
+  if (payload && typeof payload === 'object' && typeof payload.account_index === 'number') {
+    message += ` (account #${payload.account_index})`;
+  }
+  return message;
+}
+
+function withLikelyCause(failure: TransactionFailure): TransactionFailure {
+  failure.likelyCause = LIKELY_CAUSES[failure.errorName] ??
+    (/slippage/i.test(`${failure.errorName} ${failure.message}`) ? SLIPPAGE_CAUSE : undefined);
+  return failure;
+}
+
+/**
+ * Turn an error variant name into a sentence: "AccountBorrowFailed" -> "Account borrow failed"
+ */
+function humanize(name: string): string {
+  const words = name.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
@@ -0,0 +1,256 @@
+import { TokenBalance } from '../rpc/types';
+import { ProgramInteraction, TokenTransfer } from './types';
+import { flattenInteractions } from './interactionTree';
+
+/**
+ * Pseudo-mint used for native SOL transfers
+ */
+export const NATIVE_SOL_MINT = 'SOL';
+
+const SYSTEM_PROGRAM_ID = '11111111111111111111111111111111';
+const TOKEN_PROGRAM_ID = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+const TOKEN_2022_PROGRAM_ID = 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb';
+
+const TOKEN_TRANSFER_INSTRUCTIONS = new Set([
+  'Transfer',
+  'TransferChecked',
+  'TransferFee.TransferCheckedWithFee',
+]);
+
+/**
+ * Token account info taken from pre/post token balances
+ */
+interface TokenAccountInfo {
+  mint: string;
+  decimals: number;
+  pre: bigint;
+  post: bigint;
+}
+
+/**
+ * Reconstruct complete transfer edges (from, to, mint, amount).
+ *
+ * Decoded System and SPL Token transfer instructions, including CPIs, are the
+ * primary source so every edge ties back to the instruction that caused it.
+ * Token balance changes not explained by those instructions are then paired
+ * debit-to-credit per mint as a fallback.
+ */
+export function reconstructTransfers(
+  accountKeys: string[],
+  interactions: ProgramInteraction[],
+  preTokenBalances: TokenBalance[],
+  postTokenBalances: TokenBalance[],
+  succeeded: boolean
+): TokenTransfer[] {
+  const tokenAccounts = collectTokenAccounts(accountKeys, preTokenBalances, postTokenBalances);
+
+  // Instructions of a failed transaction were rolled back, so only balances are meaningful
+  const token2022Transfers = new Set<TokenTransfer>();
+  const transfers = succeeded
+    ? transfersFromInstructions(interactions, tokenAccounts, token2022Transfers)
+    : [];
+  const residuals = unexplainedChanges(tokenAccounts, transfers);
+
+  inferWithheldFees(token2022Transfers, residuals);
+
+  return [...transfers, ...transfersFromBalances(tokenAccounts, residuals)];
+}
+
+/**
+ * Build a map of token account address -> mint, decimals and raw balances
+ */
+function collectTokenAccounts(
+  accountKeys: string[],
+  preTokenBalances: TokenBalance[],
+  postTokenBalances: TokenBalance[]
+): Map<string, TokenAccountInfo> {
+  const accounts = new Map<string, TokenAccountInfo>();
+
+  const visit = (balance: TokenBalance, phase: 'pre' | 'post') => {
+    const address = accountKeys[balance.accountIndex];
+    if (!address) {
+      return;
+    }
+
+    let info = accounts.get(address);
+    if (!info) {
+      info = {
+        mint: balance.mint,
+        decimals: balance.uiTokenAmount.decimals,
+        pre: 0n,
+        post: 0n,
+      };
+      accounts.set(address, info);
+    }
+    info[phase] = BigInt(balance.uiTokenAmount.amount);
+  };
+
+  preTokenBalances.forEach((balance) => visit(balance, 'pre'));
+  postTokenBalances.forEach((balance) => visit(balance, 'post'));
+
+  return accounts;
+}
+
+/**
+ * Turn decoded transfer instructions into transfer edges, in execution order.
+ * Token-2022 transfers that do not state their fee are collected separately
+ * so a withheld fee can be inferred later.
+ */
+function transfersFromInstructions(
+  interactions: ProgramInteraction[],
+  tokenAccounts: Map<string, TokenAccountInfo>,
+  token2022Transfers: Set<TokenTransfer>
+): TokenTransfer[] {
+  const transfers: TokenTransfer[] = [];
+
+  for (const interaction of flattenInteractions(interactions)) {
+    const { details } = interaction;
+    const origin = {
+      source: 'instruction' as const,
+      instructionIndex: interaction.instructionIndex,
+      innerIndex: interaction.innerIndex,
+    };
+
+    if (interaction.programId === SYSTEM_PROGRAM_ID && interaction.instructionType === 'Transfer') {
+      transfers.push({
+        mint: NATIVE_SOL_MINT,
+        symbol: 'SOL',
+        amount: details.lamports,
+        decimals: 9,
+        from: details.from,
+        to: details.to,
+        ...origin,
+      });
+      continue;
+    }
+
+    const isTokenProgram =
+      interaction.programId === TOKEN_PROGRAM_ID || interaction.programId === TOKEN_2022_PROGRAM_ID;
+
+    if (isTokenProgram && TOKEN_TRANSFER_INSTRUCTIONS.has(interaction.instructionType)) {
+      const account = tokenAccounts.get(details.source) || tokenAccounts.get(details.destination);
+      const transfer: TokenTransfer = {
+        mint: details.mint || account?.mint || 'unknown',
+        amount: details.amount,
+        decimals: details.decimals ?? account?.decimals ?? 0,
+        from: details.source,
+        to: details.destination,
+        ...origin,
+      };
+
+      if (details.fee !== undefined) {
+        transfer.fee = details.fee;
+      } else if (interaction.programId === TOKEN_2022_PROGRAM_ID) {
+        token2022Transfers.add(transfer);
+      }
+
+      transfers.push(transfer);
+    }
+  }
+
+  return transfers;
+}
+
+/**
+ * Compute, per token account, the balance change no decoded instruction accounts for
+ */
+function unexplainedChanges(
+  tokenAccounts: Map<string, TokenAccountInfo>,
+  explained: TokenTransfer[]
+): Map<string, bigint> {
+  // Residual change per account = observed change - change explained by instructions
+  const residuals = new Map<string, bigint>();
+  for (const [address, info] of tokenAccounts) {
+    residuals.set(address, info.post - info.pre);
+  }
+  for (const transfer of explained) {
+    if (residuals.has(transfer.from)) {
+      residuals.set(transfer.from, residuals.get(transfer.from)! + transfer.amount);
+    }
+    if (residuals.has(transfer.to)) {
+      const received = transfer.amount - (transfer.fee ?? 0n);
+      residuals.set(transfer.to, residuals.get(transfer.to)! - received);
+    }
+  }
+  return residuals;
+}
+
+/**
+ * Attribute shortfalls at Token-2022 destinations to withheld transfer fees.
+ * A plain TransferChecked on a fee-bearing mint withholds the fee without
+ * stating it, so the recipient ends up with less than the instruction amount.
+ */
+function inferWithheldFees(transfers: Set<TokenTransfer>, residuals: Map<string, bigint>): void {
+  for (const transfer of transfers) {
+    const residual = residuals.get(transfer.to);
+    if (residual === undefined || residual >= 0n) {
+      continue;
+    }
+
+    const fee = -residual < transfer.amount ? -residual : transfer.amount;
+    transfer.fee = fee;
+    residuals.set(transfer.to, residual + fee);
+  }
+}
+
+/**
+ * Pair token balance changes that no decoded instruction accounts for
+ */
+function transfersFromBalances(
+  tokenAccounts: Map<string, TokenAccountInfo>,
+  residuals: Map<string, bigint>
+): TokenTransfer[] {
+  // Group debits and credits by mint
+  const byMint = new Map<string, { debits: Array<[string, bigint]>; credits: Array<[string, bigint]> }>();
+  for (const [address, residual] of residuals) {
+    if (residual === 0n) {
+      continue;
+    }
+    const { mint } = tokenAccounts.get(address)!;
+    const group = byMint.get(mint) || { debits: [], credits: [] };
+    if (residual < 0n) {
+      group.debits.push([address, -residual]);
+    } else {
+      group.credits.push([address, residual]);
+    }
+    byMint.set(mint, group);
+  }
+
+  const transfers: TokenTransfer[] = [];
+
+  for (const [mint, { debits, credits }] of byMint) {
+    const decimals = tokenAccounts.get((debits[0] || credits[0])[0])!.decimals;
+    const edge = (from: string, to: string, amount: bigint): TokenTransfer => ({
+      mint,
+      amount,
+      decimals,
+      from,
+      to,
+      source: 'balance',
+    });
+
+    // Greedily match debits against credits; leftovers are mints, burns or closes
+    let c = 0;
+    for (const debit of debits) {
+      while (debit[1] > 0n && c < credits.length) {
+        const amount = debit[1] < credits[c][1] ? debit[1] : credits[c][1];
+        transfers.push(edge(debit[0], credits[c][0], amount));
+        debit[1] -= amount;
+        credits[c][1] -= amount;
+        if (credits[c][1] === 0n) {
+          c++;
+        }
+      }
+      if (debit[1] > 0n) {
+        transfers.push(edge(debit[0], 'unknown', debit[1]));
+      }
+    }
+    for (; c < credits.length; c++) {
+      if (credits[c][1] > 0n) {
+        transfers.push(edge('unknown', credits[c][0], credits[c][1]));
+      }
+    }
+  }
+
+  return transfers;
+}
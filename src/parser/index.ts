@@ -1,10 +1,36 @@
 export { TransactionParser } from './TransactionParser';
 export { TokenProgramDecoder } from './TokenProgramDecoder';
 export { SystemProgramDecoder } from './SystemProgramDecoder';
+export { flattenInteractions } from './interactionTree';
+export { reconstructTransfers, NATIVE_SOL_MINT } from './fundFlows';
+export { computeNetChanges, WRAPPED_SOL_MINT } from './netChanges';
+export { detectSwaps } from './swaps';
+export { attachLogEvents, EVENT_IX_TAG } from './events';
+export { parseLogs, flattenInvocations, selfComputeUnits } from './logParser';
+export { explainFailure } from './failures';
+export { resolveAccounts } from './accounts';
+export {
+  deriveAccounts,
+  tokenAccountOwners,
+  associatedTokenAddress,
+  metaplexMetadataAddress,
+  masterEditionAddress,
+} from './addressDerivation';
 export type {
   ParsedTransaction,
   AccountChange,
+  TransactionAccount,
+  AccountDerivation,
   TokenTransfer,
+  NetChange,
+  AssetChange,
+  Swap,
+  SwapVenue,
   ProgramInteraction,
+  ProgramEvent,
+  FeeBreakdown,
+  LogInvocation,
+  LogTrace,
+  TransactionFailure,
 } from './types';
-export type { InstructionDecoder, DecodedInstruction } from './InstructionDecoder';
+export type { InstructionDecoder, DecodedInstruction, DecodedEvent, DecodedProgramError } from './InstructionDecoder';
@@ -0,0 +1,23 @@
+import { ProgramInteraction } from './types';
+
+/**
+ * Flatten a program interaction tree into execution order (depth-first)
+ * @param interactions - Top-level interactions with nested CPIs
+ * @returns Every interaction, top-level and inner, in the order they ran
+ */
+export function flattenInteractions(interactions: ProgramInteraction[]): ProgramInteraction[] {
+  const flat: ProgramInteraction[] = [];
+
+  const visit = (interaction: ProgramInteraction) => {
+    flat.push(interaction);
+    for (const child of interaction.children) {
+      visit(child);
+    }
+  };
+
+  for (const interaction of interactions) {
+    visit(interaction);
+  }
+
+  return flat;
+}
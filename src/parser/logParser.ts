@@ -0,0 +1,120 @@
+import { LogInvocation, LogTrace } from './types';
+
+const INVOKE_LOG = /^Program (\S+) invoke \[(\d+)\]$/;
+const CONSUMED_LOG = /^Program (\S+) consumed (\d+) of (\d+) compute units$/;
+const SUCCESS_LOG = /^Program (\S+) success$/;
+const FAILED_LOG = /^Program (\S+) failed: (.*)$/;
+const RETURN_LOG = /^Program return: (\S+) (\S*)$/;
+const LOG_PREFIX = 'Program log: ';
+const DATA_PREFIX = 'Program data: ';
+const TRUNCATED_LOG = 'Log truncated';
+
+/**
+ * Parse a transaction's log messages into an invocation trace.
+ *
+ * The runtime brackets every invocation with "invoke [n]" and
+ * "success"/"failed" lines, so a stack of open invocations is enough to
+ * rebuild the call tree. Lines that fit no known pattern are kept as logs of
+ * the invocation they appear in.
+ */
+export function parseLogs(logMessages: string[]): LogTrace {
+  const invocations: LogInvocation[] = [];
+  const stack: LogInvocation[] = [];
+  let truncated = false;
+
+  for (const line of logMessages) {
+    if (line === TRUNCATED_LOG) {
+      truncated = true;
+      break;
+    }
+
+    const invoke = INVOKE_LOG.exec(line);
+    if (invoke) {
+      const invocation: LogInvocation = {
+        programId: invoke[1],
+        depth: parseInt(invoke[2], 10),
+        logs: [],
+        data: [],
+        status: 'incomplete',
+        children: [],
+      };
+
+      const parent = stack[stack.length - 1];
+      (parent ? parent.children : invocations).push(invocation);
+      stack.push(invocation);
+      continue;
+    }
+
+    const current = stack[stack.length - 1];
+    if (!current) {
+      continue;
+    }
+
+    if (line.startsWith(LOG_PREFIX)) {
+      current.logs.push(line.slice(LOG_PREFIX.length));
+      continue;
+    }
+
+    if (line.startsWith(DATA_PREFIX)) {
+      current.data.push(line.slice(DATA_PREFIX.length));
+      continue;
+    }
+
+    const consumed = CONSUMED_LOG.exec(line);
+    if (consumed) {
+      current.computeUnits = {
+        consumed: parseInt(consumed[2], 10),
+        available: parseInt(consumed[3], 10),
+      };
+      continue;
+    }
+
+    const returned = RETURN_LOG.exec(line);
+    if (returned) {
+      current.returnData = returned[2];
+      continue;
+    }
+
+    if (SUCCESS_LOG.test(line)) {
+      current.status = 'success';
+      stack.pop();
+      continue;
+    }
+
+    const failed = FAILED_LOG.exec(line);
+    if (failed) {
+      current.status = 'failed';
+      current.error = failed[2];
+      stack.pop();
+      continue;
+    }
+
+    current.logs.push(line);
+  }
+
+  return { invocations, truncated };
+}
+
+/**
+ * Flatten an invocation trace into execution order (depth-first)
+ */
+export function flattenInvocations(invocations: LogInvocation[]): LogInvocation[] {
+  return invocations.flatMap((invocation) => [
+    invocation,
+    ...flattenInvocations(invocation.children),
+  ]);
+}
+
+/**
+ * Compute units consumed by an invocation itself, excluding its CPIs
+ */
+export function selfComputeUnits(invocation: LogInvocation): number | undefined {
+  if (!invocation.computeUnits) {
+    return undefined;
+  }
+  const inChildren = invocation.children.reduce(
+    (sum, child) => sum + (child.computeUnits?.consumed ?? 0),
+    0
+  );
+  return invocation.computeUnits.consumed - inChildren;
+}
@@ -0,0 +1,182 @@
+import { TokenBalance } from '../rpc/types';
+import { AssetChange, NetChange, ProgramInteraction, TransactionAccount } from './types';
+import { flattenInteractions } from './interactionTree';
+import { NATIVE_SOL_MINT } from './fundFlows';
+import { ASSOCIATED_TOKEN_PROGRAM_ID } from './decoders/AssociatedTokenDecoder';
+import { TOKEN_2022_PROGRAM_ID } from './decoders/Token2022ExtensionDecoder';
+
+/**
+ * Mint of wrapped SOL, whose token amounts are lamports
+ */
+export const WRAPPED_SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+const SOL_DECIMALS = 9;
+const SYSTEM_PROGRAM_ID = '11111111111111111111111111111111';
+const TOKEN_PROGRAM_ID = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+
+/**
+ * Token account state taken from pre/post token balances
+ */
+interface TokenAccountBalance {
+  mint: string;
+  decimals: number;
+  pre: bigint;
+  post: bigint;
+}
+
+/**
+ * Net effect of the transaction per owner.
+ *
+ * Token accounts are grouped under the wallet owning them, and wrapped SOL is
+ * counted as SOL. Lamports moving in and out of token accounts' rent-exempt
+ * reserves, and the transaction fee, are reported separately from the
+ * economic change, so opening an account or paying the fee is not mistaken
+ * for a loss of funds.
+ * @param owners - Wallet owning each token account
+ * @param fee - Transaction fee in lamports, charged to the fee payer
+ * @returns One entry per owner whose holdings changed, fee payer first
+ */
+export function computeNetChanges(
+  accounts: TransactionAccount[],
+  preBalances: number[],
+  postBalances: number[],
+  preTokenBalances: TokenBalance[],
+  postTokenBalances: TokenBalance[],
+  owners: Map<string, string>,
+  interactions: ProgramInteraction[],
+  fee: number
+): NetChange[] {
+  const sheets = new Map<string, { assets: Map<string, AssetChange>; rent: bigint; fee: bigint }>();
+  const sheet = (owner: string) => {
+    let entry = sheets.get(owner);
+    if (!entry) {
+      entry = { assets: new Map(), rent: 0n, fee: 0n };
+      sheets.set(owner, entry);
+    }
+    return entry;
+  };
+  const credit = (owner: string, mint: string, amount: bigint, decimals: number) => {
+    const { assets } = sheet(owner);
+    const asset = assets.get(mint) || { mint, amount: 0n, decimals };
+    asset.amount += amount;
+    assets.set(mint, asset);
+  };
+  const lamportChange = (index: number) => BigInt(postBalances[index] ?? 0) - BigInt(preBalances[index] ?? 0);
+
+  const tokenAccounts = collectTokenAccounts(preTokenBalances, postTokenBalances);
+  const { funders, refundees } = rentParties(interactions);
+
+  for (const [index, balance] of tokenAccounts) {
+    const address = accounts[index]?.address;
+    if (!address) {
+      continue;
+    }
+    const owner = owners.get(address) ?? address;
+    const tokenChange = balance.post - balance.pre;
+
+    // A wrapped SOL account's lamports are its rent reserve plus the wrapped amount
+    let rentChange = lamportChange(index);
+    if (balance.mint === WRAPPED_SOL_MINT) {
+      credit(owner, NATIVE_SOL_MINT, tokenChange, SOL_DECIMALS);
+      rentChange -= tokenChange;
+    } else {
+      credit(owner, balance.mint, tokenChange, balance.decimals);
+    }
+
+    // Rent is charged to whoever funded the account and refunded to whoever received it on close
+    if (rentChange !== 0n) {
+      const party = (rentChange > 0n ? funders.get(address) : refundees.get(address)) ?? owner;
+      sheet(party).rent -= rentChange;
+    }
+  }
+
+  accounts.forEach((account, index) => {
+    const change = lamportChange(index);
+    if (!tokenAccounts.has(index) && change !== 0n) {
+      credit(account.address, NATIVE_SOL_MINT, change, SOL_DECIMALS);
+    }
+  });
+
+  const feePayer = accounts.find((account) => account.isFeePayer);
+  if (feePayer && fee > 0) {
+    sheet(feePayer.address).fee = -BigInt(fee);
+  }
+
+  // What remains of the SOL change once rent and fees are taken out is economic movement
+  for (const [owner, entry] of sheets) {
+    if (entry.rent !== 0n || entry.fee !== 0n) {
+      credit(owner, NATIVE_SOL_MINT, -(entry.rent + entry.fee), SOL_DECIMALS);
+    }
+  }
+
+  const order = new Map(accounts.map((account, index) => [account.address, account.isFeePayer ? -1 : index]));
+  const position = (owner: string) => order.get(owner) ?? accounts.length;
+
+  return [...sheets]
+    .map(([owner, entry]) => ({
+      owner,
+      assets: [...entry.assets.values()]
+        .filter((asset) => asset.amount !== 0n)
+        .sort((a, b) => Number(b.mint === NATIVE_SOL_MINT) - Number(a.mint === NATIVE_SOL_MINT)),
+      rent: entry.rent,
+      fee: entry.fee,
+    }))
+    .filter((change) => change.assets.length > 0 || change.rent !== 0n || change.fee !== 0n)
+    .sort((a, b) => position(a.owner) - position(b.owner));
+}
+
+/**
+ * Map of account index -> mint, decimals and raw balances
+ */
+function collectTokenAccounts(
+  preTokenBalances: TokenBalance[],
+  postTokenBalances: TokenBalance[]
+): Map<number, TokenAccountBalance> {
+  const accounts = new Map<number, TokenAccountBalance>();
+
+  const visit = (balance: TokenBalance, phase: 'pre' | 'post') => {
+    let info = accounts.get(balance.accountIndex);
+    if (!info) {
+      info = { mint: balance.mint, decimals: balance.uiTokenAmount.decimals, pre: 0n, post: 0n };
+      accounts.set(balance.accountIndex, info);
+    }
+    info[phase] = BigInt(balance.uiTokenAmount.amount);
+  };
+
+  preTokenBalances.forEach((balance) => visit(balance, 'pre'));
+  postTokenBalances.forEach((balance) => visit(balance, 'post'));
+
+  return accounts;
+}
+
+/**
+ * Who funded each account created by the transaction, and who received the
+ * lamports of each token account it closed. Field names cover both our
+ * decoders and the RPC's jsonParsed instructions.
+ */
+function rentParties(interactions: ProgramInteraction[]): {
+  funders: Map<string, string>;
+  refundees: Map<string, string>;
+} {
+  const funders = new Map<string, string>();
+  const refundees = new Map<string, string>();
+
+  for (const { programId, instructionType, details } of flattenInteractions(interactions)) {
+    if (programId === ASSOCIATED_TOKEN_PROGRAM_ID && (instructionType === 'Create' || instructionType === 'CreateIdempotent')) {
+      setIfAddresses(funders, details.account, details.source);
+    } else if (programId === SYSTEM_PROGRAM_ID && instructionType.startsWith('CreateAccount')) {
+      setIfAddresses(funders, details.to ?? details.newAccount, details.from ?? details.source);
+    } else if ((programId === TOKEN_PROGRAM_ID || programId === TOKEN_2022_PROGRAM_ID) && instructionType === 'CloseAccount') {
+      setIfAddresses(refundees, details.account, details.destination);
+    }
+  }
+
+  return { funders, refundees };
+}
+
+function setIfAddresses(map: Map<string, string>, key: unknown, value: unknown): void {
+  // The first instruction wins: an ATA program's inner CreateAccount names the same payer
+  if (typeof key === 'string' && typeof value === 'string' && !map.has(key)) {
+    map.set(key, value);
+  }
+}
@@ -0,0 +1,284 @@
+/**
+ * Error tables for built-in runtime errors and well-known programs
+ */
+
+/**
+ * Name and description of a program error
+ */
+export interface ProgramErrorInfo {
+  name: string;
+  message: string;
+}
+
+/**
+ * Readable descriptions of built-in InstructionError variants
+ * (variants without an entry are described by splitting their name)
+ */
+export const INSTRUCTION_ERROR_MESSAGES: Record<string, string> = {
+  GenericError: 'Generic instruction error',
+  InvalidArgument: 'Invalid program argument',
+  InvalidInstructionData: 'Invalid instruction data',
+  InvalidAccountData: 'Invalid account data for instruction',
+  AccountDataTooSmall: 'Account data too small for instruction',
+  InsufficientFunds: 'Insufficient funds for instruction',
+  IncorrectProgramId: 'Incorrect program id for instruction',
+  MissingRequiredSignature: 'Missing required signature for instruction',
+  AccountAlreadyInitialized: 'Instruction requires an uninitialized account',
+  UninitializedAccount: 'Instruction requires an initialized account',
+  UnbalancedInstruction: 'Sum of account balances before and after instruction do not match',
+  ModifiedProgramId: 'Instruction illegally modified the program id of an account',
+  ExternalAccountLamportSpend: 'Instruction spent from the balance of an account it does not own',
+  ExternalAccountDataModified: 'Instruction modified data of an account it does not own',
+  ReadonlyLamportChange: 'Instruction changed the balance of a read-only account',
+  ReadonlyDataModified: 'Instruction modified data of a read-only account',
+  DuplicateAccountIndex: 'Instruction contains duplicate accounts',
+  NotEnoughAccountKeys: 'Insufficient account keys for instruction',
+  AccountNotExecutable: 'Instruction expected an executable account',
+  AccountBorrowFailed: 'Instruction tries to borrow reference for an account which is already borrowed',
+  CallDepth: 'Cross-program invocation call depth too deep',
+  MissingAccount: 'An account required by the instruction is missing',
+  ReentrancyNotAllowed: 'Cross-program invocation reentrancy not allowed for this instruction',
+  MaxSeedLengthExceeded: 'Length of the seed is too long for address generation',
+  InvalidSeeds: 'Provided seeds do not result in a valid address',
+  InvalidRealloc: 'Failed to reallocate account data',
+  ComputationalBudgetExceeded: 'Computational budget exceeded',
+  PrivilegeEscalation: 'Cross-program invocation with unauthorized signer or writable account',
+  ProgramFailedToComplete: 'Program failed to complete',
+  ProgramFailedToCompile: 'Program failed to compile',
+  Immutable: 'Account is immutable',
+  IncorrectAuthority: 'Incorrect authority provided',
+  AccountNotRentExempt: 'An account does not have enough lamports to be rent-exempt',
+  InvalidAccountOwner: 'Invalid account owner',
+  ArithmeticOverflow: 'Program arithmetic overflowed',
+  UnsupportedSysvar: 'Unsupported sysvar',
+  IllegalOwner: 'Provided owner is not allowed',
+  MaxAccountsDataAllocationsExceeded: 'Accounts data allocations exceeded the maximum allowed per transaction',
+  MaxAccountsExceeded: 'Max accounts exceeded',
+  MaxInstructionTraceLengthExceeded: 'Max instruction trace length exceeded',
+};
+
+/**
+ * Readable descriptions of TransactionError variants
+ */
+export const TRANSACTION_ERROR_MESSAGES: Record<string, string> = {
+  AccountInUse: 'Account in use by another transaction',
+  AccountLoadedTwice: 'Account loaded twice',
+  AccountNotFound: 'Attempt to debit an account but found no record of a prior credit',
+  ProgramAccountNotFound: 'Attempt to load a program that does not exist',
+  InsufficientFundsForFee: 'Insufficient funds for fee',
+  InvalidAccountForFee: 'This account may not be used to pay transaction fees',
+  AlreadyProcessed: 'This transaction has already been processed',
+  BlockhashNotFound: 'Blockhash not found',
+  CallChainTooDeep: 'Loader call chain is too deep',
+  MissingSignatureForFee: 'Transaction requires a fee but has no signature present',
+  InvalidAccountIndex: 'Transaction contains an invalid account reference',
+  SignatureFailure: 'Transaction did not pass signature verification',
+  InvalidProgramForExecution: 'This program may not be used for executing instructions',
+  SanitizeFailure: 'Transaction failed to sanitize accounts offsets correctly',
+  TooManyAccountLocks: 'Transaction locked too many accounts',
+  AddressLookupTableNotFound: 'Transaction loads an address table account that does not exist',
+  InvalidAddressLookupTableIndex: 'Transaction address table lookup uses an invalid index',
+  DuplicateInstruction: 'Transaction contains a duplicate instruction that is not allowed',
+  InsufficientFundsForRent: 'Transaction results in an account with insufficient funds for rent',
+  MaxLoadedAccountsDataSizeExceeded: 'Transaction exceeded max loaded accounts data size cap',
+  InvalidLoadedAccountsDataSizeLimit: 'Loaded accounts data size limit is invalid',
+  UnbalancedTransaction: 'Sum of account balances before and after transaction do not match',
+};
+
+/**
+ * SPL Token (and Token-2022) TokenError codes
+ */
+export const TOKEN_ERRORS: Record<number, ProgramErrorInfo> = {
+  0: { name: 'NotRentExempt', message: 'Lamport balance below rent-exempt threshold' },
+  1: { name: 'InsufficientFunds', message: 'Insufficient funds' },
+  2: { name: 'InvalidMint', message: 'Invalid Mint' },
+  3: { name: 'MintMismatch', message: 'Account not associated with this Mint' },
+  4: { name: 'OwnerMismatch', message: 'Owner does not match' },
+  5: { name: 'FixedSupply', message: 'Fixed supply' },
+  6: { name: 'AlreadyInUse', message: 'Already in use' },
+  7: { name: 'InvalidNumberOfProvidedSigners', message: 'Invalid number of provided signers' },
+  8: { name: 'InvalidNumberOfRequiredSigners', message: 'Invalid number of required signers' },
+  9: { name: 'UninitializedState', message: 'State is uninitialized' },
+  10: { name: 'NativeNotSupported', message: 'Instruction does not support native tokens' },
+  11: { name: 'NonNativeHasBalance', message: 'Non-native account can only be closed if its balance is zero' },
+  12: { name: 'InvalidInstruction', message: 'Invalid instruction' },
+  13: { name: 'InvalidState', message: 'State is invalid for requested operation' },
+  14: { name: 'Overflow', message: 'Operation overflowed' },
+  15: { name: 'AuthorityTypeNotSupported', message: 'Account does not support specified authority type' },
+  16: { name: 'MintCannotFreeze', message: 'This token mint cannot freeze accounts' },
+  17: { name: 'AccountFrozen', message: 'Account is frozen' },
+  18: { name: 'MintDecimalsMismatch', message: 'The provided decimals value different from the Mint decimals' },
+  19: { name: 'NonNativeNotSupported', message: 'Instruction does not support non-native tokens' },
+  // Token-2022 only
+  20: { name: 'ExtensionTypeMismatch', message: 'Extension type does not match already existing extensions' },
+  21: { name: 'ExtensionBaseMismatch', message: 'Extension does not match the base type provided' },
+  22: { name: 'ExtensionAlreadyInitialized', message: 'Extension already initialized on this account' },
+  28: { name: 'MintHasSupply', message: 'Mint has non-zero supply' },
+  29: { name: 'NoAuthorityExists', message: 'No authority exists to perform the desired operation' },
+  30: { name: 'TransferFeeExceedsMaximum', message: 'Transfer fee exceeds maximum of 10,000 basis points' },
+  31: { name: 'MintRequiredForTransfer', message: 'Mint required for this account to transfer tokens, use `transfer_checked`' },
+  32: { name: 'FeeMismatch', message: 'Calculated fee does not match expected fee' },
+  33: { name: 'FeeParametersMismatch', message: 'Fee parameters associated with confidential transfer zero-knowledge proofs do not match fee parameters in mint' },
+  34: { name: 'ImmutableOwner', message: 'The owner authority cannot be changed' },
+  35: { name: 'AccountHasWithheldTransferFees', message: 'An account can only be closed if its withheld fee balance is zero' },
+  36: { name: 'NoMemo', message: 'No memo in previous instruction; required for recipient to receive a transfer' },
+  37: { name: 'NonTransferable', message: 'Transfer is disabled for this mint' },
+  38: { name: 'NonTransferableNeedsImmutableOwnership', message: 'Non-transferable tokens can only be held in accounts with immutable ownership' },
+  41: { name: 'CpiGuardSettingsLocked', message: 'CPI Guard cannot be enabled or disabled in CPI' },
+  42: { name: 'CpiGuardTransferBlocked', message: 'CPI Guard is enabled, and a program attempted to transfer user funds without using a delegate' },
+  43: { name: 'CpiGuardBurnBlocked', message: 'CPI Guard is enabled, and a program attempted to burn user funds without using a delegate' },
+  44: { name: 'CpiGuardCloseAccountBlocked', message: 'CPI Guard is enabled, and a program attempted to close an account without returning lamports to owner' },
+  45: { name: 'CpiGuardApproveBlocked', message: 'CPI Guard is enabled, and a program attempted to approve a delegate' },
+  46: { name: 'CpiGuardSetAuthorityBlocked', message: 'CPI Guard is enabled, and a program attempted to add or replace an authority' },
+  47: { name: 'CpiGuardOwnerChangeBlocked', message: 'Account ownership cannot be changed while CPI Guard is enabled' },
+};
+
+/**
+ * System program SystemError codes
+ */
+export const SYSTEM_ERRORS: Record<number, ProgramErrorInfo> = {
+  0: { name: 'AccountAlreadyInUse', message: 'An account with the same address already exists' },
+  1: { name: 'ResultWithNegativeLamports', message: 'Account does not have enough SOL to perform the operation' },
+  2: { name: 'InvalidProgramId', message: 'Cannot assign account to this program id' },
+  3: { name: 'InvalidAccountDataLength', message: 'Cannot allocate account data of this length' },
+  4: { name: 'MaxSeedLengthExceeded', message: 'Length of requested seed is too long' },
+  5: { name: 'AddressWithSeedMismatch', message: 'Provided address does not match addressed derived from seed' },
+  6: { name: 'NonceNoRecentBlockhashes', message: 'Advancing stored nonce requires a populated RecentBlockhashes sysvar' },
+  7: { name: 'NonceBlockhashNotExpired', message: 'Stored nonce is still in recent_blockhashes' },
+  8: { name: 'NonceUnexpectedBlockhashValue', message: 'Specified nonce does not match stored nonce' },
+};
+
+/**
+ * Anchor framework error codes (100-5000), shared by every Anchor program
+ */
+export const ANCHOR_ERRORS: Record<number, ProgramErrorInfo> = {
+  100: { name: 'InstructionMissing', message: '8 byte instruction identifier not provided' },
+  101: { name: 'InstructionFallbackNotFound', message: 'Fallback functions are not supported' },
+  102: { name: 'InstructionDidNotDeserialize', message: 'The program could not deserialize the given instruction' },
+  103: { name: 'InstructionDidNotSerialize', message: 'The program could not serialize the given instruction' },
+  1000: { name: 'IdlInstructionStub', message: 'The program was compiled without idl instructions' },
+  1001: { name: 'IdlInstructionInvalidProgram', message: 'Invalid program given to the IDL instruction' },
+  1002: { name: 'IdlAccountNotEmpty', message: 'IDL account must be empty in order to resize, try closing first' },
+  1500: { name: 'EventInstructionStub', message: 'The program was compiled without `event-cpi` feature' },
+  2000: { name: 'ConstraintMut', message: 'A mut constraint was violated' },
+  2001: { name: 'ConstraintHasOne', message: 'A has one constraint was violated' },
+  2002: { name: 'ConstraintSigner', message: 'A signer constraint was violated' },
+  2003: { name: 'ConstraintRaw', message: 'A raw constraint was violated' },
+  2004: { name: 'ConstraintOwner', message: 'An owner constraint was violated' },
+  2005: { name: 'ConstraintRentExempt', message: 'A rent exemption constraint was violated' },
+  2006: { name: 'ConstraintSeeds', message: 'A seeds constraint was violated' },
+  2007: { name: 'ConstraintExecutable', message: 'An executable constraint was violated' },
+  2008: { name: 'ConstraintState', message: 'Deprecated Error, feel free to replace with something else' },
+  2009: { name: 'ConstraintAssociated', message: 'An associated constraint was violated' },
+  2010: { name: 'ConstraintAssociatedInit', message: 'An associated init constraint was violated' },
+  2011: { name: 'ConstraintClose', message: 'A close constraint was violated' },
+  2012: { name: 'ConstraintAddress', message: 'An address constraint was violated' },
+  2013: { name: 'ConstraintZero', message: 'Expected zero account discriminant' },
+  2014: { name: 'ConstraintTokenMint', message: 'A token mint constraint was violated' },
+  2015: { name: 'ConstraintTokenOwner', message: 'A token owner constraint was violated' },
+  2016: { name: 'ConstraintMintMintAuthority', message: 'A mint mint authority constraint was violated' },
+  2017: { name: 'ConstraintMintFreezeAuthority', message: 'A mint freeze authority constraint was violated' },
+  2018: { name: 'ConstraintMintDecimals', message: 'A mint decimals constraint was violated' },
+  2019: { name: 'ConstraintSpace', message: 'A space constraint was violated' },
+  2020: { name: 'ConstraintAccountIsNone', message: 'A required account for the constraint is None' },
+  2021: { name: 'ConstraintTokenTokenProgram', message: 'A token account token program constraint was violated' },
+  2022: { name: 'ConstraintMintTokenProgram', message: 'A mint token program constraint was violated' },
+  2023: { name: 'ConstraintAssociatedTokenTokenProgram', message: 'An associated token account token program constraint was violated' },
+  2500: { name: 'RequireViolated', message: 'A require expression was violated' },
+  2501: { name: 'RequireEqViolated', message: 'A require_eq expression was violated' },
+  2502: { name: 'RequireKeysEqViolated', message: 'A require_keys_eq expression was violated' },
+  2503: { name: 'RequireNeqViolated', message: 'A require_neq expression was violated' },
+  2504: { name: 'RequireKeysNeqViolated', message: 'A require_keys_neq expression was violated' },
+  2505: { name: 'RequireGtViolated', message: 'A require_gt expression was violated' },
+  2506: { name: 'RequireGteViolated', message: 'A require_gte expression was violated' },
+  3000: { name: 'AccountDiscriminatorAlreadySet', message: 'The account discriminator was already set on this account' },
+  3001: { name: 'AccountDiscriminatorNotFound', message: 'No 8 byte discriminator was found on the account' },
+  3002: { name: 'AccountDiscriminatorMismatch', message: '8 byte discriminator did not match what was expected' },
+  3003: { name: 'AccountDidNotDeserialize', message: 'Failed to deserialize the account' },
+  3004: { name: 'AccountDidNotSerialize', message: 'Failed to serialize the account' },
+  3005: { name: 'AccountNotEnoughKeys', message: 'Not enough account keys given to the instruction' },
+  3006: { name: 'AccountNotMutable', message: 'The given account is not mutable' },
+  3007: { name: 'AccountOwnedByWrongProgram', message: 'The given account is owned by a different program than expected' },
+  3008: { name: 'InvalidProgramId', message: 'Program ID was not as expected' },
+  3009: { name: 'InvalidProgramExecutable', message: 'Program account is not executable' },
+  3010: { name: 'AccountNotSigner', message: 'The given account did not sign' },
+  3011: { name: 'AccountNotSystemOwned', message: 'The given account is not owned by the system program' },
+  3012: { name: 'AccountNotInitialized', message: 'The program expected this account to be already initialized' },
+  3013: { name: 'AccountNotProgramData', message: 'The given account is not a program data account' },
+  3014: { name: 'AccountNotAssociatedTokenAccount', message: 'The given account is not the associated token account' },
+  3015: { name: 'AccountSysvarMismatch', message: 'The given public key does not match the required sysvar' },
+  3016: { name: 'AccountReallocExceedsLimit', message: 'The account reallocation exceeds the MAX_PERMITTED_DATA_INCREASE limit' },
+  3017: { name: 'AccountDuplicateReallocs', message: 'The account was duplicated for more than one reallocation' },
+  4100: { name: 'DeclaredProgramIdMismatch', message: 'The declared program id does not match the actual program id' },
+  4101: { name: 'TryingToInitPayerAsProgramAccount', message: 'You cannot/should not initialize the payer account as a program account' },
+  4102: { name: 'InvalidNumericConversion', message: 'Error during numeric conversion' },
+  5000: { name: 'Deprecated', message: 'The API being used is deprecated and should no longer be used' },
+};
+
+/**
+ * Jupiter Aggregator v6 custom errors
+ */
+export const JUPITER_ERRORS: Record<number, ProgramErrorInfo> = {
+  6000: { name: 'EmptyRoute', message: 'Empty route' },
+  6001: { name: 'SlippageToleranceExceeded', message: 'Slippage tolerance exceeded' },
+  6002: { name: 'InvalidCalculation', message: 'Invalid calculation' },
+  6003: { name: 'MissingPlatformFeeAccount', message: 'Missing platform fee account' },
+  6004: { name: 'InvalidSlippage', message: 'Invalid slippage' },
+  6005: { name: 'NotEnoughPercent', message: 'Not enough percent to 100' },
+  6006: { name: 'InvalidInputIndex', message: 'Token input index is invalid' },
+  6007: { name: 'InvalidOutputIndex', message: 'Token output index is invalid' },
+  6008: { name: 'NotEnoughAccountKeys', message: 'Not Enough Account keys' },
+  6009: { name: 'NonZeroMinimumOutAmountNotSupported', message: 'Non zero minimum out amount not supported' },
+  6010: { name: 'InvalidRoutePlan', message: 'Invalid route plan' },
+  6011: { name: 'InvalidReferralAuthority', message: 'Invalid referral authority' },
+  6012: { name: 'LedgerTokenAccountDoesNotMatch', message: "Token account doesn't match the ledger" },
+  6013: { name: 'InvalidTokenLedger', message: 'Invalid token ledger' },
+  6014: { name: 'IncorrectTokenProgramID', message: 'Token program ID is invalid' },
+  6015: { name: 'TokenProgramNotProvided', message: 'Token program not provided' },
+  6016: { name: 'SwapNotSupported', message: 'Swap not supported' },
+  6017: { name: 'ExactOutAmountNotMatched', message: 'Exact out amount doesnt match' },
+  6018: { name: 'SourceAndDestinationMintCannotBeTheSame', message: 'Source mint and destination mint cannot the same' },
+};
+
+/**
+ * Custom error tables for specific programs, keyed by program ID
+ */
+export const PROGRAM_ERROR_TABLES: Record<string, Record<number, ProgramErrorInfo>> = {
+  '11111111111111111111111111111111': SYSTEM_ERRORS,
+  TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA: TOKEN_ERRORS,
+  TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb: TOKEN_ERRORS,
+  JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4: JUPITER_ERRORS,
+};
+
+/**
+ * Likely causes for errors that have an obvious explanation, keyed by error name
+ */
+export const LIKELY_CAUSES: Record<string, string> = {
+  SlippageToleranceExceeded: 'Slippage tolerance exceeded: the price moved beyond the allowed slippage before the swap executed',
+  ExactOutAmountNotMatched: 'Slippage tolerance exceeded: the exact output amount could not be delivered',
+  InsufficientFunds: 'The source account does not hold enough funds for this amount',
+  ResultWithNegativeLamports: 'The paying account does not have enough SOL',
+  InsufficientFundsForFee: 'The fee payer does not have enough SOL to pay the transaction fee',
+  InsufficientFundsForRent: 'An account would be left below the rent-exempt minimum balance',
+  AccountAlreadyInUse: 'The account being created already exists',
+  AlreadyInUse: 'The account being initialized is already in use',
+  AccountAlreadyInitialized: 'The account being initialized already exists',
+  ComputationalBudgetExceeded: 'The transaction ran out of compute units; request a higher compute unit limit',
+  MissingRequiredSignature: 'A required signer did not sign the transaction',
+  ConstraintSigner: 'A required signer did not sign the transaction',
+  AccountNotSigner: 'A required signer did not sign the transaction',
+  OwnerMismatch: 'The token account is owned by a different wallet than the signing authority',
+  ConstraintOwner: 'An account is owned by a different program than expected',
+  AccountOwnedByWrongProgram: 'An account is owned by a different program than expected',
+  IncorrectProgramId: 'An account is owned by a different program than expected',
+  MintMismatch: 'A token account belongs to a different mint than expected',
+  ConstraintTokenMint: 'A token account belongs to a different mint than expected',
+  AccountFrozen: 'The token account is frozen by the mint\'s freeze authority',
+  UninitializedAccount: 'An account the instruction expects does not exist or is not initialized',
+  UninitializedState: 'An account the instruction expects does not exist or is not initialized',
+  AccountNotInitialized: 'An account the instruction expects does not exist or is not initialized',
+  AccountNotFound: 'The fee payer or another debited account does not exist',
+  ConstraintSeeds: 'An account address was not derived from the seeds the program expects',
+  BlockhashNotFound: 'The transaction\'s blockhash expired before it was processed',
+  NonTransferable: 'The token is non-transferable',
+};
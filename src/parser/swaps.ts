@@ -0,0 +1,126 @@
+import { AssetChange, NetChange, ProgramInteraction, Swap, SwapVenue, TransactionAccount } from './types';
+import { flattenInteractions } from './interactionTree';
+import { NATIVE_SOL_MINT } from './fundFlows';
+import { getProgramName } from '../utils/knownPrograms';
+import { ASSOCIATED_TOKEN_PROGRAM_ID } from './decoders/AssociatedTokenDecoder';
+import { COMPUTE_BUDGET_PROGRAM_ID } from './decoders/ComputeBudgetDecoder';
+import { TOKEN_2022_PROGRAM_ID } from './decoders/Token2022ExtensionDecoder';
+
+const SYSTEM_PROGRAM_ID = '11111111111111111111111111111111';
+const TOKEN_PROGRAM_ID = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+
+/**
+ * Programs that move funds on behalf of others and are never venues themselves
+ */
+const INFRASTRUCTURE_PROGRAMS = new Set([
+  SYSTEM_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  COMPUTE_BUDGET_PROGRAM_ID,
+]);
+
+const TOKEN_TRANSFER_INSTRUCTIONS = new Set([
+  'Transfer',
+  'TransferChecked',
+  'TransferFee.TransferCheckedWithFee',
+]);
+
+/**
+ * Detect swaps from each signer's net change.
+ *
+ * Netting per owner makes multi-hop routes collapse to what the trader gave
+ * up and received: intermediate tokens cancel out. A signer made a swap when
+ * exactly one asset left and exactly one arrived; SOL on a side that also has
+ * a token is taken for tips or platform fees and ignored. Venues are the
+ * programs that moved funds via CPI, and the top-level program routing
+ * through other venues is the aggregator.
+ */
+export function detectSwaps(
+  accounts: TransactionAccount[],
+  netChanges: NetChange[],
+  interactions: ProgramInteraction[]
+): Swap[] {
+  const signers = new Set(accounts.filter((account) => account.signer).map((account) => account.address));
+  const route = findRoute(interactions);
+  const swaps: Swap[] = [];
+
+  for (const change of netChanges) {
+    if (!signers.has(change.owner)) {
+      continue;
+    }
+
+    const input = tradedAsset(change.assets.filter((asset) => asset.amount < 0n));
+    const output = tradedAsset(change.assets.filter((asset) => asset.amount > 0n));
+    if (!input || !output) {
+      continue;
+    }
+
+    const inputAmount = -input.amount;
+    swaps.push({
+      trader: change.owner,
+      inputMint: input.mint,
+      inputAmount,
+      inputDecimals: input.decimals,
+      outputMint: output.mint,
+      outputAmount: output.amount,
+      outputDecimals: output.decimals,
+      ...(route.aggregator ? { aggregator: route.aggregator } : {}),
+      venues: route.venues,
+      effectivePrice: toUnits(output.amount, output.decimals) / toUnits(inputAmount, input.decimals),
+    });
+  }
+
+  return swaps;
+}
+
+/**
+ * The one asset traded on a side of a swap, if there is exactly one
+ */
+function tradedAsset(assets: AssetChange[]): AssetChange | undefined {
+  const tokens = assets.filter((asset) => asset.mint !== NATIVE_SOL_MINT);
+  const traded = tokens.length > 0 ? tokens : assets;
+  return traded.length === 1 ? traded[0] : undefined;
+}
+
+/**
+ * Programs that moved funds through CPIs, in execution order, and the
+ * aggregator that invoked them
+ */
+function findRoute(interactions: ProgramInteraction[]): { aggregator?: SwapVenue; venues: SwapVenue[] } {
+  let aggregator: SwapVenue | undefined;
+  const venues = new Map<string, SwapVenue>();
+
+  for (const root of interactions) {
+    const movers = flattenInteractions([root])
+      .filter((interaction) => !INFRASTRUCTURE_PROGRAMS.has(interaction.programId) && interaction.children.some(movesFunds))
+      .map((interaction) => interaction.programId);
+
+    const routed = movers.filter((programId) => programId !== root.programId);
+    if (routed.length > 0 && !INFRASTRUCTURE_PROGRAMS.has(root.programId)) {
+      aggregator = aggregator || venue(root.programId);
+    }
+    for (const programId of routed.length > 0 ? routed : movers) {
+      venues.set(programId, venue(programId));
+    }
+  }
+
+  return { aggregator, venues: [...venues.values()] };
+}
+
+function movesFunds(interaction: ProgramInteraction): boolean {
+  if (interaction.programId === SYSTEM_PROGRAM_ID) {
+    return interaction.instructionType === 'Transfer';
+  }
+  return (interaction.programId === TOKEN_PROGRAM_ID || interaction.programId === TOKEN_2022_PROGRAM_ID)
+    && TOKEN_TRANSFER_INSTRUCTIONS.has(interaction.instructionType);
+}
+
+function venue(programId: string): SwapVenue {
+  const name = getProgramName(programId);
+  return name ? { programId, name } : { programId };
+}
+
+function toUnits(amount: bigint, decimals: number): number {
+  return Number(amount) / 10 ** decimals;
+}
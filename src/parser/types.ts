@@ -1,48 +1,284 @@
+import { ClusterName, CommitmentLevel } from '../rpc/types';
+
 /**
  * Account balance change information
  */
 export interface AccountChange {
   address: string;
-  balanceChange: number; // in lamports
+  balanceChange: bigint; // in lamports
+  isFeePayer: boolean;
+}
+
+/**
+ * An account referenced by the transaction and its role
+ */
+export interface TransactionAccount {
+  address: string;
+  signer: boolean;
+  writable: boolean;
+  /** Whether the account is listed in the message or loaded from an address lookup table */
+  source: 'static' | 'lookup-writable' | 'lookup-readonly';
+  /** Lookup table the account was loaded from (lookup sources only) */
+  lookupTable?: string;
+  /** The first signer pays the transaction fee */
   isFeePayer: boolean;
+  /** Well-known derived address the account was verified to be */
+  derivation?: AccountDerivation;
+}
+
+/**
+ * Program-derived address recognized by re-deriving it from its seeds
+ */
+export interface AccountDerivation {
+  kind: 'associated-token-account' | 'metadata' | 'master-edition';
+  /** Mint the address is derived from */
+  mint: string;
+  /** Token symbol of the mint, when the token registry knows it */
+  symbol?: string;
+  /** Wallet owning the token account (associated token accounts only) */
+  owner?: string;
+  /** Token program holding the token account (associated token accounts only) */
+  tokenProgram?: string;
 }
 
 /**
  * Token transfer information
+ *
+ * A complete edge of the transaction's fund flow. Native SOL transfers use
+ * the 'SOL' pseudo-mint.
  */
 export interface TokenTransfer {
   mint: string;
   symbol?: string;
-  amount: number;
+  /** Token name, when the mint is known to the token registry */
+  name?: string;
+  /** Logo image, from a token list */
+  logoURI?: string;
+  /** Whether the symbol comes from a trusted token list rather than unvetted on-chain metadata */
+  verified?: boolean;
+  /** Verified mint whose symbol this unverified token reuses (a possible lookalike) */
+  impersonates?: string;
+  /** Raw amount in the token's smallest unit (lamports for SOL) */
+  amount: bigint;
   decimals: number;
   from: string;
   to: string;
+  /** Wallet owning the source token account, when known (token transfers only) */
+  fromOwner?: string;
+  /** Wallet owning the destination token account, when known (token transfers only) */
+  toOwner?: string;
+  /** Token-2022 transfer fee withheld from the amount; the recipient receives amount - fee */
+  fee?: bigint;
+  /** Whether the edge was decoded from an instruction or inferred from balance changes */
+  source: 'instruction' | 'balance';
+  /** Top-level instruction that caused the transfer (instruction-sourced edges only) */
+  instructionIndex?: number;
+  /** Position within that instruction's inner instructions, if it came from a CPI */
+  innerIndex?: number;
+}
+
+/**
+ * Net change of one asset in an owner's balance sheet
+ */
+export interface AssetChange {
+  /** Token mint, or 'SOL' for native and wrapped SOL together */
+  mint: string;
+  /** Token symbol, when the mint is known to the token registry */
+  symbol?: string;
+  /** Raw amount in the token's smallest unit (lamports for SOL); negative when the owner lost it */
+  amount: bigint;
+  decimals: number;
+}
+
+/**
+ * What the transaction did to one owner's holdings, across its wallet and
+ * the token accounts it owns
+ */
+export interface NetChange {
+  /** Wallet owning the token accounts, or the account itself for accounts that are not token accounts */
+  owner: string;
+  /** Economic change per asset, excluding rent and fees */
+  assets: AssetChange[];
+  /** Lamports deposited into (negative) or refunded from (positive) token account rent reserves */
+  rent: bigint;
+  /** Transaction fee in lamports as a negative amount (fee payer only, else 0) */
+  fee: bigint;
+}
+
+/**
+ * Program a swap was routed through
+ */
+export interface SwapVenue {
+  programId: string;
+  /** Name from the known programs registry */
+  name?: string;
+}
+
+/**
+ * Trade made by one wallet, netted over every hop of its route
+ */
+export interface Swap {
+  /** Signer whose holdings the swap changed */
+  trader: string;
+  /** Token given up, or 'SOL' for native and wrapped SOL */
+  inputMint: string;
+  inputSymbol?: string;
+  /** Raw amount given up, in the input token's smallest unit */
+  inputAmount: bigint;
+  inputDecimals: number;
+  /** Token received, or 'SOL' for native and wrapped SOL */
+  outputMint: string;
+  outputSymbol?: string;
+  /** Raw amount received, in the output token's smallest unit */
+  outputAmount: bigint;
+  outputDecimals: number;
+  /** Program that routed the swap through the venues, if any */
+  aggregator?: SwapVenue;
+  /** AMMs and order books that moved the funds, in execution order */
+  venues: SwapVenue[];
+  /** Whole output tokens received per whole input token */
+  effectivePrice: number;
+}
+
+/**
+ * Event emitted by a program, decoded from its IDL
+ */
+export interface ProgramEvent {
+  /** Program that emitted the event */
+  programId: string;
+  name: string;
+  data: Record<string, any>;
+  /** 'log' for "Program data:" log lines, 'cpi' for emit_cpi! self-invocations */
+  source: 'log' | 'cpi';
 }
 
 /**
  * Program interaction information
+ *
+ * Top-level instructions form the roots of the tree; instructions invoked
+ * via CPI are nested under the interaction that invoked them.
  */
 export interface ProgramInteraction {
   programId: string;
   programName?: string;
   instructionType: string;
   details: Record<string, any>;
+  /** Index of the top-level instruction this interaction belongs to */
+  instructionIndex: number;
+  /** Position within the top-level instruction's inner instructions (undefined for top-level) */
+  innerIndex?: number;
+  /** Invocation depth (1 = top-level instruction) */
+  stackHeight: number;
+  /** Instructions invoked by this one via CPI */
+  children: ProgramInteraction[];
+  /** Events emitted by this invocation, in emission order */
+  events: ProgramEvent[];
+}
+
+/**
+ * One program invocation reconstructed from the transaction's log messages
+ */
+export interface LogInvocation {
+  programId: string;
+  /** Invocation depth from the "invoke [n]" line (1 = top-level instruction) */
+  depth: number;
+  /** Messages logged with "Program log:" (and any unrecognized lines), in order */
+  logs: string[];
+  /** Base64 payloads logged with "Program data:" */
+  data: string[];
+  /** Compute units consumed by this invocation, including its CPIs */
+  computeUnits?: {
+    consumed: number;
+    /** Compute units that were still available when the invocation started */
+    available: number;
+  };
+  /** Base64 return data set via "Program return:" */
+  returnData?: string;
+  /** 'incomplete' when the logs end before the invocation finished (e.g. truncation) */
+  status: 'success' | 'failed' | 'incomplete';
+  /** Failure reason from the "failed: <reason>" line */
+  error?: string;
+  /** Invocations made by this program via CPI */
+  children: LogInvocation[];
+}
+
+/**
+ * Structured trace of the transaction's program log messages
+ */
+export interface LogTrace {
+  /** Top-level invocations, one per instruction that produced logs */
+  invocations: LogInvocation[];
+  /** Whether the runtime truncated the log output */
+  truncated: boolean;
+}
+
+/**
+ * Explanation of why a transaction failed
+ */
+export interface TransactionFailure {
+  /** Error as reported in meta.err */
+  rawError: any;
+  /** Top-level instruction that failed (instruction errors only) */
+  instructionIndex?: number;
+  /** Program that raised the error: the innermost failed invocation when the logs show it */
+  programId?: string;
+  programName?: string;
+  /** Error name, e.g. 'InsufficientFunds' or the program's custom error name */
+  errorName: string;
+  /** Custom program error code, if the program returned one */
+  customCode?: number;
+  /** What the error means */
+  message: string;
+  /** Likely cause, when one is known */
+  likelyCause?: string;
+}
+
+/**
+ * Transaction fee split into its components (all values in lamports)
+ */
+export interface FeeBreakdown {
+  /** Total fee charged, as reported by the RPC (base + priority when decoded offline) */
+  total: number;
+  /** Signature fee: signatures × lamports per signature */
+  base: number;
+  /** Prioritization fee: compute unit price × compute unit limit */
+  priority: number;
 }
 
 /**
  * Parsed transaction data with human-readable information
  */
 export interface ParsedTransaction {
+  /** First signature (the transaction ID); empty if the transaction is not signed yet */
   signature: string;
-  status: 'success' | 'failed';
-  slot: number;
+  /** Every required signature with the account that provides it; null if not signed yet */
+  signatures: Array<{ signer: string; signature: string | null }>;
+  /** 'unknown' when there is no execution metadata (offline decode of a serialized transaction) */
+  status: 'success' | 'failed' | 'unknown';
+  slot: number | null;
   blockTime: Date | null;
+  /** Cluster the transaction was fetched from; null when unknown or decoded offline */
+  cluster: ClusterName | null;
+  /** Commitment level reached when fetched; null when decoded offline */
+  commitment: CommitmentLevel | null;
+  /** Every account the transaction references, in account index order */
+  accounts: TransactionAccount[];
   accountChanges: AccountChange[];
   tokenTransfers: TokenTransfer[];
+  /** Net effect per owner, with wrapped SOL counted as SOL and rent and fees separated (empty without metadata) */
+  netChanges: NetChange[];
+  /** Swaps made by the transaction's signers */
+  swaps: Swap[];
   programInteractions: ProgramInteraction[];
   computeUnits: {
     used: number;
     limit: number;
+    /** Compute unit price in micro-lamports (0 when not prioritized) */
+    price: bigint;
   };
-  fee: number;
+  fee: FeeBreakdown;
+  /** Invocation trace parsed from the log messages */
+  logTrace: LogTrace;
+  /** Why the transaction failed (null when it succeeded) */
+  failure: TransactionFailure | null;
 }
@@ -1,175 +1,385 @@
-import { Connection, VersionedTransactionResponse } from '@solana/web3.js';
-import { RawTransaction } from './types';
+import { ConfirmedSignatureInfo, Connection, PublicKey } from '@solana/web3.js';
+import {
+  RawTransaction,
+  AddressTableLookup,
+  LoadedAddresses,
+  ClusterName,
+  CommitmentLevel,
+} from './types';
+import { identifyCluster } from './clusters';
+import { transformResponse } from './transformResponse';
+import { TransactionCache, CacheCommitment } from './TransactionCache';
+import {
+  EndpointPool,
+  EndpointHealth,
+  RetryOptions,
+  RpcFailure,
+  DEFAULT_RETRY_OPTIONS,
+  backoffDelay,
+  classifyRpcError,
+} from './transport';
+import { RateLimiter } from '../utils/rateLimiter';
 import { TxLensError, ErrorCode } from '../utils/errors';
 
+/** Limit of the getMultipleAccounts RPC method */
+const MAX_ACCOUNTS_PER_REQUEST = 100;
+
+export interface RpcClientOptions {
+  /** On-disk cache consulted before fetching transactions */
+  cache?: TransactionCache;
+  /** Retry and timeout behaviour; unset fields use the defaults */
+  retry?: Partial<RetryOptions>;
+  /** Request limiter, shared with other clients to cap the overall request rate */
+  rateLimiter?: RateLimiter;
+  /** Commitment level to query at (default: confirmed) */
+  commitment?: CommitmentLevel;
+}
+
 /**
- * RPC Client for fetching Solana transaction data
+ * RPC Client for fetching Solana transaction data.
+ *
+ * Retryable failures (timeouts, rate limits, connection and server errors)
+ * are retried with exponential backoff, failing over to the next configured
+ * endpoint while a failed one cools down.
  */
 export class RpcClient {
-  private connection: Connection;
+  private endpoints: EndpointPool;
+  private retry: RetryOptions;
+  private rateLimiter?: RateLimiter;
+  private cache?: TransactionCache;
+  private commitment: CommitmentLevel;
+  private finalizedSlot?: Promise<number | null>;
+  private cluster?: Promise<ClusterName | null>;
 
-  constructor(endpoint: string) {
-    // Validate URL format
-    try {
-      new URL(endpoint);
-    } catch {
+  /**
+   * @param endpoint - RPC URL, or several in order of preference
+   */
+  constructor(endpoint: string | string[], options: RpcClientOptions = {}) {
+    const urls = Array.isArray(endpoint) ? endpoint : [endpoint];
+    if (urls.length === 0) {
       throw new TxLensError(
-        'Invalid RPC endpoint URL format',
+        'At least one RPC endpoint is required',
         ErrorCode.INVALID_RPC_URL,
-        { endpoint }
+        {}
       );
     }
 
-    this.connection = new Connection(endpoint, 'confirmed');
+    // Validate URL format
+    for (const url of urls) {
+      try {
+        new URL(url);
+      } catch {
+        throw new TxLensError(
+          'Invalid RPC endpoint URL format',
+          ErrorCode.INVALID_RPC_URL,
+          { endpoint: url }
+        );
+      }
+    }
+
+    this.retry = { ...DEFAULT_RETRY_OPTIONS, ...options.retry };
+    this.commitment = options.commitment || 'confirmed';
+    this.endpoints = new EndpointPool(urls, this.retry.timeoutMs, this.commitment);
+    this.rateLimiter = options.rateLimiter;
+    this.cache = options.cache;
   }
 
   /**
-   * Validates that the RPC endpoint is reachable and responds to Solana RPC methods
-   * @returns true if connection is valid, false otherwise
+   * Validates that an RPC endpoint is reachable and responds to Solana RPC methods
+   * @returns true if connection is valid
+   * @throws TxLensError if no endpoint responds
    */
   async validateConnection(): Promise<boolean> {
+    await this.request('Failed to connect to RPC endpoint', (connection) => connection.getVersion());
+    return true;
+  }
+
+  /**
+   * Health of each configured endpoint, in order of preference
+   */
+  getEndpointHealth(): EndpointHealth[] {
+    return this.endpoints.health;
+  }
+
+  /**
+   * Identify the cluster behind the endpoints from its genesis hash.
+   * Looked up once per client; null if the request fails or the cluster is unknown.
+   */
+  async getCluster(): Promise<ClusterName | null> {
+    if (!this.cluster) {
+      this.cluster = this.request('Failed to fetch genesis hash', async (connection) =>
+        identifyCluster(await connection.getGenesisHash(), connection.rpcEndpoint)
+      ).catch(() => null);
+    }
+    return this.cluster;
+  }
+
+  /**
+   * Look up how settled a transaction is, without fetching it
+   * @returns The commitment level reached, or null if the cluster does not know the signature
+   */
+  async getSignatureStatus(signature: string): Promise<CommitmentLevel | null> {
+    const response = await this.request(
+      'Failed to fetch signature status',
+      (connection) => connection.getSignatureStatuses([signature], { searchTransactionHistory: true }),
+      { signature }
+    );
+    return response.value[0]?.confirmationStatus ?? null;
+  }
+
+  /**
+   * Fetches transaction data, from the cache when possible.
+   * Finalized cache entries are returned as-is; confirmed ones are refetched
+   * so they can be upgraded, falling back to the cached copy if the RPC fails.
+   * @param signature - Transaction signature to fetch
+   * @returns Raw transaction data, with the cluster and commitment level reached
+   * @throws TxLensError if transaction not found or network error occurs
+   */
+  async getTransaction(signature: string): Promise<RawTransaction> {
+    const cached = this.cache?.get(signature);
+    if (cached?.commitment === 'finalized') {
+      return { ...cached.transaction, commitment: 'finalized' };
+    }
+
+    let transaction: RawTransaction;
     try {
-      await this.connection.getVersion();
-      return true;
+      transaction = await this.fetchTransaction(signature);
     } catch (error) {
+      // A confirmed entry that the RPC no longer knows about was on a dropped fork
+      if (cached && !(TxLensError.isTxLensError(error) && error.code === ErrorCode.TRANSACTION_NOT_FOUND)) {
+        return { ...cached.transaction, commitment: cached.commitment };
+      }
+      throw error;
+    }
+
+    const commitment = this.commitment === 'finalized' ? 'finalized' : await this.commitmentOf(transaction);
+    transaction.commitment = commitment;
+    transaction.cluster = await this.getCluster();
+
+    if (this.cache) {
+      try {
+        this.cache.set(signature, transaction, commitment);
+      } catch {
+        // An unwritable cache only costs a refetch next time
+      }
+    }
+    return transaction;
+  }
+
+  /**
+   * Fetches recent signatures for an address, newest first
+   * @param address - Account or program address
+   * @param limit - Maximum number of signatures
+   * @throws TxLensError if the address is invalid or the request fails
+   */
+  async getSignaturesForAddress(address: string, limit: number): Promise<ConfirmedSignatureInfo[]> {
+    let pubkey: PublicKey;
+    try {
+      pubkey = new PublicKey(address);
+    } catch {
       throw new TxLensError(
-        'Failed to connect to RPC endpoint',
-        ErrorCode.RPC_CONNECTION_FAILED,
-        { 
-          originalError: error instanceof Error ? error.message : String(error),
-          endpoint: this.connection.rpcEndpoint
-        }
+        'Invalid address',
+        ErrorCode.MISSING_REQUIRED_ARGUMENT,
+        { address }
+      );
+    }
+
+    return this.request(
+      'Failed to fetch transactions from RPC',
+      (connection) => connection.getSignaturesForAddress(pubkey, { limit }),
+      { address }
+    );
+  }
+
+  /**
+   * Fetches the owner and data of several accounts, in batches of 100
+   * @param addresses - Account addresses
+   * @returns One entry per address, null where the account does not exist
+   * @throws TxLensError if a request fails
+   */
+  async getMultipleAccounts(addresses: string[]): Promise<Array<{ owner: string; data: Buffer } | null>> {
+    const accounts: Array<{ owner: string; data: Buffer } | null> = [];
+
+    for (let i = 0; i < addresses.length; i += MAX_ACCOUNTS_PER_REQUEST) {
+      const batch = addresses.slice(i, i + MAX_ACCOUNTS_PER_REQUEST);
+      const infos = await this.request(
+        'Failed to fetch accounts',
+        (connection) => connection.getMultipleAccountsInfo(batch.map((address) => new PublicKey(address))),
+        { addresses: batch }
       );
+      accounts.push(...infos.map((info) => (info ? { owner: info.owner.toBase58(), data: info.data } : null)));
     }
+
+    return accounts;
   }
 
   /**
    * Fetches transaction data from the Solana blockchain
-   * @param signature - Transaction signature to fetch
-   * @returns Raw transaction data
-   * @throws TxLensError if transaction not found or network error occurs
    */
-  async getTransaction(signature: string): Promise<RawTransaction> {
-    try {
-      const response = await this.connection.getTransaction(signature, {
+  private async fetchTransaction(signature: string): Promise<RawTransaction> {
+    const response = await this.request(
+      'Failed to fetch transaction from RPC',
+      (connection) => connection.getTransaction(signature, {
         maxSupportedTransactionVersion: 0,
-        commitment: 'confirmed',
-      });
+        // getTransaction does not serve processed transactions; confirmed is the closest level
+        commitment: this.commitment === 'finalized' ? 'finalized' : 'confirmed',
+      }),
+      { signature }
+    );
 
-      if (!response) {
-        throw new TxLensError(
-          'Transaction not found on the blockchain',
-          ErrorCode.TRANSACTION_NOT_FOUND,
-          { signature }
-        );
-      }
+    if (!response) {
+      throw new TxLensError(
+        'Transaction not found on the blockchain',
+        ErrorCode.TRANSACTION_NOT_FOUND,
+        { signature }
+      );
+    }
 
-      return this.transformResponse(response, signature);
-    } catch (error) {
-      // Re-throw TxLensError as-is
-      if (TxLensError.isTxLensError(error)) {
-        throw error;
-      }
+    return transformResponse(response, signature);
+  }
 
-      // Handle network errors
-      if (error instanceof Error) {
-        if (error.message.includes('timeout') || error.message.includes('ETIMEDOUT')) {
-          throw new TxLensError(
-            'Request to RPC endpoint timed out',
-            ErrorCode.RPC_TIMEOUT,
-            { signature, originalError: error.message }
-          );
-        }
+  /**
+   * Run an RPC call with rate limiting, retries and endpoint failover
+   * @param failureMessage - Error message when the call fails for a reason other than timeout or rate limiting
+   * @param call - The request, made against whichever endpoint is selected
+   * @param details - Context added to the error
+   * @throws TxLensError recording every endpoint tried
+   */
+  private async request<T>(
+    failureMessage: string,
+    call: (connection: Connection) => Promise<T>,
+    details: Record<string, unknown> = {}
+  ): Promise<T> {
+    const tried: string[] = [];
+    let failure: RpcFailure | undefined;
 
-        if (error.message.includes('429') || error.message.includes('rate limit')) {
-          throw new TxLensError(
-            'RPC endpoint rate limit exceeded',
-            ErrorCode.RPC_RATE_LIMITED,
-            { signature, originalError: error.message }
-          );
+    for (let attempt = 0; attempt <= this.retry.maxRetries; attempt++) {
+      // Prefer an endpoint other than the one that just failed
+      const endpoint = this.endpoints.select(new Set(tried.slice(-1)));
+
+      const coolingDownMs = endpoint.health.coolingDownUntil - Date.now();
+      if (coolingDownMs > 0) {
+        await sleep(Math.min(coolingDownMs, this.retry.maxDelayMs));
+      }
+      await this.rateLimiter?.acquire();
+
+      try {
+        const result = await call(endpoint.connection);
+        this.endpoints.recordSuccess(endpoint.health);
+        return result;
+      } catch (error) {
+        tried.push(endpoint.health.url);
+        failure = classifyRpcError(error);
+        if (!failure.retryable) {
+          break;
         }
 
-        throw new TxLensError(
-          'Failed to fetch transaction from RPC',
-          ErrorCode.RPC_CONNECTION_FAILED,
-          { signature, originalError: error.message }
+        const cooldownMs = Math.min(
+          failure.retryAfterMs ?? backoffDelay(attempt, this.retry),
+          this.retry.maxDelayMs
         );
+        this.endpoints.recordFailure(endpoint.health, failure, cooldownMs);
       }
+    }
 
-      throw new TxLensError(
-        'Unknown error occurred while fetching transaction',
-        ErrorCode.UNKNOWN_ERROR,
-        { signature }
-      );
+    const code = failure!.code;
+    const message = code === ErrorCode.RPC_TIMEOUT
+      ? 'Request to RPC endpoint timed out'
+      : code === ErrorCode.RPC_RATE_LIMITED
+        ? 'RPC endpoint rate limit exceeded'
+        : failureMessage;
+
+    throw new TxLensError(message, code, {
+      ...details,
+      originalError: failure!.message,
+      attempts: tried.length,
+      endpointsTried: [...new Set(tried)],
+    });
+  }
+
+  /**
+   * Decide whether a fetched transaction is finalized by comparing its slot with
+   * the finalized slot. The slot is looked up once and looked up again only
+   * when a transaction is newer than it, since the chain may have finalized
+   * further in the meantime.
+   */
+  private async commitmentOf(transaction: RawTransaction): Promise<CacheCommitment> {
+    const lookup = this.finalizedSlot ?? this.fetchFinalizedSlot();
+    let finalizedSlot = await lookup;
+
+    if (transaction.slot !== null && finalizedSlot !== null && transaction.slot > finalizedSlot) {
+      // Concurrent callers share one refresh
+      finalizedSlot = await (this.finalizedSlot === lookup ? this.fetchFinalizedSlot() : this.finalizedSlot!);
     }
+
+    return transaction.slot !== null && finalizedSlot !== null && transaction.slot <= finalizedSlot
+      ? 'finalized'
+      : 'confirmed';
   }
 
   /**
-   * Transforms Solana web3.js response to our RawTransaction format
+   * Look up the finalized slot, sharing the pending request with other callers
+   * @returns The slot, or null if it could not be fetched
    */
-  private transformResponse(
-    response: VersionedTransactionResponse,
-    signature: string
-  ): RawTransaction {
-    try {
-      const { slot, blockTime, transaction, meta } = response;
+  private fetchFinalizedSlot(): Promise<number | null> {
+    this.finalizedSlot = this.request('Failed to fetch finalized slot', (connection) =>
+      connection.getSlot('finalized')
+    ).catch(() => null);
+    return this.finalizedSlot;
+  }
 
-      // Check for incomplete transaction data
-      if (!meta) {
-        throw new TxLensError(
-          'Transaction metadata is missing',
-          ErrorCode.INCOMPLETE_TRANSACTION_DATA,
-          { signature }
+  /**
+   * Resolves the addresses a v0 message loads from address lookup tables
+   * @param lookups - Lookup tables and the indexes used from each
+   * @returns Loaded writable and read-only addresses, in message order
+   * @throws TxLensError if a lookup table cannot be fetched
+   */
+  async resolveLookupTables(lookups: AddressTableLookup[]): Promise<LoadedAddresses> {
+    const loaded: LoadedAddresses = { writable: [], readonly: [] };
+    const tables = new Map<string, string[]>();
+
+    for (const lookup of lookups) {
+      if (!tables.has(lookup.accountKey)) {
+        const response = await this.request(
+          'Failed to fetch address lookup table',
+          (connection) => connection.getAddressLookupTable(new PublicKey(lookup.accountKey)),
+          { lookupTable: lookup.accountKey }
         );
+        if (!response.value) {
+          throw new TxLensError(
+            'Address lookup table not found',
+            ErrorCode.INCOMPLETE_TRANSACTION_DATA,
+            { lookupTable: lookup.accountKey }
+          );
+        }
+        tables.set(lookup.accountKey, response.value.state.addresses.map((key) => key.toBase58()));
       }
+    }
 
-      // Extract account keys - handle both versioned and legacy transactions
-      // For versioned transactions with address lookup tables, we need the loaded addresses from meta
-      const accountKeys = transaction.message.getAccountKeys({
-        accountKeysFromLookups: meta?.loadedAddresses,
-      });
-      const accountKeysArray = accountKeys.keySegments().flat().map((key) => key.toBase58());
-
-      // Extract instructions
-      const instructions = transaction.message.compiledInstructions.map((ix) => ({
-        programIdIndex: ix.programIdIndex,
-        accounts: Array.from(ix.accountKeyIndexes),
-        data: ix.data.toString(),
-      }));
-
-      return {
-        slot,
-        blockTime: blockTime ?? null,
-        transaction: {
-          message: {
-            accountKeys: accountKeysArray,
-            instructions,
-            recentBlockhash: transaction.message.recentBlockhash,
-          },
-          signatures: transaction.signatures,
-        },
-        meta: {
-          err: meta.err,
-          fee: meta.fee,
-          preBalances: meta.preBalances,
-          postBalances: meta.postBalances,
-          preTokenBalances: (meta.preTokenBalances || []) as any,
-          postTokenBalances: (meta.postTokenBalances || []) as any,
-          logMessages: meta.logMessages || [],
-          computeUnitsConsumed: meta.computeUnitsConsumed,
-        },
-      };
-    } catch (error) {
-      // Re-throw TxLensError as-is
-      if (TxLensError.isTxLensError(error)) {
-        throw error;
+    const addressAt = (table: string, index: number): string => {
+      const address = tables.get(table)![index];
+      if (!address) {
+        throw new TxLensError(
+          'Address lookup table index out of range',
+          ErrorCode.INCOMPLETE_TRANSACTION_DATA,
+          { lookupTable: table, index }
+        );
       }
+      return address;
+    };
 
-      throw new TxLensError(
-        'Failed to transform transaction response',
-        ErrorCode.PARSING_FAILED,
-        { signature, originalError: error instanceof Error ? error.message : String(error) }
-      );
+    // Writable addresses of every table come before any read-only ones
+    for (const lookup of lookups) {
+      loaded.writable.push(...lookup.writableIndexes.map((i) => addressAt(lookup.accountKey, i)));
+    }
+    for (const lookup of lookups) {
+      loaded.readonly.push(...lookup.readonlyIndexes.map((i) => addressAt(lookup.accountKey, i)));
     }
+
+    return loaded;
   }
 }
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
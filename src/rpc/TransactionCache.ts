@@ -0,0 +1,257 @@
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  utimesSync,
+  writeFileSync,
+} from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { RawTransaction } from './types';
+
+/**
+ * Commitment level a cached transaction was confirmed at
+ */
+export type CacheCommitment = 'confirmed' | 'finalized';
+
+/**
+ * A transaction as stored on disk
+ */
+export interface CacheEntry {
+  signature: string;
+  slot: number | null;
+  commitment: CacheCommitment;
+  /** Unix time in milliseconds the entry was written */
+  cachedAt: number;
+  transaction: RawTransaction;
+}
+
+/**
+ * Summary of the cache contents
+ */
+export interface CacheStats {
+  directory: string;
+  entries: number;
+  finalized: number;
+  confirmed: number;
+  sizeBytes: number;
+  maxBytes: number;
+}
+
+export interface TransactionCacheOptions {
+  /** Cache directory (default: $XDG_CACHE_HOME/txlens or ~/.cache/txlens) */
+  directory?: string;
+  /** Size cap; least recently used entries are evicted beyond it (default: 100 MB) */
+  maxBytes?: number;
+}
+
+const DEFAULT_MAX_BYTES = 100 * 1024 * 1024;
+const ENTRY_VERSION = 1;
+const SIGNATURE_PATTERN = /^[1-9A-HJ-NP-Za-km-z]{32,90}$/;
+
+/**
+ * Default cache location, following the XDG base directory convention
+ */
+export function defaultCacheDirectory(): string {
+  return join(process.env.XDG_CACHE_HOME || join(homedir(), '.cache'), 'txlens');
+}
+
+/**
+ * On-disk cache of fetched transactions keyed by signature.
+ *
+ * Each entry is a JSON file; its modification time records the last access,
+ * which drives least-recently-used eviction once the size cap is exceeded.
+ * Unreadable entries are treated as misses and removed.
+ */
+export class TransactionCache {
+  readonly directory: string;
+  readonly maxBytes: number;
+
+  /** Running total of entry sizes, scanned from disk on first write */
+  private sizeBytes?: number;
+
+  constructor(options: TransactionCacheOptions = {}) {
+    this.directory = options.directory || defaultCacheDirectory();
+    this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+  }
+
+  /**
+   * Look up a transaction, marking it as recently used
+   * @returns The cached entry, or null on a miss
+   */
+  get(signature: string): CacheEntry | null {
+    const path = this.entryPath(signature);
+    const entry = path ? this.read(path, signature) : null;
+    if (path && entry) {
+      const now = new Date();
+      utimesSync(path, now, now);
+    }
+    return entry;
+  }
+
+  /**
+   * Store a transaction, then evict least recently used entries over the size cap
+   */
+  set(signature: string, transaction: RawTransaction, commitment: CacheCommitment): void {
+    const path = this.entryPath(signature);
+    if (!path) {
+      return;
+    }
+
+    const entry = {
+      version: ENTRY_VERSION,
+      signature,
+      slot: transaction.slot,
+      commitment,
+      cachedAt: Date.now(),
+      transaction,
+    };
+
+    mkdirSync(this.entriesDirectory(), { recursive: true });
+    if (this.sizeBytes === undefined) {
+      this.sizeBytes = this.listEntries().reduce((sum, file) => sum + file.size, 0);
+    }
+    const previousSize = existsSync(path) ? statSync(path).size : 0;
+
+    // Write to a temporary file first so concurrent readers never see a partial entry
+    const contents = JSON.stringify(entry);
+    const tempPath = `${path}.${process.pid}.tmp`;
+    writeFileSync(tempPath, contents);
+    renameSync(tempPath, path);
+
+    this.sizeBytes += Buffer.byteLength(contents) - previousSize;
+    if (this.sizeBytes > this.maxBytes) {
+      this.evict();
+    }
+  }
+
+  /**
+   * Count entries and their total size
+   */
+  stats(): CacheStats {
+    const stats: CacheStats = {
+      directory: this.directory,
+      entries: 0,
+      finalized: 0,
+      confirmed: 0,
+      sizeBytes: 0,
+      maxBytes: this.maxBytes,
+    };
+
+    for (const file of this.listEntries()) {
+      stats.entries++;
+      stats.sizeBytes += file.size;
+
+      const entry = this.read(file.path, file.signature);
+      if (entry?.commitment === 'finalized') {
+        stats.finalized++;
+      } else if (entry) {
+        stats.confirmed++;
+      }
+    }
+
+    return stats;
+  }
+
+  /**
+   * Remove every cached transaction
+   * @returns Number of entries removed
+   */
+  clear(): number {
+    const files = this.listEntries();
+    for (const file of files) {
+      this.remove(file.path);
+    }
+    this.sizeBytes = 0;
+    return files.length;
+  }
+
+  /**
+   * Delete least recently used entries until the cache fits under the size cap
+   */
+  private evict(): void {
+    const files = this.listEntries();
+    let total = files.reduce((sum, file) => sum + file.size, 0);
+
+    files.sort((a, b) => a.lastUsed - b.lastUsed);
+    for (const file of files) {
+      if (total <= this.maxBytes) {
+        break;
+      }
+      this.remove(file.path);
+      total -= file.size;
+    }
+
+    this.sizeBytes = total;
+  }
+
+  /**
+   * Read an entry without touching its access time
+   */
+  private read(path: string, signature: string): CacheEntry | null {
+    if (!existsSync(path)) {
+      return null;
+    }
+
+    try {
+      const stored = JSON.parse(readFileSync(path, 'utf-8'));
+      if (stored.version !== ENTRY_VERSION || stored.signature !== signature) {
+        throw new Error('Stale cache entry');
+      }
+
+      const { version: _version, ...entry } = stored;
+      return entry as CacheEntry;
+    } catch {
+      this.remove(path);
+      return null;
+    }
+  }
+
+  private listEntries(): Array<{ signature: string; path: string; size: number; lastUsed: number }> {
+    const directory = this.entriesDirectory();
+    if (!existsSync(directory)) {
+      return [];
+    }
+
+    const entries = [];
+    for (const name of readdirSync(directory)) {
+      if (!name.endsWith('.json')) {
+        continue;
+      }
+      const path = join(directory, name);
+      try {
+        const stat = statSync(path);
+        entries.push({ signature: name.slice(0, -5), path, size: stat.size, lastUsed: stat.mtimeMs });
+      } catch {
+        // Removed by another process since the directory was read
+      }
+    }
+    return entries;
+  }
+
+  private remove(path: string): void {
+    try {
+      unlinkSync(path);
+    } catch {
+      // Already gone
+    }
+  }
+
+  private entriesDirectory(): string {
+    return join(this.directory, 'transactions');
+  }
+
+  /**
+   * Path of the entry for a signature, or null if the signature is not base58
+   * (which also keeps arbitrary input from escaping the cache directory)
+   */
+  private entryPath(signature: string): string | null {
+    return SIGNATURE_PATTERN.test(signature)
+      ? join(this.entriesDirectory(), `${signature}.json`)
+      : null;
+  }
+}
@@ -0,0 +1,37 @@
+import { ClusterName } from './types';
+
+/**
+ * Default RPC endpoint for each cluster
+ */
+export const CLUSTER_ENDPOINTS: Record<ClusterName, string> = {
+  mainnet: 'https://api.mainnet-beta.solana.com',
+  devnet: 'https://api.devnet.solana.com',
+  testnet: 'https://api.testnet.solana.com',
+  localnet: 'http://127.0.0.1:8899',
+};
+
+export const CLUSTER_NAMES = Object.keys(CLUSTER_ENDPOINTS) as ClusterName[];
+
+/**
+ * Genesis hashes of the public clusters
+ */
+const GENESIS_HASHES: Record<string, ClusterName> = {
+  '5eykt4UsFv8P8NJdTREpY1vzqKqZKvdpKuc147dw2N9d': 'mainnet',
+  EtWTRABZaYq6iMfeYKouRu166VU2xqa1wcaWoxPkrZBG: 'devnet',
+  '4uhcVJyU9pJkvQyS88uRDiswHXSCkY3zQawwpjk2NsNY': 'testnet',
+};
+
+/**
+ * Identify a cluster from its genesis hash. A local validator has a fresh
+ * genesis hash every time, so an unknown hash served from this machine is
+ * taken to be localnet.
+ * @returns The cluster, or null if it cannot be identified
+ */
+export function identifyCluster(genesisHash: string, endpoint: string): ClusterName | null {
+  if (GENESIS_HASHES[genesisHash]) {
+    return GENESIS_HASHES[genesisHash];
+  }
+
+  const host = new URL(endpoint).hostname;
+  return host === 'localhost' || host === '127.0.0.1' || host === '[::1]' ? 'localnet' : null;
+}
@@ -1,2 +1,23 @@
 export { RpcClient } from './RpcClient';
-export type { RawTransaction, RawInstruction, TokenBalance } from './types';
+export type { RpcClientOptions } from './RpcClient';
+export { DEFAULT_RETRY_OPTIONS } from './transport';
+export { CLUSTER_ENDPOINTS, CLUSTER_NAMES, identifyCluster } from './clusters';
+export type { RetryOptions, EndpointHealth } from './transport';
+export { TransactionCache, defaultCacheDirectory } from './TransactionCache';
+export type { CacheEntry, CacheStats, CacheCommitment, TransactionCacheOptions } from './TransactionCache';
+export { decodeWireTransaction, deserializeTransaction } from './wireTransaction';
+export { loadSavedTransaction } from './savedTransaction';
+export { transformResponse } from './transformResponse';
+export type { LookupTableResolver } from './wireTransaction';
+export type {
+  RawTransaction,
+  RawInstruction,
+  RawInnerInstruction,
+  InnerInstructions,
+  TokenBalance,
+  MessageHeader,
+  AddressTableLookup,
+  LoadedAddresses,
+  ClusterName,
+  CommitmentLevel,
+} from './types';
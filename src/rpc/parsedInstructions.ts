@@ -0,0 +1,110 @@
+import { RawInstruction } from './types';
+
+const SYSTEM_PROGRAM_ID = '11111111111111111111111111111111';
+const TOKEN_PROGRAM_ID = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+const TOKEN_2022_PROGRAM_ID = 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb';
+
+type ParsedInstruction = NonNullable<RawInstruction['parsed']>;
+
+/**
+ * How one program's RPC-parsed instructions map onto the decoder output
+ */
+interface ParsedMapping {
+  /** RPC type names the decoders name differently */
+  types: Record<string, string>;
+  /** Field renames that apply to every instruction of the program */
+  fields: Record<string, string>;
+  /** Field renames for particular RPC types, applied before the common ones */
+  typeFields: Record<string, Record<string, string>>;
+}
+
+const SYSTEM_MAPPING: ParsedMapping = {
+  types: {
+    advanceNonce: 'AdvanceNonceAccount',
+    withdrawFromNonce: 'WithdrawNonceAccount',
+    initializeNonce: 'InitializeNonceAccount',
+    authorizeNonce: 'AuthorizeNonceAccount',
+  },
+  fields: {
+    source: 'from',
+    newAccount: 'to',
+    destination: 'to',
+    nonceAccount: 'nonce',
+    nonceAuthority: 'authority',
+    newAuthorized: 'newAuthority',
+  },
+  typeFields: {},
+};
+
+const TOKEN_MAPPING: ParsedMapping = {
+  types: {
+    transferCheckedWithFee: 'TransferFee.TransferCheckedWithFee',
+  },
+  fields: {
+    multisigAuthority: 'authority',
+    multisigOwner: 'owner',
+  },
+  typeFields: {
+    mintTo: { mintAuthority: 'authority', multisigMintAuthority: 'authority' },
+    mintToChecked: { mintAuthority: 'authority', multisigMintAuthority: 'authority' },
+    closeAccount: { owner: 'authority', multisigOwner: 'authority', closeAuthority: 'authority' },
+    freezeAccount: { freezeAuthority: 'authority', multisigFreezeAuthority: 'authority' },
+    thawAccount: { freezeAuthority: 'authority', multisigFreezeAuthority: 'authority' },
+    setAuthority: { mint: 'account', authority: 'currentAuthority', multisigAuthority: 'currentAuthority' },
+  },
+};
+
+const MAPPINGS: Record<string, ParsedMapping> = {
+  [SYSTEM_PROGRAM_ID]: SYSTEM_MAPPING,
+  [TOKEN_PROGRAM_ID]: TOKEN_MAPPING,
+  [TOKEN_2022_PROGRAM_ID]: TOKEN_MAPPING,
+};
+
+/** Integer fields the decoders carry as bigint */
+const U64_FIELDS = new Set(['lamports', 'space', 'amount']);
+
+/**
+ * Normalize an instruction the RPC parsed (jsonParsed encoding) into the
+ * shape the built-in decoders produce: decoder type and parameter names,
+ * and bigint amounts. Transfer reconstruction and the formatters then treat
+ * it like a decoded instruction. Other programs' instructions keep the RPC's
+ * form.
+ *
+ * @param programId - Program that executed the instruction
+ * @param parsed - The RPC's parsed form
+ */
+export function normalizeParsedInstruction(programId: string, parsed: ParsedInstruction): ParsedInstruction {
+  const mapping = MAPPINGS[programId];
+  if (!mapping) {
+    return parsed;
+  }
+
+  const renames = { ...mapping.fields, ...mapping.typeFields[parsed.type] };
+  const info: Record<string, any> = {};
+
+  for (const [field, value] of Object.entries(parsed.info)) {
+    if (field === 'tokenAmount' || field === 'feeAmount') {
+      // Checked token instructions state the amount as a UI token amount
+      const amount = toU64(value?.amount);
+      if (field === 'feeAmount') {
+        info.fee = amount;
+      } else {
+        info.amount = amount;
+        info.decimals = value?.decimals;
+      }
+      continue;
+    }
+
+    const name = renames[field] ?? field;
+    info[name] = U64_FIELDS.has(name) ? toU64(value) : value;
+  }
+
+  const type = mapping.types[parsed.type] ?? parsed.type;
+  return { type: type.charAt(0).toUpperCase() + type.slice(1), info };
+}
+
+function toU64(value: unknown): unknown {
+  return typeof value === 'number' || (typeof value === 'string' && /^\d+$/.test(value))
+    ? BigInt(value)
+    : value;
+}
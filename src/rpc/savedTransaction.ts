@@ -0,0 +1,339 @@
+import {
+  CompiledInstruction,
+  ConfirmedTransactionMeta,
+  Message,
+  MessageV0,
+  PublicKey,
+  TransactionVersion,
+  VersionedMessage,
+  VersionedTransaction,
+  VersionedTransactionResponse,
+} from '@solana/web3.js';
+import bs58 from 'bs58';
+import { RawTransaction, RawInstruction, MessageHeader, AddressTableLookup } from './types';
+import { transformResponse } from './transformResponse';
+import { normalizeParsedInstruction } from './parsedInstructions';
+import { TxLensError, ErrorCode } from '../utils/errors';
+
+/**
+ * Instruction in a jsonParsed response: either parsed by the RPC, or
+ * partially decoded with account addresses instead of indexes
+ */
+interface JsonParsedInstruction {
+  programId: string;
+  accounts?: string[];
+  data?: string;
+  parsed?: { type: string; info: Record<string, any> } | string;
+  stackHeight?: number | null;
+}
+
+/**
+ * base64 or base58 encoding: [data, encoding]
+ */
+type EncodedTransaction = [string, string];
+
+/**
+ * json encoding: account keys are strings and instructions use indexes
+ */
+interface JsonTransaction {
+  signatures: string[];
+  message: {
+    header: MessageHeader;
+    accountKeys: string[];
+    recentBlockhash: string;
+    instructions: RawInstruction[];
+    addressTableLookups?: AddressTableLookup[];
+  };
+}
+
+/**
+ * jsonParsed encoding: account keys carry their flags, instructions use addresses
+ */
+interface JsonParsedTransaction {
+  signatures: string[];
+  message: {
+    accountKeys: Array<{ pubkey: string; signer: boolean; writable: boolean; source?: string }>;
+    recentBlockhash: string;
+    instructions: JsonParsedInstruction[];
+    addressTableLookups?: AddressTableLookup[];
+  };
+}
+
+/**
+ * Transaction metadata as the RPC returns it, before keys become PublicKeys
+ */
+type SavedMeta<I> = Omit<ConfirmedTransactionMeta, 'innerInstructions' | 'loadedAddresses'> & {
+  innerInstructions?: Array<{ index: number; instructions: I[] }> | null;
+  loadedAddresses?: { writable: string[]; readonly: string[] };
+};
+
+/**
+ * A saved getTransaction result
+ */
+interface SavedResult<
+  T = EncodedTransaction | JsonTransaction | JsonParsedTransaction,
+  I = CompiledInstruction | JsonParsedInstruction
+> {
+  slot: number;
+  blockTime?: number | null;
+  version?: TransactionVersion;
+  transaction: T;
+  meta: SavedMeta<I>;
+}
+
+/**
+ * Load a saved getTransaction result (json, jsonParsed or base64 encoding).
+ *
+ * Accepts either the bare result or the full JSON-RPC response envelope. The
+ * result is rebuilt into the web3.js response shape and goes through the same
+ * transformResponse normalization as live RPC responses.
+ *
+ * @param contents - File contents
+ * @param source - File name for error context
+ * @throws TxLensError if the contents are not a getTransaction result
+ */
+export function loadSavedTransaction(contents: string, source: string = 'input'): RawTransaction {
+  let document: unknown;
+  try {
+    document = JSON.parse(contents);
+  } catch (error) {
+    throw new TxLensError(
+      'Input is not valid JSON',
+      ErrorCode.INVALID_TRANSACTION_FILE,
+      { source, originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+
+  const result = isRecord(document) && 'jsonrpc' in document ? document.result : document;
+
+  if (result === null) {
+    throw new TxLensError(
+      'Saved response contains no transaction (result is null)',
+      ErrorCode.TRANSACTION_NOT_FOUND,
+      { source }
+    );
+  }
+
+  if (!isSavedResult(result)) {
+    throw new TxLensError(
+      'Input is not a getTransaction result',
+      ErrorCode.INVALID_TRANSACTION_FILE,
+      { source, hint: 'Expected an object with "transaction" and "meta" fields' }
+    );
+  }
+
+  try {
+    if (isEncoded(result)) {
+      return fromEncoded(result);
+    }
+    if (isJsonParsed(result)) {
+      return fromJsonParsed(result);
+    }
+    return fromJson(result as SavedResult<JsonTransaction, CompiledInstruction>);
+  } catch (error) {
+    if (TxLensError.isTxLensError(error)) {
+      throw error;
+    }
+    throw new TxLensError(
+      'Failed to read saved transaction',
+      ErrorCode.INVALID_TRANSACTION_FILE,
+      { source, originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
+
+/**
+ * base64 (or base58) encoding: transaction is [data, encoding]
+ */
+function fromEncoded(result: SavedResult<EncodedTransaction, CompiledInstruction>): RawTransaction {
+  const [data, encoding] = result.transaction;
+  const bytes = encoding === 'base58' ? bs58.decode(data) : Buffer.from(data, 'base64');
+  const transaction = VersionedTransaction.deserialize(bytes);
+
+  return transformResponse(
+    toResponse(result, transaction.message, transaction.signatures.map((sig) => bs58.encode(sig))),
+    transaction.signatures.length > 0 ? bs58.encode(transaction.signatures[0]) : ''
+  );
+}
+
+/**
+ * json encoding: account keys are strings and instructions use indexes
+ */
+function fromJson(result: SavedResult<JsonTransaction, CompiledInstruction>): RawTransaction {
+  const { message, signatures } = result.transaction;
+  const header = message.header;
+  const accountKeys = message.accountKeys.map((key) => new PublicKey(key));
+
+  const versioned: VersionedMessage = isV0(result.version, message.addressTableLookups)
+    ? new MessageV0({
+        header,
+        staticAccountKeys: accountKeys,
+        recentBlockhash: message.recentBlockhash,
+        compiledInstructions: message.instructions.map((ix) => ({
+          programIdIndex: ix.programIdIndex,
+          accountKeyIndexes: ix.accounts,
+          data: bs58.decode(ix.data),
+        })),
+        addressTableLookups: (message.addressTableLookups || []).map((lookup) => ({
+          accountKey: new PublicKey(lookup.accountKey),
+          writableIndexes: lookup.writableIndexes,
+          readonlyIndexes: lookup.readonlyIndexes,
+        })),
+      })
+    : new Message({
+        header,
+        accountKeys,
+        recentBlockhash: message.recentBlockhash,
+        instructions: message.instructions,
+      });
+
+  return transformResponse(toResponse(result, versioned, signatures), signatures[0]);
+}
+
+/**
+ * jsonParsed encoding: account keys carry their own signer/writable flags and
+ * instructions reference accounts by address. Instructions the RPC parsed
+ * have no raw data, so their parsed form is carried through instead.
+ */
+function fromJsonParsed(result: SavedResult<JsonParsedTransaction, JsonParsedInstruction>): RawTransaction {
+  const { message, signatures } = result.transaction;
+  const keys = message.accountKeys;
+
+  // Loaded addresses follow the static keys; jsonParsed marks them with source 'lookupTable'
+  const staticKeys = keys.filter((key) => key.source !== 'lookupTable');
+  const allKeys = keys.map((key) => key.pubkey);
+  const indexOf = (address: string): number => {
+    const index = allKeys.indexOf(address);
+    if (index < 0) {
+      throw new Error(`Instruction references unknown account ${address}`);
+    }
+    return index;
+  };
+
+  const compile = (ix: JsonParsedInstruction) => ({
+    programIdIndex: indexOf(ix.programId),
+    accounts: (ix.accounts || []).map(indexOf),
+    data: ix.data && !ix.parsed ? ix.data : '',
+  });
+
+  const { instructions } = message;
+  const header = {
+    numRequiredSignatures: staticKeys.filter((key) => key.signer).length,
+    numReadonlySignedAccounts: staticKeys.filter((key) => key.signer && !key.writable).length,
+    numReadonlyUnsignedAccounts: staticKeys.filter((key) => !key.signer && !key.writable).length,
+  };
+
+  const versioned: VersionedMessage = isV0(result.version, message.addressTableLookups)
+    ? new MessageV0({
+        header,
+        staticAccountKeys: staticKeys.map((key) => new PublicKey(key.pubkey)),
+        recentBlockhash: message.recentBlockhash,
+        compiledInstructions: instructions.map((ix) => {
+          const compiled = compile(ix);
+          return {
+            programIdIndex: compiled.programIdIndex,
+            accountKeyIndexes: compiled.accounts,
+            data: bs58.decode(compiled.data),
+          };
+        }),
+        addressTableLookups: (message.addressTableLookups || []).map((lookup) => ({
+          accountKey: new PublicKey(lookup.accountKey),
+          writableIndexes: lookup.writableIndexes,
+          readonlyIndexes: lookup.readonlyIndexes,
+        })),
+      })
+    : new Message({
+        header,
+        accountKeys: staticKeys.map((key) => key.pubkey),
+        recentBlockhash: message.recentBlockhash,
+        instructions: instructions.map(compile),
+      });
+
+  const savedInner = result.meta.innerInstructions || [];
+  const innerInstructions = savedInner.map((inner) => ({
+    index: inner.index,
+    instructions: inner.instructions.map((ix) => ({
+      ...compile(ix),
+      stackHeight: ix.stackHeight ?? null,
+    })),
+  }));
+
+  const raw = transformResponse(
+    toResponse({ ...result, meta: { ...result.meta, innerInstructions } }, versioned, signatures),
+    signatures[0]
+  );
+
+  // Carry the RPC's parsed form for instructions that have no raw data
+  raw.transaction.message.instructions.forEach((ix, i) => withParsed(ix, instructions[i]));
+  raw.meta!.innerInstructions.forEach((inner, i) => {
+    inner.instructions.forEach((ix, j) => withParsed(ix, savedInner[i].instructions[j]));
+  });
+
+  return raw;
+}
+
+/**
+ * Attach the RPC's parsed form, normalized to the decoders' shape for the
+ * System and Token programs
+ */
+function withParsed(instruction: RawInstruction, source: JsonParsedInstruction): void {
+  if (source.parsed && typeof source.parsed === 'object') {
+    instruction.parsed = normalizeParsedInstruction(source.programId, {
+      type: source.parsed.type,
+      info: source.parsed.info || {},
+    });
+  } else if (typeof source.parsed === 'string') {
+    // Memo-style programs parse to a plain string
+    instruction.parsed = { type: 'parsed', info: { value: source.parsed } };
+  }
+}
+
+function isV0(version: TransactionVersion | undefined, lookups: AddressTableLookup[] | undefined): boolean {
+  return version === 0 || Array.isArray(lookups);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isSavedResult(value: unknown): value is SavedResult {
+  return isRecord(value) &&
+    (Array.isArray(value.transaction) || isRecord(value.transaction)) &&
+    isRecord(value.meta);
+}
+
+function isEncoded(result: SavedResult): result is SavedResult<EncodedTransaction, CompiledInstruction> {
+  return Array.isArray(result.transaction);
+}
+
+function isJsonParsed(result: SavedResult): result is SavedResult<JsonParsedTransaction, JsonParsedInstruction> {
+  return !Array.isArray(result.transaction) &&
+    typeof result.transaction.message?.accountKeys?.[0] === 'object';
+}
+
+/**
+ * Rebuild the web3.js getTransaction response shape around a message
+ */
+function toResponse(
+  result: SavedResult<SavedResult['transaction'], CompiledInstruction>,
+  message: VersionedMessage,
+  signatures: string[]
+): VersionedTransactionResponse {
+  const loaded = result.meta.loadedAddresses;
+
+  return {
+    slot: result.slot,
+    blockTime: result.blockTime ?? null,
+    version: result.version,
+    transaction: { message, signatures },
+    meta: {
+      ...result.meta,
+      loadedAddresses: loaded
+        ? {
+            writable: loaded.writable.map((key) => new PublicKey(key)),
+            readonly: loaded.readonly.map((key) => new PublicKey(key)),
+          }
+        : undefined,
+    },
+  };
+}
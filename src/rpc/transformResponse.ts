@@ -0,0 +1,105 @@
+import { VersionedTransactionResponse } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { RawTransaction } from './types';
+import { TxLensError, ErrorCode } from '../utils/errors';
+
+/**
+ * Transforms Solana web3.js response to our RawTransaction format
+ */
+export function transformResponse(
+  response: VersionedTransactionResponse,
+  signature: string
+): RawTransaction {
+  try {
+    const { slot, blockTime, transaction, meta } = response;
+
+    // Check for incomplete transaction data
+    if (!meta) {
+      throw new TxLensError(
+        'Transaction metadata is missing',
+        ErrorCode.INCOMPLETE_TRANSACTION_DATA,
+        { signature }
+      );
+    }
+
+    // Extract account keys - handle both versioned and legacy transactions
+    // For versioned transactions with address lookup tables, we need the loaded addresses from meta
+    const message = transaction.message;
+    const accountKeys = message.getAccountKeys({
+      accountKeysFromLookups: meta.loadedAddresses,
+    });
+    const accountKeysArray = accountKeys.keySegments().flat().map((key, index) => ({
+      pubkey: key.toBase58(),
+      signer: message.isAccountSigner(index),
+      writable: message.isAccountWritable(index),
+    }));
+
+    // Keep the lookup tables so the parser can tell where loaded accounts came from
+    const addressTableLookups = message.addressTableLookups.map((lookup) => ({
+      accountKey: lookup.accountKey.toBase58(),
+      writableIndexes: Array.from(lookup.writableIndexes),
+      readonlyIndexes: Array.from(lookup.readonlyIndexes),
+    }));
+
+    // Extract instructions
+    const instructions = transaction.message.compiledInstructions.map((ix) => ({
+      programIdIndex: ix.programIdIndex,
+      accounts: Array.from(ix.accountKeyIndexes),
+      data: bs58.encode(ix.data),
+    }));
+
+    // Extract inner instructions (CPIs), keeping the stack height so the parser can rebuild the call tree
+    const innerInstructions = (meta.innerInstructions || []).map((inner) => ({
+      index: inner.index,
+      instructions: inner.instructions.map((ix) => ({
+        programIdIndex: ix.programIdIndex,
+        accounts: ix.accounts,
+        data: ix.data,
+        stackHeight: (ix as { stackHeight?: number | null }).stackHeight ?? null,
+      })),
+    }));
+
+    return {
+      slot,
+      blockTime: blockTime ?? null,
+      transaction: {
+        message: {
+          accountKeys: accountKeysArray,
+          instructions,
+          recentBlockhash: message.recentBlockhash,
+          header: { ...message.header },
+          addressTableLookups,
+        },
+        signatures: transaction.signatures,
+      },
+      meta: {
+        err: meta.err,
+        fee: meta.fee,
+        preBalances: meta.preBalances,
+        postBalances: meta.postBalances,
+        preTokenBalances: (meta.preTokenBalances || []) as any,
+        postTokenBalances: (meta.postTokenBalances || []) as any,
+        innerInstructions,
+        logMessages: meta.logMessages || [],
+        computeUnitsConsumed: meta.computeUnitsConsumed,
+        loadedAddresses: meta.loadedAddresses
+          ? {
+              writable: meta.loadedAddresses.writable.map((key) => key.toBase58()),
+              readonly: meta.loadedAddresses.readonly.map((key) => key.toBase58()),
+            }
+          : undefined,
+      },
+    };
+  } catch (error) {
+    // Re-throw TxLensError as-is
+    if (TxLensError.isTxLensError(error)) {
+      throw error;
+    }
+
+    throw new TxLensError(
+      'Failed to transform transaction response',
+      ErrorCode.PARSING_FAILED,
+      { signature, originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+}
@@ -0,0 +1,205 @@
+import { Commitment, Connection } from '@solana/web3.js';
+import { ErrorCode } from '../utils/errors';
+
+/**
+ * Retry behaviour for RPC requests
+ */
+export interface RetryOptions {
+  /** Retries after the first attempt (default: 3) */
+  maxRetries: number;
+  /** Backoff before the first retry; doubles with each attempt (default: 500ms) */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff or Retry-After wait (default: 10s) */
+  maxDelayMs: number;
+  /** Per-request timeout (default: 30s) */
+  timeoutMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+  timeoutMs: 30_000,
+};
+
+/**
+ * Health of one RPC endpoint, updated after every request
+ */
+export interface EndpointHealth {
+  url: string;
+  successes: number;
+  failures: number;
+  /** Failures since the last success */
+  consecutiveFailures: number;
+  /** Unix time in milliseconds before which the endpoint should not be used */
+  coolingDownUntil: number;
+  lastError?: string;
+}
+
+/**
+ * How a failed request should be handled
+ */
+export interface RpcFailure {
+  code: ErrorCode;
+  /** Whether retrying, possibly on another endpoint, may succeed */
+  retryable: boolean;
+  /** Server-requested wait from a Retry-After header */
+  retryAfterMs?: number;
+  message: string;
+}
+
+/**
+ * Transport-level failure raised by the fetch wrapper, carrying the HTTP
+ * status so failures can be classified without parsing error messages
+ */
+class TransportError extends Error {
+  constructor(
+    message: string,
+    readonly kind: 'status' | 'timeout' | 'network',
+    readonly status?: number,
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'TransportError';
+  }
+}
+
+/**
+ * Create a Connection whose HTTP layer reports status codes and timeouts as
+ * typed errors. web3.js's own 429 retry loop is disabled so retries, backoff
+ * and failover are decided in one place.
+ */
+export function createConnection(url: string, timeoutMs: number, commitment: Commitment): Connection {
+  const fetchWithStatus: typeof fetch = async (input, init) => {
+    let response: Response;
+    try {
+      response = await fetch(input, { ...init, signal: AbortSignal.timeout(timeoutMs) });
+    } catch (error) {
+      if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+        throw new TransportError(`Request timed out after ${timeoutMs}ms`, 'timeout');
+      }
+      throw new TransportError(error instanceof Error ? error.message : String(error), 'network');
+    }
+
+    if (response.status === 429 || response.status >= 500) {
+      throw new TransportError(
+        `${response.status} ${response.statusText}`,
+        'status',
+        response.status,
+        parseRetryAfter(response.headers.get('retry-after'))
+      );
+    }
+    return response;
+  };
+
+  return new Connection(url, {
+    commitment,
+    fetch: fetchWithStatus,
+    disableRetryOnRateLimit: true,
+  });
+}
+
+/**
+ * Decide whether a failed request is worth retrying and which error code it maps to
+ */
+export function classifyRpcError(error: unknown): RpcFailure {
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof TransportError) {
+    switch (error.kind) {
+      case 'timeout':
+        return { code: ErrorCode.RPC_TIMEOUT, retryable: true, message };
+      case 'network':
+        return { code: ErrorCode.RPC_CONNECTION_FAILED, retryable: true, message };
+      case 'status':
+        return error.status === 429
+          ? { code: ErrorCode.RPC_RATE_LIMITED, retryable: true, retryAfterMs: error.retryAfterMs, message }
+          : { code: ErrorCode.RPC_CONNECTION_FAILED, retryable: true, retryAfterMs: error.retryAfterMs, message };
+    }
+  }
+
+  // JSON-RPC errors (bad params, unsupported version, ...) will fail the same way everywhere
+  return { code: ErrorCode.RPC_CONNECTION_FAILED, retryable: false, message };
+}
+
+/**
+ * Parse a Retry-After header given either in seconds or as an HTTP date
+ * @returns Wait in milliseconds, or undefined if absent or unparseable
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Exponential backoff with full jitter: a random wait between zero and
+ * baseDelay * 2^attempt, capped at maxDelay
+ */
+export function backoffDelay(attempt: number, options: RetryOptions, random: () => number = Math.random): number {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.floor(random() * ceiling);
+}
+
+/**
+ * The configured endpoints and their health. Requests go to the first endpoint
+ * that is not cooling down, so the list order is the order of preference.
+ */
+export class EndpointPool {
+  private endpoints: Array<{ connection: Connection; health: EndpointHealth }>;
+
+  constructor(urls: string[], timeoutMs: number, commitment: Commitment = 'confirmed') {
+    this.endpoints = urls.map((url) => ({
+      connection: createConnection(url, timeoutMs, commitment),
+      health: { url, successes: 0, failures: 0, consecutiveFailures: 0, coolingDownUntil: 0 },
+    }));
+  }
+
+  /**
+   * Pick the endpoint for the next attempt: the first one available now, or
+   * else the one that becomes available soonest
+   * @param exclude - Endpoints to avoid if any other is available (e.g. the one that just failed)
+   */
+  select(exclude: Set<string> = new Set()): { connection: Connection; health: EndpointHealth } {
+    const now = Date.now();
+    const available = this.endpoints.filter((endpoint) => endpoint.health.coolingDownUntil <= now);
+
+    return (
+      available.find((endpoint) => !exclude.has(endpoint.health.url)) ||
+      available[0] ||
+      [...this.endpoints].sort((a, b) => a.health.coolingDownUntil - b.health.coolingDownUntil)[0]
+    );
+  }
+
+  recordSuccess(health: EndpointHealth): void {
+    health.successes++;
+    health.consecutiveFailures = 0;
+    health.coolingDownUntil = 0;
+  }
+
+  /**
+   * Record a failure and take the endpoint out of rotation for the given time
+   */
+  recordFailure(health: EndpointHealth, failure: RpcFailure, cooldownMs: number): void {
+    health.failures++;
+    health.consecutiveFailures++;
+    health.coolingDownUntil = Date.now() + cooldownMs;
+    health.lastError = `${failure.code}: ${failure.message}`;
+  }
+
+  get urls(): string[] {
+    return this.endpoints.map((endpoint) => endpoint.health.url);
+  }
+
+  get health(): EndpointHealth[] {
+    return this.endpoints.map((endpoint) => ({ ...endpoint.health }));
+  }
+}
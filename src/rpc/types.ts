@@ -5,6 +5,27 @@ export interface RawInstruction {
   programIdIndex: number;
   accounts: number[];
   data: string;
+  /** Instruction as already parsed by the RPC (jsonParsed responses, where data is unavailable) */
+  parsed?: {
+    type: string;
+    info: Record<string, any>;
+  };
+}
+
+/**
+ * Instruction invoked by a program via CPI
+ */
+export interface RawInnerInstruction extends RawInstruction {
+  /** Invocation depth (1 = top-level); null for transactions recorded before stack heights were tracked */
+  stackHeight: number | null;
+}
+
+/**
+ * Inner instructions grouped by the top-level instruction that invoked them
+ */
+export interface InnerInstructions {
+  index: number;
+  instructions: RawInnerInstruction[];
 }
 
 /**
@@ -23,18 +44,64 @@ export interface TokenBalance {
   };
 }
 
+/**
+ * Message header: how many of the static account keys are signers and read-only
+ */
+export interface MessageHeader {
+  numRequiredSignatures: number;
+  numReadonlySignedAccounts: number;
+  numReadonlyUnsignedAccounts: number;
+}
+
+/**
+ * Accounts a v0 message loads from an address lookup table
+ */
+export interface AddressTableLookup {
+  /** Address of the lookup table */
+  accountKey: string;
+  writableIndexes: number[];
+  readonlyIndexes: number[];
+}
+
+/**
+ * Addresses loaded from lookup tables, in the order they follow the static keys
+ */
+export interface LoadedAddresses {
+  writable: string[];
+  readonly: string[];
+}
+
+/**
+ * Public Solana clusters, plus a local test validator
+ */
+export type ClusterName = 'mainnet' | 'devnet' | 'testnet' | 'localnet';
+
+/**
+ * Commitment level: how settled a transaction's block is
+ */
+export type CommitmentLevel = 'processed' | 'confirmed' | 'finalized';
+
 /**
  * Raw transaction response from Solana RPC
  */
 export interface RawTransaction {
-  slot: number;
+  /** Null for transactions decoded offline that were never fetched from a block */
+  slot: number | null;
   blockTime: number | null;
+  /** Cluster the transaction was fetched from, when it could be identified */
+  cluster?: ClusterName | null;
+  /** Commitment level the transaction had reached when fetched */
+  commitment?: CommitmentLevel;
   transaction: {
     message: {
       accountKeys: Array<{ pubkey: string; signer: boolean; writable: boolean }> | string[];
       instructions: RawInstruction[];
       recentBlockhash: string;
+      header?: MessageHeader;
+      /** Lookup tables used by a v0 message (absent for legacy messages) */
+      addressTableLookups?: AddressTableLookup[];
     };
+    /** Base58 signatures; an empty string marks a slot that has not been signed yet */
     signatures: string[];
   };
   meta: {
@@ -44,7 +111,10 @@ export interface RawTransaction {
     postBalances: number[];
     preTokenBalances: TokenBalance[];
     postTokenBalances: TokenBalance[];
+    innerInstructions: InnerInstructions[];
     logMessages: string[];
     computeUnitsConsumed?: number;
+    /** Accounts loaded from address lookup tables (v0 messages) */
+    loadedAddresses?: LoadedAddresses;
   } | null;
 }
@@ -0,0 +1,120 @@
+import { VersionedTransaction } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { RawTransaction, AddressTableLookup, LoadedAddresses } from './types';
+import { TxLensError, ErrorCode } from '../utils/errors';
+import { unresolvedLookupAddress } from '../utils/addressFormatter';
+
+/**
+ * Resolves the addresses a v0 message loads from lookup tables
+ */
+export type LookupTableResolver = (lookups: AddressTableLookup[]) => Promise<LoadedAddresses>;
+
+const BASE58_PATTERN = /^[1-9A-HJ-NP-Za-km-z]+$/;
+
+/**
+ * Deserialize a transaction in wire format (legacy or v0)
+ * @param encoded - Serialized transaction, base64 or base58 encoded
+ * @throws TxLensError if the input is not a valid serialized transaction
+ */
+export function deserializeTransaction(encoded: string): VersionedTransaction {
+  const trimmed = encoded.trim();
+
+  // A base58 string may also be valid base64, so try base58 first when it fits the alphabet
+  const encodings: Array<'base58' | 'base64'> = BASE58_PATTERN.test(trimmed)
+    ? ['base58', 'base64']
+    : ['base64'];
+
+  for (const encoding of encodings) {
+    try {
+      const bytes = encoding === 'base64'
+        ? Buffer.from(trimmed, 'base64')
+        : bs58.decode(trimmed);
+      if (bytes.length > 0) {
+        return VersionedTransaction.deserialize(bytes);
+      }
+    } catch {
+      // Try the next encoding
+    }
+  }
+
+  throw new TxLensError(
+    'Input is not a valid serialized transaction',
+    ErrorCode.INVALID_RAW_TRANSACTION,
+    { length: trimmed.length }
+  );
+}
+
+/**
+ * Decode a serialized transaction into the RawTransaction shape the parser expects.
+ *
+ * There is no execution metadata (meta is null), no slot and no block time.
+ * Accounts loaded from lookup tables are resolved with the given resolver;
+ * without one they are represented by "lookup:<table>[<index>]" placeholders.
+ * Signature slots that have not been signed yet are empty strings.
+ *
+ * @param encoded - Serialized transaction, base64 or base58 encoded
+ * @param resolveLookupTables - Optional resolver for lookup table addresses
+ */
+export async function decodeWireTransaction(
+  encoded: string,
+  resolveLookupTables?: LookupTableResolver
+): Promise<RawTransaction> {
+  const transaction = deserializeTransaction(encoded);
+  const message = transaction.message;
+
+  const addressTableLookups: AddressTableLookup[] = message.addressTableLookups.map((lookup) => ({
+    accountKey: lookup.accountKey.toBase58(),
+    writableIndexes: Array.from(lookup.writableIndexes),
+    readonlyIndexes: Array.from(lookup.readonlyIndexes),
+  }));
+
+  const loaded = addressTableLookups.length > 0 && resolveLookupTables
+    ? await resolveLookupTables(addressTableLookups)
+    : unresolvedLookups(addressTableLookups);
+
+  const keys = [
+    ...message.staticAccountKeys.map((key) => key.toBase58()),
+    ...loaded.writable,
+    ...loaded.readonly,
+  ];
+
+  return {
+    slot: null,
+    blockTime: null,
+    transaction: {
+      message: {
+        accountKeys: keys.map((pubkey, index) => ({
+          pubkey,
+          signer: message.isAccountSigner(index),
+          writable: message.isAccountWritable(index),
+        })),
+        instructions: message.compiledInstructions.map((ix) => ({
+          programIdIndex: ix.programIdIndex,
+          accounts: Array.from(ix.accountKeyIndexes),
+          data: bs58.encode(ix.data),
+        })),
+        recentBlockhash: message.recentBlockhash,
+        header: { ...message.header },
+        addressTableLookups,
+      },
+      signatures: transaction.signatures.map((signature) =>
+        signature.every((byte) => byte === 0) ? '' : bs58.encode(signature)
+      ),
+    },
+    meta: null,
+  };
+}
+
+/**
+ * Placeholders for lookup table addresses that were not resolved
+ */
+function unresolvedLookups(lookups: AddressTableLookup[]): LoadedAddresses {
+  return {
+    writable: lookups.flatMap((lookup) =>
+      lookup.writableIndexes.map((index) => unresolvedLookupAddress(lookup.accountKey, index))
+    ),
+    readonly: lookups.flatMap((lookup) =>
+      lookup.readonlyIndexes.map((index) => unresolvedLookupAddress(lookup.accountKey, index))
+    ),
+  };
+}
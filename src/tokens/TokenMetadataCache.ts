@@ -0,0 +1,74 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { defaultCacheDirectory } from '../rpc/TransactionCache';
+import { OnChainTokenMetadata } from './tokenMetadata';
+
+/** Metadata can be updated by the mint's authority, so found entries are refreshed weekly */
+const FOUND_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+/** Mints without metadata are looked up again the next day in case it was added */
+const MISSING_TTL_MS = 24 * 60 * 60 * 1000;
+
+interface CachedMetadata {
+  metadata: OnChainTokenMetadata | null;
+  /** Unix time in milliseconds the metadata was read */
+  resolvedAt: number;
+}
+
+/**
+ * On-disk cache of token metadata read from the chain, kept in a single
+ * JSON file next to the transaction cache
+ */
+export class TokenMetadataCache {
+  readonly path: string;
+  private entries?: Record<string, CachedMetadata>;
+
+  /**
+   * @param directory - Cache directory (default: $XDG_CACHE_HOME/txlens or ~/.cache/txlens)
+   */
+  constructor(directory: string = defaultCacheDirectory()) {
+    this.path = join(directory, 'tokens.json');
+  }
+
+  /**
+   * Look up a mint
+   * @returns The cached metadata (null if the mint has none), or undefined on a miss or expired entry
+   */
+  get(mint: string): OnChainTokenMetadata | null | undefined {
+    const entry = this.load()[mint];
+    if (!entry) {
+      return undefined;
+    }
+
+    const ttl = entry.metadata ? FOUND_TTL_MS : MISSING_TTL_MS;
+    return Date.now() - entry.resolvedAt < ttl ? entry.metadata : undefined;
+  }
+
+  /**
+   * Store resolved metadata and write the cache file
+   */
+  setMany(results: Map<string, OnChainTokenMetadata | null>): void {
+    const entries = this.load();
+    const resolvedAt = Date.now();
+    for (const [mint, metadata] of results) {
+      entries[mint] = { metadata, resolvedAt };
+    }
+
+    // Write to a temporary file first so concurrent readers never see a partial file
+    mkdirSync(dirname(this.path), { recursive: true });
+    const tempPath = `${this.path}.${process.pid}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(entries));
+    renameSync(tempPath, this.path);
+  }
+
+  private load(): Record<string, CachedMetadata> {
+    if (!this.entries) {
+      try {
+        this.entries = existsSync(this.path) ? JSON.parse(readFileSync(this.path, 'utf-8')) : {};
+      } catch {
+        // An unreadable cache is rebuilt from scratch
+        this.entries = {};
+      }
+    }
+    return this.entries!;
+  }
+}
@@ -0,0 +1,231 @@
+import { readFileSync } from 'fs';
+import { RpcClient } from '../rpc/RpcClient';
+import { ParsedTransaction, TokenTransfer, TransactionAccount } from '../parser/types';
+import { NATIVE_SOL_MINT } from '../parser/fundFlows';
+import { TxLensError, ErrorCode } from '../utils/errors';
+import { fetchTokenMetadata, OnChainTokenMetadata } from './tokenMetadata';
+import { TokenMetadataCache } from './TokenMetadataCache';
+import bundledTokenList from './tokenList.json';
+
+/**
+ * What the registry knows about a mint
+ */
+export interface TokenInfo {
+  mint: string;
+  symbol: string;
+  name: string;
+  decimals?: number;
+  logoURI?: string;
+  /** Token lists are trusted; on-chain metadata can be set by anyone and is not */
+  verified: boolean;
+  source: 'bundled' | 'list' | 'metaplex' | 'token-2022';
+}
+
+export interface TokenRegistryOptions {
+  /** Token list files in the Solana token-list format, checked before the bundled list */
+  lists?: string[];
+  /** Resolve mints missing from the lists through their on-chain metadata */
+  rpcClient?: RpcClient;
+  /** Cache for on-chain metadata */
+  cache?: TokenMetadataCache;
+}
+
+/**
+ * Symbols, names and logos for token mints, from the bundled token list,
+ * user-supplied lists and, optionally, on-chain metadata.
+ */
+export class TokenRegistry {
+  private tokens = new Map<string, TokenInfo>();
+  /** Upper-cased symbol of every verified token, to flag unverified lookalikes */
+  private verifiedSymbols = new Map<string, string>();
+  private rpcClient?: RpcClient;
+  private cache?: TokenMetadataCache;
+
+  constructor(options: TokenRegistryOptions = {}) {
+    this.rpcClient = options.rpcClient;
+    this.cache = options.cache;
+
+    // Later lists override earlier ones: bundled, then user lists in order
+    const lists = [
+      parseTokenList(bundledTokenList, 'bundled'),
+      ...(options.lists || []).map((path) => loadTokenList(path)),
+    ];
+    this.verifiedSymbols.set('SOL', NATIVE_SOL_MINT);
+    for (const token of lists.flat()) {
+      this.tokens.set(token.mint, token);
+      this.verifiedSymbols.set(token.symbol.toUpperCase(), token.mint);
+    }
+  }
+
+  /**
+   * Look up a mint among the token lists and any metadata resolved so far
+   */
+  get(mint: string): TokenInfo | undefined {
+    return this.tokens.get(mint);
+  }
+
+  /**
+   * Resolve mints that are not in any token list from their on-chain metadata,
+   * using the cache where possible. Failures leave the mints unresolved;
+   * token names are never worth failing a decode over.
+   */
+  async resolve(mints: string[]): Promise<void> {
+    if (!this.rpcClient) {
+      return;
+    }
+
+    const unknown = [...new Set(mints)].filter((mint) => !this.tokens.has(mint) && mint !== NATIVE_SOL_MINT);
+    const toFetch: string[] = [];
+    for (const mint of unknown) {
+      const cached = this.cache?.get(mint);
+      if (cached === undefined) {
+        toFetch.push(mint);
+      } else if (cached) {
+        this.addResolved(mint, cached);
+      }
+    }
+
+    if (toFetch.length === 0) {
+      return;
+    }
+
+    let fetched;
+    try {
+      fetched = await fetchTokenMetadata(this.rpcClient, toFetch);
+    } catch {
+      return;
+    }
+
+    for (const [mint, metadata] of fetched) {
+      if (metadata) {
+        this.addResolved(mint, metadata);
+      }
+    }
+    try {
+      this.cache?.setMany(fetched);
+    } catch {
+      // An unwritable cache only costs a lookup next time
+    }
+  }
+
+  /**
+   * Fill in symbol, name, logo and verification of every token transfer, and
+   * the symbol of net changes, swaps and accounts derived from a mint,
+   * resolving unknown mints first
+   */
+  async annotate(transaction: ParsedTransaction): Promise<ParsedTransaction> {
+    const derivedMints = transaction.accounts.flatMap((account) => account.derivation ? [account.derivation.mint] : []);
+    const netMints = transaction.netChanges.flatMap((change) => change.assets.map((asset) => asset.mint));
+    await this.resolve([...transaction.tokenTransfers.map((transfer) => transfer.mint), ...derivedMints, ...netMints]);
+
+    return {
+      ...transaction,
+      accounts: transaction.accounts.map((account) => this.annotateAccount(account)),
+      tokenTransfers: transaction.tokenTransfers.map((transfer) => this.annotateTransfer(transfer)),
+      netChanges: transaction.netChanges.map((change) => ({
+        ...change,
+        assets: change.assets.map((asset) => {
+          const token = this.get(asset.mint);
+          return token ? { ...asset, symbol: token.symbol } : asset;
+        }),
+      })),
+      swaps: transaction.swaps.map((swap) => ({
+        ...swap,
+        inputSymbol: this.get(swap.inputMint)?.symbol,
+        outputSymbol: this.get(swap.outputMint)?.symbol,
+      })),
+    };
+  }
+
+  private annotateAccount(account: TransactionAccount): TransactionAccount {
+    const token = account.derivation && this.get(account.derivation.mint);
+    if (!token) {
+      return account;
+    }
+    return { ...account, derivation: { ...account.derivation!, symbol: token.symbol } };
+  }
+
+  private annotateTransfer(transfer: TokenTransfer): TokenTransfer {
+    const token = this.get(transfer.mint);
+    if (!token) {
+      return transfer;
+    }
+
+    const lookalikeOf = this.verifiedSymbols.get(token.symbol.toUpperCase());
+    return {
+      ...transfer,
+      symbol: token.symbol,
+      name: token.name,
+      logoURI: token.logoURI,
+      verified: token.verified,
+      impersonates: !token.verified && lookalikeOf !== transfer.mint ? lookalikeOf : undefined,
+    };
+  }
+
+  private addResolved(mint: string, metadata: OnChainTokenMetadata): void {
+    this.tokens.set(mint, {
+      mint,
+      symbol: metadata.symbol,
+      name: metadata.name,
+      decimals: metadata.decimals,
+      verified: false,
+      source: metadata.source,
+    });
+  }
+}
+
+/**
+ * Read a token list file
+ * @throws TxLensError if the file is unreadable or not a token list
+ */
+export function loadTokenList(path: string): TokenInfo[] {
+  let contents: unknown;
+  try {
+    contents = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    throw new TxLensError(
+      `Cannot read token list: ${path}`,
+      ErrorCode.INVALID_CONFIG,
+      { file: path, originalError: error instanceof Error ? error.message : String(error) }
+    );
+  }
+  return parseTokenList(contents, path);
+}
+
+/**
+ * Parse a token list: either { tokens: [...] } as in the Solana token-list
+ * format, or a bare array. Entries for other chains are skipped.
+ * @param source - 'bundled' for the list shipped with TxLens, else the file name
+ * @throws TxLensError if an entry lacks an address or symbol
+ */
+export function parseTokenList(contents: unknown, source: string): TokenInfo[] {
+  const entries = Array.isArray(contents) ? contents : (contents as { tokens?: unknown })?.tokens;
+  if (!Array.isArray(entries)) {
+    throw new TxLensError(
+      `Not a token list: ${source}`,
+      ErrorCode.INVALID_CONFIG,
+      { file: source }
+    );
+  }
+
+  return entries
+    .filter((entry) => entry?.chainId === undefined || entry.chainId === 101)
+    .map((entry, i) => {
+      if (typeof entry?.address !== 'string' || typeof entry.symbol !== 'string') {
+        throw new TxLensError(
+          `Token list entry ${i} needs an address and a symbol: ${source}`,
+          ErrorCode.INVALID_CONFIG,
+          { file: source, entry }
+        );
+      }
+      return {
+        mint: entry.address,
+        symbol: entry.symbol,
+        name: typeof entry.name === 'string' ? entry.name : entry.symbol,
+        decimals: typeof entry.decimals === 'number' ? entry.decimals : undefined,
+        logoURI: typeof entry.logoURI === 'string' ? entry.logoURI : undefined,
+        verified: true,
+        source: source === 'bundled' ? 'bundled' : 'list',
+      };
+    });
+}
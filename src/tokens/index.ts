@@ -0,0 +1,10 @@
+export { TokenRegistry, loadTokenList, parseTokenList } from './TokenRegistry';
+export type { TokenInfo, TokenRegistryOptions } from './TokenRegistry';
+export { TokenMetadataCache } from './TokenMetadataCache';
+export {
+  fetchTokenMetadata,
+  parseMintDecimals,
+  parseMetaplexMetadata,
+  parseToken2022Metadata,
+} from './tokenMetadata';
+export type { OnChainTokenMetadata } from './tokenMetadata';
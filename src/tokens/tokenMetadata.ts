@@ -0,0 +1,126 @@
+import { RpcClient } from '../rpc/RpcClient';
+import { BorshReader } from '../parser/decoders/borsh';
+import { metaplexMetadataAddress } from '../parser/addressDerivation';
+import { METAPLEX_PROGRAM_IDS } from '../parser/decoders/MetaplexDecoder';
+import { TOKEN_2022_PROGRAM_ID } from '../parser/decoders/Token2022ExtensionDecoder';
+
+const TOKEN_PROGRAM_ID = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+
+/** Size of a base mint account; Token-2022 extensions start after the account type byte at 165 */
+const MINT_SIZE = 82;
+const TOKEN_2022_ACCOUNT_TYPE_OFFSET = 165;
+const TOKEN_2022_MINT_ACCOUNT_TYPE = 1;
+const TOKEN_METADATA_EXTENSION = 19;
+
+/**
+ * Token details read from the chain
+ */
+export interface OnChainTokenMetadata {
+  name: string;
+  symbol: string;
+  /** Off-chain metadata JSON */
+  uri?: string;
+  decimals?: number;
+  /** Where the name and symbol were read from */
+  source: 'metaplex' | 'token-2022';
+}
+
+/**
+ * Read name, symbol and decimals for mints from the Token-2022 metadata
+ * extension, falling back to the Metaplex metadata account. Mints and their
+ * metadata accounts are fetched together in batched requests.
+ * @returns Metadata per mint; null when the mint has none
+ * @throws TxLensError if the RPC requests fail
+ */
+export async function fetchTokenMetadata(
+  rpcClient: RpcClient,
+  mints: string[]
+): Promise<Map<string, OnChainTokenMetadata | null>> {
+  const metadataAddresses = mints.map(metaplexMetadataAddress);
+  const accounts = await rpcClient.getMultipleAccounts([...mints, ...metadataAddresses]);
+
+  const results = new Map<string, OnChainTokenMetadata | null>();
+  mints.forEach((mint, i) => {
+    const mintAccount = accounts[i];
+    const metadataAccount = accounts[mints.length + i];
+
+    const decimals = mintAccount ? parseMintDecimals(mintAccount.data) : undefined;
+    const fromExtension = mintAccount?.owner === TOKEN_2022_PROGRAM_ID
+      ? parseToken2022Metadata(mintAccount.data)
+      : null;
+    const fromMetaplex = !fromExtension && metadataAccount?.owner === METAPLEX_PROGRAM_IDS.TOKEN_METADATA
+      ? parseMetaplexMetadata(metadataAccount.data)
+      : null;
+
+    const metadata = fromExtension || fromMetaplex;
+    const isMint = mintAccount?.owner === TOKEN_PROGRAM_ID || mintAccount?.owner === TOKEN_2022_PROGRAM_ID;
+    results.set(mint, metadata && isMint ? { ...metadata, decimals } : null);
+  });
+
+  return results;
+}
+
+/**
+ * Read the decimals of a mint account
+ */
+export function parseMintDecimals(data: Buffer): number | undefined {
+  // mint authority (COption<Pubkey>, 36 bytes) and supply (u64) precede decimals
+  return data.length >= MINT_SIZE ? data[44] : undefined;
+}
+
+/**
+ * Read a Metaplex Token Metadata account (name, symbol and URI are null-padded)
+ * @returns null if the data is not a metadata account
+ */
+export function parseMetaplexMetadata(data: Buffer): Omit<OnChainTokenMetadata, 'decimals'> | null {
+  try {
+    const reader = new BorshReader(data);
+    reader.u8(); // key
+    reader.pubkey(); // update authority
+    reader.pubkey(); // mint
+    const name = stripPadding(reader.string());
+    const symbol = stripPadding(reader.string());
+    const uri = stripPadding(reader.string());
+    return name || symbol ? { name, symbol, uri: uri || undefined, source: 'metaplex' } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find the TokenMetadata extension in a Token-2022 mint's TLV data
+ * @returns null if the mint has no metadata extension
+ */
+export function parseToken2022Metadata(data: Buffer): Omit<OnChainTokenMetadata, 'decimals'> | null {
+  if (data.length <= TOKEN_2022_ACCOUNT_TYPE_OFFSET || data[TOKEN_2022_ACCOUNT_TYPE_OFFSET] !== TOKEN_2022_MINT_ACCOUNT_TYPE) {
+    return null;
+  }
+
+  let offset = TOKEN_2022_ACCOUNT_TYPE_OFFSET + 1;
+  while (offset + 4 <= data.length) {
+    const type = data.readUInt16LE(offset);
+    const length = data.readUInt16LE(offset + 2);
+    offset += 4;
+
+    if (type === TOKEN_METADATA_EXTENSION) {
+      try {
+        const reader = new BorshReader(data.subarray(offset, offset + length));
+        reader.pubkey(); // update authority
+        reader.pubkey(); // mint
+        const name = reader.string();
+        const symbol = reader.string();
+        const uri = reader.string();
+        return { name, symbol, uri: uri || undefined, source: 'token-2022' };
+      } catch {
+        return null;
+      }
+    }
+    offset += length;
+  }
+
+  return null;
+}
+
+function stripPadding(value: string): string {
+  return value.replace(/\0/g, '').trim();
+}
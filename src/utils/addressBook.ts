@@ -0,0 +1,27 @@
+/**
+ * User-maintained names for addresses (treasuries, hot wallets, program
+ * accounts, ...). Labels take precedence over the built-in KNOWN_PROGRAMS
+ * names; formatters mark them so they are not mistaken for verified names.
+ */
+export class AddressBook {
+  private labels: Map<string, string>;
+
+  /**
+   * @param labels - Address to name, as stored in the config profile
+   */
+  constructor(labels: Record<string, string> = {}) {
+    this.labels = new Map(Object.entries(labels));
+  }
+
+  /**
+   * Look up the label for an address
+   * @returns The user-defined name, or undefined if the address has none
+   */
+  get(address: string): string | undefined {
+    return this.labels.get(address);
+  }
+
+  get size(): number {
+    return this.labels.size;
+  }
+}
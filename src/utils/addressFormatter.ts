@@ -6,6 +6,10 @@ import bs58 from 'bs58';
  * @returns Shortened address in format "abcd...wxyz"
  */
 export function shortenAddress(address: string): string {
+  const unresolved = parseUnresolvedLookupAddress(address);
+  if (unresolved) {
+    return `${shortenAddress(unresolved.table)}[${unresolved.index}]`;
+  }
   if (!address || address.length < 8) {
     return address;
   }
@@ -37,3 +41,27 @@ export function isValidSignature(signature: string): boolean {
     return false;
   }
 }
+
+const UNRESOLVED_LOOKUP = /^lookup:([1-9A-HJ-NP-Za-km-z]{32,44})\[(\d+)\]$/;
+
+/**
+ * Placeholder for an account loaded from an address lookup table that could
+ * not be resolved (offline decoding without an RPC endpoint)
+ * @param table - Lookup table address
+ * @param index - Index of the address within the table
+ * @returns Placeholder in format "lookup:<table>[<index>]"
+ */
+export function unresolvedLookupAddress(table: string, index: number): string {
+  return `lookup:${table}[${index}]`;
+}
+
+/**
+ * Parse a placeholder created by unresolvedLookupAddress
+ * @returns The lookup table and index, or null if the string is a regular address
+ */
+export function parseUnresolvedLookupAddress(
+  address: string
+): { table: string; index: number } | null {
+  const match = UNRESOLVED_LOOKUP.exec(address || '');
+  return match ? { table: match[1], index: parseInt(match[2], 10) } : null;
+}
@@ -3,28 +3,45 @@
  * @param lamports - Amount in lamports (1 SOL = 1,000,000,000 lamports)
  * @returns Formatted SOL amount as string with up to 9 decimal places
  */
-export function lamportsToSol(lamports: number): string {
-  const LAMPORTS_PER_SOL = 1_000_000_000;
-  const sol = lamports / LAMPORTS_PER_SOL;
-  
-  // Format with up to 9 decimal places, removing trailing zeros
-  return sol.toFixed(9).replace(/\.?0+$/, '');
+export function lamportsToSol(lamports: number | bigint): string {
+  return formatTokenAmount(lamports, 9);
 }
 
 /**
  * Formats token amount with configurable decimals
+ * Uses integer arithmetic so amounts above 2^53 stay exact
  * @param amount - Raw token amount (in smallest unit)
  * @param decimals - Number of decimal places for the token
  * @returns Formatted token amount as string
  */
-export function formatTokenAmount(amount: number, decimals: number): string {
+export function formatTokenAmount(amount: number | bigint | string, decimals: number): string {
+  const raw = toBigInt(amount);
+  const negative = raw < 0n;
+  const digits = (negative ? -raw : raw).toString();
+
   if (decimals === 0) {
-    return amount.toString();
+    return (negative ? '-' : '') + digits;
   }
-  
-  const divisor = Math.pow(10, decimals);
-  const formattedAmount = amount / divisor;
-  
+
+  const padded = digits.padStart(decimals + 1, '0');
+  const whole = padded.slice(0, padded.length - decimals);
+  const fraction = padded.slice(padded.length - decimals).replace(/0+$/, '');
+
   // Format with the specified decimals, removing trailing zeros
-  return formattedAmount.toFixed(decimals).replace(/\.?0+$/, '');
+  return (negative ? '-' : '') + (fraction ? `${whole}.${fraction}` : whole);
+}
+
+/**
+ * Converts a raw integer amount to bigint
+ * @param amount - Integer amount as number, bigint or decimal string
+ * @returns The amount as a bigint
+ */
+export function toBigInt(amount: number | bigint | string): bigint {
+  if (typeof amount === 'bigint') {
+    return amount;
+  }
+  if (typeof amount === 'number') {
+    return BigInt(Math.trunc(amount));
+  }
+  return BigInt(amount);
 }
@@ -121,6 +121,22 @@ export class ErrorFormatter {
       [ErrorCode.MISSING_REQUIRED_ARGUMENT]:
         'Tip: Check the command usage with --help flag',
 
+      [ErrorCode.INVALID_RAW_TRANSACTION]:
+        'Tip: --raw expects a serialized transaction (legacy or v0) encoded as base64 or base58\n' +
+        'Pass it as the option value or pipe it on stdin',
+
+      [ErrorCode.INVALID_TRANSACTION_FILE]:
+        'Tip: --input expects a saved getTransaction result (json, jsonParsed or base64 encoding)\n' +
+        'Either the bare result or the full JSON-RPC response is accepted',
+
+      [ErrorCode.INVALID_CONFIG]:
+        'Tip: Check ~/.config/txlens/config.json and any .txlensrc in this directory or its parents\n' +
+        'Run "txlens config list" to see the files read and the merged profiles',
+
+      [ErrorCode.INVALID_IDL]:
+        'Tip: IDL files must be Anchor IDL JSON (legacy or 0.30+ format)\n' +
+        'Use --idl <program>=<file> when the IDL does not include the program address',
+
       [ErrorCode.RPC_CONNECTION_FAILED]:
         'Tip: Check your internet connection and RPC endpoint\n' +
         'Try using a different RPC endpoint with --rpc flag',
@@ -131,7 +147,7 @@ export class ErrorFormatter {
 
       [ErrorCode.RPC_RATE_LIMITED]:
         'Tip: You have exceeded the rate limit for this RPC endpoint\n' +
-        'Wait a moment and try again, or use a different endpoint',
+        'Wait a moment and try again, or add a failover endpoint with another --rpc flag',
 
       [ErrorCode.TRANSACTION_NOT_FOUND]:
         'Tip: Verify the transaction signature is correct\n' +
@@ -6,6 +6,10 @@ export enum ErrorCode {
   INVALID_SIGNATURE = 'INVALID_SIGNATURE',
   INVALID_RPC_URL = 'INVALID_RPC_URL',
   MISSING_REQUIRED_ARGUMENT = 'MISSING_REQUIRED_ARGUMENT',
+  INVALID_IDL = 'INVALID_IDL',
+  INVALID_RAW_TRANSACTION = 'INVALID_RAW_TRANSACTION',
+  INVALID_TRANSACTION_FILE = 'INVALID_TRANSACTION_FILE',
+  INVALID_CONFIG = 'INVALID_CONFIG',
   
   // Network errors
   RPC_CONNECTION_FAILED = 'RPC_CONNECTION_FAILED',
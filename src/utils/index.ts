@@ -1,4 +1,11 @@
-export { shortenAddress, isValidSignature } from './addressFormatter';
-export { lamportsToSol, formatTokenAmount } from './amountFormatter';
+export {
+  shortenAddress,
+  isValidSignature,
+  unresolvedLookupAddress,
+  parseUnresolvedLookupAddress,
+} from './addressFormatter';
+export { lamportsToSol, formatTokenAmount, toBigInt } from './amountFormatter';
 export { KNOWN_PROGRAMS, getProgramName } from './knownPrograms';
+export { AddressBook } from './addressBook';
 export { displayLogo, displayLargeLogo } from './logo';
+export { RateLimiter } from './rateLimiter';
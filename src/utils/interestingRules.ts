@@ -1,5 +1,7 @@
-import { ParsedTransaction } from '../parser/types';
+import { ParsedTransaction, ProgramInteraction, ProgramEvent } from '../parser/types';
 import { KNOWN_PROGRAMS } from './knownPrograms';
+import { flattenInteractions } from '../parser/interactionTree';
+import { NATIVE_SOL_MINT } from '../parser/fundFlows';
 
 /**
  * Result from evaluating an interesting rule
@@ -26,6 +28,8 @@ export interface NormalizedTx extends ParsedTransaction {
   createsMint: boolean;
   isNftMint: boolean;
   uniquePrograms: number;
+  /** Decoded program events across the whole call tree, in execution order */
+  events: ProgramEvent[];
 }
 
 /**
@@ -33,28 +37,36 @@ export interface NormalizedTx extends ParsedTransaction {
  */
 export function normalizeTransaction(tx: ParsedTransaction): NormalizedTx {
   // Calculate total SOL moved (absolute value of all balance changes)
-  const totalSolMoved = tx.accountChanges.reduce(
-    (sum, change) => sum + Math.abs(change.balanceChange),
-    0
-  ) / 1_000_000_000; // Convert lamports to SOL
+  const totalLamportsMoved = tx.accountChanges.reduce(
+    (sum, change) => sum + (change.balanceChange < 0n ? -change.balanceChange : change.balanceChange),
+    0n
+  );
+  const totalSolMoved = Number(totalLamportsMoved) / 1_000_000_000; // Convert lamports to SOL
+
+  // Include CPIs so programs reached through aggregators are counted too
+  const interactions = flattenInteractions(tx.programInteractions);
 
   // Extract unique program IDs
-  const programIds = tx.programInteractions.map((p) => p.programId);
+  const programIds = interactions.map((p) => p.programId);
   const uniquePrograms = new Set(programIds).size;
 
   // Check for token transfers
-  const hasTokenTransfers = tx.tokenTransfers.length > 0;
+  const hasTokenTransfers = tx.tokenTransfers.some((t) => t.mint !== NATIVE_SOL_MINT);
 
   // Check if transaction creates a mint (InitializeMint instruction)
-  const createsMint = tx.programInteractions.some(
-    (p) => p.instructionType === 'InitializeMint'
-  );
+  const isInitializeMint = (p: ProgramInteraction) =>
+    p.instructionType === 'InitializeMint' || p.instructionType === 'InitializeMint2';
+
+  const createsMint = interactions.some(isInitializeMint);
 
   // Check if it's an NFT mint (mint with 0 decimals)
-  const isNftMint = tx.programInteractions.some(
-    (p) => p.instructionType === 'InitializeMint' && p.details.decimals === 0
+  const isNftMint = interactions.some(
+    (p) => isInitializeMint(p) && p.details.decimals === 0
   );
 
+  // Collect events so rules can match on what programs reported
+  const events = interactions.flatMap((p) => p.events);
+
   return {
     ...tx,
     totalSolMoved,
@@ -63,6 +75,7 @@ export function normalizeTransaction(tx: ParsedTransaction): NormalizedTx {
     createsMint,
     isNftMint,
     uniquePrograms,
+    events,
   };
 }
 
@@ -141,7 +154,8 @@ export const DEFAULT_RULES: InterestingRule[] = [
         reason: `${tx.computeUnits.used.toLocaleString()} compute units`,
       };
     }
-    if (computePercent > 80) {
+    // A limit of 0 leaves no share to compare
+    if (tx.computeUnits.limit > 0 && computePercent > 80) {
       return {
         score: 5,
         tag: 'compute_intensive',
@@ -153,7 +167,7 @@ export const DEFAULT_RULES: InterestingRule[] = [
 
   // High transaction fees
   (tx: NormalizedTx) => {
-    const feeSol = tx.fee / 1_000_000_000;
+    const feeSol = tx.fee.total / 1_000_000_000;
     if (feeSol > 0.01) {
       return {
         score: 6,
@@ -178,20 +192,36 @@ export const DEFAULT_RULES: InterestingRule[] = [
     return false;
   },
 
+  // Swaps, whichever venue they went through
+  (tx: NormalizedTx) => {
+    if (tx.swaps.length > 0) {
+      const via = [...new Set(tx.swaps.flatMap((swap) =>
+        (swap.aggregator ? [swap.aggregator] : swap.venues).map((venue) => venue.name || venue.programId)
+      ))];
+      return {
+        score: 4,
+        tag: 'swap',
+        reason: via.length > 0 ? `Swap via ${via.join(', ')}` : 'Swap',
+      };
+    }
+    return false;
+  },
+
   // Large token transfers
   (tx: NormalizedTx) => {
-    if (tx.tokenTransfers.length > 5) {
+    const count = tx.tokenTransfers.filter((t) => t.mint !== NATIVE_SOL_MINT).length;
+    if (count > 5) {
       return {
         score: 6,
         tag: 'multi_token',
-        reason: `${tx.tokenTransfers.length} token transfers`,
+        reason: `${count} token transfers`,
       };
     }
-    if (tx.tokenTransfers.length > 0) {
+    if (count > 0) {
       return {
         score: 3,
         tag: 'token_transfer',
-        reason: `${tx.tokenTransfers.length} token transfer(s)`,
+        reason: `${count} token transfer(s)`,
       };
     }
     return false;
@@ -222,7 +252,7 @@ export const DEFAULT_RULES: InterestingRule[] = [
       return {
         score: 5,
         tag: 'failed',
-        reason: 'Transaction failed',
+        reason: tx.failure ? `Transaction failed: ${tx.failure.errorName}` : 'Transaction failed',
       };
     }
     return false;
@@ -240,6 +270,69 @@ export interface ScoredTransaction {
   topTag: string;
 }
 
+/**
+ * A user-defined scoring rule, as declared in a config profile.
+ * Every condition given must hold for the rule to match.
+ */
+export interface CustomRuleConfig {
+  tag: string;
+  score: number;
+  reason?: string;
+  /** Matches if any of these programs is invoked, including through CPIs */
+  programs?: string[];
+  /** Matches if any of these accounts is referenced */
+  accounts?: string[];
+  /** Matches if any instruction has one of these decoded types */
+  instructionTypes?: string[];
+  /** Matches if any of these events is emitted: an event name, or "<program>:<event name>" */
+  events?: string[];
+  /** Minimum total SOL moved across all balance changes */
+  minSolMoved?: number;
+  status?: 'success' | 'failed';
+}
+
+/**
+ * Build a scoring rule from its declarative config
+ */
+export function createCustomRule(config: CustomRuleConfig): InterestingRule {
+  return (tx: NormalizedTx) => {
+    if (config.programs && !config.programs.some((program) => tx.programIds.includes(program))) {
+      return false;
+    }
+    if (config.accounts && !tx.accounts.some((account) => config.accounts!.includes(account.address))) {
+      return false;
+    }
+    if (config.instructionTypes) {
+      const types = flattenInteractions(tx.programInteractions).map((p) => p.instructionType);
+      if (!config.instructionTypes.some((type) => types.includes(type))) {
+        return false;
+      }
+    }
+    if (config.events && !config.events.some((event) => tx.events.some((e) => matchesEvent(e, event)))) {
+      return false;
+    }
+    if (config.minSolMoved !== undefined && tx.totalSolMoved < config.minSolMoved) {
+      return false;
+    }
+    if (config.status && tx.status !== config.status) {
+      return false;
+    }
+
+    return { score: config.score, tag: config.tag, reason: config.reason };
+  };
+}
+
+/**
+ * Match an event against "<name>" or "<program>:<name>"
+ */
+function matchesEvent(event: ProgramEvent, pattern: string): boolean {
+  const separator = pattern.lastIndexOf(':');
+  if (separator < 0) {
+    return event.name === pattern;
+  }
+  return event.programId === pattern.slice(0, separator) && event.name === pattern.slice(separator + 1);
+}
+
 /**
  * Evaluate a transaction against all rules and aggregate scores
  */
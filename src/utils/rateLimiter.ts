@@ -0,0 +1,29 @@
+/**
+ * Spaces out operations so that no more than a given number start per second.
+ * Callers await acquire() before each request; slots are handed out in call order.
+ */
+export class RateLimiter {
+  private nextSlot = 0;
+
+  /**
+   * @param requestsPerSecond - Maximum request rate; 0 or less disables limiting
+   */
+  constructor(private requestsPerSecond: number) {}
+
+  /**
+   * Wait until the next request slot is available
+   */
+  async acquire(): Promise<void> {
+    if (this.requestsPerSecond <= 0) {
+      return;
+    }
+
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot);
+    this.nextSlot = slot + 1000 / this.requestsPerSecond;
+
+    if (slot > now) {
+      await new Promise((resolve) => setTimeout(resolve, slot - now));
+    }
+  }
+}
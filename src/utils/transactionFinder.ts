@@ -1,4 +1,6 @@
-import { Connection, PublicKey } from '@solana/web3.js';
+import { RpcClient } from '../rpc/RpcClient';
+import { CLUSTER_ENDPOINTS } from '../rpc/clusters';
+import { ClusterName } from '../rpc/types';
 
 export interface TransactionInfo {
   signature: string;
@@ -11,25 +13,46 @@ export interface TransactionInfo {
  * Fetch recent transactions for an address or program
  */
 export async function getRecentTransactions(
-  connection: Connection,
+  rpcClient: RpcClient,
   address: string,
   limit: number = 10
 ): Promise<TransactionInfo[]> {
-  try {
-    const pubkey = new PublicKey(address);
-    const signatures = await connection.getSignaturesForAddress(pubkey, {
-      limit,
-    });
+  const signatures = await rpcClient.getSignaturesForAddress(address, limit);
 
-    return signatures.map((sig) => ({
-      signature: sig.signature,
-      slot: sig.slot,
-      blockTime: sig.blockTime ?? null,
-      err: sig.err,
-    }));
-  } catch (error) {
-    throw new Error(`Failed to fetch transactions: ${error}`);
-  }
+  return signatures.map((sig) => ({
+    signature: sig.signature,
+    slot: sig.slot,
+    blockTime: sig.blockTime ?? null,
+    err: sig.err,
+  }));
+}
+
+/**
+ * Look for a signature on the public clusters other than the one already queried,
+ * to explain a "not found" that is really a cluster mix-up
+ * @param signature - Signature that was not found
+ * @param queried - Cluster that was queried, skipped in the search
+ * @returns The first cluster that knows the signature, or null
+ */
+export async function findSignatureCluster(
+  signature: string,
+  queried: ClusterName | null
+): Promise<ClusterName | null> {
+  const candidates = (['mainnet', 'devnet', 'testnet'] as ClusterName[]).filter((cluster) => cluster !== queried);
+
+  const found = await Promise.all(
+    candidates.map(async (cluster) => {
+      // One quick attempt per cluster: this is a hint, not worth retrying for
+      const client = new RpcClient(CLUSTER_ENDPOINTS[cluster], { retry: { maxRetries: 0, timeoutMs: 10_000 } });
+      try {
+        return (await client.getSignatureStatus(signature)) ? cluster : null;
+      } catch {
+        return null;
+      }
+    })
+  );
+
+  return found.find((cluster) => cluster !== null) ?? null;
 }
 
 /**
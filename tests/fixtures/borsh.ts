@@ -0,0 +1,32 @@
+import { createHash } from 'crypto';
+
+export function u16(value: number): Buffer {
+  const buffer = Buffer.alloc(2);
+  buffer.writeUInt16LE(value, 0);
+  return buffer;
+}
+
+export function u64(value: bigint): Buffer {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64LE(value, 0);
+  return buffer;
+}
+
+/**
+ * Borsh string: u32 length prefix, then the bytes. Metaplex pads fixed-size
+ * fields with zeros up to padTo, and the prefix counts the padding.
+ */
+export function borshString(value: string, padTo: number = Buffer.byteLength(value)): Buffer {
+  const bytes = Buffer.alloc(padTo);
+  bytes.write(value);
+  const length = Buffer.alloc(4);
+  length.writeUInt32LE(padTo, 0);
+  return Buffer.concat([length, bytes]);
+}
+
+/**
+ * Anchor discriminator: first 8 bytes of sha256("<namespace>:<name>")
+ */
+export function anchorDiscriminator(name: string, namespace: 'global' | 'event' = 'global'): Buffer {
+  return createHash('sha256').update(`${namespace}:${name}`).digest().subarray(0, 8);
+}
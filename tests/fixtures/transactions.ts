@@ -0,0 +1,45 @@
+import { RawInstruction, RawTransaction } from '../../src/rpc/types';
+
+export const SIGNATURE = '5VERv8NMvzbJMEkV8xnrLkEaWRtSz9CosKDYjCJjBRnbJLgp8uirBgmQpjKhoR4tjF3ZpRzrFmBV6UjKdiSZkQUW';
+
+export const FEE_PAYER = 'Fee1111111111111111111111111111111111111111';
+
+export interface TransactionFixture {
+  slot?: number;
+  signature?: string;
+  accountKeys?: string[];
+  instructions?: RawInstruction[];
+  /** Meta fields to override; balances default to the fee payer paying a 5000 lamport fee */
+  meta?: Partial<NonNullable<RawTransaction['meta']>>;
+}
+
+/**
+ * Build a successful RawTransaction as the RPC client would return it
+ */
+export function buildTransaction(fixture: TransactionFixture = {}): RawTransaction {
+  const accountKeys = fixture.accountKeys ?? [FEE_PAYER];
+
+  return {
+    slot: fixture.slot ?? 1,
+    blockTime: 1700000000,
+    transaction: {
+      message: {
+        accountKeys,
+        instructions: fixture.instructions ?? [],
+        recentBlockhash: '11111111111111111111111111111111',
+      },
+      signatures: [fixture.signature ?? SIGNATURE],
+    },
+    meta: {
+      err: null,
+      fee: 5000,
+      preBalances: accountKeys.map((_, i) => (i === 0 ? 1_000_000 : 1)),
+      postBalances: accountKeys.map((_, i) => (i === 0 ? 995_000 : 1)),
+      preTokenBalances: [],
+      postTokenBalances: [],
+      innerInstructions: [],
+      logMessages: [],
+      ...fixture.meta,
+    },
+  };
+}
@@ -0,0 +1,237 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { homedir, tmpdir } from 'os';
+import { join } from 'path';
+import {
+  loadConfig,
+  resolveProfile,
+  validateConfig,
+  getConfigValue,
+  setConfigValue,
+  globalConfigPath,
+} from '../../../src/config';
+import { ErrorCode, TxLensError } from '../../../src/utils/errors';
+
+const ADDRESS_1 = '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM';
+const ADDRESS_2 = 'Dest111111111111111111111111111111111111111';
+
+describe('config', () => {
+  let root: string;
+  let project: string;
+
+  function writeJson(path: string, value: unknown): void {
+    mkdirSync(join(path, '..'), { recursive: true });
+    writeFileSync(path, JSON.stringify(value));
+  }
+
+  function errorOf(fn: () => unknown): TxLensError {
+    try {
+      fn();
+    } catch (error) {
+      return error as TxLensError;
+    }
+    throw new Error('Expected an error');
+  }
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'txlens-config-'));
+    project = join(root, 'project', 'nested');
+    mkdirSync(project, { recursive: true });
+    vi.stubEnv('XDG_CONFIG_HOME', join(root, 'xdg'));
+    vi.stubEnv('TXLENS_PROFILE', '');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('returns an empty config when no files exist', () => {
+    const { config, files } = loadConfig(project);
+
+    expect(files).toEqual([]);
+    expect(resolveProfile(config)).toEqual({ name: 'default', profile: {} });
+  });
+
+  it('overlays the nearest .txlensrc on the user config', () => {
+    writeJson(globalConfigPath(), {
+      profiles: {
+        default: {
+          rpc: ['https://user.example.com'],
+          commitment: 'finalized',
+          labels: { [ADDRESS_1]: 'Treasury' },
+          cache: { maxSizeMb: 50 },
+        },
+      },
+    });
+    writeJson(join(root, 'project', '.txlensrc'), {
+      defaultProfile: 'default',
+      profiles: {
+        default: {
+          rpc: ['https://project.example.com'],
+          labels: { [ADDRESS_2]: 'Hot wallet' },
+          cache: { directory: 'cache' },
+          idlDirs: ['idls'],
+        },
+      },
+    });
+
+    const { config, files } = loadConfig(project);
+    const { profile } = resolveProfile(config);
+
+    expect(files).toHaveLength(2);
+    expect(profile.rpc).toEqual(['https://project.example.com']);
+    expect(profile.commitment).toBe('finalized');
+    expect(profile.labels).toEqual({ [ADDRESS_1]: 'Treasury', [ADDRESS_2]: 'Hot wallet' });
+    // Relative paths resolve against the file that declared them
+    expect(profile.cache).toEqual({ maxSizeMb: 50, directory: join(root, 'project', 'cache') });
+    expect(profile.idlDirs).toEqual([join(root, 'project', 'idls')]);
+  });
+
+  it('lets a .txlensrc profile and default override the user config', () => {
+    writeJson(globalConfigPath(), {
+      defaultProfile: 'main',
+      profiles: {
+        main: { cluster: 'mainnet', output: 'human' },
+        dev: { cluster: 'devnet', tokens: { lists: ['~/tokens.json'] } },
+      },
+    });
+    writeJson(join(project, '.txlensrc'), {
+      defaultProfile: 'dev',
+      profiles: { dev: { output: 'json', tokens: { resolveMetadata: true } } },
+    });
+
+    const { config } = loadConfig(project);
+    const { name, profile } = resolveProfile(config);
+
+    expect(name).toBe('dev');
+    expect(profile).toEqual({
+      cluster: 'devnet',
+      output: 'json',
+      tokens: { lists: [join(homedir(), 'tokens.json')], resolveMetadata: true },
+    });
+    // Profiles only in the user config stay available
+    expect(resolveProfile(config, 'main').profile.cluster).toBe('mainnet');
+
+    const error = errorOf(() => resolveProfile(config, 'staging'));
+    expect(error.code).toBe(ErrorCode.INVALID_CONFIG);
+    expect(error.details.available).toEqual(['main', 'dev']);
+  });
+
+  it('reports an invalid .txlensrc', () => {
+    writeJson(join(project, '.txlensrc'), { profiles: { default: { commitment: 'eventual' } } });
+
+    const error = errorOf(() => loadConfig(project));
+    expect(error.code).toBe(ErrorCode.INVALID_CONFIG);
+    expect(error.details).toMatchObject({ file: join(project, '.txlensrc'), key: 'profiles.default.commitment' });
+  });
+
+  it('selects profiles by name, environment, then configured default', () => {
+    const config = validateConfig({
+      defaultProfile: 'main',
+      profiles: { main: { cluster: 'mainnet' }, dev: { cluster: 'devnet' } },
+    }, 'config.json');
+
+    expect(resolveProfile(config).name).toBe('main');
+    expect(resolveProfile(config, 'dev').profile.cluster).toBe('devnet');
+
+    vi.stubEnv('TXLENS_PROFILE', 'dev');
+    expect(resolveProfile(config).name).toBe('dev');
+
+    const error = errorOf(() => resolveProfile(config, 'staging'));
+    expect(error.code).toBe(ErrorCode.INVALID_CONFIG);
+    expect(error.details.available).toEqual(['main', 'dev']);
+  });
+
+  it.each([
+    [{ profiles: { default: { cluster: 'moon' } } }, 'profiles.default.cluster'],
+    [{ profiles: { default: { commitment: 'eventual' } } }, 'profiles.default.commitment'],
+    [{ profiles: { default: { rpc: ['ftp://example.com'] } } }, 'profiles.default.rpc'],
+    [{ profiles: { default: { rpc: ['https://'] } } }, 'profiles.default.rpc'],
+    [{ profiles: { default: { rpc: 'https://example.com' } } }, 'profiles.default.rpc'],
+    [{ profiles: { default: { rpc: [] } } }, 'profiles.default.rpc'],
+    [{ profiles: { default: { output: 'yaml' } } }, 'profiles.default.output'],
+    [{ profiles: { default: { color: 'sometimes' } } }, 'profiles.default.color'],
+    [{ profiles: { default: { colour: 'never' } } }, 'profiles.default.colour'],
+    [{ profiles: { default: { idlDirs: 'idls' } } }, 'profiles.default.idlDirs'],
+    [{ profiles: { default: { cache: [] } } }, 'profiles.default.cache'],
+    [{ profiles: { default: { cache: { size: 1 } } } }, 'profiles.default.cache.size'],
+    [{ profiles: { default: { cache: { enabled: 'yes' } } } }, 'profiles.default.cache.enabled'],
+    [{ profiles: { default: { cache: { directory: 1 } } } }, 'profiles.default.cache.directory'],
+    [{ profiles: { default: { cache: { maxSizeMb: -1 } } } }, 'profiles.default.cache.maxSizeMb'],
+    [{ profiles: { default: { tokens: 'all' } } }, 'profiles.default.tokens'],
+    [{ profiles: { default: { tokens: { registry: 'x' } } } }, 'profiles.default.tokens.registry'],
+    [{ profiles: { default: { tokens: { lists: 'tokens.json' } } } }, 'profiles.default.tokens.lists'],
+    [{ profiles: { default: { tokens: { resolveMetadata: 1 } } } }, 'profiles.default.tokens.resolveMetadata'],
+    [{ profiles: { default: { rules: { tag: 'big' } } } }, 'profiles.default.rules'],
+    [{ profiles: { default: { rules: ['big'] } } }, 'profiles.default.rules[0]'],
+    [{ profiles: { default: { rules: [{ score: 1 }] } } }, 'profiles.default.rules[0].tag'],
+    [{ profiles: { default: { rules: [{ tag: 'big' }] } } }, 'profiles.default.rules[0].score'],
+    [{ profiles: { default: { rules: [{ tag: 'big', score: '5' }] } } }, 'profiles.default.rules[0].score'],
+    [{ profiles: { default: { rules: [{ tag: 'big', score: 1, events: 'Swap' }] } } }, 'profiles.default.rules[0].events'],
+    [{ profiles: { default: { rules: [{ tag: 'big', score: 1, minSolMoved: '10' }] } } }, 'profiles.default.rules[0].minSolMoved'],
+    [{ profiles: { default: { rules: [{ tag: 'big', score: 1, status: 'ok' }] } } }, 'profiles.default.rules[0].status'],
+    [{ profiles: { default: { rules: [{ tag: 'big', score: 1, reason: 1 }] } } }, 'profiles.default.rules[0].reason'],
+    [{ profiles: { default: { labels: { Treasury: 'Treasury' } } } }, 'profiles.default.labels.Treasury'],
+    [{ profiles: { default: { labels: { [ADDRESS_1]: '' } } } }, 'profiles.default.labels'],
+    [{ profiles: { default: 'mainnet' } }, 'profiles.default'],
+    [{ profiles: [] }, 'profiles'],
+    [{ defaultProfile: 1 }, 'defaultProfile'],
+    [{ profile: {} }, 'profile'],
+    ['config', '(root)'],
+  ])('rejects invalid config %#', (raw, key) => {
+    const error = errorOf(() => validateConfig(raw, 'config.json'));
+
+    expect(error.code).toBe(ErrorCode.INVALID_CONFIG);
+    expect(error.details).toMatchObject({ file: 'config.json', key });
+  });
+
+  it('reports unparseable files', () => {
+    mkdirSync(join(root, 'xdg', 'txlens'), { recursive: true });
+    writeFileSync(globalConfigPath(), '{ not json');
+
+    const error = errorOf(() => loadConfig(project));
+    expect(error.code).toBe(ErrorCode.INVALID_CONFIG);
+    expect(error.details.file).toBe(globalConfigPath());
+  });
+
+  it('sets, reads and removes values by dotted key', () => {
+    const file = globalConfigPath();
+
+    setConfigValue(file, 'dev', 'rpc', 'https://a.example.com, https://b.example.com');
+    setConfigValue(file, 'dev', 'cache.maxSizeMb', '25');
+    setConfigValue(file, 'dev', `labels.${ADDRESS_1}`, 'Treasury');
+    setConfigValue(file, 'dev', 'color', 'never');
+    setConfigValue(file, 'dev', 'color', 'null');
+    setConfigValue(file, 'dev', 'defaultProfile', 'dev');
+
+    const { config } = loadConfig(project);
+    const { profile } = resolveProfile(config);
+
+    expect(config.defaultProfile).toBe('dev');
+    expect(getConfigValue(profile, 'rpc')).toEqual(['https://a.example.com', 'https://b.example.com']);
+    expect(getConfigValue(profile, 'cache.maxSizeMb')).toBe(25);
+    expect(getConfigValue(profile, `labels.${ADDRESS_1}`)).toBe('Treasury');
+    expect(getConfigValue(profile, 'color')).toBeUndefined();
+  });
+
+  it('refuses to rewrite an unparseable file', () => {
+    mkdirSync(join(root, 'xdg', 'txlens'), { recursive: true });
+    writeFileSync(globalConfigPath(), '{ not json');
+
+    const error = errorOf(() => setConfigValue(globalConfigPath(), 'default', 'output', 'json'));
+    expect(error.code).toBe(ErrorCode.INVALID_CONFIG);
+    expect(readFileSync(globalConfigPath(), 'utf-8')).toBe('{ not json');
+  });
+
+  it('leaves the file untouched when a set would make it invalid', () => {
+    const file = globalConfigPath();
+    setConfigValue(file, 'default', 'commitment', 'finalized');
+    const before = readFileSync(file, 'utf-8');
+
+    const error = errorOf(() => setConfigValue(file, 'default', 'commitment', 'eventual'));
+
+    expect(error.code).toBe(ErrorCode.INVALID_CONFIG);
+    expect(readFileSync(file, 'utf-8')).toBe(before);
+  });
+});
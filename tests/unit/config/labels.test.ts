@@ -0,0 +1,68 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseLabelFile, updateLabels, readConfigFile } from '../../../src/config';
+import { ErrorCode, TxLensError } from '../../../src/utils/errors';
+
+const TREASURY = '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM';
+const HOT_WALLET = 'Dest111111111111111111111111111111111111111';
+
+describe('labels', () => {
+  let root: string | undefined;
+
+  afterEach(() => {
+    if (root) {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  it('parses JSON objects and arrays', () => {
+    expect(parseLabelFile(JSON.stringify({ [TREASURY]: 'Treasury' }), 'labels.json')).toEqual({
+      [TREASURY]: 'Treasury',
+    });
+    expect(parseLabelFile(JSON.stringify([
+      { address: TREASURY, name: 'Treasury' },
+      { address: HOT_WALLET, label: 'Hot wallet' },
+    ]), 'labels.json')).toEqual({ [TREASURY]: 'Treasury', [HOT_WALLET]: 'Hot wallet' });
+  });
+
+  it('parses CSV with a header, comments and quoted names', () => {
+    const csv = [
+      'address,name',
+      `${TREASURY},Treasury`,
+      '# wallets',
+      '',
+      `${HOT_WALLET},"Hot wallet, ""primary"""`,
+    ].join('\n');
+
+    expect(parseLabelFile(csv, 'labels.csv')).toEqual({
+      [TREASURY]: 'Treasury',
+      [HOT_WALLET]: 'Hot wallet, "primary"',
+    });
+  });
+
+  it('reports the line of an invalid entry', () => {
+    let error: TxLensError | undefined;
+    try {
+      parseLabelFile(`${TREASURY},Treasury\nnot-an-address,Oops`, 'labels.csv');
+    } catch (caught) {
+      error = caught as TxLensError;
+    }
+
+    expect(error?.code).toBe(ErrorCode.INVALID_CONFIG);
+    expect(error?.details).toMatchObject({ file: 'labels.csv', line: 2 });
+  });
+
+  it('adds, renames and removes labels in a profile', () => {
+    root = mkdtempSync(join(tmpdir(), 'txlens-labels-'));
+    const file = join(root, 'config.json');
+
+    updateLabels(file, 'ops', { [TREASURY]: 'Treasury', [HOT_WALLET]: 'Hot' });
+    updateLabels(file, 'ops', { [HOT_WALLET]: 'Hot wallet' });
+    expect(readConfigFile(file).profiles.ops.labels).toEqual({ [TREASURY]: 'Treasury', [HOT_WALLET]: 'Hot wallet' });
+
+    updateLabels(file, 'ops', { [TREASURY]: null, [HOT_WALLET]: null });
+    expect(readConfigFile(file).profiles.ops).toEqual({});
+  });
+});
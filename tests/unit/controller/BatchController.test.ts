@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import bs58 from 'bs58';
+import { BatchController, BatchResult } from '../../../src/controller/BatchController';
+import { NdjsonFormatter } from '../../../src/formatter/NdjsonFormatter';
+import { TransactionParser } from '../../../src/parser/TransactionParser';
+import { SystemProgramDecoder } from '../../../src/parser/SystemProgramDecoder';
+import { RpcClient } from '../../../src/rpc/RpcClient';
+import { RawTransaction } from '../../../src/rpc/types';
+import { ErrorCode, TxLensError } from '../../../src/utils/errors';
+import { buildTransaction, FEE_PAYER } from '../../fixtures/transactions';
+
+function signature(seed: number): string {
+  return bs58.encode(Buffer.alloc(64, 200 + seed));
+}
+
+function transactionFor(sig: string): RawTransaction {
+  return buildTransaction({ signature: sig, accountKeys: [FEE_PAYER, '11111111111111111111111111111111'] });
+}
+
+/**
+ * RPC stub that records how many requests are in flight at once
+ */
+function stubRpc(missing: Set<string>) {
+  const stats = { inFlight: 0, maxInFlight: 0, calls: 0 };
+  const client = {
+    async getTransaction(sig: string): Promise<RawTransaction> {
+      stats.calls++;
+      stats.inFlight++;
+      stats.maxInFlight = Math.max(stats.maxInFlight, stats.inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      stats.inFlight--;
+
+      if (missing.has(sig)) {
+        throw new TxLensError('Transaction not found on the blockchain', ErrorCode.TRANSACTION_NOT_FOUND, {});
+      }
+      return transactionFor(sig);
+    },
+  };
+  return { client: client as unknown as RpcClient, stats };
+}
+
+describe('BatchController', () => {
+  it('decodes every signature with bounded concurrency and reports failures per item', async () => {
+    const signatures = Array.from({ length: 7 }, (_, i) => signature(i + 1));
+    const { client, stats } = stubRpc(new Set([signatures[2]]));
+    const controller = new BatchController(client, new TransactionParser([new SystemProgramDecoder()]), {
+      concurrency: 3,
+    });
+
+    const results: BatchResult[] = [];
+    const summary = await controller.run([...signatures, 'not-a-signature'], (result) => results.push(result));
+
+    expect(stats.maxInFlight).toBe(3);
+    expect(stats.calls).toBe(7);
+    expect(results).toHaveLength(8);
+    expect(summary).toMatchObject({
+      total: 8,
+      succeeded: 6,
+      failed: 2,
+      errors: { TRANSACTION_NOT_FOUND: 1, INVALID_SIGNATURE: 1 },
+    });
+    expect(results.find((result) => result.signature === signatures[2])).toEqual({
+      signature: signatures[2],
+      error: { code: ErrorCode.TRANSACTION_NOT_FOUND, message: 'Transaction not found on the blockchain' },
+    });
+  });
+});
+
+describe('NdjsonFormatter', () => {
+  it('writes one compact line per transaction and per error', () => {
+    const formatter = new NdjsonFormatter();
+    const parsed = new TransactionParser([]).parse(transactionFor(signature(1)));
+
+    const line = formatter.format(parsed);
+    expect(line).not.toContain('\n');
+    expect(JSON.parse(line)).toMatchObject({ signature: signature(1), fee: { total: 5000 } });
+
+    expect(JSON.parse(formatter.formatError('abc', { code: ErrorCode.RPC_TIMEOUT, message: 'timed out' }))).toEqual({
+      signature: 'abc',
+      error: { code: 'RPC_TIMEOUT', message: 'timed out' },
+    });
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { TransactionController } from '../../../src/controller/TransactionController';
+import { JsonFormatter } from '../../../src/formatter/JsonFormatter';
+import { TransactionParser } from '../../../src/parser/TransactionParser';
+import { SystemProgramDecoder } from '../../../src/parser/SystemProgramDecoder';
+import { ErrorCode } from '../../../src/utils/errors';
+import { buildTransaction, SIGNATURE } from '../../fixtures/transactions';
+
+describe('TransactionController without an RPC client', () => {
+  const controller = new TransactionController(
+    undefined,
+    new TransactionParser([new SystemProgramDecoder()]),
+    new JsonFormatter()
+  );
+
+  it('processes transactions already at hand', async () => {
+    const output = JSON.parse(await controller.processRawTransaction(buildTransaction()));
+
+    expect(output.signature).toBe(SIGNATURE);
+  });
+
+  it('cannot fetch a transaction by signature', async () => {
+    await expect(controller.processTransaction(SIGNATURE)).rejects.toMatchObject({
+      code: ErrorCode.INVALID_RPC_URL,
+    });
+  });
+});
@@ -0,0 +1,397 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import bs58 from 'bs58';
+import chalk from 'chalk';
+import { TransactionParser } from '../../../src/parser/TransactionParser';
+import { HumanReadableFormatter } from '../../../src/formatter/HumanReadableFormatter';
+import { LogInvocation, ParsedTransaction, ProgramInteraction, TokenTransfer } from '../../../src/parser/types';
+import { shortenAddress, unresolvedLookupAddress } from '../../../src/utils/addressFormatter';
+import { buildTransaction, FEE_PAYER, SIGNATURE } from '../../fixtures/transactions';
+
+const WALLET = bs58.encode(Buffer.alloc(32, 3));
+const TOKEN_ACCOUNT = bs58.encode(Buffer.alloc(32, 4));
+const POOL = bs58.encode(Buffer.alloc(32, 7));
+const MINT = bs58.encode(Buffer.alloc(32, 6));
+const LOOKUP_TABLE = bs58.encode(Buffer.alloc(32, 5));
+const SYSTEM_PROGRAM = '11111111111111111111111111111111';
+
+/**
+ * A parsed fee-only transaction with the given fields replaced
+ */
+function parsedWith(overrides: Partial<ParsedTransaction>): ParsedTransaction {
+  return { ...new TransactionParser([]).parse(buildTransaction()), ...overrides };
+}
+
+function format(overrides: Partial<ParsedTransaction>, showLogs: boolean = false): string {
+  return new HumanReadableFormatter(false, { showLogs }).format(parsedWith(overrides));
+}
+
+function transfer(overrides: Partial<TokenTransfer> = {}): TokenTransfer {
+  return { mint: MINT, amount: 1_500_000n, decimals: 6, from: FEE_PAYER, to: WALLET, source: 'instruction', ...overrides };
+}
+
+function interaction(overrides: Partial<ProgramInteraction> = {}): ProgramInteraction {
+  return {
+    programId: POOL,
+    instructionType: 'Swap',
+    details: {},
+    instructionIndex: 0,
+    stackHeight: 1,
+    children: [],
+    events: [],
+    ...overrides,
+  };
+}
+
+function invocation(overrides: Partial<LogInvocation> = {}): LogInvocation {
+  return { programId: POOL, depth: 1, logs: [], data: [], status: 'success', children: [], ...overrides };
+}
+
+describe('HumanReadableFormatter', () => {
+  describe('header', () => {
+    it('describes a fetched transaction', () => {
+      const output = format({
+        slot: 123,
+        blockTime: new Date('2024-01-02T03:04:05.000Z'),
+        cluster: 'devnet',
+        commitment: 'confirmed',
+      });
+
+      expect(output).toContain(`Signature: ${SIGNATURE}`);
+      expect(output).toContain('Status: ✓ Success');
+      expect(output).toContain('Block: 123\nTime: 2024-01-02T03:04:05.000Z');
+      expect(output).toContain('Cluster: devnet\nCommitment: confirmed');
+      expect(output).not.toContain('Signatures:');
+    });
+
+    it('describes an unsigned transaction decoded offline', () => {
+      const output = format({
+        signature: '',
+        signatures: [
+          { signer: FEE_PAYER, signature: null },
+          { signer: WALLET, signature: null },
+        ],
+        status: 'unknown',
+        slot: null,
+        blockTime: null,
+        cluster: null,
+        commitment: null,
+        computeUnits: { used: 0, limit: 200_000, price: 2_500n },
+      });
+
+      expect(output).toContain('Signature: Not signed');
+      expect(output).toContain('Status: Not executed (decoded offline)');
+      expect(output).toContain('Block: Unknown\nTime: Unknown\nSignatures:');
+      expect(output).toContain(`  ${shortenAddress(WALLET)}: not signed`);
+      expect(output).toContain('Balance Changes:\n\n  Unavailable: the transaction has no execution metadata');
+      expect(output).toContain('  Compute Unit Limit: 200,000\n  Compute Unit Price: 2,500 micro-lamports');
+      expect(output).toContain('  Estimated Fee:');
+      expect(output).not.toContain('Cluster:');
+    });
+  });
+
+  describe('failure', () => {
+    it('explains where and why the transaction failed', () => {
+      const output = format({
+        status: 'failed',
+        failure: {
+          rawError: { InstructionError: [1, { Custom: 6001 }] },
+          instructionIndex: 1,
+          programId: POOL,
+          programName: 'Pool',
+          errorName: 'SlippageExceeded',
+          customCode: 6001,
+          message: 'Output below the minimum',
+          likelyCause: 'The price moved',
+        },
+      });
+
+      expect(output).toContain('Status: ✗ Failed');
+      expect(output).toContain(
+        [
+          'Failure:',
+          '',
+          '  Instruction: #2',
+          '  Program: Pool',
+          '  Error: SlippageExceeded (custom program error 6001 / 0x1771)',
+          '  Meaning: Output below the minimum',
+          '  Likely Cause: The price moved',
+        ].join('\n')
+      );
+    });
+
+    it('leaves out what is not known', () => {
+      const output = format({
+        status: 'failed',
+        failure: { rawError: 'AccountInUse', errorName: 'AccountInUse', message: 'Account in use' },
+      });
+
+      expect(output).toContain('Failure:\n\n  Error: AccountInUse\n  Meaning: Account in use\n\n');
+    });
+  });
+
+  describe('swaps', () => {
+    const swap = {
+      trader: FEE_PAYER,
+      inputMint: 'SOL',
+      inputAmount: 1_500_000_000n,
+      inputDecimals: 9,
+      outputMint: MINT,
+      outputSymbol: 'USDC',
+      outputAmount: 212_300_000n,
+      outputDecimals: 6,
+      venues: [],
+      effectivePrice: 141.53,
+    };
+
+    it('names the aggregator and the venues it routed through', () => {
+      const output = format({
+        swaps: [
+          { ...swap, aggregator: { programId: POOL, name: 'Jupiter' }, venues: [{ programId: WALLET }, { programId: MINT, name: 'Orca' }] },
+          { ...swap, trader: WALLET, outputSymbol: undefined, venues: [{ programId: POOL, name: 'Raydium' }] },
+          { ...swap, aggregator: { programId: POOL } },
+        ],
+      });
+
+      expect(output).toContain(`Swapped 1.5 SOL → 212.3 USDC via Jupiter (${shortenAddress(WALLET)}, Orca)`);
+      expect(output).toContain(`${shortenAddress(WALLET)} swapped 1.5 SOL → 212.3 ${shortenAddress(MINT)} via Raydium`);
+      expect(output).toContain(`Swapped 1.5 SOL → 212.3 USDC via ${shortenAddress(POOL)}\n`);
+    });
+  });
+
+  describe('net effect', () => {
+    it('lists each owner with their assets, rent and fee', () => {
+      const output = format({
+        netChanges: [
+          {
+            owner: FEE_PAYER,
+            assets: [
+              { mint: 'SOL', amount: -1_000_000_000n, decimals: 9 },
+              { mint: MINT, symbol: 'USDC', amount: 2_500_000n, decimals: 6 },
+            ],
+            rent: -2_039_280n,
+            fee: -5000n,
+          },
+          { owner: WALLET, assets: [{ mint: POOL, amount: 7n, decimals: 0 }], rent: 0n, fee: 0n },
+        ],
+      });
+
+      expect(output).toContain(
+        [
+          'Net Effect:',
+          '',
+          `  ${shortenAddress(FEE_PAYER)} (fee payer)`,
+          '    SOL          -1',
+          '    USDC         +2.5',
+          '    Rent         -0.00203928 SOL',
+          '    Fee          -0.000005 SOL',
+          '',
+          `  ${shortenAddress(WALLET)}`,
+          `    ${shortenAddress(POOL)}  +7`,
+        ].join('\n')
+      );
+    });
+  });
+
+  describe('token transfers', () => {
+    it('shows verification, lookalikes, logos and withheld fees', () => {
+      const output = format({
+        tokenTransfers: [
+          transfer({ symbol: 'USDC', name: 'USD Coin', verified: true, logoURI: 'https://example.com/usdc.png', instructionIndex: 0 }),
+          transfer({ symbol: 'USDC', name: 'USDC', verified: false, impersonates: POOL, fee: 500_000n, instructionIndex: 2, innerIndex: 0 }),
+          transfer({ mint: 'SOL', symbol: 'SOL', decimals: 9, source: 'balance' }),
+        ],
+      });
+
+      expect(output).toContain(
+        [
+          '  1. USDC (USD Coin) ✓ verified',
+          `     Mint: ${MINT}`,
+          '     Logo: https://example.com/usdc.png',
+          '     Amount: 1.5',
+          `     From: ${shortenAddress(FEE_PAYER)}`,
+          `     To: ${shortenAddress(WALLET)}`,
+          '     Instruction: #1',
+          '  2. USDC unverified',
+          `     Mint: ${MINT}`,
+          `     Warning: same symbol as verified token ${shortenAddress(POOL)}; possible lookalike`,
+          '     Amount: 1.5',
+          '     Fee Withheld: 0.5',
+          '     Received: 1',
+        ].join('\n')
+      );
+      expect(output).toContain('     Instruction: #3 (inner #1)\n  3. SOL\n     Amount: 0.0015');
+      expect(output).toContain('     Inferred from balance changes');
+    });
+
+    it('names the wallet behind a token account, noting accounts that are not its ATA', () => {
+      const parsed = parsedWith({});
+      const output = format({
+        accounts: [
+          ...parsed.accounts,
+          {
+            address: TOKEN_ACCOUNT,
+            signer: false,
+            writable: true,
+            source: 'static',
+            isFeePayer: false,
+            derivation: { kind: 'associated-token-account', mint: MINT, owner: WALLET },
+          },
+        ],
+        tokenTransfers: [transfer({ from: POOL, fromOwner: FEE_PAYER, to: TOKEN_ACCOUNT, toOwner: WALLET })],
+      });
+
+      expect(output).toContain(`  1. ${shortenAddress(MINT)}\n     Amount: 1.5`);
+      expect(output).toContain(`     From: ${shortenAddress(FEE_PAYER)} via token account ${shortenAddress(POOL)}`);
+      expect(output).toContain(`     To: ${shortenAddress(WALLET)}\n`);
+    });
+  });
+
+  describe('program interactions', () => {
+    it('renders details, events and CPIs on one line each', () => {
+      const output = format({
+        programInteractions: [
+          interaction({
+            programName: 'Pool',
+            details: {
+              authority: WALLET,
+              vault: unresolvedLookupAddress(LOOKUP_TABLE, 3),
+              memo: 'gm',
+              referrer: null,
+              amounts: [1n, 2n],
+              route: { hops: 2, final: true },
+            },
+            events: [{ programId: POOL, name: 'Swapped', data: { amount: 42n }, source: 'log' }],
+            children: [interaction({ instructionType: 'Transfer', stackHeight: 2 })],
+          }),
+        ],
+      });
+
+      expect(output).toContain(
+        [
+          'Program Interactions:',
+          '',
+          '  1. Pool',
+          '     Instruction: Swap',
+          `     authority: ${shortenAddress(WALLET)}`,
+          `     vault: ${shortenAddress(LOOKUP_TABLE)}[3]`,
+          '     memo: gm',
+          '     referrer: None',
+          '     amounts: 1, 2',
+          '     route: { hops: 2, final: true }',
+          '     Event: Swapped { amount: 42 }',
+          `     1.1. ${shortenAddress(POOL)}`,
+          '          Instruction: Transfer',
+        ].join('\n')
+      );
+    });
+  });
+
+  describe('accounts', () => {
+    it('names accounts by derivation, program or lookup table placeholder', () => {
+      const account = { signer: false, writable: false, source: 'static' as const, isFeePayer: false };
+      const output = format({
+        accounts: [
+          { ...account, address: FEE_PAYER, signer: true, writable: true, isFeePayer: true },
+          { ...account, address: WALLET, signer: true },
+          { ...account, address: SYSTEM_PROGRAM },
+          { ...account, address: TOKEN_ACCOUNT, derivation: { kind: 'associated-token-account', mint: MINT, symbol: 'USDC', owner: WALLET } },
+          { ...account, address: POOL, derivation: { kind: 'metadata', mint: MINT } },
+          { ...account, address: LOOKUP_TABLE, derivation: { kind: 'master-edition', mint: MINT, symbol: 'NFT' } },
+          {
+            ...account,
+            address: unresolvedLookupAddress(LOOKUP_TABLE, 7),
+            writable: true,
+            source: 'lookup-writable',
+            lookupTable: LOOKUP_TABLE,
+          },
+        ],
+      });
+
+      expect(output).toContain(
+        [
+          'Accounts:',
+          '',
+          `  1. ${shortenAddress(FEE_PAYER)} [fee payer, writable]`,
+          `  2. ${shortenAddress(WALLET)} [signer, readonly]`,
+          '  3. System Program [readonly]',
+          `  4. USDC ATA of ${shortenAddress(WALLET)} (${shortenAddress(TOKEN_ACCOUNT)}) [readonly]`,
+          `  5. ${shortenAddress(MINT)} Metadata (${shortenAddress(POOL)}) [readonly]`,
+          `  6. NFT Master Edition (${shortenAddress(LOOKUP_TABLE)}) [readonly]`,
+          `  7. unresolved index 7 [writable] via lookup table ${shortenAddress(LOOKUP_TABLE)}`,
+        ].join('\n')
+      );
+    });
+  });
+
+  describe('program logs', () => {
+    it('are left out unless asked for', () => {
+      expect(format({})).not.toContain('Program Logs:');
+      expect(format({}, true)).toContain('Program Logs:\n\n  No log messages');
+    });
+
+    it('render the invocation tree with compute use, logs, data and failures', () => {
+      const output = format(
+        {
+          logTrace: {
+            truncated: true,
+            invocations: [
+              invocation({
+                computeUnits: { consumed: 30_000, available: 200_000 },
+                logs: ['Instruction: Swap'],
+                data: ['AQID', 'BAUG'],
+                returnData: 'AQ==',
+                children: [
+                  invocation({ programId: SYSTEM_PROGRAM, depth: 2, computeUnits: { consumed: 150, available: 180_000 } }),
+                  invocation({ depth: 2, status: 'failed', error: 'custom program error: 0x1' }),
+                ],
+              }),
+              invocation({ status: 'incomplete' }),
+            ],
+          },
+        },
+        true
+      );
+
+      expect(output).toContain(
+        [
+          'Program Logs:',
+          '',
+          `  1. ${shortenAddress(POOL)} - 30,000 CU (29,850 own)`,
+          '     Instruction: Swap',
+          '     Data: 2 payload(s)',
+          '     Return: AQ==',
+          '     1.1. System Program - 150 CU',
+          `     1.2. ${shortenAddress(POOL)} failed: custom program error: 0x1`,
+          `  2. ${shortenAddress(POOL)} (incomplete)`,
+          '  Log truncated by the runtime; later invocations are missing',
+        ].join('\n')
+      );
+    });
+  });
+
+  describe('colors', () => {
+    const level = chalk.level;
+
+    afterEach(() => {
+      chalk.level = level;
+    });
+
+    it('styles the same text when enabled', () => {
+      chalk.level = 1;
+      const transaction = parsedWith({
+        status: 'failed',
+        commitment: 'finalized',
+        failure: { rawError: {}, errorName: 'Failed', message: 'Failed', likelyCause: 'Unknown' },
+        accountChanges: [{ address: FEE_PAYER, balanceChange: -5000n, isFeePayer: true }],
+        tokenTransfers: [transfer({ symbol: 'USDC', verified: true })],
+        programInteractions: [interaction({ events: [{ programId: POOL, name: 'Swapped', data: {}, source: 'cpi' }] })],
+      });
+
+      const colored = new HumanReadableFormatter(true, { showLogs: true }).format(transaction);
+      const plain = new HumanReadableFormatter(false, { showLogs: true }).format(transaction);
+
+      expect(colored).not.toBe(plain);
+      expect(colored.replace(/\u001b\[\d+m/g, '')).toBe(plain);
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import bs58 from 'bs58';
+import { TransactionParser } from '../../../src/parser/TransactionParser';
+import { SystemProgramDecoder } from '../../../src/parser/SystemProgramDecoder';
+import { HumanReadableFormatter } from '../../../src/formatter/HumanReadableFormatter';
+import { JsonFormatter } from '../../../src/formatter/JsonFormatter';
+import { AddressBook } from '../../../src/utils/addressBook';
+import { RawTransaction } from '../../../src/rpc/types';
+import { buildTransaction } from '../../fixtures/transactions';
+
+const TREASURY = 'Fee1111111111111111111111111111111111111111';
+const HOT_WALLET = 'Dest111111111111111111111111111111111111111';
+const SYSTEM_PROGRAM = '11111111111111111111111111111111';
+
+function transferTransaction(): RawTransaction {
+  const data = Buffer.alloc(12);
+  data.writeUInt32LE(2, 0);
+  data.writeBigUInt64LE(1000n, 4);
+
+  return buildTransaction({
+    accountKeys: [TREASURY, HOT_WALLET, SYSTEM_PROGRAM],
+    instructions: [{ programIdIndex: 2, accounts: [0, 1], data: bs58.encode(data) }],
+    meta: {
+      preBalances: [1_000_000_000, 0, 1],
+      postBalances: [999_994_000, 1000, 1],
+    },
+  });
+}
+
+const parsed = new TransactionParser([new SystemProgramDecoder()]).parse(transferTransaction());
+const addressBook = new AddressBook({
+  [TREASURY]: 'Treasury',
+  [HOT_WALLET]: 'Hot wallet',
+  [SYSTEM_PROGRAM]: 'Our fork of System',
+});
+
+describe('address labels', () => {
+  it('names labelled addresses in human-readable output, marked as user-defined', () => {
+    const output = new HumanReadableFormatter(false, { addressBook }).format(parsed);
+
+    // Account changes, token transfers and instruction params
+    expect(output).toContain('@Treasury: -');
+    expect(output).toContain('From: @Treasury');
+    expect(output).toContain('To: @Hot wallet');
+    expect(output).toMatch(/to: @Hot wallet/);
+    // Labels take precedence over built-in program names
+    expect(output).toContain('1. @Our fork of System');
+    expect(output).not.toContain('System Program');
+    expect(output).toContain('@Treasury (Fee1...1111)');
+  });
+
+  it('adds label fields to JSON output', () => {
+    const json = JSON.parse(new JsonFormatter(addressBook).format(parsed));
+
+    expect(json.accounts[0].label).toBe('Treasury');
+    expect(json.accountChanges.find((c: any) => c.address === HOT_WALLET).label).toBe('Hot wallet');
+    expect(json.tokenTransfers[0]).toMatchObject({ fromLabel: 'Treasury', toLabel: 'Hot wallet' });
+    expect(json.programInteractions[0]).toMatchObject({
+      programName: 'System Program',
+      programLabel: 'Our fork of System',
+    });
+  });
+
+  it('leaves output unchanged without labels', () => {
+    const json = JSON.parse(new JsonFormatter(new AddressBook()).format(parsed));
+
+    expect(json.accounts[0]).not.toHaveProperty('label');
+    expect(new HumanReadableFormatter(false).format(parsed)).not.toContain('@');
+  });
+});
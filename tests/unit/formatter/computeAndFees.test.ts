@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import bs58 from 'bs58';
+import { TransactionParser } from '../../../src/parser/TransactionParser';
+import { ComputeBudgetDecoder } from '../../../src/parser/decoders/ComputeBudgetDecoder';
+import { HumanReadableFormatter } from '../../../src/formatter/HumanReadableFormatter';
+import { buildTransaction, FEE_PAYER } from '../../fixtures/transactions';
+
+const COMPUTE_BUDGET = 'ComputeBudget111111111111111111111111111111';
+
+function formatWithLimit(limit: number, consumed: number): string {
+  const data = Buffer.alloc(5);
+  data.writeUInt8(2, 0);
+  data.writeUInt32LE(limit, 1);
+
+  const parsed = new TransactionParser([new ComputeBudgetDecoder()]).parse(
+    buildTransaction({
+      accountKeys: [FEE_PAYER, COMPUTE_BUDGET],
+      instructions: [{ programIdIndex: 1, accounts: [], data: bs58.encode(data) }],
+      meta: { computeUnitsConsumed: consumed },
+    })
+  );
+  return new HumanReadableFormatter(false).format(parsed);
+}
+
+describe('Compute & Fees section', () => {
+  it('shows the share of the compute unit limit used', () => {
+    expect(formatWithLimit(200_000, 50_000)).toContain('Compute Units: 50,000 / 200,000 (25.0%)');
+  });
+
+  it('leaves out the share when the limit is 0', () => {
+    const output = formatWithLimit(0, 150);
+
+    expect(output).toContain('Compute Units: 150 / 0\n');
+    expect(output).not.toMatch(/NaN|Infinity/);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import bs58 from 'bs58';
+import { AssociatedTokenDecoder } from '../../../src/parser/decoders/AssociatedTokenDecoder';
+
+const ACCOUNT_KEYS = [1, 2, 3, 4, 5, 6, 7].map((n) => bs58.encode(Buffer.alloc(32, n)));
+
+function decode(data: Buffer, accounts: number[]) {
+  return new AssociatedTokenDecoder().decode(
+    { programIdIndex: 0, accounts, data: bs58.encode(data) },
+    ACCOUNT_KEYS
+  );
+}
+
+describe('AssociatedTokenDecoder', () => {
+  it('decodes the original Create instruction, which has no data', () => {
+    expect(decode(Buffer.alloc(0), [0, 1, 2, 3, 4, 5])).toEqual({
+      type: 'Create',
+      params: {
+        source: ACCOUNT_KEYS[0],
+        account: ACCOUNT_KEYS[1],
+        wallet: ACCOUNT_KEYS[2],
+        mint: ACCOUNT_KEYS[3],
+        systemProgram: ACCOUNT_KEYS[4],
+        tokenProgram: ACCOUNT_KEYS[5],
+      },
+    });
+  });
+
+  it('decodes CreateIdempotent with the same accounts as Create', () => {
+    const decoded = decode(Buffer.from([1]), [0, 1, 2, 3, 4, 5]);
+
+    expect(decoded.type).toBe('CreateIdempotent');
+    expect(decoded.params.wallet).toBe(ACCOUNT_KEYS[2]);
+  });
+
+  it('decodes RecoverNested with the nested and destination accounts', () => {
+    expect(decode(Buffer.from([2]), [0, 1, 2, 3, 4, 5, 6]).params).toEqual({
+      nestedSource: ACCOUNT_KEYS[0],
+      nestedMint: ACCOUNT_KEYS[1],
+      destination: ACCOUNT_KEYS[2],
+      nestedOwner: ACCOUNT_KEYS[3],
+      ownerMint: ACCOUNT_KEYS[4],
+      wallet: ACCOUNT_KEYS[5],
+      tokenProgram: ACCOUNT_KEYS[6],
+    });
+  });
+
+  it('resolves the InvalidOwner error', () => {
+    const decoder = new AssociatedTokenDecoder();
+
+    expect(decoder.decodeError('', 0)?.name).toBe('InvalidOwner');
+    expect(decoder.decodeError('', 1)).toBeNull();
+  });
+});
@@ -0,0 +1,258 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import bs58 from 'bs58';
+import { IdlDecoder } from '../../../src/parser/decoders/IdlDecoder';
+import { ErrorCode, TxLensError } from '../../../src/utils/errors';
+import { anchorDiscriminator, u64 } from '../../fixtures/borsh';
+
+const PROGRAM_ID = bs58.encode(Buffer.alloc(32, 9));
+const KEYS = [1, 2, 3, 4].map((n) => bs58.encode(Buffer.alloc(32, n)));
+
+function decode(decoder: IdlDecoder, data: Buffer, accounts: number[]) {
+  return decoder.decode(
+    { programIdIndex: 0, accounts, data: bs58.encode(data) },
+    [PROGRAM_ID, ...KEYS]
+  );
+}
+
+const LEGACY_IDL = {
+  version: '0.1.0',
+  name: 'vault',
+  instructions: [
+    {
+      name: 'depositTokens',
+      accounts: [
+        { name: 'owner', isMut: true, isSigner: true },
+        {
+          name: 'vault',
+          accounts: [
+            { name: 'state', isMut: true, isSigner: false },
+            { name: 'tokenAccount', isMut: true, isSigner: false },
+          ],
+        },
+      ],
+      args: [
+        { name: 'amount', type: 'u64' },
+        { name: 'memo', type: { option: 'string' } },
+        { name: 'mode', type: { defined: 'DepositMode' } },
+      ],
+    },
+  ],
+  types: [
+    {
+      name: 'DepositMode',
+      type: {
+        kind: 'enum',
+        variants: [{ name: 'Instant' }, { name: 'Locked', fields: [{ name: 'days', type: 'u16' }] }],
+      },
+    },
+  ],
+  metadata: { address: PROGRAM_ID },
+};
+
+const MODERN_IDL = {
+  address: PROGRAM_ID,
+  metadata: { name: 'market', version: '0.1.0', spec: '0.1.0' },
+  instructions: [
+    {
+      name: 'place_order',
+      discriminator: [1, 2, 3, 4, 5, 6, 7, 8],
+      accounts: [
+        { name: 'trader', signer: true },
+        { name: 'referrer', optional: true },
+        { name: 'market', writable: true },
+      ],
+      args: [{ name: 'params', type: { defined: { name: 'OrderParams' } } }],
+    },
+  ],
+  types: [
+    {
+      name: 'OrderParams',
+      type: {
+        kind: 'struct',
+        fields: [
+          { name: 'price', type: 'u128' },
+          { name: 'sizes', type: { vec: 'u32' } },
+          { name: 'delegate', type: 'pubkey' },
+        ],
+      },
+    },
+  ],
+};
+
+describe('IdlDecoder', () => {
+  it('decodes a legacy IDL instruction with nested accounts and enum args', () => {
+    const decoder = new IdlDecoder();
+    decoder.addIdl(LEGACY_IDL);
+
+    const locked = Buffer.alloc(3);
+    locked.writeUInt8(1, 0);
+    locked.writeUInt16LE(30, 1);
+    const data = Buffer.concat([
+      anchorDiscriminator('deposit_tokens'),
+      u64(1_500_000n),
+      Buffer.from([1, 2, 0, 0, 0]),
+      Buffer.from('hi'),
+      locked,
+    ]);
+
+    const result = decode(decoder, data, [1, 2, 3, 4]);
+
+    expect(decoder.canDecode(PROGRAM_ID)).toBe(true);
+    expect(result.type).toBe('DepositTokens');
+    expect(result.params).toEqual({
+      owner: KEYS[0],
+      'vault.state': KEYS[1],
+      'vault.tokenAccount': KEYS[2],
+      remainingAccounts: [KEYS[3]],
+      amount: 1_500_000n,
+      memo: 'hi',
+      mode: { Locked: { days: 30 } },
+    });
+  });
+
+  it('decodes a 0.30 IDL instruction and omits absent optional accounts', () => {
+    const decoder = new IdlDecoder();
+    decoder.addIdl(MODERN_IDL);
+
+    const sizes = Buffer.alloc(12);
+    sizes.writeUInt32LE(2, 0);
+    sizes.writeUInt32LE(10, 4);
+    sizes.writeUInt32LE(20, 8);
+    const price = Buffer.alloc(16);
+    price.writeBigUInt64LE(5n, 0);
+    price.writeBigUInt64LE(1n, 8);
+    const data = Buffer.concat([
+      Buffer.from([1, 2, 3, 4, 5, 6, 7, 8]),
+      price,
+      sizes,
+      Buffer.alloc(32, 4),
+    ]);
+
+    // referrer is passed as the program ID, which Anchor treats as None
+    const result = decode(decoder, data, [1, 0, 2]);
+
+    expect(result.type).toBe('PlaceOrder');
+    expect(result.params).toEqual({
+      trader: KEYS[0],
+      market: KEYS[1],
+      params: { price: (1n << 64n) + 5n, sizes: [10, 20], delegate: KEYS[3] },
+    });
+  });
+
+  it('decodes what it can from short or malformed instructions', () => {
+    const decoder = new IdlDecoder();
+    decoder.addIdl({
+      ...MODERN_IDL,
+      instructions: [
+        {
+          name: 'set_owner',
+          discriminator: [8, 7, 6, 5, 4, 3, 2, 1],
+          accounts: [{ name: 'owner' }, { name: 'config' }],
+          args: [{ name: 'owner', type: 'pubkey' }],
+        },
+      ],
+    });
+    const discriminator = Buffer.from([8, 7, 6, 5, 4, 3, 2, 1]);
+    const accountMetas = [PROGRAM_ID, ...KEYS].map((pubkey) => ({ pubkey, signer: false, writable: false }));
+
+    // Argument names that clash with account names are suffixed
+    const full = decoder.decode(
+      { programIdIndex: 0, accounts: [1], data: bs58.encode(Buffer.concat([discriminator, Buffer.alloc(32, 4)])) },
+      accountMetas
+    );
+    expect(full).toEqual({ type: 'SetOwner', params: { owner: KEYS[0], ownerArg: KEYS[3] } });
+
+    const truncated = decode(decoder, Buffer.concat([discriminator, Buffer.alloc(4)]), [1, 2]);
+    expect(truncated.params).toMatchObject({ owner: KEYS[0], config: KEYS[1] });
+    expect(truncated.params.error).toMatch(/Unexpected end of data/);
+
+    const malformed = decoder.decode({ programIdIndex: 0, accounts: [], data: '0OIl' }, [PROGRAM_ID]);
+    expect(malformed).toEqual({ type: 'Unknown Anchor Instruction', params: { error: 'Failed to decode' } });
+  });
+
+  it('reports unknown discriminators without throwing', () => {
+    const decoder = new IdlDecoder();
+    decoder.addIdl(MODERN_IDL);
+
+    const result = decode(decoder, Buffer.alloc(8, 0xff), [1]);
+
+    expect(result.type).toBe('Unknown Anchor Instruction');
+    expect(result.params.discriminator).toBe('ffffffffffffffff');
+  });
+
+  it('decodes events by their discriminator', () => {
+    const decoder = new IdlDecoder();
+    decoder.addIdl({
+      ...MODERN_IDL,
+      events: [{ name: 'OrderPlaced', discriminator: [9, 9, 9, 9, 9, 9, 9, 9] }],
+      types: [
+        ...MODERN_IDL.types,
+        { name: 'OrderPlaced', type: { kind: 'struct', fields: [{ name: 'id', type: 'u32' }] } },
+      ],
+    });
+
+    const event = decoder.decodeEvent(PROGRAM_ID, Buffer.from([9, 9, 9, 9, 9, 9, 9, 9, 7, 0, 0, 0]));
+
+    expect(event).toEqual({ name: 'OrderPlaced', data: { id: 7 } });
+    expect(decoder.decodeEvent(PROGRAM_ID, Buffer.alloc(12))).toBeNull();
+    expect(decoder.decodeEvent(PROGRAM_ID, Buffer.alloc(4))).toBeNull();
+    expect(decoder.decodeEvent(KEYS[0], Buffer.from([9, 9, 9, 9, 9, 9, 9, 9, 7, 0, 0, 0]))).toBeNull();
+  });
+
+  it('resolves IDL errors, then Anchor framework errors, only for its programs', () => {
+    const decoder = new IdlDecoder();
+    decoder.addIdl({ ...MODERN_IDL, errors: [{ code: 6000, name: 'PoolPaused', msg: 'Pool is paused' }] });
+
+    expect(decoder.decodeError(PROGRAM_ID, 6000)).toEqual({ name: 'PoolPaused', message: 'Pool is paused' });
+    expect(decoder.decodeError(PROGRAM_ID, 3012)?.name).toBe('AccountNotInitialized');
+    expect(decoder.decodeError(PROGRAM_ID, 6001)).toBeNull();
+    expect(decoder.decodeError(KEYS[0], 3012)).toBeNull();
+  });
+
+  it('rejects IDLs without a program address', () => {
+    const decoder = new IdlDecoder();
+    const { metadata, ...withoutAddress } = LEGACY_IDL;
+
+    expect(metadata.address).toBe(PROGRAM_ID);
+    expect(() => decoder.addIdl(withoutAddress)).toThrow(TxLensError);
+    expect(() => decoder.addIdl({ name: 'broken' }, PROGRAM_ID)).toThrow(TxLensError);
+  });
+
+  it('loads a directory of IDLs, skipping and reporting files that fail', () => {
+    const directory = mkdtempSync(join(tmpdir(), 'txlens-idls-'));
+    const { metadata, ...withoutAddress } = LEGACY_IDL;
+    try {
+      writeFileSync(join(directory, 'market.json'), JSON.stringify(MODERN_IDL));
+      // Bound to the program ID in its file name
+      writeFileSync(join(directory, `${KEYS[0]}.json`), JSON.stringify(withoutAddress));
+      writeFileSync(join(directory, 'broken.json'), '{ not json');
+      writeFileSync(join(directory, 'orphan.json'), JSON.stringify(withoutAddress));
+      writeFileSync(join(directory, 'notes.txt'), 'not an IDL');
+
+      const decoder = new IdlDecoder();
+      const errors = decoder.loadDirectory(directory);
+
+      expect(metadata.address).toBe(PROGRAM_ID);
+      expect(decoder.getIdl(PROGRAM_ID)?.name).toBe('market');
+      expect(decoder.getIdl(KEYS[0])?.name).toBe('vault');
+      expect(errors).toHaveLength(2);
+      expect(errors.every((error) => error.code === ErrorCode.INVALID_IDL)).toBe(true);
+      expect(errors.map((error) => error.details.path ?? error.details.source).sort()).toEqual([
+        join(directory, 'broken.json'),
+        join(directory, 'orphan.json'),
+      ]);
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('rejects a missing IDL directory or file', () => {
+    const decoder = new IdlDecoder();
+
+    expect(() => decoder.loadDirectory(join(tmpdir(), 'txlens-no-such-dir'))).toThrow(TxLensError);
+    expect(() => decoder.loadFile(join(tmpdir(), 'txlens-no-such-idl.json'))).toThrow(TxLensError);
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect } from 'vitest';
+import bs58 from 'bs58';
+import { JupiterDecoder, JUPITER_V6_PROGRAM_ID } from '../../../src/parser/decoders/JupiterDecoder';
+import { anchorDiscriminator, u16, u64 } from '../../fixtures/borsh';
+
+const KEYS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10].map((n) => bs58.encode(Buffer.alloc(32, n)));
+const TOKEN_PROGRAM = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+
+function decode(data: Buffer, accounts: number[]) {
+  const accountKeys = [JUPITER_V6_PROGRAM_ID, TOKEN_PROGRAM, ...KEYS];
+  return new JupiterDecoder().decode(
+    { programIdIndex: 0, accounts, data: bs58.encode(data) },
+    accountKeys
+  );
+}
+
+/**
+ * Two-leg route: 100% on Whirlpool (a to b), then 100% on Meteora DLMM
+ */
+const ROUTE_PLAN = Buffer.concat([
+  Buffer.from([2, 0, 0, 0]),
+  Buffer.from([17, 1, 100, 0, 1]),
+  Buffer.from([38, 100, 1, 2]),
+]);
+
+const DECODED_ROUTE_PLAN = [
+  { swap: 'Whirlpool', aToB: true, percent: 100, inputIndex: 0, outputIndex: 1 },
+  { swap: 'MeteoraDlmm', percent: 100, inputIndex: 1, outputIndex: 2 },
+];
+
+describe('JupiterDecoder', () => {
+  it('decodes Route with its route plan, amounts and named accounts', () => {
+    const data = Buffer.concat([
+      anchorDiscriminator('route'),
+      ROUTE_PLAN,
+      u64(20_000_000n),
+      u64(1_000_000_000n),
+      u16(50),
+      Buffer.from([0]),
+    ]);
+
+    // destinationTokenAccount and platformFeeAccount are left out (passed as the program ID)
+    const decoded = decode(data, [1, 2, 3, 4, 0, 5, 0, 6, 0]);
+
+    expect(decoded.type).toBe('Route');
+    expect(decoded.params).toEqual({
+      userTransferAuthority: KEYS[0],
+      userSourceTokenAccount: KEYS[1],
+      userDestinationTokenAccount: KEYS[2],
+      destinationMint: KEYS[3],
+      routePlan: DECODED_ROUTE_PLAN,
+      inAmount: 20_000_000n,
+      quotedOutAmount: 1_000_000_000n,
+      slippageBps: 50,
+      platformFeeBps: 0,
+    });
+  });
+
+  it('decodes SharedAccountsRoute with its route id and mints', () => {
+    const data = Buffer.concat([
+      anchorDiscriminator('shared_accounts_route'),
+      Buffer.from([3]),
+      ROUTE_PLAN,
+      u64(20_000_000n),
+      u64(1_000_000_000n),
+      u16(100),
+      Buffer.from([20]),
+    ]);
+
+    const decoded = decode(data, [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 1, 11, 0]);
+
+    expect(decoded.type).toBe('SharedAccountsRoute');
+    expect(decoded.params).toMatchObject({
+      programAuthority: KEYS[0],
+      userTransferAuthority: KEYS[1],
+      sourceTokenAccount: KEYS[2],
+      destinationTokenAccount: KEYS[5],
+      sourceMint: KEYS[6],
+      destinationMint: KEYS[7],
+      platformFeeAccount: KEYS[8],
+      id: 3,
+      routePlan: DECODED_ROUTE_PLAN,
+      slippageBps: 100,
+      platformFeeBps: 20,
+    });
+    expect(decoded.params).not.toHaveProperty('eventAuthority');
+  });
+
+  it('reads only the quoted output of token ledger routes', () => {
+    const data = Buffer.concat([
+      anchorDiscriminator('route_with_token_ledger'),
+      ROUTE_PLAN,
+      u64(1_000_000_000n),
+      u16(50),
+      Buffer.from([0]),
+    ]);
+
+    const decoded = decode(data, [1, 2, 3, 4, 0, 5, 0, 6, 7, 0]);
+
+    expect(decoded.type).toBe('RouteWithTokenLedger');
+    expect(decoded.params.tokenLedger).toBe(KEYS[4]);
+    expect(decoded.params.quotedOutAmount).toBe(1_000_000_000n);
+    expect(decoded.params).not.toHaveProperty('inAmount');
+    expect(decoded.params.slippageBps).toBe(50);
+  });
+
+  it('decodes the exact output and quoted input of ExactOutRoute', () => {
+    const data = Buffer.concat([
+      anchorDiscriminator('exact_out_route'),
+      Buffer.from([1, 0, 0, 0, 28, 0, 100, 0, 1]), // Phoenix, bid side
+      u64(5_000_000n),
+      u64(40_000_000n),
+      u16(30),
+      Buffer.from([0]),
+    ]);
+
+    const decoded = decode(data, [1, 2, 3, 4, 0, 5, 6, 0, 1, 7, 0]);
+
+    expect(decoded.type).toBe('ExactOutRoute');
+    expect(decoded.params).toMatchObject({
+      sourceMint: KEYS[3],
+      destinationMint: KEYS[4],
+      routePlan: [{ swap: 'Phoenix', side: 'Bid', percent: 100, inputIndex: 0, outputIndex: 1 }],
+      outAmount: 5_000_000n,
+      quotedInAmount: 40_000_000n,
+      slippageBps: 30,
+    });
+  });
+
+  it('decodes recent AMM kinds and the arguments that follow them', () => {
+    const data = Buffer.concat([
+      anchorDiscriminator('route'),
+      Buffer.from([3, 0, 0, 0]),
+      Buffer.from([61, 1, 50, 0, 1]),
+      Buffer.from([72, 50, 0, 1]),
+      Buffer.from([87]), u64(7n), Buffer.from([0, 100, 1, 2]),
+      u64(20_000_000n),
+      u64(1_000_000_000n),
+      u16(30),
+      Buffer.from([0]),
+    ]);
+
+    const decoded = decode(data, [1, 2, 3, 4]);
+
+    expect(decoded.params.routePlan).toEqual([
+      { swap: 'SolFi', isQuoteToBase: true, percent: 50, inputIndex: 0, outputIndex: 1 },
+      { swap: 'PumpSwapBuy', percent: 50, inputIndex: 0, outputIndex: 1 },
+      { swap: 'HumidiFi', swapId: 7n, isBaseToQuote: false, percent: 100, inputIndex: 1, outputIndex: 2 },
+    ]);
+    expect(decoded.params).toMatchObject({
+      inAmount: 20_000_000n,
+      quotedOutAmount: 1_000_000_000n,
+      slippageBps: 30,
+      platformFeeBps: 0,
+    });
+  });
+
+  it('stops at an AMM kind it does not know', () => {
+    const data = Buffer.concat([
+      anchorDiscriminator('route'),
+      Buffer.from([1, 0, 0, 0, 250, 100, 0, 1]),
+      u64(1n),
+    ]);
+
+    const decoded = decode(data, [1, 2, 3, 4]);
+
+    expect(decoded.type).toBe('Route');
+    expect(decoded.params.routePlan).toEqual([{ swap: 'Unknown (250)' }]);
+    expect(decoded.params).not.toHaveProperty('inAmount');
+  });
+
+  it('decodes SwapEvent emitted through self-CPI', () => {
+    const discriminator = anchorDiscriminator('SwapEvent', 'event');
+    const data = Buffer.concat([
+      discriminator,
+      Buffer.alloc(32, 1),
+      Buffer.alloc(32, 2),
+      u64(20_000_000n),
+      Buffer.alloc(32, 3),
+      u64(1_000_000_000n),
+    ]);
+
+    expect(new JupiterDecoder().decodeEvent(JUPITER_V6_PROGRAM_ID, data)).toEqual({
+      name: 'SwapEvent',
+      data: {
+        amm: KEYS[0],
+        inputMint: KEYS[1],
+        inputAmount: 20_000_000n,
+        outputMint: KEYS[2],
+        outputAmount: 1_000_000_000n,
+      },
+    });
+  });
+});
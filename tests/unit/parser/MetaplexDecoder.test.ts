@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import bs58 from 'bs58';
+import { MetaplexDecoder, METAPLEX_PROGRAM_IDS } from '../../../src/parser/decoders/MetaplexDecoder';
+import { anchorDiscriminator, borshString, u64 } from '../../fixtures/borsh';
+
+const KEYS = [1, 2, 3, 4, 5, 6, 7, 8].map((n) => bs58.encode(Buffer.alloc(32, n)));
+const SYSTEM_PROGRAM = '11111111111111111111111111111111';
+
+function decode(programId: string, data: Buffer, accounts: number[]) {
+  const accountKeys = [programId, SYSTEM_PROGRAM, ...KEYS];
+  return new MetaplexDecoder().decode(
+    { programIdIndex: 0, accounts, data: bs58.encode(data) },
+    accountKeys
+  );
+}
+
+describe('MetaplexDecoder', () => {
+  it('decodes CreateMetadataAccountV3', () => {
+    const data = Buffer.concat([
+      Buffer.from([33]),
+      borshString('Mad Lad #1'),
+      borshString('MAD'),
+      borshString('https://example.com/1.json'),
+      Buffer.from([0xf4, 0x01]), // 500 bps
+      Buffer.from([1, 1, 0, 0, 0]), // Some(vec![1 creator])
+      Buffer.alloc(32, 7),
+      Buffer.from([1, 100]),
+      Buffer.from([0]), // collection: None
+      Buffer.from([0]), // uses: None
+      Buffer.from([1]), // isMutable
+      Buffer.from([0]), // collectionDetails: None
+    ]);
+
+    const decoded = decode(METAPLEX_PROGRAM_IDS.TOKEN_METADATA, data, [2, 3, 4, 4, 4, 1]);
+
+    expect(decoded.type).toBe('CreateMetadataAccountV3');
+    expect(decoded.params).toEqual({
+      metadata: KEYS[0],
+      mint: KEYS[1],
+      mintAuthority: KEYS[2],
+      payer: KEYS[2],
+      updateAuthority: KEYS[2],
+      name: 'Mad Lad #1',
+      symbol: 'MAD',
+      uri: 'https://example.com/1.json',
+      sellerFeeBasisPoints: 500,
+      creators: [{ address: KEYS[6], verified: true, share: 100 }],
+      collection: null,
+      uses: null,
+      isMutable: true,
+      collectionDetails: null,
+    });
+  });
+
+  it('skips optional accounts passed as the program ID', () => {
+    const data = Buffer.concat([Buffer.from([49, 0]), u64(1n), Buffer.from([0])]);
+
+    const decoded = decode(METAPLEX_PROGRAM_IDS.TOKEN_METADATA, data, [2, 3, 4, 5, 6, 7, 8, 0, 0, 3]);
+
+    expect(decoded.type).toBe('Transfer');
+    expect(decoded.params.amount).toBe(1n);
+    expect(decoded.params).not.toHaveProperty('ownerTokenRecord');
+    expect(decoded.params.authority).toBe(KEYS[1]);
+  });
+
+  it('decodes Auction House execute_sale with its price', () => {
+    const data = Buffer.concat([
+      anchorDiscriminator('execute_sale'),
+      Buffer.from([255, 254, 253]),
+      u64(1_500_000_000n),
+      u64(1n),
+    ]);
+
+    const decoded = decode(METAPLEX_PROGRAM_IDS.AUCTION_HOUSE, data, [2, 3]);
+
+    expect(decoded.type).toBe('ExecuteSale');
+    expect(decoded.params).toEqual({
+      buyer: KEYS[0],
+      seller: KEYS[1],
+      price: 1_500_000_000n,
+      tokenSize: 1n,
+    });
+  });
+
+  it('names Candy Machine mint_v2 accounts', () => {
+    const decoded = decode(METAPLEX_PROGRAM_IDS.CANDY_MACHINE_V3, anchorDiscriminator('mint_v2'), [2, 3, 4, 5, 6, 7]);
+
+    expect(decoded.type).toBe('MintV2');
+    expect(decoded.params.nftMint).toBe(KEYS[5]);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import bs58 from 'bs58';
+import { TokenProgramDecoder } from '../../../src/parser/TokenProgramDecoder';
+import { borshString } from '../../fixtures/borsh';
+
+const TOKEN_2022 = 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb';
+const ACCOUNT_KEYS = [TOKEN_2022, ...[1, 2, 3, 4].map((n) => bs58.encode(Buffer.alloc(32, n)))];
+
+function decode(data: Buffer, accounts: number[]) {
+  return new TokenProgramDecoder().decode(
+    { programIdIndex: 0, accounts, data: bs58.encode(data) },
+    ACCOUNT_KEYS
+  );
+}
+
+describe('Token-2022 extension instructions', () => {
+  it('decodes TransferCheckedWithFee', () => {
+    const data = Buffer.alloc(19);
+    data.writeUInt8(26, 0);
+    data.writeUInt8(1, 1);
+    data.writeBigUInt64LE(1_000_000n, 2);
+    data.writeUInt8(6, 10);
+    data.writeBigUInt64LE(500n, 11);
+
+    expect(decode(data, [1, 2, 3, 4])).toEqual({
+      type: 'TransferFee.TransferCheckedWithFee',
+      params: {
+        source: ACCOUNT_KEYS[1],
+        mint: ACCOUNT_KEYS[2],
+        destination: ACCOUNT_KEYS[3],
+        authority: ACCOUNT_KEYS[4],
+        amount: 1_000_000n,
+        decimals: 6,
+        fee: 500n,
+      },
+    });
+  });
+
+  it('decodes InitializeTransferFeeConfig with a missing authority', () => {
+    const data = Buffer.concat([
+      Buffer.from([26, 0, 1]),
+      Buffer.alloc(32, 3),
+      Buffer.from([0]),
+      Buffer.from([50, 0]),
+      Buffer.from([0x10, 0x27, 0, 0, 0, 0, 0, 0]),
+    ]);
+
+    expect(decode(data, [2]).params).toEqual({
+      mint: ACCOUNT_KEYS[2],
+      transferFeeConfigAuthority: ACCOUNT_KEYS[3],
+      withdrawWithheldAuthority: null,
+      transferFeeBasisPoints: 50,
+      maximumFee: 10_000n,
+    });
+  });
+
+  it('decodes TokenMetadata.Initialize', () => {
+    const data = Buffer.concat([
+      Buffer.from('d2e11ea258b84d8d', 'hex'),
+      borshString('Token'),
+      borshString('TKN'),
+      borshString('https://example.com/token.json'),
+    ]);
+
+    const decoded = decode(data, [2, 3, 2, 3]);
+    expect(decoded.type).toBe('TokenMetadata.Initialize');
+    expect(decoded.params).toMatchObject({
+      name: 'Token',
+      symbol: 'TKN',
+      uri: 'https://example.com/token.json',
+    });
+  });
+
+  it('names confidential transfer instructions', () => {
+    const decoded = decode(Buffer.from([27, 7]), [1, 2]);
+
+    expect(decoded.type).toBe('ConfidentialTransfer.Transfer');
+    expect(decoded.params.accounts).toEqual([ACCOUNT_KEYS[1], ACCOUNT_KEYS[2]]);
+  });
+
+  it('keeps decoding plain SPL Token instructions', () => {
+    const data = Buffer.alloc(9);
+    data.writeUInt8(3, 0);
+    data.writeBigUInt64LE(7n, 1);
+
+    expect(decode(data, [1, 2, 3]).type).toBe('Transfer');
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import bs58 from 'bs58';
+import { TokenProgramDecoder } from '../../../src/parser/TokenProgramDecoder';
+
+const ACCOUNT_KEYS = [1, 2, 3, 4].map((n) => bs58.encode(Buffer.alloc(32, n)));
+const NEW_AUTHORITY = Buffer.alloc(32, 4);
+
+function decode(data: Buffer, accounts: number[]) {
+  return new TokenProgramDecoder().decode(
+    { programIdIndex: 0, accounts, data: bs58.encode(data) },
+    ACCOUNT_KEYS
+  );
+}
+
+describe('TokenProgramDecoder', () => {
+  it('decodes Approve with its delegate and amount', () => {
+    const data = Buffer.alloc(9);
+    data.writeUInt8(4, 0);
+    data.writeBigUInt64LE(2n ** 60n, 1);
+
+    expect(decode(data, [0, 3, 2])).toEqual({
+      type: 'Approve',
+      params: {
+        source: ACCOUNT_KEYS[0],
+        delegate: ACCOUNT_KEYS[3],
+        owner: ACCOUNT_KEYS[2],
+        amount: 2n ** 60n,
+      },
+    });
+  });
+
+  it('decodes SetAuthority with the authority type and new authority', () => {
+    const data = Buffer.concat([Buffer.from([6, 2, 1]), NEW_AUTHORITY]);
+
+    expect(decode(data, [0, 2]).params).toEqual({
+      account: ACCOUNT_KEYS[0],
+      currentAuthority: ACCOUNT_KEYS[2],
+      authorityType: 'AccountOwner',
+      newAuthority: ACCOUNT_KEYS[3],
+    });
+  });
+
+  it('decodes SetAuthority removing an authority', () => {
+    const decoded = decode(Buffer.from([6, 0, 0]), [1, 2]);
+
+    expect(decoded.params.authorityType).toBe('MintTokens');
+    expect(decoded.params.newAuthority).toBeNull();
+  });
+
+  it('lists multisig signers after the authority', () => {
+    const decoded = decode(Buffer.from([5]), [0, 2, 3, 1]);
+
+    expect(decoded.type).toBe('Revoke');
+    expect(decoded.params.signers).toEqual([ACCOUNT_KEYS[3], ACCOUNT_KEYS[1]]);
+  });
+});
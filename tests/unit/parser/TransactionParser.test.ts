@@ -0,0 +1,219 @@
+import { describe, it, expect } from 'vitest';
+import bs58 from 'bs58';
+import { TransactionParser } from '../../../src/parser/TransactionParser';
+import { SystemProgramDecoder } from '../../../src/parser/SystemProgramDecoder';
+import { IdlDecoder } from '../../../src/parser/decoders/IdlDecoder';
+import { EVENT_IX_TAG } from '../../../src/parser/events';
+import { RawTransaction } from '../../../src/rpc/types';
+import { buildTransaction } from '../../fixtures/transactions';
+import { anchorDiscriminator } from '../../fixtures/borsh';
+
+const ACCOUNT_KEYS = [
+  'Fee1111111111111111111111111111111111111111',
+  'Dest111111111111111111111111111111111111111',
+  '11111111111111111111111111111111',
+  'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4',
+  'whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc',
+];
+
+function systemTransfer(lamports: number): string {
+  const data = Buffer.alloc(12);
+  data.writeUInt32LE(2, 0);
+  data.writeBigUInt64LE(BigInt(lamports), 4);
+  return bs58.encode(data);
+}
+
+/**
+ * One Jupiter instruction, with 1000 lamports reaching the destination
+ */
+function routeTransaction(meta: Partial<NonNullable<RawTransaction['meta']>> = {}): RawTransaction {
+  return buildTransaction({
+    accountKeys: ACCOUNT_KEYS,
+    instructions: [{ programIdIndex: 3, accounts: [0, 1], data: bs58.encode(Buffer.from([1, 2, 3])) }],
+    meta: {
+      preBalances: [1_000_000_000, 0, 1, 1, 1],
+      postBalances: [999_995_000 - 1000, 1000, 1, 1, 1],
+      ...meta,
+    },
+  });
+}
+
+describe('TransactionParser', () => {
+  describe('inner instructions', () => {
+    it('nests CPIs under the instruction that invoked them', () => {
+      const parser = new TransactionParser([new SystemProgramDecoder()]);
+      const parsed = parser.parse(
+        routeTransaction({
+          innerInstructions: [
+            {
+              index: 0,
+              instructions: [
+                { programIdIndex: 4, accounts: [0], data: '', stackHeight: 2 },
+                { programIdIndex: 2, accounts: [0, 1], data: systemTransfer(1000), stackHeight: 3 },
+                { programIdIndex: 2, accounts: [0, 1], data: systemTransfer(1), stackHeight: 2 },
+              ],
+            },
+          ],
+        })
+      );
+
+      expect(parsed.programInteractions).toHaveLength(1);
+      const root = parsed.programInteractions[0];
+      expect(root.programName).toBe('Jupiter Aggregator');
+      expect(root.stackHeight).toBe(1);
+      expect(root.children.map((c) => c.programId)).toEqual([ACCOUNT_KEYS[4], ACCOUNT_KEYS[2]]);
+
+      const whirlpool = root.children[0];
+      expect(whirlpool.children).toHaveLength(1);
+      expect(whirlpool.children[0].instructionType).toBe('Transfer');
+      expect(whirlpool.children[0].stackHeight).toBe(3);
+      expect(whirlpool.children[0].innerIndex).toBe(1);
+    });
+
+    it('treats inner instructions without a stack height as direct children', () => {
+      const parser = new TransactionParser([new SystemProgramDecoder()]);
+      const parsed = parser.parse(
+        routeTransaction({
+          innerInstructions: [
+            {
+              index: 0,
+              instructions: [
+                { programIdIndex: 2, accounts: [0, 1], data: systemTransfer(1), stackHeight: null },
+                { programIdIndex: 2, accounts: [0, 1], data: systemTransfer(2), stackHeight: null },
+              ],
+            },
+          ],
+        })
+      );
+
+      expect(parsed.programInteractions[0].children).toHaveLength(2);
+    });
+  });
+});
+
+describe('TransactionParser events', () => {
+  const POOL = ACCOUNT_KEYS[4];
+
+  function swapEvent(amount: bigint): Buffer {
+    const data = Buffer.alloc(8);
+    data.writeBigUInt64LE(amount, 0);
+    return Buffer.concat([
+      anchorDiscriminator('SwapEvent', 'event'),
+      data,
+    ]);
+  }
+
+  function eventParser(): TransactionParser {
+    const idlDecoder = new IdlDecoder();
+    idlDecoder.addIdl(
+      {
+        name: 'pool',
+        instructions: [],
+        events: [{ name: 'SwapEvent', fields: [{ name: 'amount', type: 'u64', index: false }] }],
+      },
+      POOL
+    );
+    return new TransactionParser([idlDecoder, new SystemProgramDecoder()]);
+  }
+
+  it('attaches "Program data:" events to the invocation that logged them', () => {
+    const parsed = eventParser().parse(
+      routeTransaction({
+        innerInstructions: [
+          { index: 0, instructions: [{ programIdIndex: 4, accounts: [0], data: '', stackHeight: 2 }] },
+        ],
+        logMessages: [
+          `Program ${ACCOUNT_KEYS[3]} invoke [1]`,
+          `Program ${POOL} invoke [2]`,
+          `Program data: ${swapEvent(42n).toString('base64')}`,
+          `Program ${POOL} success`,
+          `Program data: ${swapEvent(7n).toString('base64')}`,
+          `Program ${ACCOUNT_KEYS[3]} success`,
+        ],
+      })
+    );
+
+    const root = parsed.programInteractions[0];
+    // The root program has no IDL, so its log line is not decoded
+    expect(root.events).toEqual([]);
+    expect(root.children[0].events).toEqual([
+      { programId: POOL, name: 'SwapEvent', data: { amount: 42n }, source: 'log' },
+    ]);
+  });
+
+  it('decodes emit_cpi! self-invocations as events of the invoker', () => {
+    const parsed = eventParser().parse(
+      routeTransaction({
+        innerInstructions: [
+          {
+            index: 0,
+            instructions: [
+              { programIdIndex: 4, accounts: [0], data: '', stackHeight: 2 },
+              {
+                programIdIndex: 4,
+                accounts: [1],
+                data: bs58.encode(Buffer.concat([EVENT_IX_TAG, swapEvent(9n)])),
+                stackHeight: 3,
+              },
+            ],
+          },
+        ],
+      })
+    );
+
+    const pool = parsed.programInteractions[0].children[0];
+    expect(pool.events).toEqual([
+      { programId: POOL, name: 'SwapEvent', data: { amount: 9n }, source: 'cpi' },
+    ]);
+    expect(pool.children[0].instructionType).toBe('EmitEvent');
+  });
+});
+
+describe('TransactionParser compute budget', () => {
+  const COMPUTE_BUDGET = 'ComputeBudget111111111111111111111111111111';
+
+  function budgetTransaction(instructions: string[]): RawTransaction {
+    const tx = routeTransaction({ fee: 5000 + 300 });
+    tx.transaction.message.accountKeys = [...ACCOUNT_KEYS, COMPUTE_BUDGET];
+    tx.transaction.message.instructions = [
+      ...instructions.map((data) => ({ programIdIndex: 5, accounts: [], data })),
+      { programIdIndex: 2, accounts: [0, 1], data: systemTransfer(1000) },
+    ];
+    tx.meta!.preBalances.push(1);
+    tx.meta!.postBalances.push(1);
+    return tx;
+  }
+
+  it('uses the requested compute unit limit and computes the priority fee', () => {
+    const limit = Buffer.alloc(5);
+    limit.writeUInt8(2, 0);
+    limit.writeUInt32LE(300_000, 1);
+    const price = Buffer.alloc(9);
+    price.writeUInt8(3, 0);
+    price.writeBigUInt64LE(1000n, 1);
+
+    const parsed = new TransactionParser().parse(
+      budgetTransaction([bs58.encode(limit), bs58.encode(price)])
+    );
+
+    expect(parsed.computeUnits.limit).toBe(300_000);
+    expect(parsed.computeUnits.price).toBe(1000n);
+    expect(parsed.fee).toEqual({ total: 5300, base: 5000, priority: 300 });
+  });
+
+  it('falls back to the per-instruction default limit', () => {
+    const parsed = new TransactionParser().parse(budgetTransaction([]));
+
+    expect(parsed.computeUnits.limit).toBe(200_000);
+    expect(parsed.fee.priority).toBe(0);
+  });
+
+  it('ignores truncated compute budget instructions', () => {
+    const parsed = new TransactionParser().parse(
+      budgetTransaction([bs58.encode(Buffer.from([2, 0xe0, 0x93])), bs58.encode(Buffer.from([3, 1]))])
+    );
+
+    expect(parsed.computeUnits.limit).toBe(200_000);
+    expect(parsed.fee.priority).toBe(0);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { resolveAccounts } from '../../../src/parser/accounts';
+import { RawTransaction } from '../../../src/rpc/types';
+
+type Message = RawTransaction['transaction']['message'];
+
+function message(overrides: Partial<Message>): Message {
+  return {
+    accountKeys: [],
+    instructions: [],
+    recentBlockhash: '11111111111111111111111111111111',
+    ...overrides,
+  };
+}
+
+describe('resolveAccounts', () => {
+  it('derives roles from the header and attributes loaded accounts to their lookup tables', () => {
+    const accounts = resolveAccounts(
+      message({
+        accountKeys: ['payer', 'cosigner', 'pool', 'program', 'loadedA', 'loadedB', 'loadedC'],
+        header: { numRequiredSignatures: 2, numReadonlySignedAccounts: 1, numReadonlyUnsignedAccounts: 1 },
+        addressTableLookups: [
+          { accountKey: 'tableOne', writableIndexes: [3], readonlyIndexes: [7] },
+          { accountKey: 'tableTwo', writableIndexes: [0], readonlyIndexes: [] },
+        ],
+      })
+    );
+
+    expect(accounts.map(({ address, signer, writable }) => [address, signer, writable])).toEqual([
+      ['payer', true, true],
+      ['cosigner', true, false],
+      ['pool', false, true],
+      ['program', false, false],
+      ['loadedA', false, true],
+      ['loadedB', false, true],
+      ['loadedC', false, false],
+    ]);
+    expect(accounts.map((a) => a.source)).toEqual([
+      'static', 'static', 'static', 'static', 'lookup-writable', 'lookup-writable', 'lookup-readonly',
+    ]);
+    expect(accounts.map((a) => a.lookupTable)).toEqual([
+      undefined, undefined, undefined, undefined, 'tableOne', 'tableTwo', 'tableOne',
+    ]);
+    expect(accounts.filter((a) => a.isFeePayer).map((a) => a.address)).toEqual(['payer']);
+  });
+
+  it('prefers the flags provided with the account keys', () => {
+    const accounts = resolveAccounts(
+      message({
+        accountKeys: [
+          { pubkey: 'payer', signer: true, writable: true },
+          { pubkey: 'program', signer: false, writable: false },
+        ],
+      })
+    );
+
+    expect(accounts).toEqual([
+      { address: 'payer', signer: true, writable: true, source: 'static', isFeePayer: true },
+      { address: 'program', signer: false, writable: false, source: 'static', isFeePayer: false },
+    ]);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import bs58 from 'bs58';
+import { TransactionParser } from '../../../src/parser/TransactionParser';
+import { TokenProgramDecoder } from '../../../src/parser/TokenProgramDecoder';
+import { AssociatedTokenDecoder } from '../../../src/parser/decoders/AssociatedTokenDecoder';
+import {
+  associatedTokenAddress,
+  deriveAccounts,
+  masterEditionAddress,
+  metaplexMetadataAddress,
+} from '../../../src/parser/addressDerivation';
+import { HumanReadableFormatter } from '../../../src/formatter/HumanReadableFormatter';
+import { TokenRegistry } from '../../../src/tokens/TokenRegistry';
+import { shortenAddress } from '../../../src/utils/addressFormatter';
+import { RawTransaction, TokenBalance } from '../../../src/rpc/types';
+import { buildTransaction } from '../../fixtures/transactions';
+
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const SENDER = bs58.encode(Buffer.alloc(32, 1));
+const RECIPIENT = bs58.encode(Buffer.alloc(32, 2));
+const DELEGATED = bs58.encode(Buffer.alloc(32, 3));
+const SYSTEM_PROGRAM = '11111111111111111111111111111111';
+const TOKEN_PROGRAM = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+const ATA_PROGRAM = 'ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL';
+
+const SENDER_ATA = associatedTokenAddress(SENDER, USDC)!;
+const RECIPIENT_ATA = associatedTokenAddress(RECIPIENT, USDC)!;
+
+function balance(accountIndex: number, owner: string, amount: string): TokenBalance {
+  return {
+    accountIndex,
+    mint: USDC,
+    owner,
+    programId: TOKEN_PROGRAM,
+    uiTokenAmount: { amount, decimals: 6, uiAmount: null },
+  };
+}
+
+/**
+ * SENDER creates RECIPIENT's USDC account, then pays 5 USDC into it
+ */
+function createAndPayTransaction(): RawTransaction {
+  const transfer = Buffer.alloc(10);
+  transfer.writeUInt8(12, 0);
+  transfer.writeBigUInt64LE(5_000_000n, 1);
+  transfer.writeUInt8(6, 9);
+
+  return buildTransaction({
+    accountKeys: [SENDER, SENDER_ATA, RECIPIENT_ATA, RECIPIENT, USDC, SYSTEM_PROGRAM, TOKEN_PROGRAM, ATA_PROGRAM],
+    instructions: [
+      { programIdIndex: 7, accounts: [0, 2, 3, 4, 5, 6], data: bs58.encode(Buffer.from([1])) },
+      { programIdIndex: 6, accounts: [1, 4, 2, 0], data: bs58.encode(transfer) },
+    ],
+    meta: {
+      preBalances: [1_000_000_000, 2_039_280, 0, 0, 1, 1, 1, 1],
+      postBalances: [997_955_720, 2_039_280, 2_039_280, 0, 1, 1, 1, 1],
+      preTokenBalances: [balance(1, SENDER, '10000000')],
+      postTokenBalances: [balance(1, SENDER, '5000000'), balance(2, RECIPIENT, '5000000')],
+    },
+  });
+}
+
+function parse(raw: RawTransaction = createAndPayTransaction()) {
+  return new TransactionParser([new AssociatedTokenDecoder(), new TokenProgramDecoder()]).parse(raw);
+}
+
+describe('address derivation', () => {
+  it('recognizes associated token accounts of the wallets holding them', () => {
+    const parsed = parse();
+
+    expect(parsed.programInteractions[0].instructionType).toBe('CreateIdempotent');
+    expect(parsed.accounts[1].derivation).toEqual({
+      kind: 'associated-token-account',
+      owner: SENDER,
+      mint: USDC,
+      tokenProgram: TOKEN_PROGRAM,
+    });
+    expect(parsed.accounts[2].derivation?.owner).toBe(RECIPIENT);
+    expect(parsed.accounts[0].derivation).toBeUndefined();
+  });
+
+  it('derives ATAs from instructions when token balances are unavailable', () => {
+    const raw = createAndPayTransaction();
+    raw.meta = null;
+
+    expect(parse(raw).accounts[2].derivation?.owner).toBe(RECIPIENT);
+  });
+
+  it('attributes token transfers to the wallets owning the token accounts', () => {
+    const [transfer] = parse().tokenTransfers;
+
+    expect(transfer.from).toBe(SENDER_ATA);
+    expect(transfer.fromOwner).toBe(SENDER);
+    expect(transfer.toOwner).toBe(RECIPIENT);
+  });
+
+  it('does not take a token account for an ATA of a different wallet', () => {
+    const raw = createAndPayTransaction();
+    // The sender's account is held by a delegate program, not the wallet it was derived for
+    raw.meta!.preTokenBalances = [balance(1, DELEGATED, '10000000')];
+    raw.meta!.postTokenBalances = [balance(1, DELEGATED, '5000000'), balance(2, RECIPIENT, '5000000')];
+    raw.transaction.message.instructions = raw.transaction.message.instructions.slice(1);
+
+    const parsed = parse(raw);
+    expect(parsed.accounts[1].derivation).toBeUndefined();
+    expect(parsed.tokenTransfers[0].fromOwner).toBe(DELEGATED);
+  });
+
+  it('recognizes metadata and master edition accounts of mints in the transaction', () => {
+    const metadata = metaplexMetadataAddress(USDC);
+    const edition = masterEditionAddress(USDC);
+    const derivations = deriveAccounts([USDC, metadata, edition], [], [], [balance(0, SENDER, '1')]);
+
+    expect(derivations.get(metadata)).toEqual({ kind: 'metadata', mint: USDC });
+    expect(derivations.get(edition)).toEqual({ kind: 'master-edition', mint: USDC });
+  });
+
+  it('describes derived accounts and transfer parties by wallet in human-readable output', async () => {
+    const parsed = await new TokenRegistry().annotate(parse());
+    const output = new HumanReadableFormatter(false).format(parsed);
+
+    expect(output).toContain(`USDC ATA of ${shortenAddress(SENDER)}`);
+    expect(output).toContain(`From: ${shortenAddress(SENDER)}\n`);
+    expect(output).toContain(`To: ${shortenAddress(RECIPIENT)}\n`);
+  });
+});
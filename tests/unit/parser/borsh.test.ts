@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import bs58 from 'bs58';
+import { BorshReader, readU16, readU32, readU64 } from '../../../src/parser/decoders/borsh';
+import { borshString, u16, u64 } from '../../fixtures/borsh';
+
+describe('BorshReader', () => {
+  it('reads little-endian integers of every width, signed and unsigned', () => {
+    const data = Buffer.alloc(1 + 1 + 2 + 2 + 4 + 4 + 8 + 16);
+    let offset = 0;
+    offset = data.writeUInt8(200, offset);
+    offset = data.writeInt8(-2, offset);
+    offset = data.writeUInt16LE(60_000, offset);
+    offset = data.writeInt16LE(-300, offset);
+    offset = data.writeUInt32LE(4_000_000_000, offset);
+    offset = data.writeInt32LE(-70_000, offset);
+    offset = data.writeBigInt64LE(-5n, offset);
+    data.writeBigInt64LE(-1n, offset);
+    data.writeBigInt64LE(-1n, offset + 8);
+
+    const reader = new BorshReader(data);
+
+    expect(reader.u8()).toBe(200);
+    expect(reader.i8()).toBe(-2);
+    expect(reader.u16()).toBe(60_000);
+    expect(reader.i16()).toBe(-300);
+    expect(reader.u32()).toBe(4_000_000_000);
+    expect(reader.i32()).toBe(-70_000);
+    expect(reader.i64()).toBe(-5n);
+    expect(reader.i128()).toBe(-1n);
+    expect(reader.remaining).toBe(0);
+
+    const positive = new BorshReader(Buffer.from([127, 0xff, 0x7f, 0xff, 0xff, 0xff, 0x7f, 1, 0, 0, 0, 0, 0, 0, 0]));
+    expect([positive.i8(), positive.i16(), positive.i32(), positive.i64()]).toEqual([127, 32_767, 2_147_483_647, 1n]);
+  });
+
+  it('reads floats, booleans, keys, strings and byte vectors', () => {
+    const floats = Buffer.alloc(12);
+    floats.writeFloatLE(1.5, 0);
+    floats.writeDoubleLE(-0.25, 4);
+    const key = Buffer.alloc(32, 5);
+    const data = Buffer.concat([
+      floats,
+      Buffer.from([1, 0]),
+      key,
+      borshString('hello'),
+      Buffer.from([3, 0, 0, 0, 0xde, 0xad, 0xbe]),
+    ]);
+
+    const reader = new BorshReader(data);
+
+    expect(reader.f32()).toBe(1.5);
+    expect(reader.f64()).toBe(-0.25);
+    expect(reader.bool()).toBe(true);
+    expect(reader.bool()).toBe(false);
+    expect(reader.pubkey()).toBe(bs58.encode(key));
+    expect(reader.string()).toBe('hello');
+    expect(Buffer.from(reader.byteVec()).toString('hex')).toBe('deadbe');
+  });
+
+  it('reads options, vectors and fixed-size arrays', () => {
+    const data = Buffer.concat([
+      Buffer.from([0]),
+      Buffer.from([1]),
+      u16(7),
+      Buffer.from([2, 0, 0, 0]),
+      u16(1),
+      u16(2),
+      u16(3),
+      u16(4),
+    ]);
+
+    const reader = new BorshReader(data);
+
+    expect(reader.option(() => reader.u16())).toBeNull();
+    expect(reader.option(() => reader.u16())).toBe(7);
+    expect(reader.vec(() => reader.u16())).toEqual([1, 2]);
+    expect(reader.array(2, () => reader.u16())).toEqual([3, 4]);
+  });
+
+  it('throws a RangeError instead of reading past the end', () => {
+    const reader = new BorshReader(Buffer.from([1, 2, 3]), 1);
+
+    expect(reader.remaining).toBe(2);
+    expect(() => reader.u32()).toThrow(RangeError);
+    expect(() => new BorshReader(Buffer.from([5, 0, 0, 0, 1])).string()).toThrow(
+      'needed 5 byte(s) at offset 4, 1 left'
+    );
+  });
+});
+
+describe('fixed-offset reads', () => {
+  const data = Buffer.concat([Buffer.from([9]), u16(513), u64(1n << 40n)]);
+
+  it('read at the given offset', () => {
+    expect(readU16(data, 1)).toBe(513);
+    expect(readU32(data, 3)).toBe(0);
+    expect(readU64(data, 3)).toBe(1n << 40n);
+  });
+
+  it('throw when the data is too short', () => {
+    expect(() => readU16(data, 10)).toThrow(RangeError);
+    expect(() => readU64(data, 4)).toThrow(RangeError);
+  });
+});
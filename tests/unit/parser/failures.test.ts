@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import bs58 from 'bs58';
+import { explainFailure } from '../../../src/parser/failures';
+import { parseLogs } from '../../../src/parser/logParser';
+
+const COMPUTE_BUDGET = 'ComputeBudget111111111111111111111111111111';
+const JUPITER = 'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4';
+const TOKEN = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+const ANCHOR_PROGRAM = 'whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc';
+const PROGRAM_IDS = [COMPUTE_BUDGET, JUPITER];
+const noErrors = () => null;
+
+describe('explainFailure', () => {
+  it('names custom errors of the top-level program and explains slippage', () => {
+    const trace = parseLogs([
+      `Program ${COMPUTE_BUDGET} invoke [1]`,
+      `Program ${COMPUTE_BUDGET} success`,
+      `Program ${JUPITER} invoke [1]`,
+      `Program ${JUPITER} failed: custom program error: 0x1771`,
+    ]);
+
+    const failure = explainFailure(
+      { InstructionError: [1, { Custom: 6001 }] },
+      PROGRAM_IDS,
+      trace,
+      noErrors
+    );
+
+    expect(failure).toMatchObject({
+      instructionIndex: 1,
+      programId: JUPITER,
+      programName: 'Jupiter Aggregator',
+      errorName: 'SlippageToleranceExceeded',
+      customCode: 6001,
+      message: 'Slippage tolerance exceeded',
+    });
+    expect(failure.likelyCause).toMatch(/^Slippage tolerance exceeded/);
+  });
+
+  it('attributes custom codes to the innermost failed CPI', () => {
+    const trace = parseLogs([
+      `Program ${JUPITER} invoke [1]`,
+      `Program ${TOKEN} invoke [2]`,
+      'Program log: Error: insufficient funds',
+      `Program ${TOKEN} failed: custom program error: 0x1`,
+      `Program ${JUPITER} failed: custom program error: 0x1`,
+    ]);
+
+    const failure = explainFailure({ InstructionError: [0, { Custom: 1 }] }, [JUPITER], trace, noErrors);
+
+    expect(failure.programId).toBe(TOKEN);
+    expect(failure.errorName).toBe('InsufficientFunds');
+  });
+
+  it('resolves program-defined errors from the decoders', () => {
+    const trace = parseLogs([
+      `Program ${ANCHOR_PROGRAM} invoke [1]`,
+      `Program ${ANCHOR_PROGRAM} failed: custom program error: 0x1770`,
+    ]);
+    const decodeError = (programId: string, code: number) =>
+      programId === ANCHOR_PROGRAM && code === 6000 ? { name: 'PoolPaused' } : null;
+
+    expect(
+      explainFailure({ InstructionError: [0, { Custom: 6000 }] }, [ANCHOR_PROGRAM], trace, decodeError)
+    ).toMatchObject({ errorName: 'PoolPaused', message: 'Pool paused' });
+
+  });
+
+  it('only gives Anchor framework names to programs known to be Anchor', () => {
+    const native = bs58.encode(Buffer.alloc(32, 5));
+    const nativeTrace = parseLogs([
+      `Program ${native} invoke [1]`,
+      `Program ${native} failed: custom program error: 0xbb8`,
+    ]);
+
+    expect(
+      explainFailure({ InstructionError: [0, { Custom: 3000 }] }, [native], nativeTrace, noErrors)
+    ).toMatchObject({ errorName: 'Custom', message: 'Custom program error 3000 (0xbb8)' });
+
+    const anchorTrace = parseLogs([
+      `Program ${ANCHOR_PROGRAM} invoke [1]`,
+      'Program log: AnchorError caused by account: position. Error Code: AccountNotInitialized. ' +
+        'Error Number: 3012. Error Message: The program expected this account to be already initialized.',
+      `Program ${ANCHOR_PROGRAM} failed: custom program error: 0xbc4`,
+    ]);
+
+    expect(
+      explainFailure({ InstructionError: [0, { Custom: 3012 }] }, [ANCHOR_PROGRAM], anchorTrace, noErrors)
+    ).toMatchObject({ errorName: 'AccountNotInitialized' });
+  });
+
+  it('describes built-in instruction and transaction errors', () => {
+    const trace = parseLogs([]);
+
+    expect(
+      explainFailure({ InstructionError: [0, 'InsufficientFunds'] }, [JUPITER], trace, noErrors)
+    ).toMatchObject({ errorName: 'InsufficientFunds', message: 'Insufficient funds for instruction' });
+
+    expect(
+      explainFailure({ InsufficientFundsForRent: { account_index: 2 } }, [], trace, noErrors)
+    ).toMatchObject({
+      errorName: 'InsufficientFundsForRent',
+      message: 'Transaction results in an account with insufficient funds for rent (account #2)',
+    });
+
+    expect(explainFailure('BlockhashNotFound', [], trace, noErrors).errorName).toBe('BlockhashNotFound');
+  });
+});
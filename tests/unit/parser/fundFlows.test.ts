@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { reconstructTransfers, NATIVE_SOL_MINT } from '../../../src/parser/fundFlows';
+import { ProgramInteraction } from '../../../src/parser/types';
+import { TokenBalance } from '../../../src/rpc/types';
+
+const TOKEN_PROGRAM = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+const SYSTEM_PROGRAM = '11111111111111111111111111111111';
+const MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const ACCOUNT_KEYS = ['wallet', 'srcAta', 'dstAta', 'poolAta', 'otherAta'];
+
+function balance(accountIndex: number, amount: string): TokenBalance {
+  return {
+    accountIndex,
+    mint: MINT,
+    uiTokenAmount: { amount, decimals: 6, uiAmount: null },
+  };
+}
+
+function interaction(
+  programId: string,
+  instructionType: string,
+  details: Record<string, any>,
+  children: ProgramInteraction[] = []
+): ProgramInteraction {
+  return {
+    programId,
+    instructionType,
+    details,
+    instructionIndex: 0,
+    stackHeight: children.length > 0 ? 1 : 2,
+    innerIndex: children.length > 0 ? undefined : 0,
+    children,
+    events: [],
+  };
+}
+
+describe('reconstructTransfers', () => {
+  it('builds edges from decoded instructions, including CPIs', () => {
+    const root = interaction('JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4', 'Unknown', {}, [
+      interaction(TOKEN_PROGRAM, 'Transfer', { source: 'srcAta', destination: 'dstAta', amount: 500n }),
+      interaction(SYSTEM_PROGRAM, 'Transfer', { from: 'wallet', to: 'poolAta', lamports: 1000n }),
+    ]);
+
+    const transfers = reconstructTransfers(
+      ACCOUNT_KEYS,
+      [root],
+      [balance(1, '500'), balance(2, '0')],
+      [balance(1, '0'), balance(2, '500')],
+      true
+    );
+
+    expect(transfers).toEqual([
+      expect.objectContaining({ mint: MINT, from: 'srcAta', to: 'dstAta', amount: 500n, decimals: 6, source: 'instruction', innerIndex: 0 }),
+      expect.objectContaining({ mint: NATIVE_SOL_MINT, from: 'wallet', to: 'poolAta', amount: 1000n, decimals: 9 }),
+    ]);
+  });
+
+  it('pairs unexplained balance changes into edges', () => {
+    const transfers = reconstructTransfers(
+      ACCOUNT_KEYS,
+      [],
+      [balance(1, '300'), balance(2, '0'), balance(3, '0')],
+      [balance(1, '0'), balance(2, '100'), balance(3, '200')],
+      true
+    );
+
+    expect(transfers.map((t) => [t.from, t.to, t.amount, t.source])).toEqual([
+      ['srcAta', 'dstAta', 100n, 'balance'],
+      ['srcAta', 'poolAta', 200n, 'balance'],
+    ]);
+  });
+
+  it('ignores instructions of failed transactions', () => {
+    const transfers = reconstructTransfers(
+      ACCOUNT_KEYS,
+      [interaction(TOKEN_PROGRAM, 'Transfer', { source: 'srcAta', destination: 'dstAta', amount: 5n })],
+      [balance(1, '5')],
+      [balance(1, '5')],
+      false
+    );
+
+    expect(transfers).toEqual([]);
+  });
+
+  it('keeps unmatched changes as half edges', () => {
+    const transfers = reconstructTransfers(ACCOUNT_KEYS, [], [], [balance(4, '42')], true);
+
+    expect(transfers).toEqual([
+      expect.objectContaining({ from: 'unknown', to: 'otherAta', amount: 42n }),
+    ]);
+  });
+});
+
+describe('reconstructTransfers with Token-2022 transfer fees', () => {
+  const TOKEN_2022 = 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb';
+
+  it('uses the fee stated by TransferCheckedWithFee', () => {
+    const transfers = reconstructTransfers(
+      ACCOUNT_KEYS,
+      [interaction(TOKEN_2022, 'TransferFee.TransferCheckedWithFee', {
+        source: 'srcAta', mint: MINT, destination: 'dstAta', amount: 1000n, decimals: 6, fee: 10n,
+      })],
+      [balance(1, '1000'), balance(2, '0')],
+      [balance(1, '0'), balance(2, '990')],
+      true
+    );
+
+    expect(transfers).toHaveLength(1);
+    expect(transfers[0].fee).toBe(10n);
+  });
+
+  it('infers the withheld fee of a plain TransferChecked from balances', () => {
+    const transfers = reconstructTransfers(
+      ACCOUNT_KEYS,
+      [interaction(TOKEN_2022, 'TransferChecked', {
+        source: 'srcAta', mint: MINT, destination: 'dstAta', amount: 1000n, decimals: 6,
+      })],
+      [balance(1, '1000'), balance(2, '0')],
+      [balance(1, '0'), balance(2, '995')],
+      true
+    );
+
+    expect(transfers).toHaveLength(1);
+    expect(transfers[0].fee).toBe(5n);
+  });
+});
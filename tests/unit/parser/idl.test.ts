@@ -0,0 +1,176 @@
+import { describe, it, expect } from 'vitest';
+import bs58 from 'bs58';
+import { BorshReader } from '../../../src/parser/decoders/borsh';
+import { normalizeIdl, decodeIdlValue, IdlType, NormalizedIdl } from '../../../src/parser/decoders/idl';
+import { anchorDiscriminator, borshString, u16, u64 } from '../../fixtures/borsh';
+
+const PROGRAM_ID = bs58.encode(Buffer.alloc(32, 9));
+
+/**
+ * IDL with the user-defined types the value tests refer to
+ */
+const TYPES_IDL: NormalizedIdl = normalizeIdl({
+  address: PROGRAM_ID,
+  metadata: { name: 'types', version: '0.1.0', spec: '0.1.0' },
+  instructions: [],
+  types: [
+    {
+      name: 'Side',
+      type: {
+        kind: 'enum',
+        variants: [
+          { name: 'Bid' },
+          { name: 'Ask' },
+          { name: 'Limit', fields: [{ name: 'price', type: 'u64' }] },
+          { name: 'Range', fields: ['u16', 'u16'] },
+        ],
+      },
+    },
+    { name: 'Point', type: { kind: 'struct', fields: ['i32', 'i32'] } },
+    { name: 'Empty', type: { kind: 'struct' } },
+    { name: 'Price', type: { kind: 'type', alias: 'u64' } },
+  ],
+});
+
+function decodeValue(type: IdlType, ...chunks: Buffer[]): unknown {
+  return decodeIdlValue(new BorshReader(Buffer.concat(chunks)), type, TYPES_IDL);
+}
+
+describe('normalizeIdl', () => {
+  it('normalizes a legacy IDL', () => {
+    const idl = normalizeIdl({
+      version: '0.1.0',
+      name: 'vault',
+      instructions: [
+        {
+          name: 'withdrawAll',
+          accounts: [{ name: 'authority', isMut: false, isSigner: true }, { name: 'rent', isOptional: true }],
+          args: [],
+        },
+        { name: 'closeVault' },
+      ],
+      events: [{ name: 'Withdrawn', fields: [{ name: 'amount', type: 'u64', index: false }] }],
+      errors: [{ code: 6000, name: 'Empty', msg: 'Vault is empty' }],
+      metadata: { address: PROGRAM_ID },
+    });
+
+    expect(idl.name).toBe('vault');
+    expect(idl.address).toBe(PROGRAM_ID);
+    expect(idl.instructions).toEqual([
+      {
+        name: 'withdrawAll',
+        discriminator: anchorDiscriminator('withdraw_all').toString('hex'),
+        accounts: [
+          { name: 'authority', optional: false },
+          { name: 'rent', optional: true },
+        ],
+        args: [],
+      },
+      {
+        name: 'closeVault',
+        discriminator: anchorDiscriminator('close_vault').toString('hex'),
+        accounts: [],
+        args: [],
+      },
+    ]);
+    expect(idl.events).toEqual([
+      {
+        name: 'Withdrawn',
+        discriminator: anchorDiscriminator('Withdrawn', 'event').toString('hex'),
+        fields: [{ name: 'amount', type: 'u64', index: false }],
+      },
+    ]);
+    expect(idl.errors).toEqual([{ code: 6000, name: 'Empty', msg: 'Vault is empty' }]);
+  });
+
+  it('takes 0.30 event fields from the type of the same name', () => {
+    const idl = normalizeIdl({
+      address: PROGRAM_ID,
+      metadata: { name: 'market', version: '0.1.0', spec: '0.1.0' },
+      instructions: [],
+      events: [
+        { name: 'Filled', discriminator: [1, 1, 1, 1, 1, 1, 1, 1] },
+        { name: 'Untyped', discriminator: [2, 2, 2, 2, 2, 2, 2, 2] },
+        { name: 'Tupled', discriminator: [3, 3, 3, 3, 3, 3, 3, 3] },
+      ],
+      types: [
+        { name: 'Filled', type: { kind: 'struct', fields: [{ name: 'size', type: 'u32' }] } },
+        { name: 'Tupled', type: { kind: 'struct', fields: ['u32'] } },
+      ],
+    });
+
+    expect(idl.events).toEqual([
+      { name: 'Filled', discriminator: '0101010101010101', fields: [{ name: 'size', type: 'u32' }] },
+      { name: 'Untyped', discriminator: '0202020202020202', fields: [] },
+      { name: 'Tupled', discriminator: '0303030303030303', fields: [] },
+    ]);
+    expect(idl.errors).toEqual([]);
+  });
+
+  it('falls back to a placeholder name', () => {
+    expect(normalizeIdl({ instructions: [] }).name).toBe('unknown');
+  });
+
+  it.each([null, 'idl', { name: 'no instructions' }])('rejects %j', (raw) => {
+    expect(() => normalizeIdl(raw)).toThrow('"instructions" array');
+  });
+});
+
+describe('decodeIdlValue', () => {
+  it('decodes primitive types', () => {
+    const float = Buffer.alloc(4);
+    float.writeFloatLE(2.5, 0);
+    const double = Buffer.alloc(8);
+    double.writeDoubleLE(-1.25, 0);
+    const signed = Buffer.alloc(16, 0xff);
+
+    expect(decodeValue('bool', Buffer.from([1]))).toBe(true);
+    expect(decodeValue('u8', Buffer.from([255]))).toBe(255);
+    expect(decodeValue('i8', Buffer.from([255]))).toBe(-1);
+    expect(decodeValue('u16', u16(65_535))).toBe(65_535);
+    expect(decodeValue('i16', u16(65_535))).toBe(-1);
+    expect(decodeValue('u32', Buffer.alloc(4, 0xff))).toBe(4_294_967_295);
+    expect(decodeValue('i32', Buffer.alloc(4, 0xff))).toBe(-1);
+    expect(decodeValue('f32', float)).toBe(2.5);
+    expect(decodeValue('f64', double)).toBe(-1.25);
+    expect(decodeValue('u64', u64(10n))).toBe(10n);
+    expect(decodeValue('i64', Buffer.alloc(8, 0xff))).toBe(-1n);
+    expect(decodeValue('u128', signed)).toBe((1n << 128n) - 1n);
+    expect(decodeValue('i128', signed)).toBe(-1n);
+    expect(decodeValue('u256', Buffer.alloc(32, 0xff))).toBe((1n << 256n) - 1n);
+    expect(decodeValue('i256', Buffer.alloc(32, 0xff))).toBe(-1n);
+    expect(decodeValue('string', borshString('gm'))).toBe('gm');
+    expect(decodeValue('bytes', Buffer.from([2, 0, 0, 0, 0xab, 0xcd]))).toBe('abcd');
+    expect(decodeValue('publicKey', Buffer.alloc(32, 9))).toBe(PROGRAM_ID);
+    expect(decodeValue('pubkey', Buffer.alloc(32, 9))).toBe(PROGRAM_ID);
+  });
+
+  it('decodes options, COptions, vectors, arrays and tuples', () => {
+    expect(decodeValue({ option: 'u16' }, Buffer.from([0]))).toBeNull();
+    expect(decodeValue({ option: 'u16' }, Buffer.from([1]), u16(3))).toBe(3);
+    expect(decodeValue({ coption: 'u16' }, Buffer.alloc(4))).toBeNull();
+    expect(decodeValue({ coption: 'u16' }, Buffer.from([1, 0, 0, 0]), u16(4))).toBe(4);
+    expect(decodeValue({ vec: 'u16' }, Buffer.from([2, 0, 0, 0]), u16(5), u16(6))).toEqual([5, 6]);
+    expect(decodeValue({ vec: 'u8' }, Buffer.alloc(4))).toEqual([]);
+    expect(decodeValue({ array: ['u16', 2] }, u16(7), u16(8))).toEqual([7, 8]);
+    expect(decodeValue({ tuple: ['u8', 'string'] }, Buffer.from([1]), borshString('x'))).toEqual([1, 'x']);
+    expect(decodeValue({ vec: { option: 'u8' } }, Buffer.from([2, 0, 0, 0, 0, 1, 9]))).toEqual([null, 9]);
+  });
+
+  it('decodes defined enums, structs and aliases by either reference form', () => {
+    expect(decodeValue({ defined: 'Side' }, Buffer.from([1]))).toBe('Ask');
+    expect(decodeValue({ defined: { name: 'Side' } }, Buffer.from([2]), u64(99n))).toEqual({ Limit: { price: 99n } });
+    expect(decodeValue({ defined: 'Side' }, Buffer.from([3]), u16(1), u16(2))).toEqual({ Range: [1, 2] });
+    expect(decodeValue({ defined: 'Point' }, Buffer.from([1, 0, 0, 0, 0xff, 0xff, 0xff, 0xff]))).toEqual([1, -1]);
+    expect(decodeValue({ defined: 'Empty' }, Buffer.alloc(0))).toEqual({});
+    expect(decodeValue({ defined: { name: 'Price' } }, u64(12n))).toBe(12n);
+  });
+
+  it('rejects unknown types, variants and truncated data', () => {
+    expect(() => decodeValue('u512', Buffer.alloc(64))).toThrow('Unsupported IDL type: u512');
+    expect(() => decodeValue({ generic: 'T' } as unknown as IdlType, Buffer.alloc(8))).toThrow('Unsupported IDL type');
+    expect(() => decodeValue({ defined: 'Missing' }, Buffer.alloc(8))).toThrow('IDL type not found: Missing');
+    expect(() => decodeValue({ defined: 'Side' }, Buffer.from([4]))).toThrow('Invalid enum variant');
+    expect(() => decodeValue({ vec: 'u64' }, Buffer.from([1, 0, 0, 0]))).toThrow(RangeError);
+  });
+});
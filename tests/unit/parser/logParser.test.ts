@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { parseLogs, flattenInvocations, selfComputeUnits } from '../../../src/parser/logParser';
+
+const JUPITER = 'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4';
+const WHIRLPOOL = 'whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc';
+const TOKEN = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+
+describe('parseLogs', () => {
+  it('rebuilds the invocation tree with compute usage, logs and return data', () => {
+    const trace = parseLogs([
+      `Program ${JUPITER} invoke [1]`,
+      'Program log: Instruction: Route',
+      `Program ${WHIRLPOOL} invoke [2]`,
+      'Program log: Instruction: Swap',
+      `Program ${TOKEN} invoke [3]`,
+      'Program log: Instruction: Transfer',
+      `Program ${TOKEN} consumed 4645 of 180000 compute units`,
+      `Program ${TOKEN} success`,
+      'Program data: AQID',
+      `Program ${WHIRLPOOL} consumed 40000 of 190000 compute units`,
+      `Program ${WHIRLPOOL} success`,
+      `Program return: ${JUPITER} ZAAAAAAAAAA=`,
+      `Program ${JUPITER} consumed 52000 of 200000 compute units`,
+      `Program ${JUPITER} success`,
+    ]);
+
+    expect(trace.truncated).toBe(false);
+    expect(trace.invocations).toHaveLength(1);
+
+    const [jupiter] = trace.invocations;
+    expect(jupiter.logs).toEqual(['Instruction: Route']);
+    expect(jupiter.returnData).toBe('ZAAAAAAAAAA=');
+    expect(jupiter.computeUnits).toEqual({ consumed: 52000, available: 200000 });
+    expect(selfComputeUnits(jupiter)).toBe(12000);
+
+    const whirlpool = jupiter.children[0];
+    expect(whirlpool.depth).toBe(2);
+    expect(whirlpool.data).toEqual(['AQID']);
+    expect(selfComputeUnits(whirlpool)).toBe(40000 - 4645);
+
+    expect(flattenInvocations(trace.invocations).map((i) => i.programId)).toEqual([
+      JUPITER,
+      WHIRLPOOL,
+      TOKEN,
+    ]);
+  });
+
+  it('records where a failure happened', () => {
+    const trace = parseLogs([
+      `Program ${JUPITER} invoke [1]`,
+      `Program ${WHIRLPOOL} invoke [2]`,
+      `Program ${WHIRLPOOL} consumed 1000 of 190000 compute units`,
+      `Program ${WHIRLPOOL} failed: custom program error: 0x1771`,
+      `Program ${JUPITER} consumed 9000 of 200000 compute units`,
+      `Program ${JUPITER} failed: custom program error: 0x1771`,
+    ]);
+
+    const [jupiter] = trace.invocations;
+    expect(jupiter.status).toBe('failed');
+    expect(jupiter.children[0].status).toBe('failed');
+    expect(jupiter.children[0].error).toBe('custom program error: 0x1771');
+  });
+
+  it('marks truncated logs and leaves open invocations incomplete', () => {
+    const trace = parseLogs([
+      `Program ${JUPITER} invoke [1]`,
+      'Program log: Instruction: Route',
+      'Log truncated',
+    ]);
+
+    expect(trace.truncated).toBe(true);
+    expect(trace.invocations[0].status).toBe('incomplete');
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import bs58 from 'bs58';
+import { TransactionParser } from '../../../src/parser/TransactionParser';
+import { AssociatedTokenDecoder } from '../../../src/parser/decoders/AssociatedTokenDecoder';
+import { WRAPPED_SOL_MINT } from '../../../src/parser/netChanges';
+import { HumanReadableFormatter } from '../../../src/formatter/HumanReadableFormatter';
+import { TokenRegistry } from '../../../src/tokens/TokenRegistry';
+import { RawInstruction, RawTransaction, TokenBalance } from '../../../src/rpc/types';
+import { buildTransaction } from '../../fixtures/transactions';
+
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const [USER, USER_USDC, USER_WSOL, POOL, POOL_WSOL, POOL_USDC, RECIPIENT, RECIPIENT_USDC] =
+  [1, 2, 3, 4, 5, 6, 7, 8].map((n) => bs58.encode(Buffer.alloc(32, n)));
+const ATA_PROGRAM = 'ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL';
+
+const RENT = 2_039_280;
+const FEE = 5000;
+const SOL = 1_000_000_000;
+
+function balance(accountIndex: number, mint: string, owner: string, amount: number): TokenBalance {
+  return {
+    accountIndex,
+    mint,
+    owner,
+    uiTokenAmount: { amount: String(amount), decimals: mint === USDC ? 6 : 9, uiAmount: null },
+  };
+}
+
+function balancesTransaction(
+  accountKeys: string[],
+  preBalances: number[],
+  postBalances: number[],
+  preTokenBalances: TokenBalance[],
+  postTokenBalances: TokenBalance[],
+  instructions: RawInstruction[] = []
+): RawTransaction {
+  return buildTransaction({
+    accountKeys,
+    instructions,
+    meta: { fee: FEE, preBalances, postBalances, preTokenBalances, postTokenBalances },
+  });
+}
+
+/**
+ * USER swaps 1 SOL for 150 USDC through a temporary wSOL account, opening
+ * their USDC account on the way
+ */
+function swapTransaction(): RawTransaction {
+  return balancesTransaction(
+    [USER, USER_USDC, USER_WSOL, POOL, POOL_WSOL, POOL_USDC],
+    [10 * SOL, 0, 0, 0, 500 * SOL + RENT, RENT],
+    [9 * SOL - FEE - RENT, RENT, 0, 0, 501 * SOL + RENT, RENT],
+    [balance(4, WRAPPED_SOL_MINT, POOL, 500 * SOL), balance(5, USDC, POOL, 1_000_000_000_000)],
+    [
+      balance(1, USDC, USER, 150_000_000),
+      balance(4, WRAPPED_SOL_MINT, POOL, 501 * SOL),
+      balance(5, USDC, POOL, 999_850_000_000),
+    ]
+  );
+}
+
+function parse(raw: RawTransaction) {
+  return new TransactionParser([new AssociatedTokenDecoder()]).parse(raw);
+}
+
+describe('net changes', () => {
+  it('groups token accounts by owner and separates rent and fees from the swap', () => {
+    const [user, pool] = parse(swapTransaction()).netChanges;
+
+    expect(user).toEqual({
+      owner: USER,
+      assets: [
+        { mint: 'SOL', amount: -1_000_000_000n, decimals: 9 },
+        { mint: USDC, amount: 150_000_000n, decimals: 6 },
+      ],
+      rent: -BigInt(RENT),
+      fee: -BigInt(FEE),
+    });
+    // Wrapped SOL in the pool's vault counts as SOL
+    expect(pool.owner).toBe(POOL);
+    expect(pool.assets).toEqual([
+      { mint: 'SOL', amount: 1_000_000_000n, decimals: 9 },
+      { mint: USDC, amount: -150_000_000n, decimals: 6 },
+    ]);
+    expect(pool.rent).toBe(0n);
+  });
+
+  it('treats unwrapping SOL as a rent refund with no economic change', () => {
+    const raw = balancesTransaction(
+      [USER, USER_WSOL],
+      [SOL, SOL / 2 + RENT],
+      [SOL + SOL / 2 + RENT - FEE, 0],
+      [balance(1, WRAPPED_SOL_MINT, USER, SOL / 2)],
+      []
+    );
+
+    expect(parse(raw).netChanges).toEqual([
+      { owner: USER, assets: [], rent: BigInt(RENT), fee: -BigInt(FEE) },
+    ]);
+  });
+
+  it('charges rent to the payer that opened someone else\'s token account', () => {
+    const raw = balancesTransaction(
+      [USER, USER_USDC, RECIPIENT_USDC, RECIPIENT, USDC, ATA_PROGRAM],
+      [SOL, RENT, 0, 0, 1, 1],
+      [SOL - RENT - FEE, RENT, RENT, 0, 1, 1],
+      [balance(1, USDC, USER, 5_000_000)],
+      [balance(1, USDC, USER, 0), balance(2, USDC, RECIPIENT, 5_000_000)],
+      [{ programIdIndex: 5, accounts: [0, 2, 3, 4], data: '' }]
+    );
+    const [user, recipient] = parse(raw).netChanges;
+
+    expect(user.rent).toBe(-BigInt(RENT));
+    expect(user.assets).toEqual([{ mint: USDC, amount: -5_000_000n, decimals: 6 }]);
+    expect(recipient).toEqual({
+      owner: RECIPIENT,
+      assets: [{ mint: USDC, amount: 5_000_000n, decimals: 6 }],
+      rent: 0n,
+      fee: 0n,
+    });
+  });
+
+  it('leads human-readable output with the net effect', async () => {
+    const parsed = await new TokenRegistry().annotate(parse(swapTransaction()));
+    const output = new HumanReadableFormatter(false).format(parsed);
+
+    expect(output.indexOf('Net Effect:')).toBeLessThan(output.indexOf('Account Changes:'));
+    expect(output).toMatch(/\(fee payer\)\n {4}SOL {3}-1\n {4}USDC {2}\+150\n {4}Rent {2}-0\.00203928 SOL\n {4}Fee {3}-0\.000005 SOL/);
+  });
+});
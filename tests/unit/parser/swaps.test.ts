@@ -0,0 +1,184 @@
+import { describe, it, expect } from 'vitest';
+import bs58 from 'bs58';
+import { TransactionParser } from '../../../src/parser/TransactionParser';
+import { TokenProgramDecoder } from '../../../src/parser/TokenProgramDecoder';
+import { SystemProgramDecoder } from '../../../src/parser/SystemProgramDecoder';
+import { WRAPPED_SOL_MINT } from '../../../src/parser/netChanges';
+import { detectSwaps } from '../../../src/parser/swaps';
+import { HumanReadableFormatter } from '../../../src/formatter/HumanReadableFormatter';
+import { TokenRegistry } from '../../../src/tokens/TokenRegistry';
+import { RawTransaction, TokenBalance } from '../../../src/rpc/types';
+
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+const JUPITER = 'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4';
+const ORCA = 'whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc';
+const RAYDIUM = '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8';
+const TOKEN_PROGRAM = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+const SYSTEM_PROGRAM = '11111111111111111111111111111111';
+const [USER, USER_USDC, USER_WSOL, USER_BONK, ORCA_USDC, ORCA_WSOL, RAY_WSOL, RAY_BONK, ORCA_POOL, RAY_POOL, TIP, LP_MINT] =
+  [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12].map((n) => bs58.encode(Buffer.alloc(32, n)));
+
+const RENT = 2_039_280;
+const FEE = 5000;
+const TIP_LAMPORTS = 10_000;
+const SOL = 1_000_000_000;
+
+function tokenTransfer(amount: bigint): string {
+  const data = Buffer.alloc(9);
+  data.writeUInt8(3, 0);
+  data.writeBigUInt64LE(amount, 1);
+  return bs58.encode(data);
+}
+
+function systemTransfer(lamports: bigint): string {
+  const data = Buffer.alloc(12);
+  data.writeUInt32LE(2, 0);
+  data.writeBigUInt64LE(lamports, 4);
+  return bs58.encode(data);
+}
+
+function balance(accountIndex: number, mint: string, owner: string, amount: number, decimals: number): TokenBalance {
+  return { accountIndex, mint, owner, uiTokenAmount: { amount: String(amount), decimals, uiAmount: null } };
+}
+
+/**
+ * USER routes 20 USDC through Jupiter: USDC -> SOL on Orca, then SOL -> BONK
+ * on Raydium, and tips a validator in SOL on the side
+ */
+function multiHopSwap(): RawTransaction {
+  const accountKeys = [
+    USER, USER_USDC, USER_WSOL, USER_BONK, ORCA_USDC, ORCA_WSOL, RAY_WSOL, RAY_BONK,
+    ORCA_POOL, RAY_POOL, TIP, TOKEN_PROGRAM, JUPITER, ORCA, RAYDIUM, SYSTEM_PROGRAM,
+  ];
+
+  return {
+    slot: 1,
+    blockTime: 1700000000,
+    transaction: {
+      message: {
+        accountKeys,
+        instructions: [
+          { programIdIndex: 12, accounts: [0, 1, 3], data: bs58.encode(Buffer.alloc(8)) },
+          { programIdIndex: 15, accounts: [0, 10], data: systemTransfer(BigInt(TIP_LAMPORTS)) },
+        ],
+        recentBlockhash: '11111111111111111111111111111111',
+      },
+      signatures: ['5VERv8NMvzbJMEkV8xnrLkEaWRtSz9CosKDYjCJjBRnbJLgp8uirBgmQpjKhoR4tjF3ZpRzrFmBV6UjKdiSZkQUW'],
+    },
+    meta: {
+      err: null,
+      fee: FEE,
+      preBalances: [SOL, RENT, RENT, RENT, RENT, 100 * SOL + RENT, 50 * SOL + RENT, RENT, 0, 0, 0, 1, 1, 1, 1, 1],
+      postBalances: [
+        SOL - FEE - TIP_LAMPORTS, RENT, RENT, RENT, RENT, 100 * SOL - SOL / 10 + RENT, 50 * SOL + SOL / 10 + RENT, RENT,
+        0, 0, TIP_LAMPORTS, 1, 1, 1, 1, 1,
+      ],
+      preTokenBalances: [
+        balance(1, USDC, USER, 20_000_000, 6),
+        balance(2, WRAPPED_SOL_MINT, USER, 0, 9),
+        balance(3, BONK, USER, 0, 5),
+        balance(4, USDC, ORCA_POOL, 1_000_000_000, 6),
+        balance(5, WRAPPED_SOL_MINT, ORCA_POOL, 100 * SOL, 9),
+        balance(6, WRAPPED_SOL_MINT, RAY_POOL, 50 * SOL, 9),
+        balance(7, BONK, RAY_POOL, 1_000_000_000_000, 5),
+      ],
+      postTokenBalances: [
+        balance(1, USDC, USER, 0, 6),
+        balance(2, WRAPPED_SOL_MINT, USER, 0, 9),
+        balance(3, BONK, USER, 1_000_000_000, 5),
+        balance(4, USDC, ORCA_POOL, 1_020_000_000, 6),
+        balance(5, WRAPPED_SOL_MINT, ORCA_POOL, 100 * SOL - SOL / 10, 9),
+        balance(6, WRAPPED_SOL_MINT, RAY_POOL, 50 * SOL + SOL / 10, 9),
+        balance(7, BONK, RAY_POOL, 999_000_000_000, 5),
+      ],
+      innerInstructions: [{
+        index: 0,
+        instructions: [
+          { programIdIndex: 13, accounts: [8, 4, 5], data: bs58.encode(Buffer.alloc(8)), stackHeight: 2 },
+          { programIdIndex: 11, accounts: [1, 4, 0], data: tokenTransfer(20_000_000n), stackHeight: 3 },
+          { programIdIndex: 11, accounts: [5, 2, 8], data: tokenTransfer(BigInt(SOL / 10)), stackHeight: 3 },
+          { programIdIndex: 14, accounts: [9, 6, 7], data: bs58.encode(Buffer.alloc(8)), stackHeight: 2 },
+          { programIdIndex: 11, accounts: [2, 6, 0], data: tokenTransfer(BigInt(SOL / 10)), stackHeight: 3 },
+          { programIdIndex: 11, accounts: [7, 3, 9], data: tokenTransfer(1_000_000_000n), stackHeight: 3 },
+        ],
+      }],
+      logMessages: [],
+    },
+  };
+}
+
+function parse(raw: RawTransaction) {
+  return new TransactionParser([new TokenProgramDecoder(), new SystemProgramDecoder()]).parse(raw);
+}
+
+describe('swap detection', () => {
+  it('nets a multi-hop route down to what the trader gave up and received', () => {
+    expect(parse(multiHopSwap()).swaps).toEqual([{
+      trader: USER,
+      inputMint: USDC,
+      inputAmount: 20_000_000n,
+      inputDecimals: 6,
+      outputMint: BONK,
+      outputAmount: 1_000_000_000n,
+      outputDecimals: 5,
+      aggregator: { programId: JUPITER, name: 'Jupiter Aggregator' },
+      venues: [
+        { programId: ORCA, name: 'Orca Whirlpool' },
+        { programId: RAYDIUM, name: 'Raydium AMM' },
+      ],
+      effectivePrice: 500,
+    }]);
+  });
+
+  it('reports venues invoked directly without an aggregator', () => {
+    const raw = multiHopSwap();
+    const [, toOrca, fromOrca, , toRaydium, fromRaydium] = raw.meta!.innerInstructions[0].instructions;
+    // The same route with each pool called at the top level
+    raw.transaction.message.instructions = [
+      { programIdIndex: 13, accounts: [8, 4, 5], data: bs58.encode(Buffer.alloc(8)) },
+      { programIdIndex: 14, accounts: [9, 6, 7], data: bs58.encode(Buffer.alloc(8)) },
+      raw.transaction.message.instructions[1],
+    ];
+    raw.meta!.innerInstructions = [
+      { index: 0, instructions: [toOrca, fromOrca].map((ix) => ({ ...ix, stackHeight: 2 })) },
+      { index: 1, instructions: [toRaydium, fromRaydium].map((ix) => ({ ...ix, stackHeight: 2 })) },
+    ];
+
+    const [swap] = parse(raw).swaps;
+    expect(swap).toMatchObject({ inputMint: USDC, outputMint: BONK, effectivePrice: 500 });
+    expect(swap.aggregator).toBeUndefined();
+    expect(swap.venues.map((venue) => venue.name)).toEqual(['Orca Whirlpool', 'Raydium AMM']);
+  });
+
+  it('does not take giving up two tokens for one as a swap', () => {
+    const parsed = parse(multiHopSwap());
+    // Depositing USDC and BONK for LP tokens is liquidity provision, not a swap
+    const netChanges = [{
+      owner: USER,
+      assets: [
+        { mint: USDC, amount: -20_000_000n, decimals: 6 },
+        { mint: BONK, amount: -1_000_000_000n, decimals: 5 },
+        { mint: LP_MINT, amount: 1_000n, decimals: 6 },
+      ],
+      rent: 0n,
+      fee: -BigInt(FEE),
+    }];
+
+    expect(detectSwaps(parsed.accounts, netChanges, parsed.programInteractions)).toEqual([]);
+  });
+
+  it('reports no swap for a failed transaction', () => {
+    const raw = multiHopSwap();
+    raw.meta!.err = { InstructionError: [0, { Custom: 6001 }] };
+
+    expect(parse(raw).swaps).toEqual([]);
+  });
+
+  it('summarizes the swap in one line of human-readable output', async () => {
+    const parsed = await new TokenRegistry().annotate(parse(multiHopSwap()));
+    const output = new HumanReadableFormatter(false).format(parsed);
+
+    expect(output).toContain('Swapped 20 USDC → 10000 Bonk via Jupiter Aggregator (Orca Whirlpool, Raydium AMM)');
+  });
+});
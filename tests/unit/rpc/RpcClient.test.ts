@@ -0,0 +1,323 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import bs58 from 'bs58';
+import { RpcClient } from '../../../src/rpc/RpcClient';
+import { TransactionCache } from '../../../src/rpc/TransactionCache';
+import { ErrorCode, TxLensError } from '../../../src/utils/errors';
+import { buildTransaction, SIGNATURE, FEE_PAYER } from '../../fixtures/transactions';
+
+const ENDPOINT = 'https://rpc.example.com/';
+const BACKUP = 'https://backup.example.com/';
+const MAINNET_GENESIS = '5eykt4UsFv8P8NJdTREpY1vzqKqZKvdpKuc147dw2N9d';
+const OWNER = bs58.encode(Buffer.alloc(32, 1));
+const TABLE_A = bs58.encode(Buffer.alloc(32, 2));
+const TABLE_B = bs58.encode(Buffer.alloc(32, 3));
+
+/**
+ * Answer a JSON-RPC call with its result, or with a Response to fail at the HTTP level
+ */
+type Handler = (params: any[], endpoint: string) => unknown;
+
+/**
+ * Stub fetch with a JSON-RPC server answering each method with its handler.
+ * Methods without a handler fail with a JSON-RPC error.
+ */
+function stubRpc(handlers: Record<string, Handler>) {
+  const calls: string[] = [];
+  vi.stubGlobal('fetch', async (input: string, init: RequestInit) => {
+    const { id, method, params } = JSON.parse(String(init.body));
+    calls.push(method);
+    const handler = handlers[method];
+    const result = handler?.(params, String(input));
+    if (result instanceof Response) {
+      return result;
+    }
+    const body = handler
+      ? { jsonrpc: '2.0', id, result }
+      : { jsonrpc: '2.0', id, error: { code: -32601, message: `Method not found: ${method}` } };
+    return new Response(JSON.stringify(body));
+  });
+  return calls;
+}
+
+function key(seed: number): string {
+  return bs58.encode(Buffer.alloc(32, 100 + seed));
+}
+
+/**
+ * getAccountInfo-style account with base64 data
+ */
+function account(data: Buffer, owner: string = OWNER) {
+  return { data: [data.toString('base64'), 'base64'], executable: false, lamports: 1, owner, rentEpoch: 0, space: data.length };
+}
+
+/**
+ * Address lookup table account: 56-byte header, then the addresses
+ */
+function lookupTable(addresses: string[]) {
+  const header = Buffer.alloc(56);
+  header.writeUInt32LE(1, 0);
+  header.writeBigUInt64LE((1n << 64n) - 1n, 4);
+  return account(
+    Buffer.concat([header, ...addresses.map((address) => Buffer.from(bs58.decode(address)))]),
+    'AddressLookupTab1e1111111111111111111111111'
+  );
+}
+
+/**
+ * getTransaction result for a transaction landed in the given slot
+ */
+function transactionAt(slot: number) {
+  return {
+    slot,
+    blockTime: 1700000000,
+    version: 'legacy',
+    transaction: {
+      signatures: [SIGNATURE],
+      message: {
+        header: { numRequiredSignatures: 1, numReadonlySignedAccounts: 0, numReadonlyUnsignedAccounts: 0 },
+        accountKeys: [FEE_PAYER],
+        recentBlockhash: '11111111111111111111111111111111',
+        instructions: [],
+      },
+    },
+    meta: {
+      err: null,
+      fee: 5000,
+      preBalances: [1_000_000],
+      postBalances: [995_000],
+      preTokenBalances: [],
+      postTokenBalances: [],
+      innerInstructions: [],
+      logMessages: [],
+      status: { Ok: null },
+    },
+  };
+}
+
+describe('RpcClient', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('looks the finalized slot up again when a transaction is newer than it', async () => {
+    const finalizedSlots = [100, 150, 150];
+    let transactionSlot = 90;
+    const calls = stubRpc({
+      getTransaction: () => transactionAt(transactionSlot),
+      getSlot: () => finalizedSlots.shift(),
+      getGenesisHash: () => MAINNET_GENESIS,
+    });
+    const client = new RpcClient(ENDPOINT);
+
+    expect((await client.getTransaction(SIGNATURE)).commitment).toBe('finalized');
+
+    // Finalized since the slot was first looked up
+    transactionSlot = 120;
+    expect((await client.getTransaction(SIGNATURE)).commitment).toBe('finalized');
+
+    // Still beyond the refreshed slot
+    transactionSlot = 200;
+    expect((await client.getTransaction(SIGNATURE)).commitment).toBe('confirmed');
+
+    // Older than the known slot: no lookup
+    transactionSlot = 140;
+    expect((await client.getTransaction(SIGNATURE)).commitment).toBe('finalized');
+
+    expect(calls.filter((method) => method === 'getSlot')).toHaveLength(3);
+  });
+
+  it('fails over to the next endpoint while one cools down', async () => {
+    const calls = stubRpc({
+      getVersion: (_params, endpoint) =>
+        endpoint === ENDPOINT ? new Response('', { status: 503 }) : { 'solana-core': '1.18.0' },
+    });
+    const client = new RpcClient([ENDPOINT, BACKUP], { retry: { baseDelayMs: 1_000 } });
+
+    await client.validateConnection();
+    await client.validateConnection();
+
+    // The second request goes straight to the backup
+    expect(calls).toHaveLength(3);
+    const [primary, backup] = client.getEndpointHealth();
+    expect(primary).toMatchObject({ failures: 1, consecutiveFailures: 1 });
+    expect(primary.coolingDownUntil).toBeGreaterThan(Date.now());
+    expect(backup).toMatchObject({ successes: 2 });
+  });
+
+  it('waits out the cooldown when every endpoint is cooling down', async () => {
+    let attempts = 0;
+    stubRpc({
+      getVersion: () =>
+        ++attempts === 1
+          ? new Response('', { status: 429, headers: { 'Retry-After': '0.05' } })
+          : { 'solana-core': '1.18.0' },
+    });
+    const client = new RpcClient(ENDPOINT);
+
+    const started = Date.now();
+    await client.validateConnection();
+
+    expect(attempts).toBe(2);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(40);
+    expect(client.getEndpointHealth()[0]).toMatchObject({ consecutiveFailures: 0, coolingDownUntil: 0 });
+  });
+
+  it('does not retry JSON-RPC errors and reports the endpoints tried', async () => {
+    const calls = stubRpc({});
+    const client = new RpcClient([ENDPOINT, BACKUP]);
+
+    const error = await client.getSignatureStatus(SIGNATURE).catch((e) => e);
+
+    expect(calls).toHaveLength(1);
+    expect(error).toBeInstanceOf(TxLensError);
+    expect(error.message).toBe('Failed to fetch signature status');
+    expect(error.details).toMatchObject({ signature: SIGNATURE, attempts: 1, endpointsTried: [ENDPOINT] });
+  });
+
+  it('reports timeouts as such after retrying every endpoint', async () => {
+    vi.stubGlobal('fetch', async () => {
+      throw Object.assign(new Error('The operation was aborted due to timeout'), { name: 'TimeoutError' });
+    });
+    const client = new RpcClient([ENDPOINT, BACKUP], { retry: { maxRetries: 1, baseDelayMs: 1 } });
+
+    const error = await client.validateConnection().catch((e) => e);
+
+    expect(error.code).toBe(ErrorCode.RPC_TIMEOUT);
+    expect(error.message).toBe('Request to RPC endpoint timed out');
+    expect(error.details.endpointsTried).toEqual([ENDPOINT, BACKUP]);
+  });
+
+  it('looks up signature statuses, signatures and the cluster', async () => {
+    const calls = stubRpc({
+      getSignatureStatuses: ([signatures]) => ({
+        context: { slot: 10 },
+        value: signatures.map((signature: string) =>
+          signature === SIGNATURE ? { slot: 5, confirmations: null, err: null, confirmationStatus: 'finalized' } : null
+        ),
+      }),
+      getSignaturesForAddress: () => [
+        { signature: SIGNATURE, slot: 5, err: null, memo: null, blockTime: 1700000000, confirmationStatus: 'finalized' },
+      ],
+      getGenesisHash: () => MAINNET_GENESIS,
+    });
+    const client = new RpcClient(ENDPOINT);
+
+    expect(await client.getSignatureStatus(SIGNATURE)).toBe('finalized');
+    expect(await client.getSignatureStatus(bs58.encode(Buffer.alloc(64, 1)))).toBeNull();
+    expect((await client.getSignaturesForAddress(OWNER, 1)).map((info) => info.signature)).toEqual([SIGNATURE]);
+    expect(await client.getCluster()).toBe('mainnet');
+    expect(await client.getCluster()).toBe('mainnet');
+    expect(calls.filter((method) => method === 'getGenesisHash')).toHaveLength(1);
+
+    await expect(client.getSignaturesForAddress('not-an-address', 1)).rejects.toMatchObject({
+      code: ErrorCode.MISSING_REQUIRED_ARGUMENT,
+    });
+  });
+
+  it('rejects missing or malformed endpoints', () => {
+    expect(() => new RpcClient([])).toThrow(TxLensError);
+    expect(() => new RpcClient('not a url')).toThrow('Invalid RPC endpoint URL format');
+  });
+
+  it('fetches accounts in batches of 100', async () => {
+    const batches: number[] = [];
+    stubRpc({
+      getMultipleAccounts: ([addresses]) => {
+        batches.push(addresses.length);
+        return {
+          context: { slot: 1 },
+          value: addresses.map((address: string) => (address === key(1) ? null : account(Buffer.from(address.slice(0, 4))))),
+        };
+      },
+    });
+    const addresses = Array.from({ length: 150 }, (_, i) => key(i));
+    const client = new RpcClient(ENDPOINT);
+
+    const accounts = await client.getMultipleAccounts(addresses);
+
+    expect(batches).toEqual([100, 50]);
+    expect(accounts).toHaveLength(150);
+    expect(accounts[1]).toBeNull();
+    expect(accounts[149]).toEqual({ owner: OWNER, data: Buffer.from(key(149).slice(0, 4)) });
+  });
+
+  it('resolves lookup-table addresses, writable ones first, fetching each table once', async () => {
+    const fetched: string[] = [];
+    stubRpc({
+      getAccountInfo: ([address]) => {
+        fetched.push(address);
+        const tables: Record<string, string[]> = {
+          [TABLE_A]: [key(0), key(1), key(2)],
+          [TABLE_B]: [key(10), key(11)],
+        };
+        return { context: { slot: 1 }, value: tables[address] ? lookupTable(tables[address]) : null };
+      },
+    });
+    const client = new RpcClient(ENDPOINT);
+
+    const loaded = await client.resolveLookupTables([
+      { accountKey: TABLE_A, writableIndexes: [2], readonlyIndexes: [0] },
+      { accountKey: TABLE_B, writableIndexes: [1], readonlyIndexes: [0] },
+      { accountKey: TABLE_A, writableIndexes: [], readonlyIndexes: [1] },
+    ]);
+
+    expect(loaded).toEqual({ writable: [key(2), key(11)], readonly: [key(0), key(10), key(1)] });
+    expect(fetched).toEqual([TABLE_A, TABLE_B]);
+
+    await expect(
+      client.resolveLookupTables([{ accountKey: TABLE_A, writableIndexes: [3], readonlyIndexes: [] }])
+    ).rejects.toMatchObject({ code: ErrorCode.INCOMPLETE_TRANSACTION_DATA, details: { lookupTable: TABLE_A, index: 3 } });
+    await expect(
+      client.resolveLookupTables([{ accountKey: OWNER, writableIndexes: [0], readonlyIndexes: [] }])
+    ).rejects.toMatchObject({ code: ErrorCode.INCOMPLETE_TRANSACTION_DATA, message: 'Address lookup table not found' });
+  });
+
+  describe('with a cache', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = mkdtempSync(join(tmpdir(), 'txlens-rpc-cache-'));
+    });
+
+    afterEach(() => {
+      rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('refetches confirmed entries and upgrades them once finalized', async () => {
+      const cache = new TransactionCache({ directory });
+      cache.set(SIGNATURE, buildTransaction({ slot: 90 }), 'confirmed');
+      const calls = stubRpc({
+        getTransaction: () => transactionAt(90),
+        getSlot: () => 100,
+        getGenesisHash: () => MAINNET_GENESIS,
+      });
+      const client = new RpcClient(ENDPOINT, { cache });
+
+      expect(await client.getTransaction(SIGNATURE)).toMatchObject({ slot: 90, commitment: 'finalized', cluster: 'mainnet' });
+      expect(cache.get(SIGNATURE)?.commitment).toBe('finalized');
+
+      // Served from the cache from now on
+      calls.length = 0;
+      expect((await client.getTransaction(SIGNATURE)).commitment).toBe('finalized');
+      expect(calls).toEqual([]);
+    });
+
+    it('falls back to a confirmed entry only while the RPC still knows the transaction', async () => {
+      const cache = new TransactionCache({ directory });
+      const cached = buildTransaction({ slot: 90 });
+      cache.set(SIGNATURE, cached, 'confirmed');
+      let response: unknown = new Response('', { status: 503 });
+      stubRpc({ getTransaction: () => response });
+      const client = new RpcClient(ENDPOINT, { cache, retry: { maxRetries: 0 } });
+
+      expect(await client.getTransaction(SIGNATURE)).toEqual({ ...cached, commitment: 'confirmed' });
+
+      // Not found: the entry was on a dropped fork
+      response = null;
+      await expect(client.getTransaction(SIGNATURE)).rejects.toMatchObject({ code: ErrorCode.TRANSACTION_NOT_FOUND });
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, utimesSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import bs58 from 'bs58';
+import { Connection } from '@solana/web3.js';
+import { TransactionCache } from '../../../src/rpc/TransactionCache';
+import { RpcClient } from '../../../src/rpc/RpcClient';
+import { RawTransaction } from '../../../src/rpc/types';
+import { buildTransaction } from '../../fixtures/transactions';
+
+function signature(seed: number): string {
+  return bs58.encode(Buffer.alloc(64, 200 + seed));
+}
+
+function transactionAt(slot: number): RawTransaction {
+  return buildTransaction({ slot, signature: signature(slot) });
+}
+
+describe('TransactionCache', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'txlens-cache-'));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('stores transactions with their slot and commitment', () => {
+    const cache = new TransactionCache({ directory });
+    cache.set(signature(1), transactionAt(1), 'finalized');
+
+    expect(cache.get(signature(1))).toMatchObject({
+      signature: signature(1),
+      slot: 1,
+      commitment: 'finalized',
+      transaction: transactionAt(1),
+    });
+    expect(cache.get(signature(2))).toBeNull();
+    expect(cache.get('../../etc/passwd')).toBeNull();
+  });
+
+  it('evicts the least recently used entries beyond the size cap', () => {
+    const entrySize = Buffer.byteLength(JSON.stringify(transactionAt(1))) + 200;
+    const cache = new TransactionCache({ directory, maxBytes: entrySize * 2 });
+
+    cache.set(signature(1), transactionAt(1), 'finalized');
+    cache.set(signature(2), transactionAt(2), 'finalized');
+
+    // Make entry 2 the oldest, then touch entry 1 by reading it
+    const old = new Date(Date.now() - 60_000);
+    utimesSync(join(directory, 'transactions', `${signature(1)}.json`), old, old);
+    utimesSync(join(directory, 'transactions', `${signature(2)}.json`), old, old);
+    cache.get(signature(1));
+
+    cache.set(signature(3), transactionAt(3), 'confirmed');
+
+    expect(cache.get(signature(1))).not.toBeNull();
+    expect(cache.get(signature(2))).toBeNull();
+    expect(cache.get(signature(3))).not.toBeNull();
+  });
+
+  it('reports stats and clears all entries', () => {
+    const cache = new TransactionCache({ directory });
+    cache.set(signature(1), transactionAt(1), 'finalized');
+    cache.set(signature(2), transactionAt(2), 'confirmed');
+
+    const stats = cache.stats();
+    expect(stats).toMatchObject({ directory, entries: 2, finalized: 1, confirmed: 1 });
+    expect(stats.sizeBytes).toBeGreaterThan(0);
+
+    expect(cache.clear()).toBe(2);
+    expect(cache.stats().entries).toBe(0);
+  });
+
+  it('serves finalized entries without fetching and falls back to confirmed ones on RPC errors', async () => {
+    const cache = new TransactionCache({ directory });
+    cache.set(signature(1), transactionAt(1), 'finalized');
+    cache.set(signature(2), transactionAt(2), 'confirmed');
+
+    const fetch = vi
+      .spyOn(Connection.prototype, 'getTransaction')
+      .mockRejectedValue(new Error('fetch failed'));
+    const client = new RpcClient('https://rpc.example.com', { cache });
+
+    expect(await client.getTransaction(signature(1))).toEqual({ ...transactionAt(1), commitment: 'finalized' });
+    expect(fetch).not.toHaveBeenCalled();
+
+    // Confirmed entries are revalidated first
+    expect(await client.getTransaction(signature(2))).toEqual({ ...transactionAt(2), commitment: 'confirmed' });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { identifyCluster, CLUSTER_ENDPOINTS } from '../../../src/rpc/clusters';
+import { RpcClient } from '../../../src/rpc/RpcClient';
+import { findSignatureCluster } from '../../../src/utils/transactionFinder';
+
+const SIGNATURE = '5VERv8NMvzbJMEkV8xnrLkEaWRtSz9CosKDYjCJjBRnbJLgp8uirBgmQpjKhoR4tjF3ZpRzrFmBV6UjKdiSZkQUW';
+
+/**
+ * Stub fetch with a JSON-RPC result per endpoint URL and method
+ */
+function stubRpc(results: Record<string, Record<string, unknown>>) {
+  vi.stubGlobal('fetch', async (input: string, init: RequestInit) => {
+    const { id, method } = JSON.parse(String(init.body));
+    const url = String(input).replace(/\/$/, '');
+    return new Response(JSON.stringify({ jsonrpc: '2.0', id, result: results[url]?.[method] ?? null }));
+  });
+}
+
+describe('identifyCluster', () => {
+  it('recognizes public clusters by genesis hash and local validators by host', () => {
+    expect(identifyCluster('5eykt4UsFv8P8NJdTREpY1vzqKqZKvdpKuc147dw2N9d', 'https://rpc.example.com')).toBe('mainnet');
+    expect(identifyCluster('EtWTRABZaYq6iMfeYKouRu166VU2xqa1wcaWoxPkrZBG', 'https://rpc.example.com')).toBe('devnet');
+    expect(identifyCluster('SomeOtherHash', 'http://127.0.0.1:8899')).toBe('localnet');
+    expect(identifyCluster('SomeOtherHash', 'https://rpc.example.com')).toBeNull();
+  });
+});
+
+describe('cluster detection', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('identifies the cluster behind an RPC endpoint', async () => {
+    stubRpc({
+      'https://rpc.example.com': { getGenesisHash: 'EtWTRABZaYq6iMfeYKouRu166VU2xqa1wcaWoxPkrZBG' },
+    });
+
+    const client = new RpcClient('https://rpc.example.com', { retry: { maxRetries: 0 } });
+    expect(await client.getCluster()).toBe('devnet');
+  });
+
+  it('finds a signature on another public cluster', async () => {
+    const status = {
+      context: { slot: 10 },
+      value: [{ slot: 5, confirmations: null, err: null, confirmationStatus: 'finalized' }],
+    };
+    const missing = { context: { slot: 10 }, value: [null] };
+    stubRpc({
+      [CLUSTER_ENDPOINTS.devnet]: { getSignatureStatuses: missing },
+      [CLUSTER_ENDPOINTS.testnet]: { getSignatureStatuses: status },
+    });
+
+    expect(await findSignatureCluster(SIGNATURE, 'mainnet')).toBe('testnet');
+    expect(await findSignatureCluster(SIGNATURE, 'testnet')).toBeNull();
+  });
+});
@@ -0,0 +1,288 @@
+import { describe, it, expect } from 'vitest';
+import bs58 from 'bs58';
+import {
+  AddressLookupTableAccount,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { loadSavedTransaction } from '../../../src/rpc/savedTransaction';
+import { TransactionParser } from '../../../src/parser/TransactionParser';
+import { SystemProgramDecoder } from '../../../src/parser/SystemProgramDecoder';
+import { HumanReadableFormatter } from '../../../src/formatter/HumanReadableFormatter';
+import { ErrorCode, TxLensError } from '../../../src/utils/errors';
+
+const payer = Keypair.fromSeed(Buffer.alloc(32, 1));
+const recipient = new PublicKey(Buffer.alloc(32, 2));
+const tableAddress = new PublicKey(Buffer.alloc(32, 3));
+const blockhash = bs58.encode(Buffer.alloc(32, 9));
+const systemProgram = SystemProgram.programId.toBase58();
+const TOKEN_PROGRAM = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+
+const meta = {
+  err: null,
+  fee: 5000,
+  preBalances: [1_000_000, 0, 1],
+  postBalances: [992_500, 2500, 1],
+  preTokenBalances: [],
+  postTokenBalances: [],
+  innerInstructions: [],
+  logMessages: [
+    `Program ${systemProgram} invoke [1]`,
+    `Program ${systemProgram} success`,
+  ],
+  computeUnitsConsumed: 150,
+};
+
+function legacyTransaction(): VersionedTransaction {
+  const message = new TransactionMessage({
+    payerKey: payer.publicKey,
+    recentBlockhash: blockhash,
+    instructions: [
+      SystemProgram.transfer({ fromPubkey: payer.publicKey, toPubkey: recipient, lamports: 2500 }),
+    ],
+  }).compileToLegacyMessage();
+
+  const transaction = new VersionedTransaction(message);
+  transaction.sign([payer]);
+  return transaction;
+}
+
+function parse(contents: string) {
+  return new TransactionParser([new SystemProgramDecoder()]).parse(loadSavedTransaction(contents));
+}
+
+describe('loadSavedTransaction', () => {
+  it('loads a json-encoded result wrapped in a JSON-RPC envelope', () => {
+    const transaction = legacyTransaction();
+    const signature = bs58.encode(transaction.signatures[0]);
+    const message = transaction.message;
+
+    const response = {
+      jsonrpc: '2.0',
+      id: 1,
+      result: {
+        slot: 1234,
+        blockTime: 1700000000,
+        meta,
+        transaction: {
+          signatures: [signature],
+          message: {
+            header: message.header,
+            accountKeys: message.staticAccountKeys.map((key) => key.toBase58()),
+            recentBlockhash: blockhash,
+            instructions: message.compiledInstructions.map((ix) => ({
+              programIdIndex: ix.programIdIndex,
+              accounts: ix.accountKeyIndexes,
+              data: bs58.encode(ix.data),
+            })),
+          },
+        },
+      },
+    };
+
+    const parsed = parse(JSON.stringify(response));
+
+    expect(parsed.signature).toBe(signature);
+    expect(parsed.slot).toBe(1234);
+    expect(parsed.status).toBe('success');
+    expect(parsed.programInteractions[0]).toMatchObject({
+      instructionType: 'Transfer',
+      details: { to: recipient.toBase58(), lamports: 2500n },
+    });
+    expect(parsed.accounts.map((account) => [account.signer, account.writable])).toEqual([
+      [true, true],
+      [false, true],
+      [false, false],
+    ]);
+  });
+
+  it('loads a base64-encoded v0 result with loaded addresses', () => {
+    const lookupTable = new AddressLookupTableAccount({
+      key: tableAddress,
+      state: {
+        deactivationSlot: BigInt('18446744073709551615'),
+        lastExtendedSlot: 0,
+        lastExtendedSlotStartIndex: 0,
+        addresses: [recipient],
+      },
+    });
+    const message = new TransactionMessage({
+      payerKey: payer.publicKey,
+      recentBlockhash: blockhash,
+      instructions: [
+        SystemProgram.transfer({ fromPubkey: payer.publicKey, toPubkey: recipient, lamports: 2500 }),
+      ],
+    }).compileToV0Message([lookupTable]);
+    const transaction = new VersionedTransaction(message);
+    transaction.sign([payer]);
+
+    const result = {
+      slot: 99,
+      blockTime: null,
+      version: 0,
+      meta: {
+        ...meta,
+        preBalances: [1_000_000, 1, 0],
+        postBalances: [992_500, 1, 2500],
+        loadedAddresses: { writable: [recipient.toBase58()], readonly: [] },
+      },
+      transaction: [Buffer.from(transaction.serialize()).toString('base64'), 'base64'],
+    };
+
+    const parsed = parse(JSON.stringify(result));
+
+    expect(parsed.accounts[2]).toMatchObject({
+      address: recipient.toBase58(),
+      source: 'lookup-writable',
+      lookupTable: tableAddress.toBase58(),
+    });
+    expect(parsed.programInteractions[0].details).toMatchObject({ to: recipient.toBase58() });
+    expect(parsed.accountChanges.find((change) => change.address === recipient.toBase58())?.balanceChange).toBe(2500n);
+  });
+
+  it('keeps the RPC-parsed form of jsonParsed instructions', () => {
+    const result = {
+      slot: 5,
+      blockTime: null,
+      meta: {
+        ...meta,
+        innerInstructions: [],
+      },
+      transaction: {
+        signatures: ['sig'],
+        message: {
+          accountKeys: [
+            { pubkey: payer.publicKey.toBase58(), signer: true, writable: true, source: 'transaction' },
+            { pubkey: recipient.toBase58(), signer: false, writable: true, source: 'transaction' },
+            { pubkey: systemProgram, signer: false, writable: false, source: 'transaction' },
+          ],
+          recentBlockhash: blockhash,
+          instructions: [
+            {
+              programId: systemProgram,
+              parsed: {
+                type: 'transfer',
+                info: { source: payer.publicKey.toBase58(), destination: recipient.toBase58(), lamports: 2500 },
+              },
+              program: 'system',
+              stackHeight: null,
+            },
+          ],
+        },
+      },
+    };
+
+    const raw = loadSavedTransaction(JSON.stringify(result));
+    expect(raw.transaction.message.header).toEqual({
+      numRequiredSignatures: 1,
+      numReadonlySignedAccounts: 0,
+      numReadonlyUnsignedAccounts: 1,
+    });
+
+    const parsed = new TransactionParser([new SystemProgramDecoder()]).parse(raw);
+    expect(parsed.programInteractions[0]).toMatchObject({
+      programId: systemProgram,
+      instructionType: 'Transfer',
+      details: { from: payer.publicKey.toBase58(), to: recipient.toBase58(), lamports: 2500n },
+    });
+    expect(parsed.tokenTransfers[0]).toMatchObject({
+      symbol: 'SOL',
+      amount: 2500n,
+      from: payer.publicKey.toBase58(),
+      to: recipient.toBase58(),
+    });
+  });
+
+  it('reconstructs and renders token transfers from jsonParsed instructions', () => {
+    const owner = payer.publicKey.toBase58();
+    const [source, destination, mint] = [4, 5, 6].map((n) => new PublicKey(Buffer.alloc(32, n)).toBase58());
+    const tokenBalance = (accountIndex: number, amount: string) => ({
+      accountIndex,
+      mint,
+      owner,
+      programId: TOKEN_PROGRAM,
+      uiTokenAmount: { amount, decimals: 6, uiAmount: Number(amount) / 1e6, uiAmountString: String(Number(amount) / 1e6) },
+    });
+
+    const result = {
+      slot: 6,
+      blockTime: null,
+      meta: {
+        ...meta,
+        preBalances: [1_000_000, 1, 1, 1, 1],
+        postBalances: [995_000, 1, 1, 1, 1],
+        preTokenBalances: [tokenBalance(1, '5000000'), tokenBalance(2, '0')],
+        postTokenBalances: [tokenBalance(1, '2000000'), tokenBalance(2, '3000000')],
+        logMessages: [],
+      },
+      transaction: {
+        signatures: ['sig'],
+        message: {
+          accountKeys: [
+            { pubkey: owner, signer: true, writable: true, source: 'transaction' },
+            { pubkey: source, signer: false, writable: true, source: 'transaction' },
+            { pubkey: destination, signer: false, writable: true, source: 'transaction' },
+            { pubkey: mint, signer: false, writable: false, source: 'transaction' },
+            { pubkey: TOKEN_PROGRAM, signer: false, writable: false, source: 'transaction' },
+          ],
+          recentBlockhash: blockhash,
+          instructions: [
+            {
+              programId: TOKEN_PROGRAM,
+              program: 'spl-token',
+              parsed: { type: 'transfer', info: { source, destination, authority: owner, amount: '1000000' } },
+              stackHeight: null,
+            },
+            {
+              programId: TOKEN_PROGRAM,
+              program: 'spl-token',
+              parsed: {
+                type: 'transferChecked',
+                info: {
+                  source,
+                  mint,
+                  destination,
+                  authority: owner,
+                  tokenAmount: { amount: '2000000', decimals: 6, uiAmount: 2, uiAmountString: '2' },
+                },
+              },
+              stackHeight: null,
+            },
+          ],
+        },
+      },
+    };
+
+    const parsed = new TransactionParser([]).parse(loadSavedTransaction(JSON.stringify(result)));
+
+    expect(parsed.programInteractions[1]).toMatchObject({
+      instructionType: 'TransferChecked',
+      details: { source, destination, mint, amount: 2000000n, decimals: 6 },
+    });
+    expect(parsed.tokenTransfers).toMatchObject([
+      { mint, amount: 1000000n, decimals: 6, from: source, to: destination, instructionIndex: 0 },
+      { mint, amount: 2000000n, decimals: 6, from: source, to: destination, instructionIndex: 1 },
+    ]);
+
+    const output = new HumanReadableFormatter(false).format(parsed);
+    expect(output).toContain('Amount: 1');
+    expect(output).toContain('Amount: 2');
+    expect(output).not.toContain('undefined');
+  });
+
+  it('reports a missing transaction and malformed input', () => {
+    const notFound = () => loadSavedTransaction(JSON.stringify({ jsonrpc: '2.0', id: 1, result: null }));
+    expect(notFound).toThrow(TxLensError);
+    try {
+      notFound();
+    } catch (error) {
+      expect((error as TxLensError).code).toBe(ErrorCode.TRANSACTION_NOT_FOUND);
+    }
+
+    expect(() => loadSavedTransaction('{ not json')).toThrow('Input is not valid JSON');
+    expect(() => loadSavedTransaction(JSON.stringify({ slot: 1 }))).toThrow('not a getTransaction result');
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { RpcClient } from '../../../src/rpc/RpcClient';
+import { backoffDelay, parseRetryAfter, DEFAULT_RETRY_OPTIONS } from '../../../src/rpc/transport';
+import { ErrorCode, TxLensError } from '../../../src/utils/errors';
+
+const PRIMARY = 'https://primary.example.com/';
+const BACKUP = 'https://backup.example.com/';
+
+/**
+ * Stub fetch with a handler per endpoint URL
+ */
+function stubFetch(handlers: Record<string, () => Response>) {
+  const calls: string[] = [];
+  vi.stubGlobal('fetch', async (input: string, init: RequestInit) => {
+    calls.push(String(input));
+    const response = handlers[String(input)]();
+    if (response.status !== 200) {
+      return response;
+    }
+    const { id } = JSON.parse(String(init.body));
+    return new Response(JSON.stringify({ jsonrpc: '2.0', id, result: await response.json() }));
+  });
+  return calls;
+}
+
+const version = () => new Response(JSON.stringify({ 'solana-core': '1.18.0', 'feature-set': 1 }));
+const rateLimited = () => new Response('', { status: 429, headers: { 'Retry-After': '0' } });
+const unavailable = () => new Response('', { status: 503 });
+
+describe('RpcClient transport', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('fails over to the next endpoint and tracks health', async () => {
+    const calls = stubFetch({ [PRIMARY]: rateLimited, [BACKUP]: version });
+    const client = new RpcClient([PRIMARY, BACKUP], { retry: { baseDelayMs: 1 } });
+
+    await expect(client.validateConnection()).resolves.toBe(true);
+
+    expect(calls).toEqual([PRIMARY, BACKUP]);
+    const [primary, backup] = client.getEndpointHealth();
+    expect(primary).toMatchObject({ failures: 1, consecutiveFailures: 1 });
+    expect(primary.lastError).toContain(ErrorCode.RPC_RATE_LIMITED);
+    expect(backup).toMatchObject({ successes: 1, failures: 0 });
+  });
+
+  it('retries a single endpoint with backoff before giving up', async () => {
+    const calls = stubFetch({ [PRIMARY]: unavailable });
+    const client = new RpcClient(PRIMARY, { retry: { maxRetries: 2, baseDelayMs: 1 } });
+
+    const error = await client.validateConnection().catch((e) => e);
+
+    expect(calls).toHaveLength(3);
+    expect(error).toBeInstanceOf(TxLensError);
+    expect(error.code).toBe(ErrorCode.RPC_CONNECTION_FAILED);
+    expect(error.details).toMatchObject({ attempts: 3, endpointsTried: [PRIMARY] });
+  });
+
+  it('records every endpoint tried when all are rate limited', async () => {
+    stubFetch({ [PRIMARY]: rateLimited, [BACKUP]: rateLimited });
+    const client = new RpcClient([PRIMARY, BACKUP], { retry: { maxRetries: 1, baseDelayMs: 1 } });
+
+    const error = await client.validateConnection().catch((e) => e);
+
+    expect(error.code).toBe(ErrorCode.RPC_RATE_LIMITED);
+    expect(error.details.endpointsTried).toEqual([PRIMARY, BACKUP]);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('accepts seconds and HTTP dates', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+
+    const inFiveSeconds = new Date(Date.now() + 5000).toUTCString();
+    expect(parseRetryAfter(inFiveSeconds)).toBeGreaterThan(3000);
+  });
+});
+
+describe('backoffDelay', () => {
+  it('grows exponentially up to the cap, with jitter', () => {
+    const options = { ...DEFAULT_RETRY_OPTIONS, baseDelayMs: 100, maxDelayMs: 1000 };
+
+    expect(backoffDelay(0, options, () => 0.999)).toBe(99);
+    expect(backoffDelay(2, options, () => 0.999)).toBe(399);
+    expect(backoffDelay(10, options, () => 0.999)).toBe(999);
+    expect(backoffDelay(2, options, () => 0)).toBe(0);
+  });
+});
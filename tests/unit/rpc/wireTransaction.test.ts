@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import bs58 from 'bs58';
+import {
+  AddressLookupTableAccount,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { decodeWireTransaction } from '../../../src/rpc/wireTransaction';
+import { TransactionParser } from '../../../src/parser/TransactionParser';
+import { SystemProgramDecoder } from '../../../src/parser/SystemProgramDecoder';
+import { TxLensError } from '../../../src/utils/errors';
+
+const payer = Keypair.fromSeed(Buffer.alloc(32, 1));
+const recipient = new PublicKey(Buffer.alloc(32, 2));
+const tableAddress = new PublicKey(Buffer.alloc(32, 3));
+const loaded = new PublicKey(Buffer.alloc(32, 4));
+
+function v0Transaction(sign: boolean): VersionedTransaction {
+  const lookupTable = new AddressLookupTableAccount({
+    key: tableAddress,
+    state: {
+      deactivationSlot: BigInt('18446744073709551615'),
+      lastExtendedSlot: 0,
+      lastExtendedSlotStartIndex: 0,
+      addresses: [recipient, loaded],
+    },
+  });
+
+  const message = new TransactionMessage({
+    payerKey: payer.publicKey,
+    recentBlockhash: bs58.encode(Buffer.alloc(32, 9)),
+    instructions: [
+      SystemProgram.transfer({ fromPubkey: payer.publicKey, toPubkey: loaded, lamports: 2500 }),
+    ],
+  }).compileToV0Message([lookupTable]);
+
+  const transaction = new VersionedTransaction(message);
+  if (sign) {
+    transaction.sign([payer]);
+  }
+  return transaction;
+}
+
+describe('decodeWireTransaction', () => {
+  it('decodes a signed v0 transaction and leaves lookups unresolved without an RPC', async () => {
+    const encoded = Buffer.from(v0Transaction(true).serialize()).toString('base64');
+
+    const raw = await decodeWireTransaction(encoded);
+
+    expect(raw.meta).toBeNull();
+    expect(raw.slot).toBeNull();
+    expect(raw.transaction.signatures[0]).toHaveLength(88);
+    expect(raw.transaction.message.accountKeys).toEqual([
+      { pubkey: payer.publicKey.toBase58(), signer: true, writable: true },
+      { pubkey: SystemProgram.programId.toBase58(), signer: false, writable: false },
+      { pubkey: `lookup:${tableAddress.toBase58()}[1]`, signer: false, writable: true },
+    ]);
+  });
+
+  it('resolves lookup tables through the given resolver and accepts base58', async () => {
+    const encoded = bs58.encode(v0Transaction(false).serialize());
+
+    const raw = await decodeWireTransaction(encoded, async (lookups) => {
+      expect(lookups).toEqual([
+        { accountKey: tableAddress.toBase58(), writableIndexes: [1], readonlyIndexes: [] },
+      ]);
+      return { writable: [loaded.toBase58()], readonly: [] };
+    });
+
+    expect(raw.transaction.signatures).toEqual(['']);
+
+    const parsed = new TransactionParser([new SystemProgramDecoder()]).parse(raw);
+    expect(parsed.status).toBe('unknown');
+    expect(parsed.signature).toBe('');
+    expect(parsed.signatures).toEqual([{ signer: payer.publicKey.toBase58(), signature: null }]);
+    expect(parsed.accountChanges).toEqual([]);
+    expect(parsed.programInteractions[0].details).toMatchObject({ to: loaded.toBase58(), lamports: 2500n });
+    expect(parsed.accounts[2]).toMatchObject({ source: 'lookup-writable', lookupTable: tableAddress.toBase58() });
+    expect(parsed.fee).toEqual({ total: 5000, base: 5000, priority: 0 });
+  });
+
+  it('rejects input that is not a serialized transaction', async () => {
+    await expect(decodeWireTransaction('not a transaction!')).rejects.toThrow(TxLensError);
+  });
+});
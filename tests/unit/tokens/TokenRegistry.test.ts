@@ -0,0 +1,162 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { TokenRegistry } from '../../../src/tokens/TokenRegistry';
+import { TokenMetadataCache } from '../../../src/tokens/TokenMetadataCache';
+import {
+  parseMetaplexMetadata,
+  parseToken2022Metadata,
+} from '../../../src/tokens/tokenMetadata';
+import { metaplexMetadataAddress } from '../../../src/parser/addressDerivation';
+import { RpcClient } from '../../../src/rpc/RpcClient';
+import { ParsedTransaction, TokenTransfer } from '../../../src/parser/types';
+import { borshString } from '../../fixtures/borsh';
+
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const FAKE_USDC = 'Fake111111111111111111111111111111111111111';
+const TOKEN_2022_MINT = 'Mint111111111111111111111111111111111111111';
+const TOKEN_PROGRAM = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+const TOKEN_2022_PROGRAM = 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb';
+const METADATA_PROGRAM = 'metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s';
+
+function mintAccount(decimals: number, extensions: Buffer = Buffer.alloc(0)): Buffer {
+  const base = Buffer.alloc(82);
+  base[44] = decimals;
+  base[45] = 1;
+  if (extensions.length === 0) {
+    return base;
+  }
+  // Padded to the token account size, then the account type byte and TLV extensions
+  return Buffer.concat([base, Buffer.alloc(165 - 82), Buffer.from([1]), extensions]);
+}
+
+function metaplexAccount(name: string, symbol: string, uri: string): Buffer {
+  return Buffer.concat([
+    Buffer.from([4]),
+    Buffer.alloc(64),
+    borshString(name, 32),
+    borshString(symbol, 10),
+    borshString(uri, 200),
+  ]);
+}
+
+function token2022MetadataExtension(name: string, symbol: string, uri: string): Buffer {
+  const value = Buffer.concat([Buffer.alloc(64), borshString(name), borshString(symbol), borshString(uri), Buffer.alloc(4)]);
+  const header = Buffer.alloc(4);
+  header.writeUInt16LE(19, 0);
+  header.writeUInt16LE(value.length, 2);
+  // A metadata pointer extension precedes it
+  const pointer = Buffer.alloc(4 + 64);
+  pointer.writeUInt16LE(18, 0);
+  pointer.writeUInt16LE(64, 2);
+  return Buffer.concat([pointer, header, value]);
+}
+
+function transfer(mint: string): TokenTransfer {
+  return { mint, amount: 1n, decimals: 6, from: 'a', to: 'b', source: 'balance' };
+}
+
+function transaction(...mints: string[]): ParsedTransaction {
+  return { accounts: [], netChanges: [], swaps: [], tokenTransfers: mints.map(transfer) } as ParsedTransaction;
+}
+
+function fakeRpc(accounts: Record<string, { owner: string; data: Buffer }>) {
+  const getMultipleAccounts = vi.fn(async (addresses: string[]) =>
+    addresses.map((address) => accounts[address] ?? null)
+  );
+  return { rpcClient: { getMultipleAccounts } as unknown as RpcClient, getMultipleAccounts };
+}
+
+describe('TokenRegistry', () => {
+  let directory: string | undefined;
+
+  afterEach(() => {
+    if (directory) {
+      rmSync(directory, { recursive: true, force: true });
+      directory = undefined;
+    }
+  });
+
+  it('names tokens from the bundled list as verified', async () => {
+    const annotated = await new TokenRegistry().annotate(transaction(USDC, FAKE_USDC));
+
+    expect(annotated.tokenTransfers[0]).toMatchObject({ symbol: 'USDC', name: 'USD Coin', verified: true });
+    expect(annotated.tokenTransfers[1].symbol).toBeUndefined();
+  });
+
+  it('takes user lists over the bundled list', async () => {
+    directory = mkdtempSync(join(tmpdir(), 'txlens-tokens-'));
+    const list = join(directory, 'tokens.json');
+    writeFileSync(list, JSON.stringify({
+      tokens: [
+        { chainId: 101, address: USDC, symbol: 'USDC', name: 'Circle USD', decimals: 6, logoURI: 'https://example.com/usdc.png' },
+        { chainId: 103, address: FAKE_USDC, symbol: 'DEV', name: 'Devnet only' },
+      ],
+    }));
+
+    const annotated = await new TokenRegistry({ lists: [list] }).annotate(transaction(USDC, FAKE_USDC));
+
+    expect(annotated.tokenTransfers[0]).toMatchObject({ name: 'Circle USD', logoURI: 'https://example.com/usdc.png' });
+    expect(annotated.tokenTransfers[1].symbol).toBeUndefined();
+  });
+
+  it('resolves unknown mints on-chain as unverified and flags lookalikes', async () => {
+    const { rpcClient } = fakeRpc({
+      [FAKE_USDC]: { owner: TOKEN_PROGRAM, data: mintAccount(6) },
+      [metaplexMetadataAddress(FAKE_USDC)]: { owner: METADATA_PROGRAM, data: metaplexAccount('USD Coin', 'usdc', 'https://example.com/x.json') },
+      [TOKEN_2022_MINT]: { owner: TOKEN_2022_PROGRAM, data: mintAccount(2, token2022MetadataExtension('Points', 'PTS', '')) },
+    });
+
+    const registry = new TokenRegistry({ rpcClient });
+    const annotated = await registry.annotate(transaction(FAKE_USDC, TOKEN_2022_MINT));
+
+    expect(annotated.tokenTransfers[0]).toMatchObject({ symbol: 'usdc', verified: false, impersonates: USDC });
+    expect(annotated.tokenTransfers[1]).toMatchObject({ symbol: 'PTS', name: 'Points', verified: false });
+    expect(annotated.tokenTransfers[1].impersonates).toBeUndefined();
+    expect(registry.get(TOKEN_2022_MINT)).toMatchObject({ decimals: 2, source: 'token-2022' });
+  });
+
+  it('caches resolved metadata, including mints without any', async () => {
+    directory = mkdtempSync(join(tmpdir(), 'txlens-tokens-'));
+    const { rpcClient, getMultipleAccounts } = fakeRpc({
+      [TOKEN_2022_MINT]: { owner: TOKEN_2022_PROGRAM, data: mintAccount(2, token2022MetadataExtension('Points', 'PTS', '')) },
+    });
+
+    await new TokenRegistry({ rpcClient, cache: new TokenMetadataCache(directory) })
+      .annotate(transaction(TOKEN_2022_MINT, FAKE_USDC));
+    const annotated = await new TokenRegistry({ rpcClient, cache: new TokenMetadataCache(directory) })
+      .annotate(transaction(TOKEN_2022_MINT, FAKE_USDC));
+
+    expect(getMultipleAccounts).toHaveBeenCalledTimes(1);
+    expect(annotated.tokenTransfers[0].symbol).toBe('PTS');
+  });
+
+  it('leaves tokens unnamed when the RPC fails', async () => {
+    const rpcClient = { getMultipleAccounts: vi.fn().mockRejectedValue(new Error('down')) } as unknown as RpcClient;
+
+    const annotated = await new TokenRegistry({ rpcClient }).annotate(transaction(FAKE_USDC));
+    expect(annotated.tokenTransfers[0].symbol).toBeUndefined();
+  });
+});
+
+describe('token metadata parsing', () => {
+  it('strips the padding from Metaplex metadata', () => {
+    expect(parseMetaplexMetadata(metaplexAccount('Bonk', 'Bonk', ''))).toEqual({
+      name: 'Bonk',
+      symbol: 'Bonk',
+      uri: undefined,
+      source: 'metaplex',
+    });
+    expect(parseMetaplexMetadata(Buffer.alloc(10))).toBeNull();
+  });
+
+  it('finds the Token-2022 metadata extension among other extensions', () => {
+    expect(parseToken2022Metadata(mintAccount(6, token2022MetadataExtension('PayPal USD', 'PYUSD', 'https://example.com')))).toMatchObject({
+      name: 'PayPal USD',
+      symbol: 'PYUSD',
+      uri: 'https://example.com',
+    });
+    expect(parseToken2022Metadata(mintAccount(6))).toBeNull();
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { lamportsToSol, formatTokenAmount } from '../../../src/utils/amountFormatter';
+
+describe('amountFormatter', () => {
+  describe('lamportsToSol', () => {
+    it('formats lamports without trailing zeros', () => {
+      expect(lamportsToSol(1_500_000_000)).toBe('1.5');
+      expect(lamportsToSol(7000)).toBe('0.000007');
+      expect(lamportsToSol(0)).toBe('0');
+    });
+
+    it('keeps the sign of negative amounts', () => {
+      expect(lamportsToSol(-16_294_598n)).toBe('-0.016294598');
+    });
+  });
+
+  describe('formatTokenAmount', () => {
+    it('formats amounts above 2^53 exactly', () => {
+      expect(formatTokenAmount(18_446_744_073_709_551_615n, 9)).toBe('18446744073.709551615');
+      expect(formatTokenAmount('9007199254740993', 9)).toBe('9007199.254740993');
+    });
+
+    it('handles zero decimals', () => {
+      expect(formatTokenAmount(42n, 0)).toBe('42');
+    });
+  });
+});
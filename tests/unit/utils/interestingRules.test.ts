@@ -0,0 +1,223 @@
+import { describe, it, expect } from 'vitest';
+import bs58 from 'bs58';
+import { TransactionParser } from '../../../src/parser/TransactionParser';
+import { IdlDecoder } from '../../../src/parser/decoders/IdlDecoder';
+import { ParsedTransaction, ProgramInteraction, Swap, TokenTransfer } from '../../../src/parser/types';
+import {
+  createCustomRule,
+  scoreTransaction,
+  scoreTransactions,
+  filterByScore,
+  filterByTags,
+  DEFAULT_RULES,
+} from '../../../src/utils/interestingRules';
+import { buildTransaction, FEE_PAYER } from '../../fixtures/transactions';
+import { anchorDiscriminator, u64 } from '../../fixtures/borsh';
+
+const POOL = bs58.encode(Buffer.alloc(32, 7));
+const OTHER_PROGRAM = bs58.encode(Buffer.alloc(32, 8));
+const JUPITER = 'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4';
+const TOKEN_PROGRAM = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+const MINT = bs58.encode(Buffer.alloc(32, 6));
+
+function parseSwap() {
+  const decoder = new IdlDecoder();
+  decoder.addIdl(
+    {
+      name: 'pool',
+      instructions: [],
+      events: [{ name: 'SwapEvent', fields: [{ name: 'amount', type: 'u64', index: false }] }],
+    },
+    POOL
+  );
+  const event = Buffer.concat([anchorDiscriminator('SwapEvent', 'event'), u64(42n)]);
+
+  return new TransactionParser([decoder]).parse(
+    buildTransaction({
+      accountKeys: [FEE_PAYER, POOL],
+      instructions: [{ programIdIndex: 1, accounts: [0], data: '' }],
+      meta: {
+        logMessages: [
+          `Program ${POOL} invoke [1]`,
+          `Program data: ${event.toString('base64')}`,
+          `Program ${POOL} success`,
+        ],
+      },
+    })
+  );
+}
+
+/**
+ * A parsed fee-only transaction with the given fields replaced
+ */
+function parsedWith(overrides: Partial<ParsedTransaction>): ParsedTransaction {
+  return { ...new TransactionParser([]).parse(buildTransaction()), ...overrides };
+}
+
+function interaction(programId: string, instructionType: string, details: Record<string, any> = {}): ProgramInteraction {
+  return { programId, instructionType, details, instructionIndex: 0, stackHeight: 1, children: [], events: [] };
+}
+
+function tokenTransfer(mint: string = MINT): TokenTransfer {
+  return { mint, amount: 1n, decimals: 0, from: FEE_PAYER, to: POOL, source: 'instruction' };
+}
+
+function swap(overrides: Partial<Swap> = {}): Swap {
+  return {
+    trader: FEE_PAYER,
+    inputMint: 'SOL',
+    inputAmount: 1n,
+    inputDecimals: 9,
+    outputMint: MINT,
+    outputAmount: 1n,
+    outputDecimals: 6,
+    venues: [],
+    effectivePrice: 1,
+    ...overrides,
+  };
+}
+
+function tagsOf(overrides: Partial<ParsedTransaction>): string[] {
+  return scoreTransaction(parsedWith(overrides)).tags;
+}
+
+function lamportsMoved(sol: number) {
+  return [{ address: FEE_PAYER, balanceChange: BigInt(-sol * 1_000_000_000), isFeePayer: true }];
+}
+
+describe('DEFAULT_RULES', () => {
+  it('grades SOL movements by size', () => {
+    expect(tagsOf({ accountChanges: lamportsMoved(150) })).toEqual(['whale_move']);
+    expect(tagsOf({ accountChanges: lamportsMoved(60) })).toEqual(['large_move']);
+    expect(tagsOf({ accountChanges: lamportsMoved(20) })).toEqual(['medium_move']);
+    expect(tagsOf({ accountChanges: lamportsMoved(1) })).toEqual([]);
+  });
+
+  it('tells new tokens from NFT mints, including mints created through CPIs', () => {
+    const token = interaction(TOKEN_PROGRAM, 'InitializeMint2', { decimals: 6 });
+    const nft = interaction(TOKEN_PROGRAM, 'InitializeMint', { decimals: 0 });
+
+    expect(tagsOf({ programInteractions: [token] })).toEqual(['new_token']);
+    expect(tagsOf({ programInteractions: [{ ...interaction(POOL, 'Launch'), children: [nft] }] })).toEqual(['nft_mint']);
+  });
+
+  it('flags heavy compute use and high fees', () => {
+    expect(tagsOf({ computeUnits: { used: 1_200_000, limit: 1_400_000, price: 0n } })).toEqual(['high_compute']);
+
+    const scored = scoreTransaction(parsedWith({ fee: { total: 20_000_000, base: 5000, priority: 19_995_000 } }));
+    expect(scored.tags).toEqual(['high_fee']);
+    expect(scored.reasons).toEqual(['0.020000 SOL fee']);
+  });
+
+  it('names watched DeFi programs and swap routes', () => {
+    const jupiter = { programId: JUPITER, name: 'Jupiter' };
+    const pool = { programId: POOL };
+
+    expect(scoreTransaction(parsedWith({ programInteractions: [interaction(JUPITER, 'Route')] })).reasons).toEqual([
+      'Interacts with Jupiter Aggregator',
+    ]);
+    expect(scoreTransaction(parsedWith({ swaps: [swap({ aggregator: jupiter, venues: [pool] })] })).reasons).toEqual([
+      'Swap via Jupiter',
+    ]);
+    expect(scoreTransaction(parsedWith({ swaps: [swap({ venues: [pool] }), swap({ venues: [pool] })] })).reasons).toEqual([
+      `Swap via ${POOL}`,
+    ]);
+    expect(scoreTransaction(parsedWith({ swaps: [swap()] })).reasons).toEqual(['Swap']);
+  });
+
+  it('counts token transfers, ignoring SOL', () => {
+    const sol = tokenTransfer('SOL');
+
+    expect(tagsOf({ tokenTransfers: [sol] })).toEqual([]);
+    expect(tagsOf({ tokenTransfers: [sol, tokenTransfer()] })).toEqual(['token_transfer']);
+    expect(tagsOf({ tokenTransfers: Array.from({ length: 6 }, () => tokenTransfer()) })).toEqual(['multi_token']);
+  });
+
+  it('grades transactions by how many programs they use', () => {
+    const programs = (count: number) =>
+      Array.from({ length: count }, (_, i) => interaction(bs58.encode(Buffer.alloc(32, 20 + i)), 'Unknown'));
+
+    expect(tagsOf({ programInteractions: programs(3) })).toEqual([]);
+    expect(tagsOf({ programInteractions: programs(4) })).toEqual(['multi_program']);
+    expect(tagsOf({ programInteractions: programs(6) })).toEqual(['complex']);
+  });
+
+  it('explains failed transactions when the failure is known', () => {
+    const failure = { rawError: {}, errorName: 'InsufficientFunds', message: 'Insufficient funds' };
+
+    expect(scoreTransaction(parsedWith({ status: 'failed', failure })).reasons).toEqual([
+      'Transaction failed: InsufficientFunds',
+    ]);
+    expect(scoreTransaction(parsedWith({ status: 'failed' })).reasons).toEqual(['Transaction failed']);
+  });
+
+  it('flags transactions using most of their compute unit limit', () => {
+    const scored = scoreTransaction(parsedWith({ computeUnits: { used: 190_000, limit: 200_000, price: 0n } }), DEFAULT_RULES);
+
+    expect(scored.tags).toEqual(['compute_intensive']);
+    expect(scored.reasons).toEqual(['95.0% compute used']);
+  });
+
+  it('does not flag a compute unit limit of 0 as compute intensive', () => {
+    const scored = scoreTransaction(parsedWith({ computeUnits: { used: 150, limit: 0, price: 0n } }), DEFAULT_RULES);
+
+    expect(scored.tags).toEqual([]);
+    expect(scored.topTag).toBe('unknown');
+  });
+});
+
+describe('createCustomRule', () => {
+  it('matches decoded events by name or by program and name', () => {
+    const rules = [
+      createCustomRule({ tag: 'any_swap', score: 3, events: ['SwapEvent'] }),
+      createCustomRule({ tag: 'pool_swap', score: 7, events: [`${POOL}:SwapEvent`] }),
+      createCustomRule({ tag: 'other_swap', score: 9, events: [`${OTHER_PROGRAM}:SwapEvent`] }),
+      createCustomRule({ tag: 'deposit', score: 9, events: ['DepositEvent'] }),
+    ];
+
+    const scored = scoreTransaction(parseSwap(), rules);
+
+    expect(scored.tags).toEqual(['any_swap', 'pool_swap']);
+    expect(scored.totalScore).toBe(10);
+    expect(scored.topTag).toBe('pool_swap');
+  });
+
+  it('requires every condition given to hold', () => {
+    const rule = createCustomRule({
+      tag: 'big_pool_withdrawal',
+      score: 5,
+      programs: [POOL],
+      accounts: [FEE_PAYER],
+      instructionTypes: ['Withdraw'],
+      minSolMoved: 10,
+      status: 'success',
+    });
+    const matching = {
+      programInteractions: [{ ...interaction(OTHER_PROGRAM, 'Route'), children: [interaction(POOL, 'Withdraw')] }],
+      accountChanges: lamportsMoved(20),
+    };
+
+    expect(scoreTransaction(parsedWith(matching), [rule]).tags).toEqual(['big_pool_withdrawal']);
+    expect(scoreTransaction(parsedWith(matching), [rule]).reasons).toEqual(['big_pool_withdrawal']);
+    expect(scoreTransaction(parsedWith({ ...matching, programInteractions: [interaction(POOL, 'Deposit')] }), [rule]).tags).toEqual([]);
+    expect(scoreTransaction(parsedWith({ ...matching, programInteractions: [interaction(OTHER_PROGRAM, 'Withdraw')] }), [rule]).tags).toEqual([]);
+    expect(scoreTransaction(parsedWith({ ...matching, accounts: [] }), [rule]).tags).toEqual([]);
+    expect(scoreTransaction(parsedWith({ ...matching, accountChanges: lamportsMoved(5) }), [rule]).tags).toEqual([]);
+    expect(scoreTransaction(parsedWith({ ...matching, status: 'failed' }), [rule]).tags).toEqual([]);
+  });
+});
+
+describe('scoreTransactions', () => {
+  it('sorts by score and filters by score and tag', () => {
+    const quiet = parsedWith({});
+    const whale = parsedWith({ accountChanges: lamportsMoved(150) });
+    const failed = parsedWith({ status: 'failed' });
+
+    const scored = scoreTransactions([quiet, failed, whale]);
+
+    expect(scored.map((s) => s.transaction)).toEqual([whale, failed, quiet]);
+    expect(filterByScore(scored).map((s) => s.topTag)).toEqual(['whale_move', 'failed']);
+    expect(filterByScore(scored, 6).map((s) => s.topTag)).toEqual(['whale_move']);
+    expect(filterByTags(scored, ['failed', 'nft_mint']).map((s) => s.transaction)).toEqual([failed]);
+  });
+});
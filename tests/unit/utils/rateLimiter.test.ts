@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { RateLimiter } from '../../../src/utils/rateLimiter';
+
+describe('RateLimiter', () => {
+  it('spaces acquisitions according to the rate', async () => {
+    const limiter = new RateLimiter(50);
+
+    const startedAt = Date.now();
+    await Promise.all([limiter.acquire(), limiter.acquire(), limiter.acquire(), limiter.acquire()]);
+
+    // Four slots at 50/s: the last one starts 60ms after the first
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(55);
+  });
+
+  it('does not wait when disabled', async () => {
+    const limiter = new RateLimiter(0);
+
+    const startedAt = Date.now();
+    for (let i = 0; i < 100; i++) {
+      await limiter.acquire();
+    }
+
+    expect(Date.now() - startedAt).toBeLessThan(50);
+  });
+});